@@ -1,5 +1,6 @@
 import request from 'supertest';
 import { createApp } from './app';
+import { createUnsubscribeToken } from './utils/unsubscribeToken';
 
 describe('Express Application Setup', () => {
   const app = createApp();
@@ -58,6 +59,20 @@ describe('Express Application Setup', () => {
       // Should not return 404, but may return 401 for missing auth
       expect(response.status).not.toBe(404);
     });
+
+    it('should ask to confirm an unsubscribe link before acting on it', async () => {
+      const token = createUnsubscribeToken('507f1f77bcf86cd799439011', 'MENTION');
+
+      const response = await request(app).get(`/api/email/unsubscribe?token=${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.type).toBe('text/html');
+      expect(response.text).toContain(`<form method="post" action="?token=${token}">`);
+
+      const forged = await request(app).get('/api/email/unsubscribe?token=forged.token');
+      expect(forged.status).toBe(400);
+      expect(forged.text).not.toContain('<form');
+    });
   });
 
   describe('404 Handler', () => {
@@ -8,8 +8,19 @@ import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 // Import routes
 import authRoutes from './routes/authRoutes';
 import taskRoutes from './routes/taskRoutes';
+import commentRoutes from './routes/commentRoutes';
+import checklistRoutes from './routes/checklistRoutes';
+import dependencyRoutes from './routes/dependencyRoutes';
+import attachmentRoutes from './routes/attachmentRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 import userRoutes from './routes/userRoutes';
+import workspaceRoutes from './routes/workspaceRoutes';
+import adminRoutes from './routes/adminRoutes';
+import workflowRoutes from './routes/workflowRoutes';
+import labelRoutes from './routes/labelRoutes';
+import searchRoutes from './routes/searchRoutes';
+import savedViewRoutes from './routes/savedViewRoutes';
+import emailRoutes from './routes/emailRoutes';
 
 /**
  * Create and configure Express application
@@ -27,7 +38,9 @@ export function createApp(): Application {
       origin: config.corsOrigin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+      // Task versions, sent back as If-Match
+      exposedHeaders: ['ETag'],
     })
   );
 
@@ -49,9 +62,20 @@ export function createApp(): Application {
 
   // API Routes
   app.use('/api/auth', authRoutes);
+  app.use('/api/tasks/:id/comments', commentRoutes);
+  app.use('/api/tasks/:id/checklist', checklistRoutes);
+  app.use('/api/tasks/:id/dependencies', dependencyRoutes);
+  app.use('/api/tasks/:id/attachments', attachmentRoutes);
   app.use('/api/tasks', taskRoutes);
   app.use('/api/notifications', notificationRoutes);
   app.use('/api/users', userRoutes);
+  app.use('/api/workspaces', workspaceRoutes);
+  app.use('/api/workflow', workflowRoutes);
+  app.use('/api/labels', labelRoutes);
+  app.use('/api/search', searchRoutes);
+  app.use('/api/views', savedViewRoutes);
+  app.use('/api/email', emailRoutes);
+  app.use('/api/admin', adminRoutes);
 
   // 404 handler for undefined routes
   app.use(notFoundHandler);
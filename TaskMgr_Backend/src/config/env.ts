@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { parseDuration, parseDurationList } from '../utils/duration';
 
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
@@ -9,9 +10,38 @@ export interface EnvConfig {
   mongodbUri: string;
   jwtSecret: string;
   jwtExpiresIn: string;
+  refreshTokenTtlMs: number;
   corsOrigin: string;
   bcryptSaltRounds: number;
   socketIoCorsOrigin: string;
+  deadlineReminderWindows: number[];
+  deadlineReminderIntervalMs: number;
+  recurrenceIntervalMs: number;
+  trashRetentionDays: number;
+  trashPurgeIntervalMs: number;
+  archiveAfterDays: number;
+  archiveIntervalMs: number;
+  attachmentStorage: string;
+  attachmentStorageDir: string;
+  attachmentMaxSizeBytes: number;
+  attachmentAllowedTypes: string[];
+  appUrl: string;
+  apiUrl: string;
+  emailTransport: string;
+  emailFrom: string;
+  emailOutboxDir: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    allowInsecure: boolean;
+  };
+  emailQueueIntervalMs: number;
+  emailMaxAttempts: number;
+  emailRetryDelayMs: number;
+  digestIntervalMs: number;
 }
 
 const validateEnv = (): void => {
@@ -56,7 +86,8 @@ const getConfig = (): EnvConfig => {
     
     // JWT Configuration
     jwtSecret: process.env.JWT_SECRET || 'default-secret-key-change-in-production',
-    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
+    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenTtlMs: parseDuration(process.env.REFRESH_TOKEN_EXPIRES_IN || '30d'),
     
     // CORS Configuration
     corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3001',
@@ -66,6 +97,52 @@ const getConfig = (): EnvConfig => {
     
     // Socket.IO Configuration
     socketIoCorsOrigin: process.env.SOCKET_IO_CORS_ORIGIN || 'http://localhost:3001',
+
+    // Deadline Reminder Configuration
+    deadlineReminderWindows: parseDurationList(process.env.DEADLINE_REMINDER_WINDOWS || '24h,1h'),
+    deadlineReminderIntervalMs: parseDuration(process.env.DEADLINE_REMINDER_INTERVAL || '1m'),
+
+    // Recurring Task Configuration
+    recurrenceIntervalMs: parseDuration(process.env.RECURRENCE_CHECK_INTERVAL || '5m'),
+
+    // Trash Configuration
+    trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    trashPurgeIntervalMs: parseDuration(process.env.TRASH_PURGE_INTERVAL || '1h'),
+
+    // Archival Configuration
+    archiveAfterDays: parseInt(process.env.ARCHIVE_COMPLETED_AFTER_DAYS || '30', 10),
+    archiveIntervalMs: parseDuration(process.env.ARCHIVE_CHECK_INTERVAL || '1h'),
+
+    // Attachment Configuration
+    attachmentStorage: process.env.ATTACHMENT_STORAGE || 'local',
+    attachmentStorageDir: path.resolve(process.cwd(), process.env.ATTACHMENT_STORAGE_DIR || 'uploads'),
+    attachmentMaxSizeBytes: parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '10', 10) * 1024 * 1024,
+    attachmentAllowedTypes: (
+      process.env.ATTACHMENT_ALLOWED_TYPES || 'image/*,application/pdf,text/plain,text/csv,application/zip'
+    )
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean),
+
+    // Email Configuration
+    // Links in emails open the app at APP_URL and the API at API_URL
+    appUrl: (process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3001').replace(/\/+$/, ''),
+    apiUrl: (process.env.API_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/+$/, ''),
+    emailTransport: process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'test' ? 'memory' : 'file'),
+    emailFrom: process.env.EMAIL_FROM || 'TaskMgr <no-reply@taskmgr.local>',
+    emailOutboxDir: path.resolve(process.cwd(), process.env.EMAIL_OUTBOX_DIR || 'outbox'),
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      allowInsecure: process.env.SMTP_ALLOW_INSECURE === 'true',
+    },
+    emailQueueIntervalMs: parseDuration(process.env.EMAIL_QUEUE_INTERVAL || '30s'),
+    emailMaxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10),
+    emailRetryDelayMs: parseDuration(process.env.EMAIL_RETRY_DELAY || '1m'),
+    digestIntervalMs: parseDuration(process.env.DIGEST_INTERVAL || '1d'),
   };
 };
 
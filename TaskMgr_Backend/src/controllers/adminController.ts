@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+import * as adminService from '../services/adminService';
+import { getCursorParams, getTaskFilters } from './taskController';
+import { TaskSort } from '../utils/taskSort';
+
+function getPagination(req: Request) {
+  return {
+    page: parseInt(req.query.page as string) || 1,
+    limit: parseInt(req.query.limit as string) || 20,
+  };
+}
+
+export async function listUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const filters: adminService.AdminUserFilters = {
+      search: req.query.search as string,
+      role: req.query.role as adminService.AdminUserFilters['role'],
+      status: req.query.status as adminService.AdminUserFilters['status'],
+    };
+
+    const result = await adminService.listUsers(filters, getPagination(req));
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deactivateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const adminId = req.user!.userId;
+
+    const user = await adminService.deactivateUser(adminId, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'User deactivated successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reactivateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = await adminService.reactivateUser(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'User reactivated successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateUserRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const adminId = req.user!.userId;
+
+    const user = await adminService.updateUserRole(adminId, req.params.id, req.body.role);
+
+    res.status(200).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const filters = getTaskFilters(req);
+
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const result = await adminService.getTasks(filters, getCursorParams(req, 20) ?? getPagination(req), sort);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const adminId = req.user!.userId;
+
+    const task = await adminService.getTask(adminId, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reassignTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const adminId = req.user!.userId;
+
+    const task = await adminService.reassignTask(adminId, req.params.id, req.body.assignedToId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task reassigned successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
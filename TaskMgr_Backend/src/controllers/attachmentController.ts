@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import * as attachmentService from '../services/attachmentService';
+
+export async function addAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+    const file = req.file!;
+
+    const task = await attachmentService.addAttachment(taskId, userId, {
+      name: file.originalname,
+      mimeType: file.mimetype,
+      content: file.buffer,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachment added successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function downloadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, attachmentId } = req.params;
+
+    const { attachment, content } = await attachmentService.getAttachmentContent(taskId, attachmentId, userId);
+
+    // Always a download, uploaded HTML or SVG must not render on the API origin
+    res.attachment(attachment.name);
+    res.type(attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size);
+
+    content.on('error', next);
+    content.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, attachmentId } = req.params;
+
+    const task = await attachmentService.deleteAttachment(taskId, attachmentId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Attachment deleted successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import * as authService from '../services/authService';
+import * as sessionService from '../services/sessionService';
+
+function getClientInfo(req: Request): sessionService.ClientInfo {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  };
+}
 
 export async function register(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -10,7 +18,7 @@ export async function register(req: Request, res: Response, next: NextFunction):
       password,
       firstName,
       lastName,
-    });
+    }, getClientInfo(req));
 
     res.status(201).json({
       success: true,
@@ -29,7 +37,7 @@ export async function login(req: Request, res: Response, next: NextFunction): Pr
     const result = await authService.login({
       email,
       password,
-    });
+    }, getClientInfo(req));
 
     res.status(200).json({
       success: true,
@@ -41,9 +49,9 @@ export async function login(req: Request, res: Response, next: NextFunction): Pr
   }
 }
 
-export async function logout(_req: Request, res: Response, next: NextFunction): Promise<void> {
+export async function logout(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const result = await authService.logout();
+    const result = await authService.logout(req.user!.userId, req.user!.sessionId);
 
     res.status(200).json({
       success: true,
@@ -74,14 +82,76 @@ export async function changePassword(req: Request, res: Response, next: NextFunc
     const userId = req.user!.userId;
     const { currentPassword, newPassword } = req.body;
 
-    const result = await authService.changePassword(userId, {
+    const { message, ...tokens } = await authService.changePassword(userId, {
       currentPassword,
       newPassword,
+    }, getClientInfo(req));
+
+    res.status(200).json({
+      success: true,
+      message,
+      data: tokens,
     });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await sessionService.refreshSession(refreshToken, getClientInfo(req));
 
     res.status(200).json({
       success: true,
-      message: result.message,
+      data: tokens,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const sessions = await sessionService.listSessions(userId, req.user!.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    await sessionService.revokeSession(userId, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function revokeOtherSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const count = await sessionService.revokeOtherSessions(userId, req.user!.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: `${count} session(s) revoked`,
+      data: { count },
     });
   } catch (error) {
     next(error);
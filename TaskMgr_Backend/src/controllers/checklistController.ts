@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import * as checklistService from '../services/checklistService';
+
+export async function addChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+    const { text, assigneeId } = req.body;
+
+    const task = await checklistService.addChecklistItem(taskId, userId, { text, assigneeId });
+
+    res.status(201).json({
+      success: true,
+      message: 'Checklist item added successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, itemId } = req.params;
+    const { text, done, assigneeId } = req.body;
+
+    const task = await checklistService.updateChecklistItem(taskId, itemId, userId, { text, done, assigneeId });
+
+    res.status(200).json({
+      success: true,
+      message: 'Checklist item updated successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reorderChecklist(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const task = await checklistService.reorderChecklist(taskId, userId, req.body.itemIds);
+
+    res.status(200).json({
+      success: true,
+      message: 'Checklist reordered successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, itemId } = req.params;
+
+    const task = await checklistService.removeChecklistItem(taskId, itemId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Checklist item removed successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
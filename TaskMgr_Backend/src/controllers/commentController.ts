@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import * as commentService from '../services/commentService';
+
+export async function getComments(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const pagination = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    };
+
+    const result = await commentService.getComments(taskId, userId, pagination);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+    const { body } = req.body;
+
+    const comment = await commentService.createComment(taskId, userId, { body });
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: comment,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, commentId } = req.params;
+    const { body } = req.body;
+
+    const comment = await commentService.updateComment(taskId, commentId, userId, { body });
+
+    res.status(200).json({
+      success: true,
+      message: 'Comment updated successfully',
+      data: comment,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, commentId } = req.params;
+
+    const result = await commentService.deleteComment(taskId, commentId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
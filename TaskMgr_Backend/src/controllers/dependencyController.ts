@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import * as dependencyService from '../services/dependencyService';
+
+export async function getDependencies(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const dependencies = await dependencyService.getDependencies(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: dependencies,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const task = await dependencyService.addDependency(taskId, req.body.blockerId, userId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Dependency added successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id: taskId, blockerId } = req.params;
+
+    const task = await dependencyService.removeDependency(taskId, blockerId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Dependency removed successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
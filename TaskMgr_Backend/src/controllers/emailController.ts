@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import * as emailService from '../services/emailService';
+import { ApiError } from '../middleware/errors';
+import { config } from '../config/env';
+import { escapeHtml, notificationEmailReason } from '../email/templates';
+
+// Unsubscribe links open in a browser, so they answer with a page
+function page(title: string, body: string, form = ''): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${body}</p>
+    ${form}
+    <p><a href="${escapeHtml(`${config.appUrl}/#/profile`)}">Manage your notifications</a></p>
+  </body>
+</html>
+`;
+}
+
+function sendFailure(res: Response, error: unknown, next: NextFunction): void {
+  if (error instanceof ApiError && error.statusCode < 500) {
+    res.status(error.statusCode).type('html').send(page('Unsubscribe failed', escapeHtml(error.message)));
+    return;
+  }
+  next(error);
+}
+
+/**
+ * GET /api/email/unsubscribe
+ * Ask to confirm the unsubscribe link of an email
+ * Only the form of the page unsubscribes: link scanners and prefetchers
+ * follow the link without the user, and must not change anything
+ * Public route, the token identifies the user
+ */
+export async function unsubscribePage(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const token = String(req.query.token ?? '');
+    const { type } = emailService.checkUnsubscribeLink(token);
+
+    res
+      .status(200)
+      .type('html')
+      .send(
+        page(
+          'Unsubscribe from these emails?',
+          `You will no longer get an email when ${escapeHtml(notificationEmailReason(type))}.`,
+          `<form method="post" action="?token=${escapeHtml(encodeURIComponent(token))}">
+      <button type="submit">Unsubscribe</button>
+    </form>`
+        )
+      );
+  } catch (error) {
+    sendFailure(res, error, next);
+  }
+}
+
+/**
+ * POST /api/email/unsubscribe
+ * Stop the emails of the notification type of a signed link, from the
+ * confirmation page or the one-click unsubscribe of mail clients (RFC 8058)
+ * Browsers get a page, mail clients JSON
+ * Public route, the token identifies the user
+ */
+export async function unsubscribe(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const fromBrowser = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const result = await emailService.unsubscribe(String(req.query.token ?? ''));
+
+    if (fromBrowser) {
+      res
+        .status(200)
+        .type('html')
+        .send(
+          page(
+            'You are unsubscribed',
+            `You will no longer get an email when ${escapeHtml(notificationEmailReason(result.type))}.`
+          )
+        );
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Unsubscribed successfully',
+      data: result,
+    });
+  } catch (error) {
+    if (fromBrowser) {
+      sendFailure(res, error, next);
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import * as labelService from '../services/labelService';
+
+export async function getLabels(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.query.workspaceId as string | undefined;
+
+    const labels = await labelService.getLabels(userId, workspaceId);
+
+    res.status(200).json({
+      success: true,
+      data: labels,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { name, color, workspaceId } = req.body;
+
+    const label = await labelService.createLabel(userId, { name, color, workspaceId });
+
+    res.status(201).json({
+      success: true,
+      message: 'Label created successfully',
+      data: label,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const labelId = req.params.id;
+    const { name, color } = req.body;
+
+    const label = await labelService.updateLabel(labelId, userId, { name, color });
+
+    res.status(200).json({
+      success: true,
+      message: 'Label updated successfully',
+      data: label,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const labelId = req.params.id;
+
+    const result = await labelService.deleteLabel(labelId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
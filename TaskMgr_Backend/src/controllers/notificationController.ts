@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import * as notificationService from '../services/notificationService';
+import { getCursorParams } from './taskController';
 
 /**
  * Get notifications for the current user
@@ -14,7 +15,7 @@ export async function getNotifications(
     // User ID is attached to request by authentication middleware
     const userId = req.user!.userId;
 
-    const notifications = await notificationService.getNotifications(userId);
+    const notifications = await notificationService.getNotifications(userId, getCursorParams(req, 20));
 
     res.status(200).json({
       success: true,
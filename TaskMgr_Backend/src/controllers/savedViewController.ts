@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import * as savedViewService from '../services/savedViewService';
+
+export async function getViews(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const views = await savedViewService.getViews(userId);
+
+    res.status(200).json({
+      success: true,
+      data: views,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getViewById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const viewId = req.params.id;
+
+    const view = await savedViewService.getViewById(viewId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: view,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createView(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { name, workspaceId, query, sort, layout, pinned, sharedWith } = req.body;
+
+    const view = await savedViewService.createView(userId, {
+      name,
+      workspaceId,
+      query,
+      sort,
+      layout,
+      pinned,
+      sharedWith,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'View created successfully',
+      data: view,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateView(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const viewId = req.params.id;
+    const { name, query, sort, layout, pinned, sharedWith } = req.body;
+
+    const view = await savedViewService.updateView(viewId, userId, { name, query, sort, layout, pinned, sharedWith });
+
+    res.status(200).json({
+      success: true,
+      message: 'View updated successfully',
+      data: view,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteView(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const viewId = req.params.id;
+
+    const result = await savedViewService.deleteView(viewId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
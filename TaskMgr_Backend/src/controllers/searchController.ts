@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import * as searchService from '../services/searchService';
+
+export async function search(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const query = req.query.q as string;
+
+    const results = await searchService.search(userId, query, {
+      types: req.query.types as searchService.SearchType[] | undefined,
+      limit: req.query.limit as unknown as number | undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,22 +1,64 @@
 import { Request, Response, NextFunction } from 'express';
 import * as taskService from '../services/taskService';
+import { TaskSort } from '../utils/taskSort';
+import { CursorParams } from '../utils/cursor';
+
+/**
+ * Task filters of a validated list query
+ * Filters written in the query language (q) take precedence over the matching parameters
+ */
+export function getTaskFilters(req: Request): taskService.TaskFilters {
+  return {
+    status: req.query.status as string[] | undefined,
+    priority: req.query.priority as string[] | undefined,
+    search: req.query.search as string,
+    creatorId: req.query.creatorId as string,
+    assignedToId: req.query.assignedToId as string,
+    scope: req.query.scope as taskService.TaskFilters['scope'],
+    dueAfter: req.query.dueAfter as unknown as Date | undefined,
+    dueBefore: req.query.dueBefore as unknown as Date | undefined,
+    noDueDate: req.query.noDueDate as unknown as boolean | undefined,
+    workspaceId: req.query.workspaceId as string,
+    labels: req.query.labels as string[] | undefined,
+    labelMatch: req.query.labelMatch as taskService.LabelMatch | undefined,
+    includeArchived: req.query.includeArchived as unknown as boolean | undefined,
+    archived: req.query.archived as unknown as boolean | undefined,
+    ...req.taskQuery,
+  };
+}
+
+/**
+ * Cursor page of a validated list query
+ * Returns undefined unless after or before is given, the list is then paged by number or not at all
+ */
+export function getCursorParams(req: Request, defaultLimit: number): CursorParams | undefined {
+  const { after, before } = req.query;
+
+  if (after === undefined && before === undefined) {
+    return undefined;
+  }
+
+  return {
+    after: after as string | undefined,
+    before: before as string | undefined,
+    limit: parseInt(req.query.limit as string) || defaultLimit,
+  };
+}
 
 export async function getTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const userId = req.user!.userId;
 
-    const filters: taskService.TaskFilters = {
-      status: req.query.status as string,
-      priority: req.query.priority as string,
-      search: req.query.search as string,
-    };
+    const filters = getTaskFilters(req);
 
-    const pagination: taskService.PaginationParams = {
+    const pagination = getCursorParams(req, 10) ?? {
       page: parseInt(req.query.page as string) || 1,
       limit: parseInt(req.query.limit as string) || 10,
     };
 
-    const result = await taskService.getTasks(userId, filters, pagination);
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const result = await taskService.getTasks(userId, filters, pagination, sort);
 
     res.status(200).json({
       success: true,
@@ -27,6 +69,22 @@ export async function getTasks(req: Request, res: Response, next: NextFunction):
   }
 }
 
+/**
+ * Version an update is based on, from expectedVersion or an If-Match header
+ * holding the ETag of the task. If-Match: * applies the update whatever the version
+ */
+function getExpectedVersion(req: Request): number | undefined {
+  if (req.body.expectedVersion !== undefined) {
+    return req.body.expectedVersion;
+  }
+
+  const ifMatch = req.get('If-Match');
+  if (!ifMatch || ifMatch === '*') {
+    return undefined;
+  }
+  return Number(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+}
+
 export async function getTaskById(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const userId = req.user!.userId;
@@ -34,6 +92,7 @@ export async function getTaskById(req: Request, res: Response, next: NextFunctio
 
     const task = await taskService.getTaskById(taskId, userId);
 
+    res.set('ETag', `"${task.__v}"`);
     res.status(200).json({
       success: true,
       data: task,
@@ -43,10 +102,26 @@ export async function getTaskById(req: Request, res: Response, next: NextFunctio
   }
 }
 
+export async function getTaskHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const history = await taskService.getTaskHistory(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function createTask(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const userId = req.user!.userId;
-    const { title, description, dueDate, priority, status, assignedToId } = req.body;
+    const { title, description, dueDate, priority, status, assignedToId, workspaceId, recurrence, labels } = req.body;
 
     const taskData: taskService.CreateTaskData = {
       title,
@@ -55,6 +130,9 @@ export async function createTask(req: Request, res: Response, next: NextFunction
       priority,
       status,
       assignedToId,
+      workspaceId,
+      recurrence,
+      labels,
     };
 
     const task = await taskService.createTask(userId, taskData);
@@ -73,7 +151,18 @@ export async function updateTask(req: Request, res: Response, next: NextFunction
   try {
     const userId = req.user!.userId;
     const taskId = req.params.id;
-    const { title, description, dueDate, priority, status, assignedToId } = req.body;
+    const {
+      title,
+      description,
+      dueDate,
+      priority,
+      status,
+      assignedToId,
+      labels,
+      overrideBlockers,
+      recurrence,
+      scope,
+    } = req.body;
 
     const updateData: taskService.UpdateTaskData = {
       title,
@@ -82,10 +171,16 @@ export async function updateTask(req: Request, res: Response, next: NextFunction
       priority,
       status,
       assignedToId,
+      labels,
+      overrideBlockers,
+      recurrence,
+      scope,
+      expectedVersion: getExpectedVersion(req),
     };
 
     const task = await taskService.updateTask(taskId, userId, updateData);
 
+    res.set('ETag', `"${task.__v}"`);
     res.status(200).json({
       success: true,
       message: 'Task updated successfully',
@@ -112,11 +207,151 @@ export async function deleteTask(req: Request, res: Response, next: NextFunction
   }
 }
 
+export async function getTrashedTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const pagination = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    };
+
+    const result = await taskService.getTrashedTasks(userId, req.query.workspaceId as string | undefined, pagination);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function restoreTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const task = await taskService.restoreTask(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task restored successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function purgeTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const result = await taskService.purgeTask(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function archiveTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const task = await taskService.archiveTask(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task archived successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function unarchiveTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const task = await taskService.unarchiveTask(taskId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task unarchived successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setTaskSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const taskId = req.params.id;
+
+    const preferences = await taskService.setTaskSubscription(taskId, userId, req.body.subscription);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task notifications updated successfully',
+      data: preferences,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reorderTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { taskIds } = req.body;
+
+    const tasks = await taskService.reorderTasks(userId, taskIds);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tasks reordered successfully',
+      data: tasks,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function bulkUpdateTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { taskIds, operation, value } = req.body;
+
+    const results = await taskService.bulkUpdateTasks(userId, { taskIds, operation, value });
+    const succeeded = results.filter((result) => result.success).length;
+
+    res.status(200).json({
+      success: true,
+      message: `${succeeded} of ${results.length} tasks updated`,
+      data: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function getAssignedTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const userId = req.user!.userId;
 
-    const tasks = await taskService.getAssignedTasks(userId);
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const tasks = await taskService.getAssignedTasks(userId, sort, getCursorParams(req, 20));
 
     res.status(200).json({
       success: true,
@@ -131,7 +366,9 @@ export async function getCreatedTasks(req: Request, res: Response, next: NextFun
   try {
     const userId = req.user!.userId;
 
-    const tasks = await taskService.getCreatedTasks(userId);
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const tasks = await taskService.getCreatedTasks(userId, sort, getCursorParams(req, 20));
 
     res.status(200).json({
       success: true,
@@ -146,7 +383,9 @@ export async function getOverdueTasks(req: Request, res: Response, next: NextFun
   try {
     const userId = req.user!.userId;
 
-    const tasks = await taskService.getOverdueTasks(userId);
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const tasks = await taskService.getOverdueTasks(userId, sort, getCursorParams(req, 20));
 
     res.status(200).json({
       success: true,
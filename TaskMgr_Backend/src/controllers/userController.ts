@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import * as userService from '../services/userService';
+import * as notificationPreferenceService from '../services/notificationPreferenceService';
 
 /**
  * GET /api/users/profile
@@ -50,3 +51,106 @@ export async function updateUserProfile(
     next(error);
   }
 }
+
+/**
+ * GET /api/users/preferences
+ * Get the notification preferences of the current user
+ * Protected route
+ */
+export async function getNotificationPreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const preferences = await notificationPreferenceService.getPreferences(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      data: preferences
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/users/preferences
+ * Change the notification channels of the current user
+ * Protected route
+ */
+export async function updateNotificationPreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const preferences = await notificationPreferenceService.updatePreferences(req.user!.userId, {
+      notifications: req.body.notifications,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: preferences,
+      message: 'Notification preferences updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/users
+ * Search the user directory by name or email with pagination
+ * Protected route
+ */
+export async function searchUsers(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const filters: userService.UserSearchFilters = {
+      search: req.query.search as string,
+      workspaceId: req.query.workspaceId as string,
+    };
+
+    const pagination = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    };
+
+    const result = await userService.searchUsers(userId, filters, pagination);
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/users/:id
+ * Get the public profile of a user
+ * Protected route
+ */
+export async function getPublicProfile(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await userService.getPublicProfile(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import * as workflowService from '../services/workflowService';
+
+export async function getWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.query.workspaceId as string | undefined;
+
+    const workflow = await workflowService.getWorkflow(userId, workspaceId);
+
+    res.status(200).json({
+      success: true,
+      data: workflow,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+    const { statuses, transitions } = req.body;
+
+    const workflow = await workflowService.updateWorkflow(workspaceId, userId, { statuses, transitions });
+
+    res.status(200).json({
+      success: true,
+      message: 'Workflow updated successfully',
+      data: workflow,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
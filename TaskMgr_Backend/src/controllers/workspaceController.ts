@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import * as workspaceService from '../services/workspaceService';
+import * as taskService from '../services/taskService';
+import { TaskSort } from '../utils/taskSort';
+import { getCursorParams, getTaskFilters } from './taskController';
+
+export async function getWorkspaces(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const workspaces = await workspaceService.getWorkspaces(userId);
+
+    res.status(200).json({
+      success: true,
+      data: workspaces,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getWorkspaceById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+
+    const workspace = await workspaceService.getWorkspaceById(workspaceId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { name, description } = req.body;
+
+    const workspace = await workspaceService.createWorkspace(userId, { name, description });
+
+    res.status(201).json({
+      success: true,
+      message: 'Workspace created successfully',
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+    const { name, description } = req.body;
+
+    const workspace = await workspaceService.updateWorkspace(workspaceId, userId, { name, description });
+
+    res.status(200).json({
+      success: true,
+      message: 'Workspace updated successfully',
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+
+    const result = await workspaceService.deleteWorkspace(workspaceId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+    const { email, role } = req.body;
+
+    const workspace = await workspaceService.addMember(workspaceId, userId, { email, role });
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+    const memberId = req.params.userId;
+
+    const workspace = await workspaceService.updateMemberRole(workspaceId, userId, memberId, req.body.role);
+
+    res.status(200).json({
+      success: true,
+      message: 'Member role updated successfully',
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const workspaceId = req.params.id;
+    const memberId = req.params.userId;
+
+    const workspace = await workspaceService.removeMember(workspaceId, userId, memberId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Member removed successfully',
+      data: workspace,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getWorkspaceTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+
+    const filters: taskService.TaskFilters = { ...getTaskFilters(req), workspaceId: req.params.id };
+
+    const pagination = getCursorParams(req, 10) ?? {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 10,
+    };
+
+    const sort = req.query.sort as unknown as TaskSort | undefined;
+
+    const result = await taskService.getTasks(userId, filters, pagination, sort);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createWorkspaceTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { title, description, dueDate, priority, status, assignedToId, recurrence, labels } = req.body;
+
+    const taskData: taskService.CreateTaskData = {
+      title,
+      description,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      priority,
+      status,
+      assignedToId,
+      workspaceId: req.params.id,
+      recurrence,
+      labels,
+    };
+
+    const task = await taskService.createTask(userId, taskData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Task created successfully',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
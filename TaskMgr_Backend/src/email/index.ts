@@ -0,0 +1,47 @@
+/**
+ * Email delivery
+ * The transport is chosen with EMAIL_TRANSPORT, new transports implement
+ * EmailTransport and are added to getTransport
+ */
+import { config } from '../config';
+import { EmailTransport } from './types';
+import { createSmtpTransport } from './smtpTransport';
+import { createFileOutbox, createMemoryOutbox } from './outboxTransport';
+
+export type { EmailMessage, EmailTransport } from './types';
+export { EmailDeliveryError } from './types';
+export type { MemoryOutbox } from './outboxTransport';
+export { createFileOutbox, createMemoryOutbox } from './outboxTransport';
+export { createSmtpTransport } from './smtpTransport';
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport
+ * @throws Error if EMAIL_TRANSPORT names an unknown transport
+ */
+export function getTransport(): EmailTransport {
+  if (!transport) {
+    switch (config.emailTransport) {
+      case 'smtp':
+        transport = createSmtpTransport(config.smtp);
+        break;
+      case 'file':
+        transport = createFileOutbox(config.emailOutboxDir);
+        break;
+      case 'memory':
+        transport = createMemoryOutbox();
+        break;
+      default:
+        throw new Error(`Unknown email transport "${config.emailTransport}"`);
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replace the email transport, used by tests
+ */
+export function setTransport(replacement: EmailTransport | null): void {
+  transport = replacement;
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileOutbox, createMemoryOutbox } from './outboxTransport';
+import { EmailMessage } from './types';
+
+const message: EmailMessage = {
+  from: 'TaskMgr <no-reply@taskmgr.test>',
+  to: 'jane@example.com',
+  subject: 'Deadline Approaching',
+  text: 'Due soon',
+  html: '<p>Due soon</p>',
+};
+
+describe('Outbox Transports', () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'taskmgr-outbox-')), 'outbox');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(path.dirname(outboxDir), { recursive: true, force: true });
+  });
+
+  it('should write each email as an .eml file', async () => {
+    const outbox = createFileOutbox(outboxDir);
+
+    await outbox.send(message);
+    await outbox.send({ ...message, subject: 'Second' });
+
+    const files = (await fs.promises.readdir(outboxDir)).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+    const source = await fs.promises.readFile(path.join(outboxDir, files[0]), 'utf8');
+    expect(source).toContain('To: jane@example.com\r\n');
+    expect(source).toContain('Subject: Deadline Approaching\r\n');
+  });
+
+  it('should keep emails in memory', async () => {
+    const outbox = createMemoryOutbox();
+
+    await outbox.send(message);
+
+    expect(outbox.messages).toEqual([message]);
+  });
+});
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { EmailMessage, EmailTransport } from './types';
+
+/**
+ * Transport keeping emails in memory, for tests
+ */
+export interface MemoryOutbox extends EmailTransport {
+  /** Emails sent so far, oldest first */
+  messages: EmailMessage[];
+}
+
+/**
+ * Create a transport writing each email as an .eml file under a directory,
+ * for development: the files open in any mail client
+ * @param outboxDir Directory holding the emails, created when missing
+ */
+export function createFileOutbox(outboxDir: string): EmailTransport {
+  const root = path.resolve(outboxDir);
+  // Builds the message source without sending it anywhere
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+  return {
+    async send(message) {
+      const date = new Date();
+      const { message: source } = await composer.sendMail({ ...message, date });
+      // Names sort by sending time
+      const name = `${date.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+      await fs.promises.mkdir(root, { recursive: true });
+      await fs.promises.writeFile(path.join(root, name), source);
+    },
+  };
+}
+
+/**
+ * Create a transport keeping emails in memory
+ */
+export function createMemoryOutbox(): MemoryOutbox {
+  const messages: EmailMessage[] = [];
+
+  return {
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import net from 'net';
+import { createSmtpTransport } from './smtpTransport';
+import { EmailDeliveryError, EmailMessage } from './types';
+
+const message: EmailMessage = {
+  from: 'TaskMgr <no-reply@taskmgr.test>',
+  to: 'Jane Doe <jane@example.com>',
+  subject: 'Mentioned',
+  text: '.starts with a dot',
+  html: '<p>Hi</p>',
+};
+
+interface FakeServer {
+  port: number;
+  commands: string[];
+  data: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal SMTP server answering every command, with the code of
+ * rejectRecipient for RCPT TO when given
+ */
+async function startFakeServer(rejectRecipient?: string): Promise<FakeServer> {
+  const state = { commands: [] as string[], data: '' };
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake.test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            state.data += `${line}\r\n`;
+          }
+          continue;
+        }
+        state.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        else if (verb === 'AUTH') socket.write('235 accepted\r\n');
+        else if (verb === 'STARTTLS') socket.write('454 TLS not available\r\n');
+        else if (verb === 'RCPT' && rejectRecipient) socket.write(`${rejectRecipient} no such user\r\n`);
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    get commands() {
+      return state.commands;
+    },
+    get data() {
+      return state.data;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('SMTP Transport', () => {
+  let server: FakeServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should authenticate and send the message when insecure connections are allowed', async () => {
+    server = await startFakeServer();
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      allowInsecure: true,
+      clientName: 'taskmgr.test',
+      timeoutMs: 2000,
+    });
+
+    await transport.send(message);
+
+    expect(server.commands).toEqual([
+      'EHLO taskmgr.test',
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<no-reply@taskmgr.test>',
+      'RCPT TO:<jane@example.com>',
+      'DATA',
+    ]);
+    expect(server.data).toContain('Subject: Mentioned\r\n');
+    expect(server.data).toContain('\r\n..starts with a dot\r\n');
+  });
+
+  it('should not send credentials over a connection without TLS', async () => {
+    server = await startFakeServer();
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      clientName: 'taskmgr.test',
+      timeoutMs: 2000,
+    });
+
+    const error = await transport.send(message).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(server.commands).toEqual(['EHLO taskmgr.test', 'STARTTLS']);
+  });
+
+  it('should report rejected recipients as permanent failures', async () => {
+    server = await startFakeServer('550');
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 2000 });
+
+    const error = await transport.send(message).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.permanent).toBe(true);
+  });
+
+  it('should report temporary failures as worth retrying', async () => {
+    server = await startFakeServer('451');
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 2000 });
+
+    const error = await transport.send(message).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.permanent).toBe(false);
+  });
+});
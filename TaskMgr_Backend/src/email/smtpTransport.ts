@@ -0,0 +1,59 @@
+import nodemailer from 'nodemailer';
+import { EmailMessage, EmailTransport, EmailDeliveryError } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS right away (port 465), otherwise upgrade with STARTTLS when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /**
+   * Send the credentials even when the server offers no STARTTLS, in clear
+   * text. Only for servers on a trusted network
+   */
+  allowInsecure?: boolean;
+  /** Name announced in EHLO, the local host name by default */
+  clientName?: string;
+  /** Time allowed for the connection and each server reply, in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Create a transport sending emails to an SMTP server, one connection per email
+ * Credentials are only sent over TLS, unless allowInsecure is set
+ * @param options Server and credentials
+ */
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const mailer = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: Boolean(options.user) && !options.allowInsecure,
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    name: options.clientName,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+
+  return {
+    async send(message: EmailMessage) {
+      try {
+        await mailer.sendMail({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          headers: message.headers,
+        });
+      } catch (error) {
+        // 5xx replies, such as an unknown recipient, will not change on a retry
+        const responseCode = (error as { responseCode?: number }).responseCode;
+        throw new EmailDeliveryError((error as Error).message, responseCode !== undefined && responseCode >= 500);
+      }
+    },
+  };
+}
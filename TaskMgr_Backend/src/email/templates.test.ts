@@ -0,0 +1,61 @@
+import { renderNotificationEmail, renderDigestEmail, NotificationEmailData } from './templates';
+import { NOTIFICATION_TYPES } from '../models/Notification';
+
+const data: NotificationEmailData = {
+  type: 'TASK_ASSIGNED',
+  recipientName: 'Jane Doe',
+  title: 'Task Assigned to You',
+  message: 'John Smith assigned you a task: "Ship <release>"',
+  actionUrl: 'http://app.test/#/tasks?task=abc',
+  unsubscribeUrl: 'http://api.test/api/email/unsubscribe?token=t&x=1',
+  preferencesUrl: 'http://app.test/#/profile',
+};
+
+describe('Notification Email Templates', () => {
+  it('should render the message and links in both bodies', () => {
+    const email = renderNotificationEmail(data);
+
+    expect(email.subject).toBe('Task Assigned to You');
+    expect(email.text).toContain('Hi Jane Doe,');
+    expect(email.text).toContain(data.message);
+    expect(email.text).toContain(`Open the task: ${data.actionUrl}`);
+    expect(email.text).toContain(data.unsubscribeUrl);
+    expect(email.html).toContain('href="http://api.test/api/email/unsubscribe?token=t&amp;x=1"');
+    expect(email.html).toContain('href="http://app.test/#/profile"');
+  });
+
+  it('should escape the notification in the HTML body', () => {
+    const { html } = renderNotificationEmail(data);
+
+    expect(html).toContain('&quot;Ship &lt;release&gt;&quot;');
+    expect(html).not.toContain('<release>');
+  });
+
+  it('should word every notification type', () => {
+    for (const type of NOTIFICATION_TYPES) {
+      const { text } = renderNotificationEmail({ ...data, type });
+      expect(text).toMatch(/You get this email because .+\./);
+    }
+  });
+});
+
+describe('Digest Email Template', () => {
+  it('should list every notification with its link', () => {
+    const email = renderDigestEmail({
+      recipientName: 'Jane Doe',
+      entries: [
+        { title: 'Task Updated', message: 'John changed "Ship <release>"', actionUrl: 'http://app.test/#/tasks?task=a' },
+        { title: 'You Were Mentioned', message: 'John mentioned you', actionUrl: 'http://app.test/#/' },
+      ],
+      preferencesUrl: 'http://app.test/#/profile',
+    });
+
+    expect(email.subject).toBe('Your digest: 2 notifications');
+    expect(email.text).toContain('* Task Updated: John changed "Ship <release>"');
+    expect(email.text).toContain('  http://app.test/#/tasks?task=a');
+    expect(email.text).toContain('Manage your notifications: http://app.test/#/profile');
+    expect(email.html).toContain('href="http://app.test/#/tasks?task=a"');
+    expect(email.html).toContain('&quot;Ship &lt;release&gt;&quot;');
+    expect(email.html).not.toContain('<release>');
+  });
+});
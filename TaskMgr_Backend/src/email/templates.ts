@@ -0,0 +1,185 @@
+import { NotificationType } from '../models/Notification';
+
+/**
+ * Email templates of notifications
+ * Each notification type words its call to action and the reason the user
+ * gets the email; every type shares the same text and HTML layouts. Digests
+ * list several notifications in one email
+ */
+
+export interface NotificationEmailData {
+  type: NotificationType;
+  recipientName: string;
+  /** Notification title, such as "Task Assigned to You" */
+  title: string;
+  /** Notification message */
+  message: string;
+  /** Page of the app the notification is about */
+  actionUrl: string;
+  /** Signed link stopping emails of this type */
+  unsubscribeUrl: string;
+  /** Page of the app holding the notification preferences */
+  preferencesUrl: string;
+}
+
+export interface DigestEmailEntry {
+  title: string;
+  message: string;
+  /** Page of the app the notification is about */
+  actionUrl: string;
+}
+
+export interface DigestEmailData {
+  recipientName: string;
+  /** Notifications gathered since the last digest, oldest first */
+  entries: DigestEmailEntry[];
+  /** Page of the app holding the notification preferences */
+  preferencesUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailTemplate {
+  /** Label of the link to actionUrl */
+  action: string;
+  /** Ends "You get this email because ..." */
+  reason: string;
+}
+
+const TEMPLATES: Record<NotificationType, EmailTemplate> = {
+  TASK_ASSIGNED: { action: 'Open the task', reason: 'a task was assigned to you' },
+  TASK_UPDATED: { action: 'See what changed', reason: 'a task you created, are assigned or watch changed' },
+  DEADLINE_APPROACHING: { action: 'Open the task', reason: 'one of your tasks is due soon' },
+  MENTION: { action: 'Read the comment', reason: 'someone mentioned you in a comment' },
+  TASK_UNBLOCKED: { action: 'Pick up the task', reason: 'a task blocking yours was completed' },
+};
+
+/**
+ * Why a user gets the emails of a notification type, such as "a task was assigned to you"
+ */
+export function notificationEmailReason(type: NotificationType): string {
+  return TEMPLATES[type].reason;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the email of a notification
+ * @param data Notification and links of the email
+ * @returns Subject, text and HTML bodies
+ */
+export function renderNotificationEmail(data: NotificationEmailData): RenderedEmail {
+  const template = TEMPLATES[data.type];
+
+  const text = [
+    `Hi ${data.recipientName},`,
+    '',
+    data.message,
+    '',
+    `${template.action}: ${data.actionUrl}`,
+    '',
+    '--',
+    `You get this email because ${template.reason}.`,
+    `Unsubscribe from these emails: ${data.unsubscribeUrl}`,
+    `Manage your notifications: ${data.preferencesUrl}`,
+    '',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(data.title)}</h1>
+          <p style="margin:0 0 12px;">Hi ${escapeHtml(data.recipientName)},</p>
+          <p style="margin:0 0 24px;">${escapeHtml(data.message)}</p>
+          <a href="${escapeHtml(data.actionUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(template.action)}</a>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+          You get this email because ${escapeHtml(template.reason)}.
+          <a href="${escapeHtml(data.unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe from these emails</a>
+          or <a href="${escapeHtml(data.preferencesUrl)}" style="color:#6b7280;">manage your notifications</a>.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject: data.title, text, html };
+}
+
+/**
+ * Render a digest email
+ * It has no unsubscribe link of its own, as its notifications may be of
+ * several types: the preferences page turns their digest channel off
+ * @param data Gathered notifications and links of the email
+ * @returns Subject, text and HTML bodies
+ */
+export function renderDigestEmail(data: DigestEmailData): RenderedEmail {
+  const count = data.entries.length;
+  const subject = `Your digest: ${count} notification${count === 1 ? '' : 's'}`;
+
+  const text = [
+    `Hi ${data.recipientName},`,
+    '',
+    'Here is what happened since your last digest:',
+    '',
+    ...data.entries.flatMap((entry) => [`* ${entry.title}: ${entry.message}`, `  ${entry.actionUrl}`]),
+    '',
+    '--',
+    'You get this email because you chose a digest for some notifications.',
+    `Manage your notifications: ${data.preferencesUrl}`,
+    '',
+  ].join('\n');
+
+  const items = data.entries
+    .map(
+      (entry) => `          <li style="margin:0 0 12px;">
+            <a href="${escapeHtml(entry.actionUrl)}" style="color:#2563eb;font-weight:bold;text-decoration:none;">${escapeHtml(entry.title)}</a><br>
+            ${escapeHtml(entry.message)}
+          </li>`
+    )
+    .join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(subject)}</h1>
+          <p style="margin:0 0 12px;">Hi ${escapeHtml(data.recipientName)},</p>
+          <p style="margin:0 0 16px;">Here is what happened since your last digest:</p>
+          <ul style="margin:0;padding-left:20px;">
+${items}
+          </ul>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+          You get this email because you chose a digest for some notifications.
+          <a href="${escapeHtml(data.preferencesUrl)}" style="color:#6b7280;">Manage your notifications</a>.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,36 @@
+/**
+ * Email ready to be sent
+ * Addresses are plain (user@example.com) or with a display name
+ * (Jane Doe <user@example.com>)
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers, such as List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Way emails leave the application
+ * Rejects with an EmailDeliveryError when the message could not be delivered
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Failure to deliver an email
+ * Permanent failures, such as an unknown recipient, are not worth retrying
+ */
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    public permanent = false
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
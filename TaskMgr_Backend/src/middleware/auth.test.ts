@@ -1,7 +1,10 @@
 import fc from 'fast-check';
 import { Request, Response, NextFunction } from 'express';
-import { authenticate } from './auth';
+import { authenticate, authorize } from './auth';
 import { generateToken } from '../utils/jwt';
+import { IUser } from '../models/User';
+import { AuthenticationError } from './errors';
+import * as authService from '../services/authService';
 
 // Feature: taskmgr-backend, Property 51: Authentication errors return 401
 describe('Authentication Middleware Property Tests', () => {
@@ -31,6 +34,10 @@ describe('Authentication Middleware Property Tests', () => {
     // Helper to create mock next function
     const createMockNext = (): NextFunction => jest.fn();
 
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
     it(
       'should return 401 for any request without authorization header',
       async () => {
@@ -150,6 +157,10 @@ describe('Authentication Middleware Property Tests', () => {
               role: fc.constantFrom('USER', 'ADMIN'),
             }),
             async (userPayload) => {
+              jest
+                .spyOn(authService, 'getActiveAccount')
+                .mockResolvedValue({ role: userPayload.role } as IUser);
+
               // Generate valid token
               const token = generateToken(userPayload);
               const authHeader = `Bearer ${token}`;
@@ -158,7 +169,7 @@ describe('Authentication Middleware Property Tests', () => {
               const res = createMockResponse() as Response;
               const next = createMockNext();
 
-              authenticate(req, res, next);
+              await authenticate(req, res, next);
 
               // Should attach user data to request
               expect(req.user).toBeDefined();
@@ -229,4 +240,89 @@ describe('Authentication Middleware Property Tests', () => {
       30000
     );
   });
+
+  describe('Account status', () => {
+    const createMockResponse = (): Response => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    const bearer = (role: string) => ({
+      headers: {
+        authorization: `Bearer ${generateToken({ userId: 'user123', email: 'test@example.com', role })}`,
+      },
+    }) as Request;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return 401 for a valid token of a deactivated account', async () => {
+      jest
+        .spyOn(authService, 'getActiveAccount')
+        .mockRejectedValue(new AuthenticationError('This account has been deactivated'));
+      const req = bearer('USER');
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await authenticate(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'This account has been deactivated' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should use the current role of the account instead of the role in the token', async () => {
+      jest.spyOn(authService, 'getActiveAccount').mockResolvedValue({ role: 'USER' } as IUser);
+      const req = bearer('ADMIN');
+      const next = jest.fn();
+
+      await authenticate(req, createMockResponse(), next);
+
+      expect(req.user?.role).toBe('USER');
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('authorize', () => {
+    const createMockResponse = (): Response => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res;
+    };
+
+    it('should only let users with an allowed role through', () => {
+      fc.assert(
+        fc.property(fc.constantFrom('USER', 'ADMIN'), (role) => {
+          const req = { user: { userId: 'user123', email: 'test@example.com', role } } as Request;
+          const res = createMockResponse();
+          const next = jest.fn();
+
+          authorize('ADMIN')(req, res, next);
+
+          if (role === 'ADMIN') {
+            expect(next).toHaveBeenCalled();
+          } else {
+            expect(res.status).toHaveBeenCalledWith(403);
+            expect(next).not.toHaveBeenCalled();
+          }
+        })
+      );
+    });
+
+    it('should return 401 when the request is not authenticated', () => {
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      authorize('ADMIN')({} as Request, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
+import { UserRole } from '../models/User';
+import * as authService from '../services/authService';
 
-export function authenticate(req: Request, res: Response, next: NextFunction): void {
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
     
@@ -28,10 +30,14 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
 
     const decoded = verifyToken(token);
 
+    // Refuse deactivated accounts and use the current role rather than the one in the token
+    const account = await authService.getActiveAccount(decoded.userId);
+
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
-      role: decoded.role
+      role: account.role,
+      sessionId: decoded.sessionId
     };
 
     next();
@@ -45,3 +51,32 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     });
   }
 }
+
+/**
+ * Restrict a route to users with one of the given roles
+ * Must run after authenticate
+ * @param roles Allowed roles
+ */
+export function authorize(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        status: 401
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role as UserRole)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this resource',
+        status: 403
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -6,6 +6,7 @@ import {
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
+  ConflictError,
   ApiError
 } from './errors';
 
@@ -208,4 +209,23 @@ describe('Error Handler Property Tests', () => {
       );
     });
   });
+
+  describe('Conflict errors return 409', () => {
+    it('should return 409 with the current copy of the resource', () => {
+      const req = createMockRequest() as Request;
+      const res = createMockResponse() as Response;
+      const current = { id: 'task-1', title: 'Changed meanwhile', version: 4 };
+
+      errorHandler(new ConflictError('Task has changed', current), req, res, mockNext);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect((res as any).jsonData).toEqual({
+        success: false,
+        message: 'Task has changed',
+        code: 'CONFLICT',
+        data: current,
+        status: 409,
+      });
+    });
+  });
 });
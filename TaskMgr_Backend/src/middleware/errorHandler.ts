@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import {
   ApiError,
   ValidationError,
   AuthenticationError,
   AuthorizationError,
-  NotFoundError
+  NotFoundError,
+  ConflictError
 } from './errors';
 
 /**
@@ -15,6 +17,8 @@ interface ErrorResponse {
   message: string;
   code?: string;
   errors?: Record<string, string[]>;
+  // Current server copy of a resource that changed meanwhile
+  data?: unknown;
   status: number;
   stack?: string;
 }
@@ -85,6 +89,25 @@ export const errorHandler = (
       status: 404
     };
   }
+  // Handle ConflictError (409)
+  else if (err instanceof ConflictError) {
+    errorResponse = {
+      success: false,
+      message: err.message,
+      code: 'CONFLICT',
+      data: err.current,
+      status: 409
+    };
+  }
+  // Handle a document saved concurrently by another request (409)
+  else if (err instanceof mongoose.Error.VersionError) {
+    errorResponse = {
+      success: false,
+      message: 'This item was changed by someone else, please try again',
+      code: 'CONFLICT',
+      status: 409
+    };
+  }
   // Handle ApiError (custom status codes)
   else if (err instanceof ApiError) {
     errorResponse = {
@@ -70,6 +70,21 @@ export class NotFoundError extends ApiError {
   }
 }
 
+/**
+ * Conflict Error (409)
+ * Used when a resource changed since the client read it
+ */
+export class ConflictError extends ApiError {
+  // Current server copy of the resource, for the client to compare with its changes
+  public readonly current?: unknown;
+
+  constructor(message: string = 'Resource has changed', current?: unknown) {
+    super(message, 409);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
 /**
  * Server Error (500)
  * Used for unexpected server errors
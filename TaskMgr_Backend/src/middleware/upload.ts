@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { config } from '../config';
+import { ValidationError } from './errors';
+import { isAllowedType } from '../services/attachmentService';
+
+/**
+ * Multipart upload middleware
+ * Parses a single file into memory, within the size and type limits of the
+ * configuration. The attachment service hands the content to the storage
+ */
+export function uploadFile(fieldName: string): RequestHandler {
+  const handler = multer({
+    storage: multer.memoryStorage(),
+    // Browsers send file names in UTF-8
+    defParamCharset: 'utf8',
+    limits: { fileSize: config.attachmentMaxSizeBytes, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!isAllowedType(file.mimetype, config.attachmentAllowedTypes)) {
+        callback(new ValidationError(`Files of type ${file.mimetype || 'unknown'} cannot be attached`));
+        return;
+      }
+      callback(null, true);
+    },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const maxSizeMb = Math.round(config.attachmentMaxSizeBytes / (1024 * 1024));
+        next(
+          new ValidationError(
+            error.code === 'LIMIT_FILE_SIZE' ? `Files cannot exceed ${maxSizeMb} MB` : `Invalid upload: ${error.message}`
+          )
+        );
+        return;
+      }
+      if (!error && !req.file) {
+        next(new ValidationError(`A file is required in the ${fieldName} field`));
+        return;
+      }
+      next(error);
+    });
+  };
+}
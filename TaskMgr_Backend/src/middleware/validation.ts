@@ -1,5 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, param, query, validationResult, ValidationChain } from 'express-validator';
+import { body, header, param, query, validationResult, ValidationChain } from 'express-validator';
+import {
+  STATUS_KEY_PATTERN,
+  STATUS_CATEGORIES,
+  STATUS_COLORS,
+  TRANSITION_ACTORS,
+  MAX_STATUSES,
+} from '../utils/workflow';
+import { LABEL_COLOR_PATTERN, MAX_TASK_LABELS } from '../models/Label';
+import { VIEW_LAYOUTS, MAX_VIEW_SHARES } from '../models/SavedView';
+import { NOTIFICATION_TYPES } from '../models/Notification';
+import { NOTIFICATION_CHANNELS } from '../models/User';
+import { parseTaskSort, PRIORITY_ORDER } from '../utils/taskSort';
+import { parseTaskQuery, TASK_SCOPES, UNASSIGNED } from '../utils/taskQuery';
+import { SEARCH_TYPES } from '../services/searchService';
+import { BULK_TASK_OPERATIONS, MAX_BULK_TASKS } from '../services/taskService';
+import { TASK_SUBSCRIPTIONS } from '../services/notificationPreferenceService';
 
 /**
  * Validation error formatter middleware
@@ -91,12 +107,12 @@ export const validateTaskPriority = (): ValidationChain =>
     .isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT'])
     .withMessage('Priority must be one of: LOW, MEDIUM, HIGH, URGENT');
 
-// Task status validation
+// Task status validation, the task service checks the status against the workflow of the task
 export const validateTaskStatus = (): ValidationChain => 
   body('status')
     .optional({ values: 'null' })
-    .isIn(['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED'])
-    .withMessage('Status must be one of: TODO, IN_PROGRESS, REVIEW, COMPLETED');
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage('Status must be a status key such as IN_PROGRESS');
 
 // Due date validation
 export const validateDueDate = (): ValidationChain => 
@@ -105,6 +121,26 @@ export const validateDueDate = (): ValidationChain =>
     .isISO8601()
     .withMessage('Due date must be a valid ISO 8601 date');
 
+// Recurrence rule validation, the rule itself is parsed by the recurrence service
+export const validateRecurrence = (): ValidationChain =>
+  body('recurrence')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Recurrence must be a string')
+    .isLength({ max: 200 })
+    .withMessage('Recurrence must not exceed 200 characters');
+
+// Task labels validation, the label service checks that the labels belong to the task
+export const validateTaskLabels = (): ValidationChain[] => [
+  body('labels')
+    .optional()
+    .isArray({ max: MAX_TASK_LABELS })
+    .withMessage(`Labels must be an array of at most ${MAX_TASK_LABELS} label IDs`),
+  body('labels.*')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Each label must be a valid MongoDB ObjectId'),
+];
+
 // MongoDB ObjectId validation
 export const validateObjectId = (fieldName: string, location: 'param' | 'body' | 'query' = 'param'): ValidationChain => {
   const validator = location === 'param' ? param(fieldName) : 
@@ -116,6 +152,14 @@ export const validateObjectId = (fieldName: string, location: 'param' | 'body' |
     .withMessage(`${fieldName.charAt(0).toUpperCase() + fieldName.slice(1)} must be a valid MongoDB ObjectId`);
 };
 
+// Page size validation
+export const validateLimit = (): ValidationChain =>
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt();
+
 // Pagination validation
 export const validatePagination = (): ValidationChain[] => [
   query('page')
@@ -123,13 +167,36 @@ export const validatePagination = (): ValidationChain[] => [
     .isInt({ min: 1 })
     .withMessage('Page must be a positive integer')
     .toInt(),
-  query('limit')
+  validateLimit()
+];
+
+// Cursor pagination validation, the cursors themselves are checked against the list they page
+export const validateCursor = (): ValidationChain[] => [
+  query('after')
     .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100')
-    .toInt()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('After must be a cursor returned with a previous page'),
+  query('before')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Before must be a cursor returned with a previous page')
+    .custom((_value, { req }) => req.query?.after === undefined)
+    .withMessage('After and before cannot be used together'),
 ];
 
+// Task list sort validation, turned into sort keys
+export const validateTaskSort = (): ValidationChain =>
+  query('sort')
+    .optional()
+    .custom((value) => {
+      parseTaskSort(String(value));
+      return true;
+    })
+    .bail()
+    .customSanitizer((value) => parseTaskSort(String(value)));
+
 // Optional string field validation
 export const validateOptionalString = (fieldName: string, maxLength: number = 500): ValidationChain => 
   body(fieldName)
@@ -165,6 +232,16 @@ export const validatePasswordChange = [
   handleValidationErrors
 ];
 
+// Refresh token validation
+export const validateRefreshToken = [
+  body('refreshToken')
+    .isString()
+    .withMessage('Refresh token must be a string')
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+  handleValidationErrors
+];
+
 // Task creation validation
 export const validateTaskCreation = [
   validateTaskTitle(),
@@ -172,10 +249,130 @@ export const validateTaskCreation = [
   validateTaskPriority(),
   validateTaskStatus(),
   validateDueDate(),
+  validateRecurrence(),
+  ...validateTaskLabels(),
   body('assignedToId')
     .optional({ values: 'null' })
     .matches(/^[0-9a-fA-F]{24}$/)
     .withMessage('AssignedToId must be a valid MongoDB ObjectId'),
+  body('workspaceId')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('WorkspaceId must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Comma-separated query values, turned into an array
+const splitQueryList = (value: unknown): string[] =>
+  String(value)
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+// User filter taking a user ID or "me", resolved to the authenticated user
+const validateUserFilter = (fieldName: string, allowUnassigned: boolean): ValidationChain =>
+  query(fieldName)
+    .optional({ values: 'falsy' })
+    .customSanitizer((value, { req }) => (value === 'me' ? req.user?.userId : value))
+    .custom((value) => (allowUnassigned && value === UNASSIGNED) || /^[0-9a-fA-F]{24}$/.test(String(value)))
+    .withMessage(
+      `${fieldName.charAt(0).toUpperCase() + fieldName.slice(1)} must be me, ${
+        allowUnassigned ? `${UNASSIGNED}, ` : ''
+      }or a valid MongoDB ObjectId`
+    );
+
+// Task list query validation (filters, sort and pagination)
+export const validateTaskQuery = [
+  ...validatePagination(),
+  ...validateCursor(),
+  validateTaskSort(),
+  // Comma-separated status keys, turned into an array
+  query('status')
+    .optional({ values: 'falsy' })
+    .customSanitizer(splitQueryList)
+    .custom((value: string[]) => value.length > 0 && value.every((status) => STATUS_KEY_PATTERN.test(status)))
+    .withMessage('Status must be a comma-separated list of status keys such as IN_PROGRESS'),
+  // Comma-separated priorities, turned into an array
+  query('priority')
+    .optional({ values: 'falsy' })
+    .customSanitizer(splitQueryList)
+    .custom((value: string[]) => value.length > 0 && value.every((priority) => PRIORITY_ORDER.includes(priority as any)))
+    .withMessage(`Priority must be a comma-separated list of: ${PRIORITY_ORDER.join(', ')}`),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Search query must not exceed 200 characters'),
+  validateUserFilter('assignedToId', true),
+  validateUserFilter('creatorId', false),
+  query('scope')
+    .optional()
+    .isIn(TASK_SCOPES)
+    .withMessage(`Scope must be one of: ${TASK_SCOPES.join(', ')}`),
+  query('dueAfter')
+    .optional()
+    .isISO8601()
+    .withMessage('DueAfter must be a valid ISO 8601 date')
+    .toDate(),
+  query('dueBefore')
+    .optional()
+    .isISO8601()
+    .withMessage('DueBefore must be a valid ISO 8601 date')
+    .toDate(),
+  query('noDueDate')
+    .optional()
+    .isBoolean()
+    .withMessage('NoDueDate must be a boolean')
+    .toBoolean(),
+  query('includeArchived')
+    .optional()
+    .isBoolean()
+    .withMessage('IncludeArchived must be a boolean')
+    .toBoolean(),
+  query('archived')
+    .optional()
+    .isBoolean()
+    .withMessage('Archived must be a boolean')
+    .toBoolean(),
+  // Comma-separated label IDs, turned into an array
+  query('labels')
+    .optional()
+    .customSanitizer((value) => String(value).split(',').filter(Boolean))
+    .custom((value: string[]) => value.length <= MAX_TASK_LABELS && value.every((id) => /^[0-9a-fA-F]{24}$/.test(id)))
+    .withMessage(`Labels must be a comma-separated list of at most ${MAX_TASK_LABELS} label IDs`),
+  query('labelMatch')
+    .optional()
+    .isIn(['any', 'all'])
+    .withMessage('LabelMatch must be either any or all'),
+  // Query language such as "status:TODO priority:>=HIGH due:<7d", parsed into req.taskQuery
+  query('q')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Query must not exceed 500 characters')
+    .bail()
+    .custom((value, { req }) => {
+      req.taskQuery = parseTaskQuery(String(value), { userId: req.user?.userId });
+      return true;
+    }),
+];
+
+// Search query validation
+export const validateSearchQuery = [
+  query('q')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Search query must be between 1 and 200 characters'),
+  // Comma-separated result types, turned into an array
+  query('types')
+    .optional()
+    .customSanitizer(splitQueryList)
+    .custom((value: string[]) => value.length > 0 && value.every((type) => SEARCH_TYPES.includes(type as any)))
+    .withMessage(`Types must be a comma-separated list of: ${SEARCH_TYPES.join(', ')}`),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Limit must be between 1 and 20')
+    .toInt(),
   handleValidationErrors
 ];
 
@@ -190,6 +387,254 @@ export const validateTaskUpdate = [
     .optional({ values: 'null' })
     .matches(/^[0-9a-fA-F]{24}$/)
     .withMessage('AssignedToId must be a valid MongoDB ObjectId'),
+  ...validateTaskLabels(),
+  body('overrideBlockers')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('OverrideBlockers must be a boolean'),
+  validateRecurrence(),
+  body('scope')
+    .optional()
+    .isIn(['this', 'future'])
+    .withMessage('Scope must be either this or future'),
+  body('expectedVersion')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('ExpectedVersion must be a non-negative integer')
+    .toInt(),
+  header('if-match')
+    .optional()
+    .matches(/^(\*|(W\/)?"?\d+"?)$/)
+    .withMessage('If-Match must be the ETag of the task, such as "3"'),
+  handleValidationErrors
+];
+
+// Comment body validation (create and edit)
+export const validateComment = [
+  body('body')
+    .trim()
+    .notEmpty()
+    .withMessage('Comment body is required')
+    .isLength({ max: 2000 })
+    .withMessage('Comment body must not exceed 2000 characters'),
+  handleValidationErrors
+];
+
+// Checklist item creation validation
+export const validateChecklistItem = [
+  body('text')
+    .trim()
+    .notEmpty()
+    .withMessage('Checklist item text is required')
+    .isLength({ max: 500 })
+    .withMessage('Checklist item text must not exceed 500 characters'),
+  body('assigneeId')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('AssigneeId must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Checklist item update validation
+export const validateChecklistItemUpdate = [
+  body('text')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Checklist item text cannot be empty')
+    .isLength({ max: 500 })
+    .withMessage('Checklist item text must not exceed 500 characters'),
+  body('done')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Done must be a boolean'),
+  body('assigneeId')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('AssigneeId must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Checklist reorder validation
+export const validateChecklistOrder = [
+  body('itemIds')
+    .isArray()
+    .withMessage('ItemIds must be an array'),
+  body('itemIds.*')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Each item ID must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Board column reorder validation
+export const validateTaskOrder = [
+  body('taskIds')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('TaskIds must be an array of 1 to 100 task IDs'),
+  body('taskIds.*')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Each task ID must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Bulk task operation validation, the value each operation takes is checked for that operation
+const bulkValue = (...operations: string[]) => body('value').if(body('operation').isIn(operations));
+
+export const validateBulkTaskOperation = [
+  body('taskIds')
+    .isArray({ min: 1, max: MAX_BULK_TASKS })
+    .withMessage(`TaskIds must be an array of 1 to ${MAX_BULK_TASKS} task IDs`),
+  body('taskIds.*')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Each task ID must be a valid MongoDB ObjectId'),
+  body('operation')
+    .isIn(BULK_TASK_OPERATIONS)
+    .withMessage(`Operation must be one of: ${BULK_TASK_OPERATIONS.join(', ')}`),
+  bulkValue('SET_STATUS')
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage('Value must be a status key such as IN_PROGRESS'),
+  bulkValue('SET_PRIORITY')
+    .isIn(PRIORITY_ORDER)
+    .withMessage(`Value must be one of: ${PRIORITY_ORDER.join(', ')}`),
+  bulkValue('ASSIGN')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Value must be a user ID, or null to unassign the tasks'),
+  bulkValue('SET_DUE_DATE')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Value must be a valid ISO 8601 date, or null to clear the due date'),
+  bulkValue('ADD_LABEL', 'REMOVE_LABEL')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Value must be a label ID'),
+  handleValidationErrors
+];
+
+// Task dependency validation
+export const validateDependency = [
+  body('blockerId')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('BlockerId must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Workspace creation validation
+export const validateWorkspaceCreation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Workspace name is required')
+    .isLength({ max: 100 })
+    .withMessage('Workspace name must not exceed 100 characters'),
+  validateOptionalString('description', 500),
+  handleValidationErrors
+];
+
+// Workspace update validation
+export const validateWorkspaceUpdate = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Workspace name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Workspace name must not exceed 100 characters'),
+  validateOptionalString('description', 500),
+  handleValidationErrors
+];
+
+// Workflow validation, the workflow service checks that statuses and transitions are consistent
+export const validateWorkflow = [
+  body('statuses')
+    .isArray({ min: 1, max: MAX_STATUSES })
+    .withMessage(`Statuses must be an array of 1 to ${MAX_STATUSES} statuses`),
+  body('statuses.*.key')
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage('Status keys must use uppercase letters, digits and underscores'),
+  body('statuses.*.name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Status names must be 1 to 50 characters'),
+  body('statuses.*.category')
+    .isIn([...STATUS_CATEGORIES])
+    .withMessage(`Status categories must be one of: ${STATUS_CATEGORIES.join(', ')}`),
+  body('statuses.*.color')
+    .optional()
+    .isIn([...STATUS_COLORS])
+    .withMessage(`Status colors must be one of: ${STATUS_COLORS.join(', ')}`),
+  body('transitions')
+    .optional()
+    .isArray()
+    .withMessage('Transitions must be an array'),
+  body('transitions.*.from')
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage('Transitions need a from status'),
+  body('transitions.*.to')
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage('Transitions need a to status'),
+  body('transitions.*.actors')
+    .optional()
+    .isArray()
+    .withMessage('Transition actors must be an array'),
+  body('transitions.*.actors.*')
+    .isIn([...TRANSITION_ACTORS])
+    .withMessage(`Transition actors must be one of: ${TRANSITION_ACTORS.join(', ')}`),
+  handleValidationErrors
+];
+
+// Workspace member role validation (the owner role cannot be granted)
+export const validateWorkspaceRole = (): ValidationChain =>
+  body('role')
+    .isIn(['ADMIN', 'MEMBER', 'VIEWER'])
+    .withMessage('Role must be one of: ADMIN, MEMBER, VIEWER');
+
+// Workspace member addition validation
+export const validateWorkspaceMember = [
+  validateEmail(),
+  validateWorkspaceRole().optional(),
+  handleValidationErrors
+];
+
+// Admin user list query validation
+export const validateAdminUserQuery = [
+  ...validatePagination(),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search query must not exceed 100 characters'),
+  query('role')
+    .optional()
+    .isIn(['ADMIN', 'USER'])
+    .withMessage('Role must be one of: ADMIN, USER'),
+  query('status')
+    .optional()
+    .isIn(['active', 'deactivated'])
+    .withMessage('Status must be one of: active, deactivated'),
+  handleValidationErrors
+];
+
+// Platform role change validation
+export const validateUserRole = [
+  body('role')
+    .isIn(['ADMIN', 'USER'])
+    .withMessage('Role must be one of: ADMIN, USER'),
+  handleValidationErrors
+];
+
+// Admin task list query validation
+export const validateAdminTaskQuery = [
+  ...validateTaskQuery,
+  validateObjectId('workspaceId', 'query').optional(),
+  handleValidationErrors
+];
+
+// Task reassignment validation, null unassigns the task
+export const validateTaskReassignment = [
+  body('assignedToId')
+    .custom((value) => value === null || (typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value)))
+    .withMessage('AssignedToId must be a valid MongoDB ObjectId or null'),
   handleValidationErrors
 ];
 
@@ -202,3 +647,133 @@ export const validateProfileUpdate = [
   validateOptionalString('avatarUrl', 500),
   handleValidationErrors
 ];
+
+// Notification preferences validation, channel switches by notification type
+export const validateNotificationPreferences = [
+  body('notifications')
+    .isObject()
+    .withMessage('Notifications must be an object')
+    .custom((value: Record<string, unknown>) =>
+      Object.entries(value).every(
+        ([type, channels]) =>
+          NOTIFICATION_TYPES.includes(type as any) &&
+          !!channels &&
+          typeof channels === 'object' &&
+          Object.entries(channels).every(
+            ([channel, enabled]) => NOTIFICATION_CHANNELS.includes(channel as any) && typeof enabled === 'boolean'
+          )
+      )
+    )
+    .withMessage(
+      `Notifications must map types (${NOTIFICATION_TYPES.join(', ')}) to channel switches (${NOTIFICATION_CHANNELS.join(', ')})`
+    ),
+  handleValidationErrors
+];
+
+// Task subscription validation
+export const validateTaskSubscription = [
+  body('subscription')
+    .isIn(TASK_SUBSCRIPTIONS)
+    .withMessage(`Subscription must be one of: ${TASK_SUBSCRIPTIONS.join(', ')}`),
+  handleValidationErrors
+];
+
+// Label creation validation
+export const validateLabelCreation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 50 })
+    .withMessage('Name must not exceed 50 characters'),
+  body('color')
+    .matches(LABEL_COLOR_PATTERN)
+    .withMessage('Color must be a hex color such as #3b82f6'),
+  body('workspaceId')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('WorkspaceId must be a valid MongoDB ObjectId'),
+  handleValidationErrors
+];
+
+// Label update validation
+export const validateLabelUpdate = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 50 })
+    .withMessage('Name must not exceed 50 characters'),
+  body('color')
+    .optional()
+    .matches(LABEL_COLOR_PATTERN)
+    .withMessage('Color must be a hex color such as #3b82f6'),
+  handleValidationErrors
+];
+
+// Saved view fields other than the name and workspace
+const validateSavedViewFields = (): ValidationChain[] => [
+  body('query')
+    .optional()
+    .isString()
+    .withMessage('Query must be a string')
+    .isLength({ max: 500 })
+    .withMessage('Query must not exceed 500 characters')
+    .custom((value: string, { req }) => {
+      parseTaskQuery(value, { userId: req.user?.userId });
+      return true;
+    }),
+  body('sort')
+    .optional()
+    .isString()
+    .withMessage('Sort must be a string')
+    .custom((value: string) => {
+      parseTaskSort(value);
+      return true;
+    }),
+  body('layout')
+    .optional()
+    .isIn([...VIEW_LAYOUTS])
+    .withMessage(`Layout must be one of: ${VIEW_LAYOUTS.join(', ')}`),
+  body('pinned')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Pinned must be a boolean'),
+  body('sharedWith')
+    .optional()
+    .isArray({ max: MAX_VIEW_SHARES })
+    .withMessage(`SharedWith must be an array of at most ${MAX_VIEW_SHARES} user IDs`),
+  body('sharedWith.*')
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('Each shared user must be a valid MongoDB ObjectId'),
+];
+
+// Saved view creation validation
+export const validateSavedViewCreation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must not exceed 100 characters'),
+  body('workspaceId')
+    .optional({ values: 'null' })
+    .matches(/^[0-9a-fA-F]{24}$/)
+    .withMessage('WorkspaceId must be a valid MongoDB ObjectId'),
+  ...validateSavedViewFields(),
+  handleValidationErrors
+];
+
+// Saved view update validation
+export const validateSavedViewUpdate = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name must not exceed 100 characters'),
+  ...validateSavedViewFields(),
+  handleValidationErrors
+];
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Comment document interface
+ * Represents a discussion message posted on a task
+ */
+export interface IComment extends Document {
+  /** ID of the task this comment belongs to */
+  taskId: mongoose.Types.ObjectId;
+  /** ID of the user who wrote the comment */
+  authorId: mongoose.Types.ObjectId;
+  /** Comment text, may contain @email or @userId mentions */
+  body: string;
+  /** IDs of the users mentioned in the comment body */
+  mentions: mongoose.Types.ObjectId[];
+  /** Timestamp of the last edit, unset if never edited */
+  editedAt?: Date;
+  /** Timestamp when comment was created */
+  createdAt: Date;
+  /** Timestamp when comment was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for Comment model
+ * Defines the structure and validation rules for comment documents
+ */
+const CommentSchema = new Schema<IComment>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    editedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // Transform function to format comment data when converting to JSON
+      // Converts _id to id and removes internal fields
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for listing the comments of a task in posting order
+CommentSchema.index({ taskId: 1, createdAt: 1 });
+// Text index for search
+CommentSchema.index({ body: 'text' }, { name: 'comment_text' });
+
+/**
+ * Comment model
+ * Provides methods for querying and manipulating comment documents
+ */
+export const Comment = mongoose.model<IComment>('Comment', CommentSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Deadline reminder document interface
+ * Records that a reminder window has fired for a task, so each window
+ * is only notified once even across server restarts
+ */
+export interface IDeadlineReminder extends Document {
+  /** ID of the task the reminder was sent for */
+  taskId: mongoose.Types.ObjectId;
+  /** Reminder window in milliseconds before the due date */
+  windowMs: number;
+  /** Due date the reminder was sent for, a new due date re-arms the windows */
+  dueDate: Date;
+  /** Timestamp when the reminder was sent */
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for DeadlineReminder model
+ */
+const DeadlineReminderSchema = new Schema<IDeadlineReminder>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    windowMs: {
+      type: Number,
+      required: true,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Unique index used as the "already sent" claim for a window
+DeadlineReminderSchema.index({ taskId: 1, windowMs: 1, dueDate: 1 }, { unique: true });
+
+// Reminder records are only needed until the due date has passed
+DeadlineReminderSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+/**
+ * DeadlineReminder model
+ */
+export const DeadlineReminder = mongoose.model<IDeadlineReminder>(
+  'DeadlineReminder',
+  DeadlineReminderSchema
+);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_TYPES, NotificationType } from './Notification';
+
+/**
+ * Digest item document interface
+ * A notification waiting to be gathered into the next digest email of its
+ * recipient, removed once the digest is queued
+ */
+export interface IDigestItem extends Document {
+  /** ID of the user who receives the digest */
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  resourceId?: mongoose.Types.ObjectId;
+  resourceType?: 'TASK' | 'COMMENT';
+  /** Set when a digest run claims the item, so no other run sends it too */
+  digestId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for DigestItem model
+ */
+const DigestItemSchema = new Schema<IDigestItem>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    resourceId: {
+      type: Schema.Types.ObjectId,
+    },
+    resourceType: {
+      type: String,
+      enum: ['TASK', 'COMMENT'],
+    },
+    digestId: {
+      type: Schema.Types.ObjectId,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for gathering the unclaimed items of each user, oldest first
+DigestItemSchema.index({ digestId: 1, userId: 1, createdAt: 1 });
+
+/**
+ * DigestItem model
+ */
+export const DigestItem = mongoose.model<IDigestItem>('DigestItem', DigestItemSchema);
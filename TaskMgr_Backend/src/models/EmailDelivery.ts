@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_TYPES, NotificationType } from './Notification';
+
+/**
+ * States of a queued email
+ * - PENDING: waiting for its next attempt
+ * - SENDING: handed to the transport, pending again if the attempt never ends
+ * - SENT: delivered to the transport
+ * - FAILED: given up after a permanent failure or the last attempt
+ */
+export const EMAIL_DELIVERY_STATUSES = ['PENDING', 'SENDING', 'SENT', 'FAILED'] as const;
+export type EmailDeliveryStatus = (typeof EMAIL_DELIVERY_STATUSES)[number];
+
+/**
+ * Email delivery document interface
+ * An email waiting in the retry queue, rendered when it was queued
+ */
+export interface IEmailDelivery extends Document {
+  /** ID of the user who receives the email */
+  userId: mongoose.Types.ObjectId;
+  /** Type of the notification the email tells about, unset for digests */
+  type?: NotificationType;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers: Map<string, string>;
+  status: EmailDeliveryStatus;
+  /** Attempts made so far */
+  attempts: number;
+  /** Earliest time of the next attempt */
+  nextAttemptAt: Date;
+  /** Error of the last failed attempt */
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailDeliverySchema = new Schema<IEmailDelivery>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    html: {
+      type: String,
+      required: true,
+    },
+    headers: {
+      type: Map,
+      of: String,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: EMAIL_DELIVERY_STATUSES,
+      default: 'PENDING',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastError: String,
+    sentAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for finding the emails due for an attempt
+EmailDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+/**
+ * Email delivery model
+ * Retry queue of notification emails
+ */
+export const EmailDelivery = mongoose.model<IEmailDelivery>('EmailDelivery', EmailDeliverySchema);
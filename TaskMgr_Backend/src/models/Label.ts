@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Hex color such as #3b82f6
+export const LABEL_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Most labels a task can carry
+export const MAX_TASK_LABELS = 20;
+
+/**
+ * Label document interface
+ * Represents a tag such as "bug" or "client-x" put on tasks. Workspace labels
+ * are shared by the members of the workspace, personal labels belong to the
+ * user who created them
+ */
+export interface ILabel extends Document {
+  /** Label name, unique within its workspace or among the personal labels of its owner */
+  name: string;
+  /** Hex color of the label chip */
+  color: string;
+  /** ID of the workspace the label belongs to, unset for personal labels */
+  workspaceId?: mongoose.Types.ObjectId;
+  /** ID of the user who created the label, the owner of personal labels */
+  createdBy: mongoose.Types.ObjectId;
+  /** Timestamp when label was created */
+  createdAt: Date;
+  /** Timestamp when label was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for Label model
+ * Defines the structure and validation rules for label documents
+ */
+const LabelSchema = new Schema<ILabel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    color: {
+      type: String,
+      required: true,
+      match: LABEL_COLOR_PATTERN,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // Transform function to format label data when converting to JSON
+      // Converts _id to id and removes internal fields
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for listing the labels of a workspace, or the personal labels of a user
+LabelSchema.index({ workspaceId: 1, createdBy: 1, name: 1 });
+
+/**
+ * Label model
+ * Provides methods for querying and manipulating label documents
+ */
+export const Label = mongoose.model<ILabel>('Label', LabelSchema);
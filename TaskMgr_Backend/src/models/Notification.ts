@@ -1,5 +1,14 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export const NOTIFICATION_TYPES = [
+  'TASK_ASSIGNED',
+  'TASK_UPDATED',
+  'DEADLINE_APPROACHING',
+  'MENTION',
+  'TASK_UNBLOCKED',
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
 /**
  * Notification document interface
  * Represents a notification sent to a user about system events
@@ -8,7 +17,7 @@ export interface INotification extends Document {
   /** ID of the user who receives this notification */
   userId: mongoose.Types.ObjectId;
   /** Type of notification */
-  type: 'TASK_ASSIGNED' | 'TASK_UPDATED' | 'DEADLINE_APPROACHING' | 'MENTION';
+  type: NotificationType;
   /** Notification title */
   title: string;
   /** Notification message content */
@@ -38,7 +47,7 @@ const NotificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['TASK_ASSIGNED', 'TASK_UPDATED', 'DEADLINE_APPROACHING', 'MENTION'],
+      enum: NOTIFICATION_TYPES,
       required: true,
     },
     title: {
@@ -81,6 +90,11 @@ const NotificationSchema = new Schema<INotification>(
 NotificationSchema.index({ userId: 1, createdAt: -1 });
 // Index for finding unread notifications by user
 NotificationSchema.index({ userId: 1, read: 1 });
+// Text index for search, a title match ranking above a message match
+NotificationSchema.index(
+  { title: 'text', message: 'text' },
+  { weights: { title: 3, message: 1 }, name: 'notification_text' }
+);
 
 /**
  * Notification model
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const VIEW_LAYOUTS = ['LIST', 'BOARD'] as const;
+export type ViewLayout = (typeof VIEW_LAYOUTS)[number];
+
+// Most users a view can be shared with
+export const MAX_VIEW_SHARES = 50;
+
+/**
+ * SavedView document interface
+ * Represents a named set of task filters, a sort and a layout saved by a user,
+ * such as "My urgent bugs". Views can be shared read-only with other users
+ */
+export interface ISavedView extends Document {
+  /** View name, unique among the views of its owner */
+  name: string;
+  /** ID of the user who saved the view */
+  ownerId: mongoose.Types.ObjectId;
+  /** ID of the workspace whose tasks the view shows, unset for personal tasks */
+  workspaceId?: mongoose.Types.ObjectId;
+  /** Task filters in the task query language, such as "status:TODO assignee:me" */
+  query: string;
+  /** Task sort, such as "-priority,dueDate" */
+  sort: string;
+  /** Whether the tasks are shown as a list or a board */
+  layout: ViewLayout;
+  /** Whether the view is pinned to the navigation of its owner */
+  pinned: boolean;
+  /** IDs of the users who can open the view without changing it */
+  sharedWith: mongoose.Types.ObjectId[];
+  /** Timestamp when view was created */
+  createdAt: Date;
+  /** Timestamp when view was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for SavedView model
+ * Defines the structure and validation rules for saved view documents
+ */
+const SavedViewSchema = new Schema<ISavedView>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+    },
+    query: {
+      type: String,
+      default: '',
+      maxlength: 500,
+    },
+    sort: {
+      type: String,
+      required: true,
+    },
+    layout: {
+      type: String,
+      enum: VIEW_LAYOUTS,
+      default: 'LIST',
+    },
+    pinned: {
+      type: Boolean,
+      default: false,
+    },
+    sharedWith: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // Transform function to format view data when converting to JSON
+      // Converts _id to id and removes internal fields
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for listing the views of a user
+SavedViewSchema.index({ ownerId: 1, name: 1 });
+
+// Index for listing the views shared with a user
+SavedViewSchema.index({ sharedWith: 1 });
+
+/**
+ * SavedView model
+ * Provides methods for querying and manipulating saved view documents
+ */
+export const SavedView = mongoose.model<ISavedView>('SavedView', SavedViewSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Session document interface
+ * Represents a signed-in device, kept alive by a rotating refresh token
+ */
+export interface ISession extends Document {
+  /** ID of the user the session belongs to */
+  userId: mongoose.Types.ObjectId;
+  /** SHA-256 hash of the current refresh token secret */
+  tokenHash: string;
+  /** User agent of the client that last used the session */
+  userAgent?: string;
+  /** IP address of the client that last used the session */
+  ipAddress?: string;
+  /** Timestamp of the last login or refresh */
+  lastUsedAt: Date;
+  /** Timestamp after which the refresh token is no longer accepted */
+  expiresAt: Date;
+  /** Timestamp when session was created */
+  createdAt: Date;
+  /** Timestamp when session was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for Session model
+ * Defines the structure and validation rules for session documents
+ */
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // Transform function to format session data when converting to JSON
+      // Converts _id to id and removes internal fields, the token hash included
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        delete ret.tokenHash;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for listing and revoking the sessions of a user
+SessionSchema.index({ userId: 1, lastUsedAt: -1 });
+// Expired sessions are removed automatically
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Session model
+ * Provides methods for querying and manipulating session documents
+ */
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
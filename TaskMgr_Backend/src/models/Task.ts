@@ -1,17 +1,161 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { StatusCategory, STATUS_CATEGORIES } from '../utils/workflow';
+
+export interface IChecklistItem {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  done: boolean;
+  /** Position of the item in the checklist, starting at 0 */
+  order: number;
+  assigneeId?: mongoose.Types.ObjectId;
+  completedAt?: Date;
+}
+
+/**
+ * File attached to a task, its content is kept by the attachment storage
+ */
+export interface IAttachment {
+  _id: mongoose.Types.ObjectId;
+  /** Original file name */
+  name: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Key of the content in the attachment storage, not sent to clients */
+  storageKey: string;
+  uploadedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
 
 export interface ITask extends Document {
   title: string;
   description?: string;
   dueDate?: Date;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  status: 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED';
+  /** Key of a status of the workflow of the task */
+  status: string;
+  /** Category of the status, kept in sync when the status or the workflow changes */
+  statusCategory: StatusCategory;
   creatorId: mongoose.Types.ObjectId;
   assignedToId?: mongoose.Types.ObjectId;
+  workspaceId?: mongoose.Types.ObjectId;
+  checklist: mongoose.Types.DocumentArray<IChecklistItem>;
+  /** Tasks that must be completed before this one can start */
+  blockedBy: mongoose.Types.ObjectId[];
+  /** Labels of the task, from the workspace of the task or the personal labels of its users */
+  labels: mongoose.Types.ObjectId[];
+  attachments: mongoose.Types.DocumentArray<IAttachment>;
+  /** Series of a recurring task, unset for one-off tasks */
+  seriesId?: mongoose.Types.ObjectId;
+  /** Position of the instance in its series, starting at 1 */
+  occurrence?: number;
+  /** Position of the task in its board column, lower first */
+  position: number;
+  /** When the task last moved to a DONE status, unset while it is not done */
+  completedAt?: Date;
+  /** When the task was archived, unset for tasks not archived */
+  archivedAt?: Date;
+  /** When the task was last unarchived, it is not archived again automatically before the delay is over */
+  unarchivedAt?: Date;
+  /** When the task was moved to the trash, unset for tasks in use */
+  deletedAt?: Date;
+  /** User who moved the task to the trash */
+  deletedBy?: mongoose.Types.ObjectId;
+  /**
+   * Version of the task, incremented by every edit of the fields of the task
+   * form. Exposed to clients as version
+   */
+  __v: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ChecklistItemSchema = new Schema<IChecklistItem>(
+  {
+    text: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    done: {
+      type: Boolean,
+      default: false,
+    },
+    order: {
+      type: Number,
+      required: true,
+    },
+    assigneeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.storageKey;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Percentage of checklist items that are done, null without a checklist
+ */
+export function getChecklistCompletion(checklist: Pick<IChecklistItem, 'done'>[] = []): number | null {
+  if (checklist.length === 0) {
+    return null;
+  }
+  const done = checklist.filter((item) => item.done).length;
+  return Math.round((done / checklist.length) * 100);
+}
+
 const TaskSchema = new Schema<ITask>(
   {
     title: {
@@ -30,9 +174,15 @@ const TaskSchema = new Schema<ITask>(
       enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'],
       default: 'MEDIUM',
     },
+    // Checked against the workflow of the task by the task service,
+    // the default is the first status of the default workflow
     status: {
       type: String,
-      enum: ['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED'],
+      default: 'TODO',
+    },
+    statusCategory: {
+      type: String,
+      enum: STATUS_CATEGORIES,
       default: 'TODO',
     },
     creatorId: {
@@ -44,16 +194,73 @@ const TaskSchema = new Schema<ITask>(
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+    // Unset for personal tasks, visible only to their creator and assignee
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+    },
+    // Kept sorted by order
+    checklist: {
+      type: [ChecklistItemSchema],
+      default: [],
+    },
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      default: [],
+    },
+    labels: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Label' }],
+      default: [],
+    },
+    attachments: {
+      type: [AttachmentSchema],
+      default: [],
+    },
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaskSeries',
+    },
+    occurrence: {
+      type: Number,
+    },
+    position: {
+      type: Number,
+      default: 0,
+    },
+    completedAt: {
+      type: Date,
+    },
+    // Archived tasks are left out of the default listings, independently of their status
+    archivedAt: {
+      type: Date,
+    },
+    unarchivedAt: {
+      type: Date,
+    },
+    // Trashed tasks are left out of every listing until restored or purged
+    deletedAt: {
+      type: Date,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
+    // Only edits of the task form change the version (see taskService.updateTask),
+    // so ticking a checklist item or adding an attachment never conflicts with them
+    skipVersioning: { checklist: true, attachments: true, blockedBy: true },
     toJSON: {
+      virtuals: true,
       // Transform function to format task data when converting to JSON
-      // Converts _id to id and removes internal fields
+      // Converts _id to id, exposes the version and adds the checklist completion
       transform: (_doc, ret: any) => {
         ret.id = ret._id.toString();
         delete ret._id;
+        ret.version = ret.__v ?? 0;
         delete ret.__v;
+        ret.checklistCompletion = getChecklistCompletion(ret.checklist);
         return ret;
       },
     },
@@ -65,8 +272,39 @@ const TaskSchema = new Schema<ITask>(
 TaskSchema.index({ creatorId: 1, status: 1 });
 // Index for finding tasks by assignee and status
 TaskSchema.index({ assignedToId: 1, status: 1 });
-// Index for finding tasks by due date and status (for overdue queries)
-TaskSchema.index({ dueDate: 1, status: 1 });
+// Index for finding tasks by due date and status category (for overdue queries)
+TaskSchema.index({ dueDate: 1, statusCategory: 1 });
+// Index for listing the tasks of a workspace
+TaskSchema.index({ workspaceId: 1, createdAt: -1 });
+// Index for finding the tasks a task is blocking
+TaskSchema.index({ blockedBy: 1 });
+// Index for filtering tasks by label
+TaskSchema.index({ labels: 1 });
+// Text index for search, a title match ranking above a description match
+TaskSchema.index(
+  { title: 'text', description: 'text' },
+  { weights: { title: 5, description: 1 }, name: 'task_text' }
+);
+// Index for finding the completed tasks to archive
+TaskSchema.index({ statusCategory: 1, completedAt: 1 });
+// Index for listing trashed tasks and purging them once expired
+TaskSchema.index({ deletedAt: 1 });
+// Unique index used as the claim when generating the next instance of a series
+TaskSchema.index(
+  { seriesId: 1, occurrence: 1 },
+  { unique: true, partialFilterExpression: { seriesId: { $exists: true } } }
+);
+
+/**
+ * Number of open tasks this task is blocking, available once populated
+ */
+TaskSchema.virtual('blockingCount', {
+  ref: 'Task',
+  localField: '_id',
+  foreignField: 'blockedBy',
+  count: true,
+  match: { statusCategory: { $ne: 'DONE' }, deletedAt: null },
+});
 
 /**
  * Task model
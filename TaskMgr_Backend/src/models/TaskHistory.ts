@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Task history document interface
+ * Represents one audit trail entry for a task: its creation, a single
+ * field change, an assignment change or its deletion
+ */
+export interface ITaskHistory extends Document {
+  /** ID of the task the entry belongs to */
+  taskId: mongoose.Types.ObjectId;
+  /** ID of the user who made the change */
+  actorId: mongoose.Types.ObjectId;
+  /** Kind of change */
+  action: 'CREATED' | 'UPDATED' | 'ASSIGNED' | 'DELETED' | 'RESTORED';
+  /** Changed field, set for UPDATED and ASSIGNED entries */
+  field?: string;
+  /** Field value before the change */
+  oldValue?: unknown;
+  /** Field value after the change */
+  newValue?: unknown;
+  /** Timestamp when the change was made */
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for TaskHistory model
+ * Entries are append-only, so only createdAt is tracked
+ */
+const TaskHistorySchema = new Schema<ITaskHistory>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['CREATED', 'UPDATED', 'ASSIGNED', 'DELETED', 'RESTORED'],
+      required: true,
+    },
+    field: {
+      type: String,
+    },
+    oldValue: {
+      type: Schema.Types.Mixed,
+    },
+    newValue: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      // Transform function to format history data when converting to JSON
+      // Converts _id to id and removes internal fields
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for reading the timeline of a task, newest first
+TaskHistorySchema.index({ taskId: 1, createdAt: -1 });
+
+/**
+ * TaskHistory model
+ * Provides methods for querying and manipulating task history documents
+ */
+export const TaskHistory = mongoose.model<ITaskHistory>('TaskHistory', TaskHistorySchema);
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Task series document interface
+ * A recurring task is a series of task instances generated one at a time
+ * from a recurrence rule. The series holds the fields copied into each new
+ * instance, so editing a single instance does not affect the next ones
+ */
+export interface ITaskSeries extends Document {
+  /** RFC 5545 RRULE subset, see utils/recurrence */
+  rule: string;
+  /** Due date of the first instance, occurrences are computed from it */
+  startDate: Date;
+  creatorId: mongoose.Types.ObjectId;
+  workspaceId?: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  assignedToId?: mongoose.Types.ObjectId;
+  /** Number of instances generated so far, the latest one has this occurrence */
+  occurrenceCount: number;
+  /** Due date of the latest instance */
+  lastDueDate: Date;
+  /** Set once the rule has no further occurrence, the recurrence was removed or the latest instance was purged */
+  endedAt?: Date;
+  /** Set while the latest instance is in the trash, no instance is generated meanwhile */
+  pausedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for TaskSeries model
+ */
+const TaskSeriesSchema = new Schema<ITaskSeries>(
+  {
+    rule: {
+      type: String,
+      required: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    creatorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+    },
+    priority: {
+      type: String,
+      enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'],
+      default: 'MEDIUM',
+    },
+    assignedToId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    occurrenceCount: {
+      type: Number,
+      default: 1,
+    },
+    lastDueDate: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    pausedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for the scheduler looking for series whose latest instance is due
+TaskSeriesSchema.index({ endedAt: 1, pausedAt: 1, lastDueDate: 1 });
+
+/**
+ * TaskSeries model
+ */
+export const TaskSeries = mongoose.model<ITaskSeries>('TaskSeries', TaskSeriesSchema);
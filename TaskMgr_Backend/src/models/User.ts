@@ -1,14 +1,41 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export const USER_ROLES = ['ADMIN', 'USER'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Channels a notification can be delivered through
+ * - inApp: stored and pushed to the app
+ * - email: sent on its own by email
+ * - digest: gathered into a periodic summary email
+ */
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'digest'] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export type ChannelPreferences = Partial<Record<NotificationChannel, boolean>>;
+
+export interface UserPreferences {
+  // Channel choices by notification type, only the ones changed from the defaults
+  notifications: Map<string, ChannelPreferences>;
+  // Tasks the user gets no notification about
+  mutedTaskIds: mongoose.Types.ObjectId[];
+  // Tasks the user hears about every change of, without creating or being assigned them
+  watchedTaskIds: mongoose.Types.ObjectId[];
+}
+
 export interface IUser extends Document {
   email: string;
   password: string;
   firstName: string;
   lastName: string;
-  role: 'ADMIN' | 'USER';
+  role: UserRole;
   avatarUrl?: string;
   bio?: string;
   phoneNumber?: string;
+  // Deactivated users can neither log in nor use existing tokens
+  isActive: boolean;
+  deactivatedAt?: Date;
+  preferences: UserPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,12 +65,29 @@ const UserSchema = new Schema<IUser>(
     },
     role: {
       type: String,
-      enum: ['ADMIN', 'USER'],
+      enum: USER_ROLES,
       default: 'USER',
     },
     avatarUrl: String,
     bio: String,
     phoneNumber: String,
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    deactivatedAt: Date,
+    preferences: {
+      notifications: {
+        type: Map,
+        of: new Schema<ChannelPreferences>(
+          { inApp: Boolean, email: Boolean, digest: Boolean },
+          { _id: false }
+        ),
+        default: {},
+      },
+      mutedTaskIds: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      watchedTaskIds: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+    },
   },
   {
     timestamps: true,
@@ -63,6 +107,8 @@ const UserSchema = new Schema<IUser>(
 
 // Create unique index on email for fast lookups and uniqueness constraint
 UserSchema.index({ email: 1 }, { unique: true });
+// Index for finding the watchers of a task
+UserSchema.index({ 'preferences.watchedTaskIds': 1 });
 
 /**
  * User model
@@ -0,0 +1,145 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowTransition,
+  STATUS_CATEGORIES,
+  STATUS_COLORS,
+  TRANSITION_ACTORS,
+} from '../utils/workflow';
+
+/**
+ * Roles a user can hold in a workspace, from most to least privileged
+ * - OWNER: full control, including deleting the workspace (exactly one per workspace)
+ * - ADMIN: manages members and every task of the workspace
+ * - MEMBER: creates tasks and edits the ones they created or are assigned to
+ * - VIEWER: read-only access
+ */
+export const WORKSPACE_ROLES = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+/**
+ * Workspace member subdocument interface
+ */
+export interface IWorkspaceMember {
+  /** ID of the member user */
+  userId: mongoose.Types.ObjectId;
+  /** Role of the member in the workspace */
+  role: WorkspaceRole;
+  /** Timestamp when the user joined the workspace */
+  joinedAt: Date;
+}
+
+/**
+ * Workspace document interface
+ * Represents a team sharing a set of tasks
+ */
+export interface IWorkspace extends Document {
+  /** Workspace display name */
+  name: string;
+  /** Optional workspace description */
+  description?: string;
+  /** Members of the workspace, the owner included */
+  members: IWorkspaceMember[];
+  /** Statuses and transitions of the tasks, the default workflow when unset */
+  workflow?: WorkflowDefinition;
+  /** Timestamp when workspace was created */
+  createdAt: Date;
+  /** Timestamp when workspace was last updated */
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema = new Schema<IWorkspaceMember>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: WORKSPACE_ROLES,
+      default: 'MEMBER',
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const WorkflowStatusSchema = new Schema<WorkflowStatus>(
+  {
+    key: { type: String, required: true },
+    name: { type: String, required: true, trim: true },
+    category: { type: String, enum: STATUS_CATEGORIES, required: true },
+    color: { type: String, enum: STATUS_COLORS, default: 'gray' },
+  },
+  { _id: false }
+);
+
+const WorkflowTransitionSchema = new Schema<WorkflowTransition>(
+  {
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+    actors: { type: [{ type: String, enum: TRANSITION_ACTORS }], default: [] },
+  },
+  { _id: false }
+);
+
+const WorkflowSchema = new Schema<WorkflowDefinition>(
+  {
+    statuses: { type: [WorkflowStatusSchema], default: [] },
+    transitions: { type: [WorkflowTransitionSchema], default: [] },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for Workspace model
+ * Defines the structure and validation rules for workspace documents
+ */
+const WorkspaceSchema = new Schema<IWorkspace>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    members: {
+      type: [WorkspaceMemberSchema],
+      default: [],
+    },
+    workflow: {
+      type: WorkflowSchema,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // Transform function to format workspace data when converting to JSON
+      // Converts _id to id and removes internal fields
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Index for finding the workspaces of a user
+WorkspaceSchema.index({ 'members.userId': 1 });
+
+/**
+ * Workspace model
+ * Provides methods for querying and manipulating workspace documents
+ */
+export const Workspace = mongoose.model<IWorkspace>('Workspace', WorkspaceSchema);
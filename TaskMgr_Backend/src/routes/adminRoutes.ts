@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import * as adminController from '../controllers/adminController';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  validateAdminUserQuery,
+  validateUserRole,
+  validateAdminTaskQuery,
+  validateTaskReassignment,
+  validateObjectId,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+const router = Router();
+
+// Every admin route requires an authenticated platform admin
+router.use(authenticate, authorize('ADMIN'));
+
+/**
+ * GET /api/admin/users
+ * List and search every user, including deactivated ones
+ * Admin route
+ */
+router.get('/users', validateAdminUserQuery, adminController.listUsers);
+
+/**
+ * POST /api/admin/users/:id/deactivate
+ * Deactivate a user and sign them out everywhere
+ * Admin route
+ */
+router.post(
+  '/users/:id/deactivate',
+  [validateObjectId('id'), handleValidationErrors],
+  adminController.deactivateUser
+);
+
+/**
+ * POST /api/admin/users/:id/reactivate
+ * Reactivate a deactivated user
+ * Admin route
+ */
+router.post(
+  '/users/:id/reactivate',
+  [validateObjectId('id'), handleValidationErrors],
+  adminController.reactivateUser
+);
+
+/**
+ * PUT /api/admin/users/:id/role
+ * Change the platform role of a user
+ * Admin route
+ */
+router.put(
+  '/users/:id/role',
+  [validateObjectId('id'), handleValidationErrors],
+  validateUserRole,
+  adminController.updateUserRole
+);
+
+/**
+ * GET /api/admin/tasks
+ * List every task with filters, sorting and pagination
+ * Admin route
+ */
+router.get('/tasks', validateAdminTaskQuery, adminController.getTasks);
+
+/**
+ * GET /api/admin/tasks/:id
+ * Get any task
+ * Admin route
+ */
+router.get(
+  '/tasks/:id',
+  [validateObjectId('id'), handleValidationErrors],
+  adminController.getTask
+);
+
+/**
+ * PUT /api/admin/tasks/:id/assignee
+ * Reassign any task, null unassigns it
+ * Admin route
+ */
+router.put(
+  '/tasks/:id/assignee',
+  [validateObjectId('id'), handleValidationErrors],
+  validateTaskReassignment,
+  adminController.reassignTask
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import * as attachmentController from '../controllers/attachmentController';
+import { authenticate } from '../middleware/auth';
+import { uploadFile } from '../middleware/upload';
+import { validateObjectId, handleValidationErrors } from '../middleware/validation';
+
+/**
+ * Attachment routes, mounted under /api/tasks/:id/attachments
+ * Attachment metadata is part of the task, uploads and deletions respond
+ * with the updated task
+ */
+const router = Router({ mergeParams: true });
+
+/**
+ * POST /api/tasks/:id/attachments
+ * Upload a file (multipart field "file") and attach it to a task
+ * Protected route
+ */
+router.post(
+  '/',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  uploadFile('file'),
+  attachmentController.addAttachment
+);
+
+/**
+ * GET /api/tasks/:id/attachments/:attachmentId
+ * Download an attachment, for users who can read the task
+ * Protected route
+ */
+router.get(
+  '/:attachmentId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('attachmentId'), handleValidationErrors],
+  attachmentController.downloadAttachment
+);
+
+/**
+ * DELETE /api/tasks/:id/attachments/:attachmentId
+ * Remove an attachment from a task and delete its file
+ * Protected route
+ */
+router.delete(
+  '/:attachmentId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('attachmentId'), handleValidationErrors],
+  attachmentController.deleteAttachment
+);
+
+export default router;
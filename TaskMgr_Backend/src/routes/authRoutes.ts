@@ -5,6 +5,9 @@ import {
   validateUserRegistration,
   validateUserLogin,
   validatePasswordChange,
+  validateRefreshToken,
+  validateObjectId,
+  handleValidationErrors,
 } from '../middleware/validation';
 
 const router = Router();
@@ -23,9 +26,16 @@ router.post('/register', validateUserRegistration, authController.register);
  */
 router.post('/login', validateUserLogin, authController.login);
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ * Public route
+ */
+router.post('/refresh', validateRefreshToken, authController.refresh);
+
 /**
  * POST /api/auth/logout
- * Logout a user
+ * Logout a user and revoke the current session
  * Protected route
  */
 router.post('/logout', authenticate, authController.logout);
@@ -44,4 +54,30 @@ router.get('/me', authenticate, authController.getCurrentUser);
  */
 router.put('/change-password', authenticate, validatePasswordChange, authController.changePassword);
 
+/**
+ * GET /api/auth/sessions
+ * List the active sessions of the current user
+ * Protected route
+ */
+router.get('/sessions', authenticate, authController.getSessions);
+
+/**
+ * DELETE /api/auth/sessions
+ * Revoke every session of the current user except the current one
+ * Protected route
+ */
+router.delete('/sessions', authenticate, authController.revokeOtherSessions);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke a session of the current user
+ * Protected route
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  authController.revokeSession
+);
+
 export default router;
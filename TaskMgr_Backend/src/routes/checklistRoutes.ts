@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import * as checklistController from '../controllers/checklistController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateChecklistItem,
+  validateChecklistItemUpdate,
+  validateChecklistOrder,
+  validateObjectId,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+/**
+ * Checklist routes, mounted under /api/tasks/:id/checklist
+ * Every route responds with the updated task
+ */
+const router = Router({ mergeParams: true });
+
+/**
+ * POST /api/tasks/:id/checklist
+ * Append an item to the checklist of a task
+ * Protected route
+ */
+router.post(
+  '/',
+  authenticate,
+  [validateObjectId('id'), ...validateChecklistItem],
+  checklistController.addChecklistItem
+);
+
+/**
+ * PUT /api/tasks/:id/checklist/order
+ * Reorder the checklist, itemIds lists every item in the new order
+ * Protected route
+ * Note: This must come before /:itemId to avoid route conflicts
+ */
+router.put(
+  '/order',
+  authenticate,
+  [validateObjectId('id'), ...validateChecklistOrder],
+  checklistController.reorderChecklist
+);
+
+/**
+ * PUT /api/tasks/:id/checklist/:itemId
+ * Edit, check or uncheck a checklist item
+ * Protected route
+ */
+router.put(
+  '/:itemId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('itemId'), ...validateChecklistItemUpdate],
+  checklistController.updateChecklistItem
+);
+
+/**
+ * DELETE /api/tasks/:id/checklist/:itemId
+ * Remove a checklist item
+ * Protected route
+ */
+router.delete(
+  '/:itemId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('itemId'), handleValidationErrors],
+  checklistController.removeChecklistItem
+);
+
+export default router;
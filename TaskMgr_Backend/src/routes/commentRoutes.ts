@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import * as commentController from '../controllers/commentController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateComment,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+/**
+ * Comment routes, mounted under /api/tasks/:id/comments
+ * mergeParams exposes the parent task :id to the handlers
+ */
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/tasks/:id/comments
+ * Get the comments of a task with pagination
+ * Protected route
+ */
+router.get(
+  '/',
+  authenticate,
+  [validateObjectId('id'), ...validatePagination(), handleValidationErrors],
+  commentController.getComments
+);
+
+/**
+ * POST /api/tasks/:id/comments
+ * Add a comment to a task
+ * Protected route
+ */
+router.post(
+  '/',
+  authenticate,
+  [validateObjectId('id'), ...validateComment],
+  commentController.createComment
+);
+
+/**
+ * PUT /api/tasks/:id/comments/:commentId
+ * Edit a comment
+ * Protected route
+ */
+router.put(
+  '/:commentId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('commentId'), ...validateComment],
+  commentController.updateComment
+);
+
+/**
+ * DELETE /api/tasks/:id/comments/:commentId
+ * Delete a comment
+ * Protected route
+ */
+router.delete(
+  '/:commentId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('commentId'), handleValidationErrors],
+  commentController.deleteComment
+);
+
+export default router;
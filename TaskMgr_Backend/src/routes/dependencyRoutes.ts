@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import * as dependencyController from '../controllers/dependencyController';
+import { authenticate } from '../middleware/auth';
+import { validateDependency, validateObjectId, handleValidationErrors } from '../middleware/validation';
+
+/**
+ * Task dependency routes, mounted under /api/tasks/:id/dependencies
+ */
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/tasks/:id/dependencies
+ * List the tasks blocking a task and the tasks it blocks
+ * Protected route
+ */
+router.get(
+  '/',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  dependencyController.getDependencies
+);
+
+/**
+ * POST /api/tasks/:id/dependencies
+ * Mark the task as blocked by blockerId, responds with the updated task
+ * Protected route
+ */
+router.post(
+  '/',
+  authenticate,
+  [validateObjectId('id'), ...validateDependency],
+  dependencyController.addDependency
+);
+
+/**
+ * DELETE /api/tasks/:id/dependencies/:blockerId
+ * Remove a blocker from the task, responds with the updated task
+ * Protected route
+ */
+router.delete(
+  '/:blockerId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('blockerId'), handleValidationErrors],
+  dependencyController.removeDependency
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as emailController from '../controllers/emailController';
+
+const router = Router();
+
+/**
+ * GET /api/email/unsubscribe?token=
+ * Page confirming the unsubscribe link of an email, changes nothing
+ * Public route, the signed token identifies the user
+ */
+router.get('/unsubscribe', emailController.unsubscribePage);
+
+/**
+ * POST /api/email/unsubscribe?token=
+ * Stop the emails of a notification type, from the confirmation page or the
+ * one-click unsubscribe of mail clients
+ * Public route, the signed token identifies the user
+ */
+router.post('/unsubscribe', emailController.unsubscribe);
+
+export default router;
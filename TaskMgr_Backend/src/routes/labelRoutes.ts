@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import * as labelController from '../controllers/labelController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateLabelCreation,
+  validateLabelUpdate,
+  validateObjectId,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/labels
+ * Get the labels of the workspaceId workspace, or the personal labels of
+ * the user without workspaceId
+ * Protected route
+ */
+router.get(
+  '/',
+  authenticate,
+  [validateObjectId('workspaceId', 'query').optional(), handleValidationErrors],
+  labelController.getLabels
+);
+
+/**
+ * POST /api/labels
+ * Create a workspace label, or a personal label without workspaceId
+ * Protected route
+ */
+router.post('/', authenticate, validateLabelCreation, labelController.createLabel);
+
+/**
+ * PUT /api/labels/:id
+ * Rename or recolor a label
+ * Protected route
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), ...validateLabelUpdate],
+  labelController.updateLabel
+);
+
+/**
+ * DELETE /api/labels/:id
+ * Delete a label and remove it from its tasks
+ * Protected route
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  labelController.deleteLabel
+);
+
+export default router;
@@ -1,7 +1,12 @@
 import { Router } from 'express';
 import * as notificationController from '../controllers/notificationController';
 import { authenticate } from '../middleware/auth';
-import { validateObjectId, handleValidationErrors } from '../middleware/validation';
+import {
+  validateObjectId,
+  validateCursor,
+  validateLimit,
+  handleValidationErrors,
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -15,10 +20,15 @@ router.put('/read-all', authenticate, notificationController.markAllAsRead);
 
 /**
  * GET /api/notifications
- * Get all notifications for the current user
+ * Get all notifications for the current user, or a page of them with after or before
  * Protected route
  */
-router.get('/', authenticate, notificationController.getNotifications);
+router.get(
+  '/',
+  authenticate,
+  [...validateCursor(), validateLimit(), handleValidationErrors],
+  notificationController.getNotifications
+);
 
 /**
  * PUT /api/notifications/:id/read
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import * as savedViewController from '../controllers/savedViewController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateSavedViewCreation,
+  validateSavedViewUpdate,
+  validateObjectId,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/views
+ * Get the saved views of the user and the views shared with them
+ * Protected route
+ */
+router.get('/', authenticate, savedViewController.getViews);
+
+/**
+ * GET /api/views/:id
+ * Get a view of the user or shared with them
+ * Protected route
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  savedViewController.getViewById
+);
+
+/**
+ * POST /api/views
+ * Save a view of the tasks of a workspace, or of personal tasks without workspaceId
+ * Protected route
+ */
+router.post('/', authenticate, validateSavedViewCreation, savedViewController.createView);
+
+/**
+ * PUT /api/views/:id
+ * Update a view of the user
+ * Protected route
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), ...validateSavedViewUpdate],
+  savedViewController.updateView
+);
+
+/**
+ * DELETE /api/views/:id
+ * Delete a view of the user
+ * Protected route
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  savedViewController.deleteView
+);
+
+export default router;
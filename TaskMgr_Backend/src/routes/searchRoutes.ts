@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as searchController from '../controllers/searchController';
+import { authenticate } from '../middleware/auth';
+import { validateSearchQuery } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/search
+ * Search tasks, comments, users and notifications, results grouped by type
+ * and ranked by relevance with highlighted snippets
+ * Protected route
+ */
+router.get('/', authenticate, validateSearchQuery, searchController.search);
+
+export default router;
@@ -5,58 +5,80 @@ import {
   validateTaskCreation,
   validateTaskUpdate,
   validateObjectId,
+  validateTaskQuery,
+  validateTaskOrder,
+  validateBulkTaskOperation,
+  validateTaskSort,
+  validateCursor,
+  validateLimit,
   validatePagination,
+  validateTaskSubscription,
   handleValidationErrors,
 } from '../middleware/validation';
-import { query } from 'express-validator';
 
 const router = Router();
 
 /**
  * GET /api/tasks/assigned
- * Get tasks assigned to the current user
+ * Get tasks assigned to the current user, most urgent first unless sorted
  * Protected route
  * Note: This must come before /tasks/:id to avoid route conflicts
  */
-router.get('/assigned', authenticate, taskController.getAssignedTasks);
+router.get(
+  '/assigned',
+  authenticate,
+  [validateTaskSort(), ...validateCursor(), validateLimit(), handleValidationErrors],
+  taskController.getAssignedTasks
+);
 
 /**
  * GET /api/tasks/created
  * Get tasks created by the current user
  * Protected route
  */
-router.get('/created', authenticate, taskController.getCreatedTasks);
+router.get(
+  '/created',
+  authenticate,
+  [validateTaskSort(), ...validateCursor(), validateLimit(), handleValidationErrors],
+  taskController.getCreatedTasks
+);
 
 /**
  * GET /api/tasks/overdue
  * Get overdue tasks for the current user
  * Protected route
  */
-router.get('/overdue', authenticate, taskController.getOverdueTasks);
+router.get(
+  '/overdue',
+  authenticate,
+  [validateTaskSort(), ...validateCursor(), validateLimit(), handleValidationErrors],
+  taskController.getOverdueTasks
+);
+
+/**
+ * GET /api/tasks/trash
+ * Get the trashed tasks the current user may restore, most recently trashed first
+ * Protected route
+ */
+router.get(
+  '/trash',
+  authenticate,
+  [...validatePagination(), validateObjectId('workspaceId', 'query').optional(), handleValidationErrors],
+  taskController.getTrashedTasks
+);
 
 /**
  * GET /api/tasks
- * Get all tasks with filtering and pagination
+ * Get all tasks with filtering, sorting and pagination
+ * Without workspaceId, lists the tasks the user created or is assigned to
  * Protected route
  */
 router.get(
   '/',
   authenticate,
   [
-    ...validatePagination(),
-    query('status')
-      .optional()
-      .isIn(['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED'])
-      .withMessage('Status must be one of: TODO, IN_PROGRESS, REVIEW, COMPLETED'),
-    query('priority')
-      .optional()
-      .isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT'])
-      .withMessage('Priority must be one of: LOW, MEDIUM, HIGH, URGENT'),
-    query('search')
-      .optional()
-      .trim()
-      .isLength({ max: 200 })
-      .withMessage('Search query must not exceed 200 characters'),
+    ...validateTaskQuery,
+    validateObjectId('workspaceId', 'query').optional(),
     handleValidationErrors,
   ],
   taskController.getTasks
@@ -74,6 +96,18 @@ router.get(
   taskController.getTaskById
 );
 
+/**
+ * GET /api/tasks/:id/history
+ * Get the change history of a task, newest first
+ * Protected route
+ */
+router.get(
+  '/:id/history',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  taskController.getTaskHistory
+);
+
 /**
  * POST /api/tasks
  * Create a new task
@@ -81,6 +115,21 @@ router.get(
  */
 router.post('/', authenticate, validateTaskCreation, taskController.createTask);
 
+/**
+ * PUT /api/tasks/order
+ * Reorder the tasks of a board column, taskIds lists them in the new order
+ * Protected route
+ * Note: This must come before /:id to avoid route conflicts
+ */
+router.put('/order', authenticate, validateTaskOrder, taskController.reorderTasks);
+
+/**
+ * POST /api/tasks/bulk
+ * Apply one operation to many tasks, returning the outcome for each task
+ * Protected route
+ */
+router.post('/bulk', authenticate, validateBulkTaskOperation, taskController.bulkUpdateTasks);
+
 /**
  * PUT /api/tasks/:id
  * Update a task
@@ -95,7 +144,7 @@ router.put(
 
 /**
  * DELETE /api/tasks/:id
- * Delete a task
+ * Move a task to the trash
  * Protected route
  */
 router.delete(
@@ -105,4 +154,64 @@ router.delete(
   taskController.deleteTask
 );
 
+/**
+ * POST /api/tasks/:id/restore
+ * Restore a task from the trash
+ * Protected route
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  taskController.restoreTask
+);
+
+/**
+ * POST /api/tasks/:id/archive
+ * Archive a completed task
+ * Protected route
+ */
+router.post(
+  '/:id/archive',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  taskController.archiveTask
+);
+
+/**
+ * POST /api/tasks/:id/unarchive
+ * Bring an archived task back to the default listings
+ * Protected route
+ */
+router.post(
+  '/:id/unarchive',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  taskController.unarchiveTask
+);
+
+/**
+ * PUT /api/tasks/:id/subscription
+ * Watch, mute or stop following a task
+ * Protected route
+ */
+router.put(
+  '/:id/subscription',
+  authenticate,
+  [validateObjectId('id'), ...validateTaskSubscription],
+  taskController.setTaskSubscription
+);
+
+/**
+ * DELETE /api/tasks/:id/purge
+ * Delete a trashed task for good
+ * Protected route
+ */
+router.delete(
+  '/:id/purge',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  taskController.purgeTask
+);
+
 export default router;
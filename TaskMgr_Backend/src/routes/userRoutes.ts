@@ -1,7 +1,14 @@
 import { Router } from 'express';
 import * as userController from '../controllers/userController';
 import { authenticate } from '../middleware/auth';
-import { validateProfileUpdate } from '../middleware/validation';
+import {
+  validateProfileUpdate,
+  validateNotificationPreferences,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors,
+} from '../middleware/validation';
+import { query } from 'express-validator';
 
 const router = Router();
 
@@ -19,4 +26,58 @@ router.get('/profile', authenticate, userController.getUserProfile);
  */
 router.put('/profile', authenticate, validateProfileUpdate, userController.updateUserProfile);
 
+/**
+ * GET /api/users/preferences
+ * Get the notification preferences of the current user
+ * Protected route
+ */
+router.get('/preferences', authenticate, userController.getNotificationPreferences);
+
+/**
+ * PUT /api/users/preferences
+ * Change the notification channels of the current user
+ * Protected route
+ */
+router.put(
+  '/preferences',
+  authenticate,
+  validateNotificationPreferences,
+  userController.updateNotificationPreferences
+);
+
+/**
+ * GET /api/users
+ * Search users by name or email with pagination
+ * Optional workspaceId restricts the results to the members of a workspace
+ * Protected route
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    ...validatePagination(),
+    query('search')
+      .optional()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Search query must not exceed 100 characters'),
+    validateObjectId('workspaceId', 'query').optional(),
+    handleValidationErrors,
+  ],
+  userController.searchUsers
+);
+
+/**
+ * GET /api/users/:id
+ * Get the public profile of a user
+ * Protected route
+ * Note: This must come after /users/profile and /users/preferences to avoid route conflicts
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  userController.getPublicProfile
+);
+
 export default router;
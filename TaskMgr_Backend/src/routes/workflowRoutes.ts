@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as workflowController from '../controllers/workflowController';
+import { authenticate } from '../middleware/auth';
+import { validateObjectId, handleValidationErrors } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/workflow
+ * Get the statuses and transitions tasks follow, those of the workspaceId
+ * workspace, or of personal tasks without workspaceId
+ * Protected route
+ */
+router.get(
+  '/',
+  authenticate,
+  [validateObjectId('workspaceId', 'query').optional(), handleValidationErrors],
+  workflowController.getWorkflow
+);
+
+export default router;
@@ -0,0 +1,141 @@
+import { Router } from 'express';
+import * as workspaceController from '../controllers/workspaceController';
+import * as workflowController from '../controllers/workflowController';
+import { authenticate } from '../middleware/auth';
+import {
+  validateWorkspaceCreation,
+  validateWorkspaceUpdate,
+  validateWorkspaceMember,
+  validateWorkspaceRole,
+  validateTaskCreation,
+  validateTaskQuery,
+  validateWorkflow,
+  validateObjectId,
+  handleValidationErrors,
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/workspaces
+ * Get the workspaces the current user belongs to
+ * Protected route
+ */
+router.get('/', authenticate, workspaceController.getWorkspaces);
+
+/**
+ * POST /api/workspaces
+ * Create a workspace owned by the current user
+ * Protected route
+ */
+router.post('/', authenticate, validateWorkspaceCreation, workspaceController.createWorkspace);
+
+/**
+ * GET /api/workspaces/:id
+ * Get a workspace with its members
+ * Protected route, workspace members only
+ */
+router.get(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  workspaceController.getWorkspaceById
+);
+
+/**
+ * PUT /api/workspaces/:id
+ * Update a workspace
+ * Protected route, workspace owner and admins only
+ */
+router.put(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), ...validateWorkspaceUpdate],
+  workspaceController.updateWorkspace
+);
+
+/**
+ * DELETE /api/workspaces/:id
+ * Delete an empty workspace
+ * Protected route, workspace owner only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [validateObjectId('id'), handleValidationErrors],
+  workspaceController.deleteWorkspace
+);
+
+/**
+ * POST /api/workspaces/:id/members
+ * Add a user to a workspace by email
+ * Protected route, workspace owner and admins only
+ */
+router.post(
+  '/:id/members',
+  authenticate,
+  [validateObjectId('id'), ...validateWorkspaceMember],
+  workspaceController.addMember
+);
+
+/**
+ * PUT /api/workspaces/:id/members/:userId
+ * Change the role of a member
+ * Protected route, workspace owner and admins only
+ */
+router.put(
+  '/:id/members/:userId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('userId'), validateWorkspaceRole(), handleValidationErrors],
+  workspaceController.updateMemberRole
+);
+
+/**
+ * DELETE /api/workspaces/:id/members/:userId
+ * Remove a member, or leave the workspace when userId is the current user
+ * Protected route
+ */
+router.delete(
+  '/:id/members/:userId',
+  authenticate,
+  [validateObjectId('id'), validateObjectId('userId'), handleValidationErrors],
+  workspaceController.removeMember
+);
+
+/**
+ * PUT /api/workspaces/:id/workflow
+ * Replace the statuses and transitions of the tasks of a workspace
+ * Protected route, workspace owner and admins only
+ */
+router.put(
+  '/:id/workflow',
+  authenticate,
+  [validateObjectId('id'), ...validateWorkflow],
+  workflowController.updateWorkflow
+);
+
+/**
+ * GET /api/workspaces/:id/tasks
+ * Get the tasks of a workspace with filtering, sorting and pagination
+ * Protected route, workspace members only
+ */
+router.get(
+  '/:id/tasks',
+  authenticate,
+  [validateObjectId('id'), ...validateTaskQuery, handleValidationErrors],
+  workspaceController.getWorkspaceTasks
+);
+
+/**
+ * POST /api/workspaces/:id/tasks
+ * Create a task in a workspace
+ * Protected route, workspace members who can edit tasks only
+ */
+router.post(
+  '/:id/tasks',
+  authenticate,
+  [validateObjectId('id'), ...validateTaskCreation],
+  workspaceController.createWorkspaceTask
+);
+
+export default router;
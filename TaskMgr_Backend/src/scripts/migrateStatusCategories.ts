@@ -0,0 +1,56 @@
+/**
+ * Status Category Migration
+ *
+ * Tasks created before workflows were configurable have no statusCategory.
+ * This script sets it from the workflow of each task, so queries on open and
+ * done tasks see them. Safe to run more than once.
+ *
+ * Usage:
+ *   npm run migrate:status-categories
+ *   or
+ *   ts-node src/scripts/migrateStatusCategories.ts
+ */
+
+import { config } from '../config/env';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { Task } from '../models/Task';
+import { getWorkflowForWorkspace } from '../services/workflowService';
+
+async function migrateStatusCategories(): Promise<void> {
+  try {
+    console.log('Connecting to database...');
+    await connectDatabase(config.mongodbUri);
+
+    const workspaceIds = await Task.distinct('workspaceId', { statusCategory: { $exists: false } });
+    let updated = 0;
+
+    // Personal tasks, matched by a null workspaceId, follow the default workflow
+    for (const workspaceId of [null, ...workspaceIds.filter(Boolean)]) {
+      const workflow = await getWorkflowForWorkspace(workspaceId);
+
+      for (const status of workflow.statuses) {
+        const result = await Task.updateMany(
+          { workspaceId, status: status.key, statusCategory: { $exists: false } },
+          { statusCategory: status.category }
+        );
+        updated += result.modifiedCount;
+      }
+    }
+
+    console.log(`✓ Set the status category of ${updated} tasks`);
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Error migrating status categories:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+}
+
+// Run the migration if this file is executed directly
+if (require.main === module) {
+  migrateStatusCategories();
+}
+
+export { migrateStatusCategories };
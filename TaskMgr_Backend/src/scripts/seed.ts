@@ -16,6 +16,7 @@ import { User } from '../models/User';
 import { Task } from '../models/Task';
 import { Notification } from '../models/Notification';
 import { hashPassword } from '../utils/password';
+import { DEFAULT_WORKFLOW, findStatus } from '../utils/workflow';
 
 /**
  * Sample user data
@@ -231,6 +232,7 @@ async function seedTasks(userIdMap: Map<string, string>): Promise<void> {
     
     const task = await Task.create({
       ...template,
+      statusCategory: findStatus(DEFAULT_WORKFLOW, template.status)!.category,
       creatorId,
       assignedToId,
       dueDate,
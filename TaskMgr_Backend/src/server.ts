@@ -3,6 +3,12 @@ import { createApp } from './app';
 import { config } from './config/env';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import { initializeSocketIO, closeSocketIO } from './socket';
+import { startDeadlineScheduler, stopDeadlineScheduler } from './services/deadlineReminderService';
+import { startRecurrenceScheduler, stopRecurrenceScheduler } from './services/recurrenceService';
+import { startTrashRetentionScheduler, stopTrashRetentionScheduler } from './services/trashRetentionService';
+import { startArchivalScheduler, stopArchivalScheduler } from './services/taskArchivalService';
+import { startEmailQueue, stopEmailQueue } from './services/emailService';
+import { startDigestScheduler, stopDigestScheduler } from './services/digestService';
 
 /**
  * TaskMgr Backend Server Entry Point
@@ -11,6 +17,11 @@ import { initializeSocketIO, closeSocketIO } from './socket';
  * - Express application
  * - MongoDB connection
  * - Socket.IO real-time communication
+ * - Deadline reminder scheduler
+ * - Recurring task scheduler
+ * - Trash retention scheduler
+ * - Task archival scheduler
+ * - Email queue
  * - Graceful shutdown handling
  */
 
@@ -32,6 +43,14 @@ async function startServer(): Promise<void> {
     console.log('Connecting to MongoDB...');
     await connectDatabase(config.mongodbUri);
 
+    // Start background jobs once the database is available
+    startDeadlineScheduler();
+    startRecurrenceScheduler();
+    startTrashRetentionScheduler();
+    startArchivalScheduler();
+    startEmailQueue();
+    startDigestScheduler();
+
     // Start HTTP server
     httpServer.listen(config.port, () => {
       console.log('='.repeat(50));
@@ -67,6 +86,14 @@ async function gracefulShutdown(signal: string): Promise<void> {
       });
     });
 
+    // Stop background jobs before their connections go away
+    await stopDeadlineScheduler();
+    await stopRecurrenceScheduler();
+    await stopTrashRetentionScheduler();
+    await stopArchivalScheduler();
+    await stopDigestScheduler();
+    await stopEmailQueue();
+
     // Close Socket.IO connections
     closeSocketIO();
 
@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import {
+  listUsers,
+  deactivateUser,
+  reactivateUser,
+  updateUserRole,
+  getTasks,
+  getTask,
+  reassignTask,
+} from './adminService';
+import { createSession, refreshSession } from './sessionService';
+import { login, getActiveAccount } from './authService';
+import { createTask } from './taskService';
+import { searchUsers } from './userService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Session } from '../models/Session';
+import { Task } from '../models/Task';
+import { TaskHistory } from '../models/TaskHistory';
+import { Notification } from '../models/Notification';
+import { Workspace } from '../models/Workspace';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthenticationError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Session.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await Workspace.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(role: 'ADMIN' | 'USER' = 'USER', firstName = 'Test'): Promise<IUser> {
+  const hashedPassword = await hashPassword('Password123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName,
+    lastName: 'User',
+    role,
+  });
+  return user;
+}
+
+describe('Admin Service', () => {
+  describe('user management', () => {
+    it('should list users filtered by status and role', async () => {
+      const admin = await createTestUser('ADMIN');
+      const active = await createTestUser('USER', 'Active');
+      const inactive = await createTestUser('USER', 'Inactive');
+      await deactivateUser(admin._id.toString(), inactive._id.toString());
+
+      const deactivated = await listUsers({ status: 'deactivated' });
+      expect(deactivated.items.map((u) => u.email)).toEqual([inactive.email]);
+
+      const users = await listUsers({ role: 'USER', status: 'active' });
+      expect(users.items.map((u) => u.email)).toEqual([active.email]);
+
+      const search = await listUsers({ search: 'inact' });
+      expect(search.total).toBe(1);
+    });
+
+    it('should lock a deactivated user out until reactivated', async () => {
+      const admin = await createTestUser('ADMIN');
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const tokens = await createSession(user);
+
+      await deactivateUser(admin._id.toString(), userId);
+
+      await expect(getActiveAccount(userId)).rejects.toThrow(AuthenticationError);
+      await expect(refreshSession(tokens.refreshToken)).rejects.toThrow(AuthenticationError);
+      await expect(login({ email: user.email, password: 'Password123' })).rejects.toThrow(
+        'This account has been deactivated'
+      );
+      expect(await Session.countDocuments({ userId: user._id })).toBe(0);
+
+      await reactivateUser(userId);
+
+      await expect(getActiveAccount(userId)).resolves.toBeDefined();
+      await expect(login({ email: user.email, password: 'Password123' })).resolves.toBeDefined();
+    });
+
+    it('should hide deactivated users from the directory and refuse them as assignees', async () => {
+      const admin = await createTestUser('ADMIN');
+      const user = await createTestUser('USER', 'Gone');
+      await deactivateUser(admin._id.toString(), user._id.toString());
+
+      const result = await searchUsers(admin._id.toString(), { search: 'gone' });
+      expect(result.total).toBe(0);
+
+      await expect(
+        createTask(admin._id.toString(), { title: 'Task', assignedToId: user._id.toString() })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should not let admins deactivate or demote themselves', async () => {
+      const admin = await createTestUser('ADMIN');
+      const adminId = admin._id.toString();
+
+      await expect(deactivateUser(adminId, adminId)).rejects.toThrow(ValidationError);
+      await expect(updateUserRole(adminId, adminId, 'USER')).rejects.toThrow(ValidationError);
+    });
+
+    it('should change the role used for the next authenticated request', async () => {
+      const admin = await createTestUser('ADMIN');
+      const user = await createTestUser();
+
+      const updated = await updateUserRole(admin._id.toString(), user._id.toString(), 'ADMIN');
+
+      expect(updated.role).toBe('ADMIN');
+      expect((await getActiveAccount(user._id.toString())).role).toBe('ADMIN');
+    });
+  });
+
+  describe('task management', () => {
+    it('should view and list tasks the admin has no access to', async () => {
+      const admin = await createTestUser('ADMIN');
+      const owner = await createTestUser();
+      const task = await createTask(owner._id.toString(), { title: 'Private', priority: 'HIGH' });
+
+      const fetched = await getTask(admin._id.toString(), task._id.toString());
+      expect(fetched.title).toBe('Private');
+
+      const list = await getTasks({ creatorId: owner._id.toString(), priority: 'HIGH' });
+      expect(list.items.map((t) => t._id.toString())).toEqual([task._id.toString()]);
+    });
+
+    it('should reassign any task and notify the new assignee', async () => {
+      const admin = await createTestUser('ADMIN');
+      const owner = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(owner._id.toString(), { title: 'Handover' });
+
+      const updated = await reassignTask(admin._id.toString(), task._id.toString(), assignee._id.toString());
+
+      expect((updated.assignedToId as any)._id.toString()).toBe(assignee._id.toString());
+      expect(await Notification.countDocuments({ userId: assignee._id, type: 'TASK_ASSIGNED' })).toBe(1);
+
+      const unassigned = await reassignTask(admin._id.toString(), task._id.toString(), null);
+      expect(unassigned.assignedToId).toBeUndefined();
+    });
+
+    it('should only reassign workspace tasks to workspace members', async () => {
+      const admin = await createTestUser('ADMIN');
+      const owner = await createTestUser();
+      const member = await createTestUser();
+      const outsider = await createTestUser();
+      const workspace = await createWorkspace(owner._id.toString(), { name: 'Team' });
+      const workspaceId = workspace._id.toString();
+      await addMember(workspaceId, owner._id.toString(), { email: member.email });
+      const task = await createTask(owner._id.toString(), { title: 'Shared', workspaceId });
+
+      await expect(
+        reassignTask(admin._id.toString(), task._id.toString(), outsider._id.toString())
+      ).rejects.toThrow(ValidationError);
+
+      const updated = await reassignTask(admin._id.toString(), task._id.toString(), member._id.toString());
+      expect((updated.assignedToId as any)._id.toString()).toBe(member._id.toString());
+    });
+  });
+});
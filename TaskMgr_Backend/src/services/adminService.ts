@@ -0,0 +1,185 @@
+import mongoose from 'mongoose';
+import { User, IUser, UserRole } from '../models/User';
+import { Task, ITask } from '../models/Task';
+import { ValidationError, NotFoundError } from '../middleware/errors';
+import { TaskSort, DEFAULT_TASK_SORT } from '../utils/taskSort';
+import { CursorPage, CursorParams } from '../utils/cursor';
+import { TaskFilters, PaginationParams, PaginatedResponse } from './taskService';
+import * as taskService from './taskService';
+import * as userService from './userService';
+import * as sessionService from './sessionService';
+import * as socketService from './socketService';
+
+export interface AdminUserFilters {
+  search?: string;
+  role?: UserRole;
+  status?: 'active' | 'deactivated';
+}
+
+type AccountView = Omit<IUser, 'password'>;
+
+async function findUser(userId: string): Promise<IUser> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    throw new NotFoundError('User not found');
+  }
+
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+}
+
+/**
+ * Admins cannot lock themselves out by deactivating or demoting their own account
+ */
+function assertNotSelf(adminId: string, userId: string, message: string): void {
+  if (adminId === userId) {
+    throw new ValidationError(message);
+  }
+}
+
+/**
+ * List every user, including deactivated ones
+ */
+export async function listUsers(
+  filters: AdminUserFilters = {},
+  pagination: PaginationParams = { page: 1, limit: 20 }
+): Promise<PaginatedResponse<AccountView>> {
+  const { search, role, status } = filters;
+  const { page, limit } = pagination;
+
+  const query: any = userService.buildUserSearchQuery(search);
+
+  if (role) query.role = role;
+  if (status === 'active') query.isActive = { $ne: false };
+  if (status === 'deactivated') query.isActive = false;
+
+  const skip = (page - 1) * limit;
+
+  const [users, total] = await Promise.all([
+    User.find(query).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit),
+    User.countDocuments(query),
+  ]);
+
+  return {
+    items: users.map((user) => user.toJSON() as unknown as AccountView),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Deactivate a user
+ * Revokes their sessions and disconnects their sockets; the access tokens
+ * they still hold are refused by the authentication middleware
+ */
+export async function deactivateUser(adminId: string, userId: string): Promise<AccountView> {
+  assertNotSelf(adminId, userId, 'You cannot deactivate your own account');
+
+  const user = await findUser(userId);
+
+  if (user.isActive) {
+    user.isActive = false;
+    user.deactivatedAt = new Date();
+    await user.save();
+  }
+
+  await sessionService.revokeAllSessions(userId);
+  socketService.disconnectUser(userId);
+
+  return user.toJSON() as unknown as AccountView;
+}
+
+export async function reactivateUser(userId: string): Promise<AccountView> {
+  const user = await findUser(userId);
+
+  user.isActive = true;
+  user.deactivatedAt = undefined;
+  await user.save();
+
+  return user.toJSON() as unknown as AccountView;
+}
+
+export async function updateUserRole(adminId: string, userId: string, role: UserRole): Promise<AccountView> {
+  assertNotSelf(adminId, userId, 'You cannot change your own role');
+
+  const user = await findUser(userId);
+
+  user.role = role;
+  await user.save();
+
+  return user.toJSON() as unknown as AccountView;
+}
+
+/**
+ * List every task, regardless of creator, assignee or workspace
+ */
+export async function getTasks(
+  filters?: TaskFilters,
+  pagination?: PaginationParams,
+  sort?: TaskSort
+): Promise<PaginatedResponse<ITask>>;
+export async function getTasks(
+  filters: TaskFilters,
+  pagination: PaginationParams | CursorParams,
+  sort?: TaskSort
+): Promise<PaginatedResponse<ITask> | CursorPage<ITask>>;
+export async function getTasks(
+  filters: TaskFilters = {},
+  pagination: PaginationParams | CursorParams = { page: 1, limit: 20 },
+  sort: TaskSort = DEFAULT_TASK_SORT
+): Promise<PaginatedResponse<ITask> | CursorPage<ITask>> {
+  const { workspaceId } = filters;
+
+  const query: any = { ...taskService.NOT_DELETED };
+
+  if (workspaceId) query.workspaceId = new mongoose.Types.ObjectId(workspaceId);
+
+  // Without a user, scopes do not apply
+  const conditions = taskService.filterConditions(filters);
+  if (conditions.length > 0) {
+    query.$and = conditions;
+  }
+
+  if (!('page' in pagination)) {
+    return taskService.findTaskPage(query, sort, pagination);
+  }
+
+  const { page, limit } = pagination;
+  const skip = (page - 1) * limit;
+
+  const [items, total] = await Promise.all([
+    taskService.findSortedTasks(query, sort, { skip, limit }),
+    Task.countDocuments(query),
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+export async function getTask(adminId: string, taskId: string): Promise<ITask> {
+  return taskService.getTaskById(taskId, adminId, { asAdmin: true });
+}
+
+/**
+ * Reassign any task
+ * Goes through the regular task update so the change is recorded in the
+ * history and the assignee is notified
+ */
+export async function reassignTask(
+  adminId: string,
+  taskId: string,
+  assignedToId: string | null
+): Promise<ITask> {
+  return taskService.updateTask(taskId, adminId, { assignedToId }, { asAdmin: true });
+}
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import {
+  addAttachment,
+  getAttachmentContent,
+  deleteAttachment,
+  isAllowedType,
+} from './attachmentService';
+import { createTask, deleteTask, purgeTask } from './taskService';
+import { Task } from '../models/Task';
+import { TaskHistory } from '../models/TaskHistory';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { FileStorage, setStorage } from '../storage';
+import { AuthorizationError, NotFoundError } from '../middleware/errors';
+
+// Storage keeping files in memory
+function createMemoryStorage(): FileStorage & { files: Map<string, Buffer> } {
+  const files = new Map<string, Buffer>();
+  return {
+    files,
+    async save(key, content) {
+      files.set(key, content);
+    },
+    async read(key) {
+      const content = files.get(key);
+      if (!content) throw new Error('Not found');
+      return Readable.from(content);
+    },
+    async remove(key) {
+      files.delete(key);
+    },
+  };
+}
+
+let storage: ReturnType<typeof createMemoryStorage>;
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  setStorage(null);
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  storage = createMemoryStorage();
+  setStorage(storage);
+  await Notification.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+const upload = (name: string, text: string) => ({
+  name,
+  mimeType: 'text/plain',
+  content: Buffer.from(text),
+});
+
+describe('Attachment Service', () => {
+  it('should match MIME types exactly or by type wildcard', () => {
+    const allowed = ['image/*', 'application/pdf'];
+
+    expect(isAllowedType('image/png', allowed)).toBe(true);
+    expect(isAllowedType('IMAGE/JPEG', allowed)).toBe(true);
+    expect(isAllowedType('application/pdf', allowed)).toBe(true);
+    expect(isAllowedType('application/pdfx', allowed)).toBe(false);
+    expect(isAllowedType('text/html', allowed)).toBe(false);
+    expect(isAllowedType('', allowed)).toBe(false);
+  });
+
+  it('should store the file and its metadata on the task', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Spec' });
+
+    const updated = await addAttachment(task._id.toString(), userId, upload('C:\\specs\\spec.txt', 'v1'));
+
+    expect(updated.attachments).toHaveLength(1);
+    const [attachment] = updated.attachments;
+    expect(attachment.name).toBe('spec.txt');
+    expect(attachment.size).toBe(2);
+    expect(storage.files.get(attachment.storageKey)?.toString()).toBe('v1');
+    // The storage key stays on the server
+    expect(JSON.parse(JSON.stringify(updated)).attachments[0].storageKey).toBeUndefined();
+  });
+
+  it('should only serve attachments to users who can read the task', async () => {
+    const owner = await createTestUser();
+    const stranger = await createTestUser();
+    const ownerId = owner._id.toString();
+    const task = await createTask(ownerId, { title: 'Spec' });
+    const updated = await addAttachment(task._id.toString(), ownerId, upload('spec.txt', 'content'));
+    const attachmentId = updated.attachments[0]._id.toString();
+
+    const { attachment, content } = await getAttachmentContent(task._id.toString(), attachmentId, ownerId);
+    expect(attachment.name).toBe('spec.txt');
+    const chunks: Buffer[] = [];
+    for await (const chunk of content) chunks.push(Buffer.from(chunk));
+    expect(Buffer.concat(chunks).toString()).toBe('content');
+
+    await expect(
+      getAttachmentContent(task._id.toString(), attachmentId, stranger._id.toString())
+    ).rejects.toThrow(AuthorizationError);
+    await expect(
+      getAttachmentContent(task._id.toString(), new mongoose.Types.ObjectId().toString(), ownerId)
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should delete the file of a removed attachment', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Spec' });
+    const updated = await addAttachment(task._id.toString(), userId, upload('spec.txt', 'v1'));
+
+    const result = await deleteAttachment(task._id.toString(), updated.attachments[0]._id.toString(), userId);
+
+    expect(result.attachments).toHaveLength(0);
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('should keep the files of a trashed task and delete them when it is purged', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Spec' });
+    await addAttachment(task._id.toString(), userId, upload('a.txt', 'a'));
+    await addAttachment(task._id.toString(), userId, upload('b.txt', 'b'));
+    expect(storage.files.size).toBe(2);
+
+    await deleteTask(task._id.toString(), userId);
+    expect(storage.files.size).toBe(2);
+
+    await purgeTask(task._id.toString(), userId);
+    expect(storage.files.size).toBe(0);
+  });
+});
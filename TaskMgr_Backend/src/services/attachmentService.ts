@@ -0,0 +1,152 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { ITask, IAttachment } from '../models/Task';
+import { ValidationError, NotFoundError } from '../middleware/errors';
+import { getStorage } from '../storage';
+import * as taskService from './taskService';
+import * as socketService from './socketService';
+
+export interface AttachmentUpload {
+  name: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * Maximum number of attachments on a task
+ */
+export const MAX_TASK_ATTACHMENTS = 50;
+
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * Check a MIME type against a list of allowed types
+ * @param mimeType MIME type of the file
+ * @param allowed Allowed types, type/* accepts every subtype
+ */
+export function isAllowedType(mimeType: string, allowed: string[]): boolean {
+  const type = (mimeType || '').toLowerCase();
+  return allowed.some((candidate) =>
+    candidate.endsWith('/*') ? type.startsWith(candidate.slice(0, -1)) : type === candidate
+  );
+}
+
+/**
+ * Keep the last path segment of an uploaded file name
+ */
+function normalizeName(name: string): string {
+  const base = path.basename((name || '').replace(/\\/g, '/')).trim();
+  if (!base) {
+    throw new ValidationError('File name is required');
+  }
+  return base.slice(-MAX_NAME_LENGTH);
+}
+
+function findAttachment(task: ITask, attachmentId: string): IAttachment {
+  const attachment = mongoose.Types.ObjectId.isValid(attachmentId) ? task.attachments.id(attachmentId) : null;
+
+  if (!attachment) {
+    throw new NotFoundError('Attachment not found');
+  }
+
+  return attachment;
+}
+
+/**
+ * Delete stored files, failures are logged since the metadata is already gone
+ */
+async function removeFiles(attachments: IAttachment[]): Promise<void> {
+  for (const attachment of attachments) {
+    try {
+      await getStorage().remove(attachment.storageKey);
+    } catch (error) {
+      console.error(`Failed to delete attachment file ${attachment.storageKey}:`, error);
+    }
+  }
+}
+
+/**
+ * Attach a file to a task
+ * Requires the same access as updating the task
+ * @returns The updated task
+ */
+export async function addAttachment(taskId: string, userId: string, file: AttachmentUpload): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const name = normalizeName(file.name);
+
+  if (task.attachments.length >= MAX_TASK_ATTACHMENTS) {
+    throw new ValidationError(`A task cannot have more than ${MAX_TASK_ATTACHMENTS} attachments`);
+  }
+
+  const storageKey = `tasks/${task._id}/${randomUUID()}`;
+  await getStorage().save(storageKey, file.content);
+
+  task.attachments.push({
+    name,
+    mimeType: file.mimeType,
+    size: file.content.length,
+    storageKey,
+    uploadedBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  try {
+    await task.save();
+  } catch (error) {
+    await removeFiles([{ storageKey } as IAttachment]);
+    throw error;
+  }
+
+  await task.populate(taskService.TASK_POPULATE);
+
+  socketService.emitTaskUpdated(task);
+
+  return task;
+}
+
+/**
+ * Open the content of an attachment
+ * Requires read access to the task
+ */
+export async function getAttachmentContent(
+  taskId: string,
+  attachmentId: string,
+  userId: string
+): Promise<{ attachment: IAttachment; content: Readable }> {
+  const task = await taskService.getTaskById(taskId, userId);
+  const attachment = findAttachment(task, attachmentId);
+
+  try {
+    return { attachment, content: await getStorage().read(attachment.storageKey) };
+  } catch {
+    throw new NotFoundError('Attachment file not found');
+  }
+}
+
+/**
+ * Remove an attachment from a task and delete its file
+ * Requires the same access as updating the task
+ * @returns The updated task
+ */
+export async function deleteAttachment(taskId: string, attachmentId: string, userId: string): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const attachment = findAttachment(task, attachmentId);
+
+  task.attachments.pull(attachment._id);
+  await task.save();
+  await removeFiles([attachment]);
+
+  await task.populate(taskService.TASK_POPULATE);
+
+  socketService.emitTaskUpdated(task);
+
+  return task;
+}
+
+/**
+ * Delete the files of every attachment of a task, once the task is deleted
+ */
+export async function removeTaskFiles(task: ITask): Promise<void> {
+  await removeFiles(task.attachments);
+}
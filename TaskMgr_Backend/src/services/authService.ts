@@ -1,12 +1,11 @@
+import mongoose from 'mongoose';
 import { User, IUser } from '../models/User';
 import { hashPassword, comparePassword, validatePasswordStrength } from '../utils/password';
-import { generateToken, AuthTokenPayload } from '../utils/jwt';
-import { ValidationError, AuthenticationError } from '../middleware/errors';
+import { ValidationError, AuthenticationError, NotFoundError } from '../middleware/errors';
+import * as sessionService from './sessionService';
 
-export interface AuthResponse {
+export interface AuthResponse extends sessionService.SessionTokens {
   user: Omit<IUser, 'password'>;
-  token: string;
-  expiresIn: string;
 }
 
 export interface RegisterData {
@@ -26,7 +25,10 @@ export interface ChangePasswordData {
   newPassword: string;
 }
 
-export async function register(data: RegisterData): Promise<AuthResponse> {
+export async function register(
+  data: RegisterData,
+  client: sessionService.ClientInfo = {}
+): Promise<AuthResponse> {
   const { email, password, firstName, lastName } = data;
 
   const passwordValidation = validatePasswordStrength(password);
@@ -48,26 +50,25 @@ export async function register(data: RegisterData): Promise<AuthResponse> {
     lastName,
   });
 
-  const tokenPayload: AuthTokenPayload = {
-    userId: user._id.toString(),
-    email: user.email,
-    role: user.role,
-  };
-  const token = generateToken(tokenPayload);
+  const tokens = await sessionService.createSession(user, client);
 
     return {
     user: user.toJSON() as unknown as Omit<IUser, 'password'>,
-    token,
-    expiresIn: '24h',
+    ...tokens,
   };
 }
 
 /**
  * Login a user
+ * Opens a new session for the client
  * @param data Login credentials
- * @returns Authentication response with user and token
+ * @param client Client the user logs in from
+ * @returns Authentication response with user, access and refresh tokens
  */
-export async function login(data: LoginData): Promise<AuthResponse> {
+export async function login(
+  data: LoginData,
+  client: sessionService.ClientInfo = {}
+): Promise<AuthResponse> {
   const { email, password } = data;
 
   const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
@@ -81,32 +82,69 @@ export async function login(data: LoginData): Promise<AuthResponse> {
     throw new AuthenticationError('Invalid email or password');
   }
 
-    const tokenPayload: AuthTokenPayload = {
-    userId: user._id.toString(),
-    email: user.email,
-    role: user.role,
-  };
-  const token = generateToken(tokenPayload);
+  if (!user.isActive) {
+    throw new AuthenticationError('This account has been deactivated');
+  }
+
+  const tokens = await sessionService.createSession(user, client);
 
     return {
     user: user.toJSON() as unknown as Omit<IUser, 'password'>,
-    token,
-    expiresIn: '24h',
+    ...tokens,
   };
 }
 
 /**
- * Logout a user (client-side token removal)
- * Note: JWT tokens are stateless, so logout is handled client-side
- * This function exists for API consistency and future enhancements
+ * Logout a user
+ * Revokes the session the access token was issued for, so its refresh
+ * token stops working. The access token itself expires shortly after
+ * @param userId User ID from JWT token
+ * @param sessionId Session ID from JWT token
  * @returns Success message
  */
-export async function logout(): Promise<{ message: string }> {
+export async function logout(userId: string, sessionId?: string): Promise<{ message: string }> {
+  if (sessionId) {
+    try {
+      await sessionService.revokeSession(userId, sessionId);
+    } catch (error) {
+      // Already revoked from another device
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
     return {
     message: 'Logged out successfully',
   };
 }
 
+/**
+ * Load the account a token was issued for and check that it may still be used
+ * Tokens stay valid until they expire, so deactivation and role changes are
+ * enforced here rather than through the token
+ * @param userId User ID from JWT token
+ * @returns The user
+ * @throws AuthenticationError if the user no longer exists or was deactivated
+ */
+export async function getActiveAccount(userId: string): Promise<IUser> {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new AuthenticationError('User not found');
+  }
+
+  if (!user.isActive) {
+    throw new AuthenticationError('This account has been deactivated');
+  }
+
+  return user;
+}
+
 /**
  * Get current user by ID
  * @param userId User ID from JWT token
@@ -124,14 +162,18 @@ export async function getCurrentUser(userId: string): Promise<Omit<IUser, 'passw
 
 /**
  * Change user password
+ * Revokes every session of the user, then opens a new one for the client
+ * that made the change so it stays signed in
  * @param userId User ID from JWT token
  * @param data Password change data
- * @returns Success message
+ * @param client Client making the change
+ * @returns Success message and the tokens of the new session
  */
 export async function changePassword(
   userId: string,
-  data: ChangePasswordData
-): Promise<{ message: string }> {
+  data: ChangePasswordData,
+  client: sessionService.ClientInfo = {}
+): Promise<{ message: string } & sessionService.SessionTokens> {
   const { currentPassword, newPassword } = data;
   const user = await User.findById(userId).select('+password');
   
@@ -154,7 +196,11 @@ export async function changePassword(
   user.password = hashedPassword;
   await user.save();
 
+  await sessionService.revokeAllSessions(userId);
+  const tokens = await sessionService.createSession(user, client);
+
   return {
     message: 'Password changed successfully',
+    ...tokens,
   };
 }
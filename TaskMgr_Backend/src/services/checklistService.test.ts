@@ -0,0 +1,194 @@
+import fc from 'fast-check';
+import mongoose from 'mongoose';
+import {
+  addChecklistItem,
+  updateChecklistItem,
+  reorderChecklist,
+  removeChecklistItem,
+  MAX_CHECKLIST_ITEMS,
+} from './checklistService';
+import { createTask } from './taskService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Task, getChecklistCompletion } from '../models/Task';
+import { Workspace } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await Workspace.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Checklist Service', () => {
+  describe('getChecklistCompletion', () => {
+    it('should be the rounded percentage of done items', () => {
+      fc.assert(
+        fc.property(fc.array(fc.boolean(), { minLength: 1, maxLength: 50 }), (flags) => {
+          const completion = getChecklistCompletion(flags.map((done) => ({ done })));
+          const done = flags.filter(Boolean).length;
+
+          expect(completion).toBe(Math.round((done / flags.length) * 100));
+        })
+      );
+    });
+
+    it('should be null without a checklist', () => {
+      expect(getChecklistCompletion([])).toBeNull();
+    });
+  });
+
+  describe('checklist items', () => {
+    it('should add, toggle and remove items and expose the completion in the task JSON', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const task = await createTask(userId, { title: 'Release' });
+      const taskId = task._id.toString();
+
+      await addChecklistItem(taskId, userId, { text: '  Write notes  ' });
+      let updated = await addChecklistItem(taskId, userId, { text: 'Tag release' });
+      const [first, second] = updated.checklist;
+
+      expect(first.text).toBe('Write notes');
+      expect(updated.checklist.map((item) => item.order)).toEqual([0, 1]);
+      expect((updated.toJSON() as any).checklistCompletion).toBe(0);
+
+      updated = await updateChecklistItem(taskId, first._id.toString(), userId, { done: true });
+      expect(updated.checklist.id(first._id)?.completedAt).toBeDefined();
+      expect((updated.toJSON() as any).checklistCompletion).toBe(50);
+
+      updated = await removeChecklistItem(taskId, first._id.toString(), userId);
+      expect(updated.checklist.map((item) => item._id.toString())).toEqual([second._id.toString()]);
+      expect(updated.checklist[0].order).toBe(0);
+      expect((updated.toJSON() as any).checklistCompletion).toBe(0);
+    });
+
+    it('should reorder items when given every item exactly once', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const task = await createTask(userId, { title: 'Ordered' });
+      const taskId = task._id.toString();
+      for (const text of ['a', 'b', 'c']) {
+        await addChecklistItem(taskId, userId, { text });
+      }
+      const ids = (await Task.findById(taskId))!.checklist.map((item) => item._id.toString());
+
+      const reordered = await reorderChecklist(taskId, userId, [ids[2], ids[0], ids[1]]);
+      expect(reordered.checklist.map((item) => item.text)).toEqual(['c', 'a', 'b']);
+      expect(reordered.checklist.map((item) => item.order)).toEqual([0, 1, 2]);
+
+      await expect(reorderChecklist(taskId, userId, [ids[0], ids[1]])).rejects.toThrow(ValidationError);
+      await expect(reorderChecklist(taskId, userId, [ids[0], ids[0], ids[1]])).rejects.toThrow(ValidationError);
+    });
+
+    it('should keep concurrent changes of other items', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const task = await createTask(userId, { title: 'Shared' });
+      const taskId = task._id.toString();
+      for (const text of ['a', 'b', 'c']) {
+        await addChecklistItem(taskId, userId, { text });
+      }
+      const [a, b, c] = (await Task.findById(taskId))!.checklist.map((item) => item._id.toString());
+
+      await Promise.all([
+        updateChecklistItem(taskId, a, userId, { done: true }),
+        updateChecklistItem(taskId, b, userId, { text: 'B' }),
+        removeChecklistItem(taskId, c, userId),
+        addChecklistItem(taskId, userId, { text: 'd' }),
+      ]);
+
+      const { checklist } = (await Task.findById(taskId))!;
+      expect(checklist.map((item) => item.text)).toEqual(['a', 'B', 'd']);
+      expect(checklist.map((item) => item.order)).toEqual([0, 1, 2]);
+      expect(checklist[0].done).toBe(true);
+    });
+
+    it('should cap the number of items', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const task = await createTask(userId, { title: 'Long' });
+      await Task.updateOne(
+        { _id: task._id },
+        {
+          checklist: Array.from({ length: MAX_CHECKLIST_ITEMS }, (_, order) => ({ text: `Item ${order}`, order })),
+        }
+      );
+
+      await expect(
+        addChecklistItem(task._id.toString(), userId, { text: 'One too many' })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should report unknown items', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const task = await createTask(userId, { title: 'Empty' });
+
+      await expect(
+        updateChecklistItem(task._id.toString(), new mongoose.Types.ObjectId().toString(), userId, { done: true })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('access', () => {
+    it('should require update access to the task', async () => {
+      const owner = await createTestUser();
+      const outsider = await createTestUser();
+      const task = await createTask(owner._id.toString(), { title: 'Private' });
+
+      await expect(
+        addChecklistItem(task._id.toString(), outsider._id.toString(), { text: 'Sneaky' })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should only assign items of workspace tasks to members who can edit tasks', async () => {
+      const owner = await createTestUser();
+      const viewer = await createTestUser();
+      const member = await createTestUser();
+      const ownerId = owner._id.toString();
+      const workspace = await createWorkspace(ownerId, { name: 'Team' });
+      const workspaceId = workspace._id.toString();
+      await addMember(workspaceId, ownerId, { email: viewer.email, role: 'VIEWER' });
+      await addMember(workspaceId, ownerId, { email: member.email });
+      const task = await createTask(ownerId, { title: 'Shared', workspaceId });
+      const taskId = task._id.toString();
+
+      await expect(
+        addChecklistItem(taskId, ownerId, { text: 'Review', assigneeId: viewer._id.toString() })
+      ).rejects.toThrow(ValidationError);
+
+      const updated = await addChecklistItem(taskId, ownerId, { text: 'Review', assigneeId: member._id.toString() });
+      expect(updated.checklist[0].assigneeId?.toString()).toBe(member._id.toString());
+
+      // Viewers can read the task but not tick its checklist
+      await expect(
+        updateChecklistItem(taskId, updated.checklist[0]._id.toString(), viewer._id.toString(), { done: true })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+});
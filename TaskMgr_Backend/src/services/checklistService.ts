@@ -0,0 +1,247 @@
+import mongoose from 'mongoose';
+import { Task, ITask, IChecklistItem } from '../models/Task';
+import { ValidationError, NotFoundError } from '../middleware/errors';
+import * as taskService from './taskService';
+import * as socketService from './socketService';
+
+export interface ChecklistItemData {
+  text: string;
+  assigneeId?: string | null;
+}
+
+export interface UpdateChecklistItemData {
+  text?: string;
+  done?: boolean;
+  // null clears the assignee
+  assigneeId?: string | null;
+}
+
+/**
+ * Maximum number of items in the checklist of a task
+ */
+export const MAX_CHECKLIST_ITEMS = 100;
+
+function findItem(task: ITask, itemId: string): IChecklistItem {
+  const item = mongoose.Types.ObjectId.isValid(itemId) ? task.checklist.id(itemId) : null;
+
+  if (!item) {
+    throw new NotFoundError('Checklist item not found');
+  }
+
+  return item;
+}
+
+function normalizeText(text: string): string {
+  const trimmed = (text || '').trim();
+  if (trimmed.length === 0) {
+    throw new ValidationError('Checklist item text is required');
+  }
+  return trimmed;
+}
+
+// Checklist updates run against the stored checklist rather than saving the
+// loaded task, as the array is left out of versioning (see models/Task):
+// concurrent edits of other items must not be overwritten
+const CHECKLIST = { $ifNull: ['$checklist', []] };
+
+// Pipeline stage numbering the items from 0 in their array order
+const RENUMBER = {
+  $set: {
+    checklist: {
+      $map: {
+        input: { $range: [0, { $size: '$checklist' }] },
+        as: 'index',
+        in: { $mergeObjects: [{ $arrayElemAt: ['$checklist', '$$index'] }, { order: '$$index' }] },
+      },
+    },
+  },
+};
+
+/**
+ * Apply a checklist update and broadcast the task over task:updated
+ * @param filter Conditions the stored task must still meet
+ * @returns null when the task no longer meets them
+ */
+async function updateAndEmit(
+  task: ITask,
+  filter: Record<string, unknown>,
+  update: mongoose.UpdateQuery<ITask> | mongoose.PipelineStage[],
+  options: { arrayFilters?: Record<string, unknown>[] } = {}
+): Promise<ITask | null> {
+  const result = await Task.updateOne(
+    { _id: task._id, ...taskService.NOT_DELETED, ...filter },
+    update as any,
+    options
+  );
+  if (result.matchedCount === 0) {
+    return null;
+  }
+
+  const updated = await Task.findById(task._id).populate(taskService.TASK_POPULATE);
+  if (!updated) {
+    throw new NotFoundError('Task not found');
+  }
+
+  socketService.emitTaskUpdated(updated);
+
+  return updated;
+}
+
+/**
+ * Append an item to the checklist of a task
+ * Requires the same access as updating the task
+ */
+export async function addChecklistItem(
+  taskId: string,
+  userId: string,
+  data: ChecklistItemData
+): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const text = normalizeText(data.text);
+
+  if (data.assigneeId) {
+    await taskService.assertValidAssignee(task, data.assigneeId);
+  }
+
+  const item: Omit<IChecklistItem, 'order'> = { _id: new mongoose.Types.ObjectId(), text, done: false };
+  if (data.assigneeId) {
+    item.assigneeId = new mongoose.Types.ObjectId(data.assigneeId);
+  }
+
+  const updated = await updateAndEmit(task, { [`checklist.${MAX_CHECKLIST_ITEMS - 1}`]: { $exists: false } }, [
+    {
+      $set: {
+        checklist: {
+          $concatArrays: [
+            CHECKLIST,
+            [{ $mergeObjects: [{ $literal: item }, { order: { $size: CHECKLIST } }] }],
+          ],
+        },
+      },
+    },
+  ]);
+
+  if (!updated) {
+    throw new ValidationError(`A checklist cannot have more than ${MAX_CHECKLIST_ITEMS} items`);
+  }
+
+  return updated;
+}
+
+/**
+ * Edit, check or uncheck a checklist item
+ */
+export async function updateChecklistItem(
+  taskId: string,
+  itemId: string,
+  userId: string,
+  data: UpdateChecklistItemData
+): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const item = findItem(task, itemId);
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  if (data.text !== undefined) {
+    $set['checklist.$[item].text'] = normalizeText(data.text);
+  }
+
+  if (data.assigneeId !== undefined) {
+    if (data.assigneeId) {
+      await taskService.assertValidAssignee(task, data.assigneeId);
+      $set['checklist.$[item].assigneeId'] = new mongoose.Types.ObjectId(data.assigneeId);
+    } else {
+      $unset['checklist.$[item].assigneeId'] = '';
+    }
+  }
+
+  const arrayFilters: Record<string, unknown>[] = [];
+  if (Object.keys($set).length > 0 || Object.keys($unset).length > 0) {
+    arrayFilters.push({ 'item._id': item._id });
+  }
+
+  // Only an item that actually flips gets a new completion date
+  if (data.done !== undefined) {
+    $set['checklist.$[toggled].done'] = data.done;
+    if (data.done) {
+      $set['checklist.$[toggled].completedAt'] = new Date();
+    } else {
+      $unset['checklist.$[toggled].completedAt'] = '';
+    }
+    arrayFilters.push({ 'toggled._id': item._id, 'toggled.done': { $ne: data.done } });
+  }
+
+  if (arrayFilters.length === 0) {
+    await task.populate(taskService.TASK_POPULATE);
+    return task;
+  }
+
+  const updated = await updateAndEmit(task, { 'checklist._id': item._id }, { $set, $unset }, { arrayFilters });
+
+  if (!updated) {
+    throw new NotFoundError('Checklist item not found');
+  }
+
+  return updated;
+}
+
+/**
+ * Reorder the checklist of a task
+ * @param itemIds Every item ID of the checklist, in the new order
+ */
+export async function reorderChecklist(taskId: string, userId: string, itemIds: string[]): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+
+  const currentIds = task.checklist.map((item) => item._id.toString());
+  const isPermutation =
+    itemIds.length === currentIds.length &&
+    new Set(itemIds).size === itemIds.length &&
+    itemIds.every((id) => currentIds.includes(id));
+
+  if (!isPermutation) {
+    throw new ValidationError('Item IDs must list every checklist item exactly once');
+  }
+
+  const ids = itemIds.map((id) => new mongoose.Types.ObjectId(id));
+
+  // Still every item exactly once, in case the checklist changed meanwhile
+  const updated = await updateAndEmit(task, { 'checklist._id': { $all: ids }, checklist: { $size: ids.length } }, [
+    {
+      $set: {
+        checklist: {
+          $map: {
+            input: ids,
+            as: 'id',
+            in: {
+              $arrayElemAt: [{ $filter: { input: '$checklist', cond: { $eq: ['$$this._id', '$$id'] } } }, 0],
+            },
+          },
+        },
+      },
+    },
+    RENUMBER,
+  ]);
+
+  if (!updated) {
+    throw new ValidationError('Item IDs must list every checklist item exactly once');
+  }
+
+  return updated;
+}
+
+export async function removeChecklistItem(taskId: string, itemId: string, userId: string): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const item = findItem(task, itemId);
+
+  const updated = await updateAndEmit(task, { 'checklist._id': item._id }, [
+    { $set: { checklist: { $filter: { input: CHECKLIST, cond: { $ne: ['$$this._id', item._id] } } } } },
+    RENUMBER,
+  ]);
+
+  if (!updated) {
+    throw new NotFoundError('Checklist item not found');
+  }
+
+  return updated;
+}
@@ -0,0 +1,258 @@
+import fc from 'fast-check';
+import mongoose from 'mongoose';
+import {
+  createComment,
+  getComments,
+  updateComment,
+  deleteComment,
+  parseMentions,
+} from './commentService';
+import { createTask, deleteTask, purgeTask } from './taskService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Comment } from '../models/Comment';
+import { Notification } from '../models/Notification';
+import { Task } from '../models/Task';
+import { Workspace } from '../models/Workspace';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Comment.deleteMany({});
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await Workspace.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(email?: string): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: email || `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+// Helper function to create a workspace task the given members may read
+async function createSharedTask(owner: IUser, members: IUser[], title: string) {
+  const ownerId = owner._id.toString();
+  const workspace = await createWorkspace(ownerId, { name: 'Team' });
+  for (const member of members) {
+    await addMember(workspace._id.toString(), ownerId, { email: member.email });
+  }
+  return createTask(ownerId, { title, workspaceId: workspace._id.toString() });
+}
+
+describe('Comment Service', () => {
+  describe('parseMentions', () => {
+    it('should extract email and user ID mentions', () => {
+      const userId = new mongoose.Types.ObjectId().toString();
+      const result = parseMentions(`Hey @Jane@Example.com and @${userId}, please review.`);
+
+      expect(result.emails).toEqual(['jane@example.com']);
+      expect(result.userIds).toEqual([userId]);
+    });
+
+    it('should ignore plain email addresses and duplicate mentions', () => {
+      const result = parseMentions('Mail jane@example.com, cc @bob@example.com @bob@example.com.');
+
+      expect(result.emails).toEqual(['bob@example.com']);
+      expect(result.userIds).toEqual([]);
+    });
+
+    it('should never return mentions for text without an @ sign', () => {
+      fc.assert(
+        fc.property(
+          fc.string().filter((s) => !s.includes('@')),
+          (text) => {
+            const result = parseMentions(text);
+            expect(result.emails).toHaveLength(0);
+            expect(result.userIds).toHaveLength(0);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('createComment', () => {
+    it('should create a comment for the task creator and assignee', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(creator._id.toString(), {
+        title: 'Discuss me',
+        assignedToId: assignee._id.toString(),
+      });
+
+      const first = await createComment(task._id.toString(), creator._id.toString(), { body: 'First' });
+      const second = await createComment(task._id.toString(), assignee._id.toString(), { body: ' Second ' });
+
+      expect(first.taskId.toString()).toBe(task._id.toString());
+      expect(second.body).toBe('Second');
+    });
+
+    it('should deny users who are neither creator nor assignee', async () => {
+      const creator = await createTestUser();
+      const outsider = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'Private' });
+
+      await expect(
+        createComment(task._id.toString(), outsider._id.toString(), { body: 'Hello' })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject an empty body', async () => {
+      const creator = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'Task' });
+
+      await expect(
+        createComment(task._id.toString(), creator._id.toString(), { body: '   ' })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should create MENTION notifications for mentioned users except the author', async () => {
+      const creator = await createTestUser('creator@example.com');
+      const byEmail = await createTestUser('mentioned@example.com');
+      const byId = await createTestUser();
+      const task = await createSharedTask(creator, [byEmail, byId], 'Mentions');
+
+      const comment = await createComment(task._id.toString(), creator._id.toString(), {
+        body: `@mentioned@example.com @${byId._id.toString()} @creator@example.com @nobody@example.com`,
+      });
+
+      expect(comment.mentions).toHaveLength(3);
+
+      const notifications = await Notification.find({ type: 'MENTION' });
+      const recipients = notifications.map((n) => n.userId.toString()).sort();
+
+      expect(recipients).toEqual([byEmail._id.toString(), byId._id.toString()].sort());
+      notifications.forEach((n) => {
+        expect(n.resourceType).toBe('COMMENT');
+        expect(n.resourceId?.toString()).toBe(comment._id.toString());
+      });
+    });
+
+    it('should ignore mentions of users who cannot read the task', async () => {
+      const creator = await createTestUser();
+      const member = await createTestUser('member@example.com');
+      const outsider = await createTestUser('outsider@example.com');
+      const task = await createSharedTask(creator, [member], 'Secret plans');
+
+      const comment = await createComment(task._id.toString(), creator._id.toString(), {
+        body: `@member@example.com @outsider@example.com @${outsider._id.toString()}`,
+      });
+
+      expect(comment.mentions.map(String)).toEqual([member._id.toString()]);
+      expect(await Notification.countDocuments({ userId: outsider._id })).toBe(0);
+    });
+  });
+
+  describe('getComments', () => {
+    it('should return comments oldest first with correct pagination', async () => {
+      const creator = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'Thread' });
+
+      for (let i = 0; i < 5; i++) {
+        await createComment(task._id.toString(), creator._id.toString(), { body: `Comment ${i}` });
+      }
+
+      const page = await getComments(task._id.toString(), creator._id.toString(), { page: 2, limit: 2 });
+
+      expect(page.total).toBe(5);
+      expect(page.totalPages).toBe(3);
+      expect(page.items.map((c) => c.body)).toEqual(['Comment 2', 'Comment 3']);
+    });
+  });
+
+  describe('updateComment', () => {
+    it('should only notify mentions added by the edit', async () => {
+      const creator = await createTestUser();
+      const first = await createTestUser('first@example.com');
+      const second = await createTestUser('second@example.com');
+      const task = await createSharedTask(creator, [first, second], 'Edit');
+
+      const comment = await createComment(task._id.toString(), creator._id.toString(), {
+        body: 'cc @first@example.com',
+      });
+      const updated = await updateComment(
+        task._id.toString(),
+        comment._id.toString(),
+        creator._id.toString(),
+        { body: 'cc @first@example.com @second@example.com' }
+      );
+
+      expect(updated.editedAt).toBeDefined();
+
+      const firstCount = await Notification.countDocuments({ userId: first._id, type: 'MENTION' });
+      const secondCount = await Notification.countDocuments({ userId: second._id, type: 'MENTION' });
+      expect(firstCount).toBe(1);
+      expect(secondCount).toBe(1);
+    });
+
+    it('should deny edits by anyone but the author', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(creator._id.toString(), {
+        title: 'Edit',
+        assignedToId: assignee._id.toString(),
+      });
+      const comment = await createComment(task._id.toString(), assignee._id.toString(), { body: 'Mine' });
+
+      await expect(
+        updateComment(task._id.toString(), comment._id.toString(), creator._id.toString(), { body: 'Yours' })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('should let the task creator delete any comment on the task', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(creator._id.toString(), {
+        title: 'Delete',
+        assignedToId: assignee._id.toString(),
+      });
+      const comment = await createComment(task._id.toString(), assignee._id.toString(), { body: 'Bye' });
+
+      await deleteComment(task._id.toString(), comment._id.toString(), creator._id.toString());
+
+      expect(await Comment.findById(comment._id)).toBeNull();
+    });
+
+    it('should return 404 for a comment that belongs to another task', async () => {
+      const creator = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'One' });
+      const other = await createTask(creator._id.toString(), { title: 'Two' });
+      const comment = await createComment(other._id.toString(), creator._id.toString(), { body: 'Elsewhere' });
+
+      await expect(
+        deleteComment(task._id.toString(), comment._id.toString(), creator._id.toString())
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should keep the comments of a trashed task and remove them when it is purged', async () => {
+      const creator = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'Gone' });
+      await createComment(task._id.toString(), creator._id.toString(), { body: 'Soon gone' });
+
+      await deleteTask(task._id.toString(), creator._id.toString());
+      expect(await Comment.countDocuments({ taskId: task._id })).toBe(1);
+
+      await purgeTask(task._id.toString(), creator._id.toString());
+      expect(await Comment.countDocuments({ taskId: task._id })).toBe(0);
+    });
+  });
+});
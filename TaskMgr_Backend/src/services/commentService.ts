@@ -0,0 +1,276 @@
+import { Comment, IComment } from '../models/Comment';
+import { User } from '../models/User';
+import { ITask } from '../models/Task';
+import { ValidationError, AuthorizationError, NotFoundError } from '../middleware/errors';
+import mongoose from 'mongoose';
+import * as taskService from './taskService';
+import * as notificationService from './notificationService';
+
+export interface CreateCommentData {
+  body: string;
+}
+
+export interface UpdateCommentData {
+  body: string;
+}
+
+export interface ParsedMentions {
+  userIds: string[];
+  emails: string[];
+}
+
+const MENTION_PATTERN =
+  /(?:^|[^\w@])@([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}|[0-9a-fA-F]{24})(?![\w@])/g;
+
+/**
+ * Extract @email and @userId mentions from a comment body
+ * @param body Comment text
+ * @returns Unique mentioned user IDs and lowercased emails
+ */
+export function parseMentions(body: string): ParsedMentions {
+  const userIds = new Set<string>();
+  const emails = new Set<string>();
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const token = match[1];
+    if (token.includes('@')) {
+      emails.add(token.toLowerCase());
+    } else {
+      userIds.add(token.toLowerCase());
+    }
+  }
+
+  return {
+    userIds: [...userIds],
+    emails: [...emails],
+  };
+}
+
+/**
+ * Resolve the mentions in a comment body to existing users
+ * Users who cannot read the task are left out, so a mention never reveals it
+ * @param task Task the comment belongs to
+ * @param body Comment text
+ * @returns IDs of the mentioned users that exist and may read the task
+ */
+async function resolveMentions(task: ITask, body: string): Promise<mongoose.Types.ObjectId[]> {
+  const { userIds, emails } = parseMentions(body);
+
+  if (userIds.length === 0 && emails.length === 0) {
+    return [];
+  }
+
+  const users = await User.find({
+    $or: [
+      { _id: { $in: userIds.map((id) => new mongoose.Types.ObjectId(id)) } },
+      { email: { $in: emails } },
+    ],
+  }).select('_id');
+
+  const readers = await taskService.filterReaders(
+    task,
+    users.map((user) => user._id.toString())
+  );
+
+  return readers.map((id) => new mongoose.Types.ObjectId(id));
+}
+
+/**
+ * Send MENTION notifications for a comment
+ * @param comment Comment containing the mentions
+ * @param authorId ID of the comment author, never notified
+ * @param taskTitle Title of the task the comment belongs to
+ * @param userIds Users to notify
+ */
+async function notifyMentions(
+  comment: IComment,
+  authorId: string,
+  taskTitle: string,
+  userIds: mongoose.Types.ObjectId[]
+): Promise<void> {
+  const recipients = userIds.map((id) => id.toString()).filter((id) => id !== authorId);
+
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const author = await User.findById(authorId).select('firstName lastName');
+  const authorName = author ? `${author.firstName} ${author.lastName}` : 'Someone';
+
+  for (const recipientId of recipients) {
+    await notificationService.createNotification({
+      userId: recipientId,
+      type: 'MENTION',
+      title: 'You Were Mentioned',
+      message: `${authorName} mentioned you in a comment on "${taskTitle}"`,
+      resourceId: comment._id.toString(),
+      resourceType: 'COMMENT',
+    });
+  }
+}
+
+/**
+ * Find a comment that belongs to the given task
+ * @param taskId Task ID
+ * @param commentId Comment ID
+ * @returns Comment document
+ */
+async function findTaskComment(taskId: string, commentId: string): Promise<IComment> {
+  if (!mongoose.Types.ObjectId.isValid(commentId)) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  const comment = await Comment.findOne({
+    _id: new mongoose.Types.ObjectId(commentId),
+    taskId: new mongoose.Types.ObjectId(taskId),
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return comment;
+}
+
+/**
+ * Post a comment on a task
+ * @param taskId Task ID
+ * @param userId Current user ID
+ * @param data Comment data
+ * @returns Created comment with populated author
+ */
+export async function createComment(
+  taskId: string,
+  userId: string,
+  data: CreateCommentData
+): Promise<IComment> {
+  const task = await taskService.getTaskById(taskId, userId);
+
+  if (!data.body || data.body.trim().length === 0) {
+    throw new ValidationError('Comment body is required');
+  }
+
+  const body = data.body.trim();
+  const mentions = await resolveMentions(task, body);
+
+  const comment = await Comment.create({
+    taskId: task._id,
+    authorId: new mongoose.Types.ObjectId(userId),
+    body,
+    mentions,
+  });
+
+  await comment.populate('authorId', 'firstName lastName email');
+
+  await notifyMentions(comment, userId, task.title, mentions);
+
+  return comment;
+}
+
+/**
+ * Get the comments of a task with pagination
+ * @param taskId Task ID
+ * @param userId Current user ID
+ * @param pagination Pagination parameters
+ * @returns Comments in posting order (oldest first)
+ */
+export async function getComments(
+  taskId: string,
+  userId: string,
+  pagination: taskService.PaginationParams = { page: 1, limit: 20 }
+): Promise<taskService.PaginatedResponse<IComment>> {
+  const task = await taskService.getTaskById(taskId, userId);
+  const { page, limit } = pagination;
+
+  const query = { taskId: task._id };
+  const skip = (page - 1) * limit;
+
+  const [items, total] = await Promise.all([
+    Comment.find(query)
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('authorId', 'firstName lastName email'),
+    Comment.countDocuments(query),
+  ]);
+
+  return {
+    items,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Edit a comment, only its author may do so
+ * Newly added mentions are notified, existing ones are not notified again
+ * @param taskId Task ID
+ * @param commentId Comment ID
+ * @param userId Current user ID
+ * @param data Updated comment data
+ * @returns Updated comment with populated author
+ */
+export async function updateComment(
+  taskId: string,
+  commentId: string,
+  userId: string,
+  data: UpdateCommentData
+): Promise<IComment> {
+  const task = await taskService.getTaskById(taskId, userId);
+  const comment = await findTaskComment(taskId, commentId);
+
+  if (!comment.authorId.equals(new mongoose.Types.ObjectId(userId))) {
+    throw new AuthorizationError('You can only edit your own comments');
+  }
+
+  if (!data.body || data.body.trim().length === 0) {
+    throw new ValidationError('Comment body is required');
+  }
+
+  const previousMentions = new Set(comment.mentions.map((id) => id.toString()));
+  const mentions = await resolveMentions(task, data.body.trim());
+
+  comment.body = data.body.trim();
+  comment.mentions = mentions;
+  comment.editedAt = new Date();
+  await comment.save();
+
+  await comment.populate('authorId', 'firstName lastName email');
+
+  const addedMentions = mentions.filter((id) => !previousMentions.has(id.toString()));
+  await notifyMentions(comment, userId, task.title, addedMentions);
+
+  return comment;
+}
+
+/**
+ * Delete a comment, allowed for its author and the task creator
+ * @param taskId Task ID
+ * @param commentId Comment ID
+ * @param userId Current user ID
+ * @returns Success message
+ */
+export async function deleteComment(
+  taskId: string,
+  commentId: string,
+  userId: string
+): Promise<{ message: string }> {
+  const task = await taskService.getTaskById(taskId, userId);
+  const comment = await findTaskComment(taskId, commentId);
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const isAuthor = comment.authorId.equals(userObjectId);
+  const isTaskCreator = task.creatorId._id.equals(userObjectId);
+
+  if (!isAuthor && !isTaskCreator) {
+    throw new AuthorizationError('You do not have access to delete this comment');
+  }
+
+  await Comment.findByIdAndDelete(comment._id);
+
+  return {
+    message: 'Comment deleted successfully',
+  };
+}
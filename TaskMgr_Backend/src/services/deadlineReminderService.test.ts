@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import {
+  checkDeadlines,
+  startDeadlineScheduler,
+  stopDeadlineScheduler,
+} from './deadlineReminderService';
+import { DeadlineReminder } from '../models/DeadlineReminder';
+import { Notification } from '../models/Notification';
+import { Task } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+
+const HOUR = 60 * 60 * 1000;
+const WINDOWS = [24 * HOUR, HOUR];
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+  await DeadlineReminder.init();
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await DeadlineReminder.deleteMany({});
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+/**
+ * Manually advanced clock
+ */
+function createClock(start: Date) {
+  let now = start.getTime();
+  return {
+    now: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('Deadline Reminder Service', () => {
+  const start = new Date('2030-01-01T00:00:00.000Z');
+
+  describe('checkDeadlines', () => {
+    it('should notify creator and assignee once per window as the deadline approaches', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await Task.create({
+        title: 'Ship it',
+        creatorId: creator._id,
+        assignedToId: assignee._id,
+        dueDate: new Date(start.getTime() + 30 * HOUR),
+      });
+      const clock = createClock(start);
+
+      // Outside every window
+      expect(await checkDeadlines(clock.now(), WINDOWS)).toBe(0);
+
+      // Inside the 24h window, checked twice
+      clock.advance(7 * HOUR);
+      expect(await checkDeadlines(clock.now(), WINDOWS)).toBe(1);
+      expect(await checkDeadlines(clock.now(), WINDOWS)).toBe(0);
+
+      // Inside the 1h window
+      clock.advance(22 * HOUR + 30 * 60 * 1000);
+      expect(await checkDeadlines(clock.now(), WINDOWS)).toBe(1);
+      expect(await checkDeadlines(clock.now(), WINDOWS)).toBe(0);
+
+      const notifications = await Notification.find({ type: 'DEADLINE_APPROACHING' });
+      expect(notifications).toHaveLength(4);
+      notifications.forEach((n) => {
+        expect(n.resourceId?.toString()).toBe(task._id.toString());
+        expect(n.resourceType).toBe('TASK');
+      });
+      expect(notifications.filter((n) => n.userId.equals(creator._id as mongoose.Types.ObjectId))).toHaveLength(2);
+    });
+
+    it('should only send the smallest matching window when first seen late', async () => {
+      const creator = await createTestUser();
+      await Task.create({
+        title: 'Late',
+        creatorId: creator._id,
+        dueDate: new Date(start.getTime() + 30 * 60 * 1000),
+      });
+
+      expect(await checkDeadlines(start, WINDOWS)).toBe(1);
+
+      const reminders = await DeadlineReminder.find({});
+      expect(reminders.map((r) => r.windowMs)).toEqual([HOUR]);
+      const notification = await Notification.findOne({ userId: creator._id });
+      expect(notification?.message).toContain('within 1 hour');
+    });
+
+    it('should skip completed and overdue tasks', async () => {
+      const creator = await createTestUser();
+      await Task.create({
+        title: 'Done',
+        creatorId: creator._id,
+        status: 'COMPLETED',
+        dueDate: new Date(start.getTime() + HOUR / 2),
+      });
+      await Task.create({
+        title: 'Overdue',
+        creatorId: creator._id,
+        dueDate: new Date(start.getTime() - HOUR),
+      });
+
+      expect(await checkDeadlines(start, WINDOWS)).toBe(0);
+    });
+
+    it('should re-arm the windows when the due date changes', async () => {
+      const creator = await createTestUser();
+      const task = await Task.create({
+        title: 'Moved',
+        creatorId: creator._id,
+        dueDate: new Date(start.getTime() + HOUR / 2),
+      });
+
+      expect(await checkDeadlines(start, WINDOWS)).toBe(1);
+
+      task.dueDate = new Date(start.getTime() + HOUR / 4);
+      await task.save();
+
+      expect(await checkDeadlines(start, WINDOWS)).toBe(1);
+    });
+  });
+
+  describe('scheduler', () => {
+    afterEach(async () => {
+      await stopDeadlineScheduler();
+    });
+
+    it('should run checks with the injected clock and stop cleanly', async () => {
+      const creator = await createTestUser();
+      await Task.create({
+        title: 'Scheduled',
+        creatorId: creator._id,
+        dueDate: new Date(start.getTime() + HOUR / 2),
+      });
+
+      startDeadlineScheduler({ windows: WINDOWS, intervalMs: 20, clock: () => start });
+
+      for (let i = 0; i < 50; i++) {
+        if ((await Notification.countDocuments({})) > 0) break;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      await stopDeadlineScheduler();
+
+      expect(await Notification.countDocuments({ type: 'DEADLINE_APPROACHING' })).toBe(1);
+
+      // No checks run after stop
+      await Notification.deleteMany({});
+      await DeadlineReminder.deleteMany({});
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(await Notification.countDocuments({})).toBe(0);
+    });
+  });
+});
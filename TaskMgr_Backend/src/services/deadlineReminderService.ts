@@ -0,0 +1,135 @@
+import { Task } from '../models/Task';
+import { DeadlineReminder } from '../models/DeadlineReminder';
+import { config } from '../config/env';
+import { formatDuration } from '../utils/duration';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import { isDuplicateKeyError } from '../utils/mongoError';
+import * as notificationService from './notificationService';
+import * as taskService from './taskService';
+
+/**
+ * Deadline reminder scheduler
+ * Periodically looks for incomplete tasks whose due date falls within one of
+ * the configured reminder windows and notifies their creator and assignee
+ */
+
+export interface DeadlineSchedulerOptions {
+  /** Reminder windows in milliseconds before the due date */
+  windows?: number[];
+  /** Delay between two checks in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+let job: PeriodicJob | null = null;
+
+/**
+ * Send the reminders that are due at the given time
+ * Each task gets at most one reminder per window and due date: the
+ * smallest window containing the due date is claimed in the reminder
+ * collection before notifying, so restarts and overlapping runs never
+ * send the same reminder twice
+ * @param now Current time
+ * @param windows Reminder windows in milliseconds
+ * @returns Number of reminders sent
+ */
+export async function checkDeadlines(
+  now: Date,
+  windows: number[] = config.deadlineReminderWindows
+): Promise<number> {
+  if (windows.length === 0) {
+    return 0;
+  }
+
+  // Unique index must exist before it can be relied on for claims
+  await DeadlineReminder.init();
+
+  const ascending = [...windows].sort((a, b) => a - b);
+  const largest = ascending[ascending.length - 1];
+
+  // Range on dueDate first so the { dueDate: 1, statusCategory: 1 } index is used
+  const tasks = await Task.find({
+    dueDate: { $gt: now, $lte: new Date(now.getTime() + largest) },
+    statusCategory: { $ne: 'DONE' },
+    ...taskService.NOT_DELETED,
+  }).select('title dueDate creatorId assignedToId');
+
+  let sent = 0;
+
+  for (const task of tasks) {
+    const remaining = task.dueDate!.getTime() - now.getTime();
+    const windowMs = ascending.find((w) => remaining <= w)!;
+
+    try {
+      await DeadlineReminder.create({
+        taskId: task._id,
+        windowMs,
+        dueDate: task.dueDate,
+      });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        continue;
+      }
+      throw error;
+    }
+
+    const recipients = new Set<string>([task.creatorId.toString()]);
+    if (task.assignedToId) {
+      recipients.add(task.assignedToId.toString());
+    }
+
+    for (const userId of recipients) {
+      await notificationService.createNotification({
+        userId,
+        type: 'DEADLINE_APPROACHING',
+        title: 'Deadline Approaching',
+        message: `"${task.title}" is due within ${formatDuration(windowMs)}`,
+        resourceId: task._id.toString(),
+        resourceType: 'TASK',
+      });
+    }
+
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Start the deadline reminder scheduler
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startDeadlineScheduler(options: DeadlineSchedulerOptions = {}): void {
+  if (job) {
+    return;
+  }
+
+  const {
+    windows = config.deadlineReminderWindows,
+    intervalMs = config.deadlineReminderIntervalMs,
+    clock,
+  } = options;
+
+  job = createPeriodicJob({
+    name: 'Deadline reminder scheduler',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const sent = await checkDeadlines(now, windows);
+      if (sent > 0) {
+        console.log(`Sent ${sent} deadline reminder(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the deadline reminder scheduler
+ * Waits for a check in progress to finish so shutdown does not cut it off
+ */
+export async function stopDeadlineScheduler(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import { addDependency, removeDependency, getDependencies } from './dependencyService';
+import { createTask, updateTask, deleteTask, restoreTask, purgeTask } from './taskService';
+import { createWorkspace } from './workspaceService';
+import { Task } from '../models/Task';
+import { TaskHistory } from '../models/TaskHistory';
+import { Workspace } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { NotFoundError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Workspace.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Dependency Service', () => {
+  it('should add and remove blockers and expose both sides of the relation', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const migration = await createTask(userId, { title: 'Write migration' });
+    const deploy = await createTask(userId, { title: 'Deploy' });
+
+    const blocked = await addDependency(deploy._id.toString(), migration._id.toString(), userId);
+    expect((blocked.toJSON() as any).blockedBy.map((t: any) => t.title)).toEqual(['Write migration']);
+
+    const dependencies = await getDependencies(migration._id.toString(), userId);
+    expect(dependencies.blocking.map((t) => t.title)).toEqual(['Deploy']);
+    expect((dependencies.blocking[0].toJSON() as any).blockedBy).toHaveLength(1);
+
+    const [listed] = (await getDependencies(deploy._id.toString(), userId)).blockedBy;
+    expect((listed.toJSON() as any).blockingCount).toBe(1);
+
+    const unblocked = await removeDependency(deploy._id.toString(), migration._id.toString(), userId);
+    expect(unblocked.blockedBy).toHaveLength(0);
+    await expect(
+      removeDependency(deploy._id.toString(), migration._id.toString(), userId)
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject self, duplicate and cyclic dependencies', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const [a, b, c] = await Promise.all(
+      ['A', 'B', 'C'].map((title) => createTask(userId, { title }))
+    );
+    const [aId, bId, cId] = [a, b, c].map((task) => task._id.toString());
+
+    await addDependency(bId, aId, userId);
+    await addDependency(cId, bId, userId);
+
+    await expect(addDependency(aId, aId, userId)).rejects.toThrow(ValidationError);
+    await expect(addDependency(bId, aId, userId)).rejects.toThrow(ValidationError);
+    await expect(addDependency(aId, cId, userId)).rejects.toThrow('This dependency would create a cycle');
+  });
+
+  it('should not link tasks of different workspaces', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const workspace = await createWorkspace(userId, { name: 'Team' });
+    const shared = await createTask(userId, { title: 'Shared', workspaceId: workspace._id.toString() });
+    const personal = await createTask(userId, { title: 'Personal' });
+
+    await expect(
+      addDependency(shared._id.toString(), personal._id.toString(), userId)
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should refuse to start or complete a blocked task unless overridden', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const migration = await createTask(userId, { title: 'Write migration' });
+    const deploy = await createTask(userId, { title: 'Deploy' });
+    await addDependency(deploy._id.toString(), migration._id.toString(), userId);
+
+    await expect(
+      updateTask(deploy._id.toString(), userId, { status: 'IN_PROGRESS' })
+    ).rejects.toThrow('This task is blocked by 1 open task');
+    // Every status of the ACTIVE category counts as started
+    await expect(
+      updateTask(deploy._id.toString(), userId, { status: 'REVIEW' })
+    ).rejects.toThrow('This task is blocked by 1 open task');
+
+    const overridden = await updateTask(deploy._id.toString(), userId, {
+      status: 'COMPLETED',
+      overrideBlockers: true,
+    });
+    expect(overridden.status).toBe('COMPLETED');
+  });
+
+  it('should notify the assignees of blocked tasks when a blocker completes', async () => {
+    const owner = await createTestUser();
+    const assignee = await createTestUser();
+    const ownerId = owner._id.toString();
+    const migration = await createTask(ownerId, { title: 'Write migration' });
+    const deploy = await createTask(ownerId, { title: 'Deploy', assignedToId: assignee._id.toString() });
+    await addDependency(deploy._id.toString(), migration._id.toString(), ownerId);
+
+    await updateTask(migration._id.toString(), ownerId, { status: 'COMPLETED' });
+
+    const notifications = await Notification.find({ userId: assignee._id, type: 'TASK_UNBLOCKED' });
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].resourceId?.toString()).toBe(deploy._id.toString());
+
+    await expect(
+      updateTask(deploy._id.toString(), assignee._id.toString(), { status: 'IN_PROGRESS' })
+    ).resolves.toBeDefined();
+  });
+
+  it('should drop a purged task from the blockers of other tasks', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const migration = await createTask(userId, { title: 'Write migration' });
+    const deploy = await createTask(userId, { title: 'Deploy' });
+    await addDependency(deploy._id.toString(), migration._id.toString(), userId);
+
+    await deleteTask(migration._id.toString(), userId);
+    expect((await Task.findById(deploy._id))?.blockedBy.map(String)).toEqual([migration._id.toString()]);
+
+    await purgeTask(migration._id.toString(), userId);
+    expect((await Task.findById(deploy._id))?.blockedBy).toHaveLength(0);
+  });
+
+  it('should count trashed tasks when looking for cycles', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const [a, b, c] = await Promise.all(
+      ['A', 'B', 'C'].map((title) => createTask(userId, { title }))
+    );
+    const [aId, bId, cId] = [a, b, c].map((task) => task._id.toString());
+
+    await addDependency(aId, bId, userId);
+    await addDependency(bId, cId, userId);
+    await deleteTask(bId, userId);
+
+    // Restoring B would bring back A -> B -> C -> A
+    await expect(addDependency(cId, aId, userId)).rejects.toThrow('This dependency would create a cycle');
+
+    await restoreTask(bId, userId);
+    expect((await Task.findById(cId))?.blockedBy).toHaveLength(0);
+  });
+});
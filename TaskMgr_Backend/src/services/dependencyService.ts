@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { ValidationError, NotFoundError } from '../middleware/errors';
+import { wouldCreateCycle, BlockerLoader } from '../utils/dependencyGraph';
+import * as taskService from './taskService';
+import * as socketService from './socketService';
+
+export interface TaskDependencies {
+  // Tasks that must be completed first
+  blockedBy: ITask[];
+  // Tasks waiting on this one
+  blocking: ITask[];
+}
+
+/**
+ * Maximum number of blockers of a task
+ */
+export const MAX_BLOCKERS = 50;
+
+// Trashed tasks are walked too: they keep their blockers and come back with
+// them when restored, so an edge through the trash still counts as a cycle
+const loadBlockers: BlockerLoader = async (taskIds) => {
+  const tasks = await Task.find({ _id: { $in: taskIds } }).select('blockedBy');
+  return new Map(
+    tasks.map((task) => [task._id.toString(), task.blockedBy.map((blockerId) => blockerId.toString())])
+  );
+};
+
+function sameWorkspace(task: ITask, other: ITask): boolean {
+  return (task.workspaceId?.toString() ?? null) === (other.workspaceId?.toString() ?? null);
+}
+
+function isBlockedBy(task: ITask, blockerId: string): boolean {
+  return task.blockedBy.some((id) => id.toString() === blockerId);
+}
+
+/**
+ * Broadcast both ends of a dependency, as the blocked badge of one and the
+ * blocking count of the other changed
+ */
+async function emitDependencyChanged(taskId: mongoose.Types.ObjectId, blockerId: string): Promise<ITask> {
+  const [task, blocker] = await Promise.all([
+    Task.findOne({ _id: taskId, ...taskService.NOT_DELETED }).populate(taskService.TASK_POPULATE),
+    Task.findOne({ _id: blockerId, ...taskService.NOT_DELETED }).populate(taskService.TASK_POPULATE),
+  ]);
+
+  if (!task) {
+    throw new NotFoundError('Task not found');
+  }
+
+  socketService.emitTaskUpdated(task);
+  if (blocker) {
+    socketService.emitTaskUpdated(blocker);
+  }
+
+  return task;
+}
+
+/**
+ * Mark a task as blocked by another one
+ * Requires update access to the blocked task and read access to the blocker.
+ * Both tasks must belong to the same workspace, or both be personal tasks
+ * @throws ValidationError if the dependency already exists or would create a cycle
+ */
+export async function addDependency(taskId: string, blockerId: string, userId: string): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+  const blocker = await taskService.getTaskById(blockerId, userId);
+
+  if (task._id.equals(blocker._id)) {
+    throw new ValidationError('A task cannot block itself');
+  }
+
+  if (!sameWorkspace(task, blocker)) {
+    throw new ValidationError('Dependencies can only link tasks of the same workspace');
+  }
+
+  if (isBlockedBy(task, blockerId)) {
+    throw new ValidationError('This task is already blocked by that task');
+  }
+
+  if (task.blockedBy.length >= MAX_BLOCKERS) {
+    throw new ValidationError(`A task cannot have more than ${MAX_BLOCKERS} blockers`);
+  }
+
+  if (await wouldCreateCycle(taskId, blockerId, loadBlockers)) {
+    throw new ValidationError('This dependency would create a cycle');
+  }
+
+  // $addToSet so concurrent requests cannot add the same blocker twice
+  await Task.updateOne({ _id: task._id }, { $addToSet: { blockedBy: blocker._id } });
+
+  return emitDependencyChanged(task._id, blockerId);
+}
+
+/**
+ * Remove a blocker from a task
+ * Requires update access to the blocked task
+ */
+export async function removeDependency(taskId: string, blockerId: string, userId: string): Promise<ITask> {
+  const task = await taskService.getTaskForUpdate(taskId, userId);
+
+  if (!isBlockedBy(task, blockerId)) {
+    throw new NotFoundError('Dependency not found');
+  }
+
+  await Task.updateOne(
+    { _id: task._id },
+    { $pull: { blockedBy: new mongoose.Types.ObjectId(blockerId) } }
+  );
+
+  return emitDependencyChanged(task._id, blockerId);
+}
+
+/**
+ * List the blockers of a task and the tasks it is blocking
+ * Only dependents the user can read are listed
+ */
+export async function getDependencies(taskId: string, userId: string): Promise<TaskDependencies> {
+  const task = await taskService.getTaskById(taskId, userId);
+
+  const blockingQuery: any = { blockedBy: task._id, ...taskService.NOT_DELETED };
+
+  if (task.workspaceId) {
+    blockingQuery.workspaceId = task.workspaceId;
+  } else {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    blockingQuery.workspaceId = null;
+    blockingQuery.$or = [{ creatorId: userObjectId }, { assignedToId: userObjectId }];
+  }
+
+  const [blockedBy, blocking] = await Promise.all([
+    Task.find({
+      _id: { $in: task.blockedBy.map((blocker: any) => blocker._id ?? blocker) },
+      ...taskService.NOT_DELETED,
+    })
+      .populate(taskService.TASK_POPULATE)
+      .sort({ createdAt: 1 }),
+    Task.find(blockingQuery).populate(taskService.TASK_POPULATE).sort({ createdAt: 1 }),
+  ]);
+
+  return { blockedBy, blocking };
+}
@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import { sendDigests } from './digestService';
+import { createNotification } from './notificationService';
+import { updatePreferences } from './notificationPreferenceService';
+import { DigestItem } from '../models/DigestItem';
+import { EmailDelivery } from '../models/EmailDelivery';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await DigestItem.deleteMany({});
+  await EmailDelivery.deleteMany({});
+  await Notification.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Digest Service', () => {
+  it('should gather the notifications whose digest channel is on into one email', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await updatePreferences(userId, {
+      notifications: { TASK_UPDATED: { inApp: false, digest: true }, TASK_UNBLOCKED: { digest: true } },
+    });
+
+    await createNotification({ userId, type: 'TASK_UPDATED', title: 'Task Updated', message: 'Title changed' });
+    await createNotification({ userId, type: 'TASK_UNBLOCKED', title: 'Task Unblocked', message: 'Go ahead' });
+    await createNotification({ userId, type: 'MENTION', title: 'You Were Mentioned', message: 'Not gathered' });
+
+    expect(await Notification.countDocuments({ userId: user._id, type: 'TASK_UPDATED' })).toBe(0);
+    expect(await DigestItem.countDocuments({ userId: user._id })).toBe(2);
+
+    expect(await sendDigests(new Date())).toBe(1);
+
+    const [digest] = await EmailDelivery.find({ userId: user._id, type: null });
+    expect(digest.subject).toBe('Your digest: 2 notifications');
+    expect(digest.text).toContain('* Task Updated: Title changed');
+    expect(digest.text).toContain('* Task Unblocked: Go ahead');
+    expect(digest.text).not.toContain('Not gathered');
+    expect(await DigestItem.countDocuments({})).toBe(0);
+
+    // Nothing gathered since, nothing sent
+    expect(await sendDigests(new Date())).toBe(0);
+  });
+
+  it('should leave notifications created later for the next digest', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await updatePreferences(userId, { notifications: { TASK_UPDATED: { digest: true } } });
+
+    await createNotification({ userId, type: 'TASK_UPDATED', title: 'Task Updated', message: 'Later' });
+
+    expect(await sendDigests(new Date(Date.now() - 60 * 1000))).toBe(0);
+    expect(await DigestItem.countDocuments({ userId: user._id })).toBe(1);
+  });
+
+  it('should send no digest to deactivated users and drop their notifications', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await updatePreferences(userId, { notifications: { TASK_UPDATED: { digest: true } } });
+    await createNotification({ userId, type: 'TASK_UPDATED', title: 'Task Updated', message: 'Changed' });
+    await User.updateOne({ _id: user._id }, { isActive: false });
+
+    expect(await sendDigests(new Date())).toBe(0);
+    expect(await EmailDelivery.countDocuments({})).toBe(0);
+    expect(await DigestItem.countDocuments({})).toBe(0);
+  });
+});
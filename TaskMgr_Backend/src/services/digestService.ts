@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import { DigestItem } from '../models/DigestItem';
+import { config } from '../config/env';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import * as emailService from './emailService';
+
+/**
+ * Notification digests
+ * Notifications whose digest channel is on are kept until the digest
+ * scheduler gathers them into one email per user
+ */
+
+export interface DigestSchedulerOptions {
+  /** Delay between two digests in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+let job: PeriodicJob | null = null;
+
+/**
+ * Keep a notification for the next digest of its recipient
+ * @param notification Notification to gather
+ */
+export async function queueDigestItem(notification: emailService.NotificationEmail): Promise<void> {
+  const { userId, type, title, message, resourceId, resourceType } = notification;
+
+  await DigestItem.create({
+    userId: new mongoose.Types.ObjectId(userId),
+    type,
+    title,
+    message,
+    ...(resourceId && { resourceId: new mongoose.Types.ObjectId(resourceId) }),
+    ...(resourceType && { resourceType }),
+  });
+}
+
+/**
+ * Queue the digest email of every user with notifications gathered up to
+ * the given time
+ * The items of each user are claimed before the email is queued, so
+ * overlapping runs never send them twice. Deactivated users get no digest,
+ * their items are dropped all the same
+ * @param now Current time
+ * @returns Number of digests queued
+ */
+export async function sendDigests(now: Date): Promise<number> {
+  const pending = { digestId: null, createdAt: { $lte: now } };
+  const userIds = await DigestItem.distinct('userId', pending);
+
+  let queued = 0;
+
+  for (const userId of userIds) {
+    const digestId = new mongoose.Types.ObjectId();
+    await DigestItem.updateMany({ ...pending, userId }, { digestId });
+
+    const items = await DigestItem.find({ digestId }).sort({ createdAt: 1, _id: 1 });
+    const email = await emailService.queueDigestEmail(
+      userId.toString(),
+      items.map((item) => ({
+        type: item.type,
+        title: item.title,
+        message: item.message,
+        resourceId: item.resourceId?.toString(),
+        resourceType: item.resourceType,
+      }))
+    );
+    if (email) {
+      queued++;
+    }
+
+    await DigestItem.deleteMany({ digestId });
+  }
+
+  return queued;
+}
+
+/**
+ * Start the digest scheduler
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startDigestScheduler(options: DigestSchedulerOptions = {}): void {
+  if (job) {
+    return;
+  }
+
+  const { intervalMs = config.digestIntervalMs, clock } = options;
+
+  job = createPeriodicJob({
+    name: 'Digest scheduler',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const queued = await sendDigests(now);
+      if (queued > 0) {
+        console.log(`Queued ${queued} digest email(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the digest scheduler
+ * Waits for a run in progress to finish so shutdown does not cut it off
+ */
+export async function stopDigestScheduler(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
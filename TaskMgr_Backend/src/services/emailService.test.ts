@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import {
+  processEmailQueue,
+  queueNotificationEmail,
+  retryDelay,
+  unsubscribe,
+  checkUnsubscribeLink,
+  unsubscribeUrl,
+  startEmailQueue,
+  stopEmailQueue,
+} from './emailService';
+import { createNotification } from './notificationService';
+import { getPreferences } from './notificationPreferenceService';
+import { EmailDelivery } from '../models/EmailDelivery';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { createMemoryOutbox, setTransport, EmailDeliveryError, EmailTransport, MemoryOutbox } from '../email';
+import { ValidationError } from '../middleware/errors';
+
+const MINUTE = 60 * 1000;
+const retry = { maxAttempts: 3, retryDelayMs: MINUTE };
+
+let outbox: MemoryOutbox;
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  setTransport(null);
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  outbox = createMemoryOutbox();
+  setTransport(outbox);
+  await EmailDelivery.deleteMany({});
+  await Notification.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+// Transport failing every attempt
+function failingTransport(permanent: boolean): EmailTransport {
+  return {
+    async send() {
+      throw new EmailDeliveryError('Mailbox unavailable', permanent);
+    },
+  };
+}
+
+describe('Email Service', () => {
+  describe('createNotification', () => {
+    it('should queue emails for the types whose email channel is on', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+
+      await createNotification({ userId, type: 'TASK_ASSIGNED', title: 'Task Assigned to You', message: 'Hello' });
+      await createNotification({ userId, type: 'TASK_UPDATED', title: 'Task Updated', message: 'Changed' });
+
+      const queued = await EmailDelivery.find({ userId: user._id });
+      expect(queued.map((delivery) => delivery.type)).toEqual(['TASK_ASSIGNED']);
+      expect(queued[0].to).toBe(`Test User <${user.email}>`);
+      expect(queued[0].headers.get('List-Unsubscribe')).toBe(`<${unsubscribeUrl(userId, 'TASK_ASSIGNED')}>`);
+    });
+
+    it('should queue nothing for deactivated users', async () => {
+      const user = await createTestUser();
+      user.isActive = false;
+      await user.save();
+
+      const queued = await queueNotificationEmail({
+        userId: user._id.toString(),
+        type: 'MENTION',
+        title: 'You Were Mentioned',
+        message: 'Hi',
+      });
+
+      expect(queued).toBeNull();
+    });
+  });
+
+  describe('processEmailQueue', () => {
+    it('should send the due emails once', async () => {
+      const user = await createTestUser();
+      await queueNotificationEmail({ userId: user._id.toString(), type: 'MENTION', title: 'Mentioned', message: 'Hi' });
+      const now = new Date();
+
+      expect(await processEmailQueue(now, retry)).toBe(1);
+      expect(await processEmailQueue(now, retry)).toBe(0);
+
+      expect(outbox.messages).toHaveLength(1);
+      expect(outbox.messages[0].subject).toBe('Mentioned');
+      const delivery = await EmailDelivery.findOne({});
+      expect(delivery?.status).toBe('SENT');
+      expect(delivery?.attempts).toBe(1);
+    });
+
+    it('should retry failed emails with a growing delay, then give up', async () => {
+      const user = await createTestUser();
+      await queueNotificationEmail({ userId: user._id.toString(), type: 'MENTION', title: 'Mentioned', message: 'Hi' });
+      const start = new Date();
+      setTransport(failingTransport(false));
+
+      await processEmailQueue(start, retry);
+      let delivery = await EmailDelivery.findOne({});
+      expect(delivery?.status).toBe('PENDING');
+      expect(delivery?.nextAttemptAt.getTime()).toBe(start.getTime() + MINUTE);
+
+      // Not due yet
+      await processEmailQueue(new Date(start.getTime() + MINUTE - 1), retry);
+      expect((await EmailDelivery.findOne({}))?.attempts).toBe(1);
+
+      const second = new Date(start.getTime() + MINUTE);
+      await processEmailQueue(second, retry);
+      delivery = await EmailDelivery.findOne({});
+      expect(delivery?.nextAttemptAt.getTime()).toBe(second.getTime() + retryDelay(2, MINUTE));
+      expect(retryDelay(2, MINUTE)).toBe(2 * MINUTE);
+
+      await processEmailQueue(new Date(second.getTime() + 2 * MINUTE), retry);
+      delivery = await EmailDelivery.findOne({});
+      expect(delivery?.status).toBe('FAILED');
+      expect(delivery?.attempts).toBe(3);
+      expect(delivery?.lastError).toBe('Mailbox unavailable');
+    });
+
+    it('should give up permanent failures right away', async () => {
+      const user = await createTestUser();
+      await queueNotificationEmail({ userId: user._id.toString(), type: 'MENTION', title: 'Mentioned', message: 'Hi' });
+      setTransport(failingTransport(true));
+
+      await processEmailQueue(new Date(), retry);
+
+      expect((await EmailDelivery.findOne({}))?.status).toBe('FAILED');
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should turn off the emails of the type of the link', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const token = new URL(unsubscribeUrl(userId, 'TASK_ASSIGNED')).searchParams.get('token')!;
+
+      expect(await unsubscribe(token)).toEqual({ type: 'TASK_ASSIGNED' });
+
+      const { notifications } = await getPreferences(userId);
+      expect(notifications.TASK_ASSIGNED).toEqual({ inApp: true, email: false, digest: false });
+      expect(notifications.MENTION.email).toBe(true);
+
+      await createNotification({ userId, type: 'TASK_ASSIGNED', title: 'Task Assigned to You', message: 'Hello' });
+      expect(await EmailDelivery.countDocuments({})).toBe(0);
+    });
+
+    it('should only check a link that is not confirmed yet', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const token = new URL(unsubscribeUrl(userId, 'MENTION')).searchParams.get('token')!;
+
+      expect(checkUnsubscribeLink(token)).toEqual({ type: 'MENTION' });
+
+      expect((await getPreferences(userId)).notifications.MENTION.email).toBe(true);
+    });
+
+    it('should reject forged links', async () => {
+      expect(() => checkUnsubscribeLink('forged.token')).toThrow(ValidationError);
+      await expect(unsubscribe('forged.token')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('scheduler', () => {
+    afterEach(async () => {
+      await stopEmailQueue();
+    });
+
+    it('should send with the injected clock and stop cleanly', async () => {
+      const user = await createTestUser();
+      await queueNotificationEmail({ userId: user._id.toString(), type: 'MENTION', title: 'Mentioned', message: 'Hi' });
+
+      startEmailQueue({ intervalMs: 20, clock: () => new Date(Date.now() + MINUTE) });
+
+      for (let i = 0; i < 50; i++) {
+        if (outbox.messages.length > 0) break;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      await stopEmailQueue();
+
+      expect(outbox.messages).toHaveLength(1);
+    });
+  });
+});
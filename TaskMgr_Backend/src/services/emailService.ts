@@ -0,0 +1,279 @@
+import { EmailDelivery, IEmailDelivery } from '../models/EmailDelivery';
+import { User } from '../models/User';
+import { NotificationType } from '../models/Notification';
+import { ValidationError } from '../middleware/errors';
+import { config } from '../config/env';
+import { getTransport, EmailDeliveryError } from '../email';
+import { renderNotificationEmail, renderDigestEmail } from '../email/templates';
+import { createUnsubscribeToken, verifyUnsubscribeToken, UnsubscribePayload } from '../utils/unsubscribeToken';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import * as notificationPreferenceService from './notificationPreferenceService';
+
+/**
+ * Notification emails
+ * Emails are rendered and stored in a queue when the notification is created,
+ * then sent by the queue scheduler, which retries failed attempts with an
+ * exponential backoff. Digests go through the same queue
+ */
+
+export interface NotificationEmail {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  resourceId?: string;
+  resourceType?: 'TASK' | 'COMMENT';
+}
+
+export interface EmailRetryOptions {
+  /** Attempts before an email is given up */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled for each further one */
+  retryDelayMs: number;
+}
+
+export interface EmailQueueSchedulerOptions extends Partial<EmailRetryOptions> {
+  /** Delay between two checks in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+// An attempt still sending after this delay is taken for lost and made again
+const SEND_TIMEOUT_MS = 10 * 60 * 1000;
+// Emails sent per check, the rest waits for the next one
+const BATCH_SIZE = 50;
+
+let job: PeriodicJob | null = null;
+
+/**
+ * Link stopping the emails of a notification type
+ * @param userId Recipient ID
+ * @param type Notification type
+ */
+export function unsubscribeUrl(userId: string, type: NotificationType): string {
+  return `${config.apiUrl}/api/email/unsubscribe?token=${createUnsubscribeToken(userId, type)}`;
+}
+
+// Tasks open in their details, comments with the app
+function actionUrl(email: NotificationEmail): string {
+  if (email.resourceType === 'TASK' && email.resourceId) {
+    return `${config.appUrl}/#/tasks?task=${email.resourceId}`;
+  }
+  return `${config.appUrl}/#/`;
+}
+
+/**
+ * Queue the email of a notification
+ * Deactivated users get no email
+ * @param email Notification to send by email
+ * @returns Queued email, null when the user gets none
+ */
+export async function queueNotificationEmail(email: NotificationEmail): Promise<IEmailDelivery | null> {
+  const user = await User.findById(email.userId).select('email firstName lastName isActive');
+
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  const unsubscribe = unsubscribeUrl(email.userId, email.type);
+  const rendered = renderNotificationEmail({
+    type: email.type,
+    recipientName: user.firstName,
+    title: email.title,
+    message: email.message,
+    actionUrl: actionUrl(email),
+    unsubscribeUrl: unsubscribe,
+    preferencesUrl: `${config.appUrl}/#/profile`,
+  });
+
+  return EmailDelivery.create({
+    userId: user._id,
+    type: email.type,
+    to: `${user.firstName} ${user.lastName} <${user.email}>`,
+    ...rendered,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribe}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+}
+
+/**
+ * Queue a digest email gathering several notifications
+ * Deactivated users get no email
+ * @param userId Recipient ID
+ * @param notifications Notifications of the digest, oldest first
+ * @returns Queued email, null when the user gets none
+ */
+export async function queueDigestEmail(
+  userId: string,
+  notifications: Omit<NotificationEmail, 'userId'>[]
+): Promise<IEmailDelivery | null> {
+  const user = await User.findById(userId).select('email firstName lastName isActive');
+
+  if (!user || !user.isActive || notifications.length === 0) {
+    return null;
+  }
+
+  const rendered = renderDigestEmail({
+    recipientName: user.firstName,
+    entries: notifications.map((notification) => ({
+      title: notification.title,
+      message: notification.message,
+      actionUrl: actionUrl({ ...notification, userId }),
+    })),
+    preferencesUrl: `${config.appUrl}/#/profile`,
+  });
+
+  return EmailDelivery.create({
+    userId: user._id,
+    to: `${user.firstName} ${user.lastName} <${user.email}>`,
+    ...rendered,
+  });
+}
+
+/**
+ * Delay before the next attempt of an email
+ * @param attempts Attempts made so far, at least 1
+ * @param retryDelayMs Delay before the first retry
+ */
+export function retryDelay(attempts: number, retryDelayMs: number): number {
+  return retryDelayMs * 2 ** (attempts - 1);
+}
+
+/**
+ * Send the queued emails due for an attempt
+ * Each email is claimed before it is sent, so concurrent checks never send
+ * it twice. Failed emails wait for their retry, or are given up after a
+ * permanent failure or their last attempt
+ * @param now Current time
+ * @param options Retry policy, defaults come from the environment config
+ * @returns Number of emails sent
+ */
+export async function processEmailQueue(
+  now: Date,
+  options: EmailRetryOptions = { maxAttempts: config.emailMaxAttempts, retryDelayMs: config.emailRetryDelayMs }
+): Promise<number> {
+  const transport = getTransport();
+  let sent = 0;
+
+  for (let i = 0; i < BATCH_SIZE; i++) {
+    const delivery = await EmailDelivery.findOneAndUpdate(
+      { status: { $in: ['PENDING', 'SENDING'] }, nextAttemptAt: { $lte: now } },
+      {
+        status: 'SENDING',
+        nextAttemptAt: new Date(now.getTime() + SEND_TIMEOUT_MS),
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+
+    if (!delivery) {
+      break;
+    }
+
+    try {
+      await transport.send({
+        from: config.emailFrom,
+        to: delivery.to,
+        subject: delivery.subject,
+        text: delivery.text,
+        html: delivery.html,
+        headers: Object.fromEntries(delivery.headers),
+      });
+      delivery.status = 'SENT';
+      delivery.sentAt = now;
+      delivery.lastError = undefined;
+      sent++;
+    } catch (error) {
+      const permanent = error instanceof EmailDeliveryError && error.permanent;
+      delivery.lastError = (error as Error).message;
+      if (permanent || delivery.attempts >= options.maxAttempts) {
+        delivery.status = 'FAILED';
+      } else {
+        delivery.status = 'PENDING';
+        delivery.nextAttemptAt = new Date(now.getTime() + retryDelay(delivery.attempts, options.retryDelayMs));
+      }
+    }
+
+    await delivery.save();
+  }
+
+  return sent;
+}
+
+function readUnsubscribeToken(token: string): UnsubscribePayload {
+  const payload = verifyUnsubscribeToken(token);
+
+  if (!payload) {
+    throw new ValidationError('This unsubscribe link is invalid');
+  }
+
+  return payload;
+}
+
+/**
+ * Check an unsubscribe link without acting on it, for the page asking to confirm
+ * @param token Token of the link
+ * @returns The notification type the link stops emails of
+ * @throws ValidationError if the link is malformed or forged
+ */
+export function checkUnsubscribeLink(token: string): { type: NotificationType } {
+  return { type: readUnsubscribeToken(token).type };
+}
+
+/**
+ * Stop the emails of the notification type of an unsubscribe link
+ * @param token Token of the link
+ * @returns The notification type the user unsubscribed from
+ * @throws ValidationError if the link is malformed or forged
+ */
+export async function unsubscribe(token: string): Promise<{ type: NotificationType }> {
+  const payload = readUnsubscribeToken(token);
+
+  await notificationPreferenceService.updatePreferences(payload.userId, {
+    notifications: { [payload.type]: { email: false } },
+  });
+
+  return { type: payload.type };
+}
+
+/**
+ * Start the email queue scheduler
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startEmailQueue(options: EmailQueueSchedulerOptions = {}): void {
+  if (job) {
+    return;
+  }
+
+  const {
+    intervalMs = config.emailQueueIntervalMs,
+    maxAttempts = config.emailMaxAttempts,
+    retryDelayMs = config.emailRetryDelayMs,
+    clock,
+  } = options;
+
+  job = createPeriodicJob({
+    name: 'Email queue',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const sent = await processEmailQueue(now, { maxAttempts, retryDelayMs });
+      if (sent > 0) {
+        console.log(`Sent ${sent} email(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the email queue scheduler
+ * Waits for a check in progress to finish so shutdown does not cut it off
+ */
+export async function stopEmailQueue(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
@@ -0,0 +1,193 @@
+import mongoose from 'mongoose';
+import { getLabels, createLabel, updateLabel, deleteLabel } from './labelService';
+import { createTask, updateTask, deleteTask, getTasks, getTaskById } from './taskService';
+import * as socketService from './socketService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Label } from '../models/Label';
+import { Task } from '../models/Task';
+import { TaskHistory } from '../models/TaskHistory';
+import { Workspace } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Workspace.deleteMany({});
+  await Label.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+const labelIdsOf = (task: any): string[] => task.labels.map((label: any) => (label._id ?? label).toString());
+
+describe('Label Service', () => {
+  describe('Labels', () => {
+    it('should keep personal labels private and share workspace labels with members', async () => {
+      const owner = await createTestUser();
+      const viewer = await createTestUser();
+      const ownerId = owner._id.toString();
+      const viewerId = viewer._id.toString();
+      const workspace = await createWorkspace(ownerId, { name: 'Team' });
+      const workspaceId = workspace._id.toString();
+      await addMember(workspaceId, ownerId, { email: viewer.email, role: 'VIEWER' });
+
+      const personal = await createLabel(ownerId, { name: 'urgent', color: '#ef4444' });
+      await createLabel(ownerId, { name: 'Frontend', color: '#3b82f6', workspaceId });
+      await createLabel(ownerId, { name: 'bug', color: '#f59e0b', workspaceId });
+
+      expect((await getLabels(ownerId)).map((label) => label.name)).toEqual(['urgent']);
+      expect(await getLabels(viewerId)).toHaveLength(0);
+      expect((await getLabels(viewerId, workspaceId)).map((label) => label.name)).toEqual(['bug', 'Frontend']);
+
+      await expect(
+        createLabel(viewerId, { name: 'docs', color: '#10b981', workspaceId })
+      ).rejects.toThrow(AuthorizationError);
+      await expect(updateLabel(personal._id.toString(), viewerId, { name: 'mine' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject a name already used in the same scope, ignoring case', async () => {
+      const owner = await createTestUser();
+      const ownerId = owner._id.toString();
+      const workspace = await createWorkspace(ownerId, { name: 'Team' });
+      const workspaceId = workspace._id.toString();
+
+      const bug = await createLabel(ownerId, { name: 'Bug', color: '#ef4444', workspaceId });
+      const feature = await createLabel(ownerId, { name: 'Feature', color: '#3b82f6', workspaceId });
+
+      await expect(createLabel(ownerId, { name: 'bug', color: '#ef4444', workspaceId })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(updateLabel(feature._id.toString(), ownerId, { name: 'BUG' })).rejects.toThrow(ValidationError);
+
+      // The same name is free in another scope, and for the label itself
+      await expect(createLabel(ownerId, { name: 'bug', color: '#ef4444' })).resolves.toBeDefined();
+      const renamed = await updateLabel(bug._id.toString(), ownerId, { name: 'bug', color: '#dc2626' });
+      expect(renamed.name).toBe('bug');
+      expect(renamed.color).toBe('#dc2626');
+    });
+
+    it('should remove a deleted label from its tasks', async () => {
+      const owner = await createTestUser();
+      const ownerId = owner._id.toString();
+      const bug = await createLabel(ownerId, { name: 'bug', color: '#ef4444' });
+      const task = await createTask(ownerId, { title: 'Fix login', labels: [bug._id.toString()] });
+
+      await deleteLabel(bug._id.toString(), ownerId);
+
+      const reloaded = await getTaskById(task._id.toString(), ownerId);
+      expect(reloaded.labels).toHaveLength(0);
+      expect(await Label.findById(bug._id)).toBeNull();
+    });
+
+    it('should not broadcast trashed tasks when their label changes', async () => {
+      const owner = await createTestUser();
+      const ownerId = owner._id.toString();
+      const bug = await createLabel(ownerId, { name: 'bug', color: '#ef4444' });
+      const open = await createTask(ownerId, { title: 'Fix login', labels: [bug._id.toString()] });
+      const trashed = await createTask(ownerId, { title: 'Old bug', labels: [bug._id.toString()] });
+      await deleteTask(trashed._id.toString(), ownerId);
+      const emitted = jest.spyOn(socketService, 'emitTaskUpdated');
+
+      try {
+        await updateLabel(bug._id.toString(), ownerId, { name: 'defect' });
+        await deleteLabel(bug._id.toString(), ownerId);
+
+        const ids = emitted.mock.calls.map(([task]) => task._id.toString());
+        expect(ids).toEqual([open._id.toString(), open._id.toString()]);
+        expect((await Task.findById(trashed._id))?.labels).toHaveLength(0);
+      } finally {
+        emitted.mockRestore();
+      }
+    });
+  });
+
+  describe('Task labels', () => {
+    it('should only accept labels of the workspace of the task', async () => {
+      const owner = await createTestUser();
+      const ownerId = owner._id.toString();
+      const team = await createWorkspace(ownerId, { name: 'Team' });
+      const other = await createWorkspace(ownerId, { name: 'Other' });
+      const teamLabel = await createLabel(ownerId, { name: 'bug', color: '#ef4444', workspaceId: team._id.toString() });
+      const otherLabel = await createLabel(ownerId, { name: 'bug', color: '#ef4444', workspaceId: other._id.toString() });
+      const personal = await createLabel(ownerId, { name: 'mine', color: '#3b82f6' });
+
+      const task = await createTask(ownerId, {
+        title: 'Fix login',
+        workspaceId: team._id.toString(),
+        labels: [teamLabel._id.toString()],
+      });
+      expect(labelIdsOf(task)).toEqual([teamLabel._id.toString()]);
+      expect((task.labels[0] as any).name).toBe('bug');
+
+      await expect(
+        updateTask(task._id.toString(), ownerId, { labels: [otherLabel._id.toString()] })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        updateTask(task._id.toString(), ownerId, { labels: [personal._id.toString()] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should let the assignee keep personal labels set by the creator', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const creatorId = creator._id.toString();
+      const assigneeId = assignee._id.toString();
+      const creatorLabel = await createLabel(creatorId, { name: 'client-x', color: '#8b5cf6' });
+      const assigneeLabel = await createLabel(assigneeId, { name: 'today', color: '#f59e0b' });
+
+      const task = await createTask(creatorId, {
+        title: 'Call client',
+        assignedToId: assigneeId,
+        labels: [creatorLabel._id.toString()],
+      });
+
+      const updated = await updateTask(task._id.toString(), assigneeId, {
+        labels: [creatorLabel._id.toString(), assigneeLabel._id.toString()],
+      });
+
+      expect(labelIdsOf(updated)).toEqual([creatorLabel._id.toString(), assigneeLabel._id.toString()]);
+    });
+
+    it('should filter tasks by any or all of the given labels', async () => {
+      const owner = await createTestUser();
+      const ownerId = owner._id.toString();
+      const bug = (await createLabel(ownerId, { name: 'bug', color: '#ef4444' }))._id.toString();
+      const frontend = (await createLabel(ownerId, { name: 'frontend', color: '#3b82f6' }))._id.toString();
+
+      await createTask(ownerId, { title: 'Both', labels: [bug, frontend] });
+      await createTask(ownerId, { title: 'Bug only', labels: [bug] });
+      await createTask(ownerId, { title: 'Frontend only', labels: [frontend] });
+      await createTask(ownerId, { title: 'None' });
+
+      const titles = async (labelMatch: 'any' | 'all') =>
+        (await getTasks(ownerId, { labels: [bug, frontend], labelMatch })).items.map((task) => task.title).sort();
+
+      expect(await titles('any')).toEqual(['Both', 'Bug only', 'Frontend only']);
+      expect(await titles('all')).toEqual(['Both']);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import { Label, ILabel, MAX_TASK_LABELS } from '../models/Label';
+import { Task } from '../models/Task';
+import { ValidationError, NotFoundError } from '../middleware/errors';
+import { escapeRegex } from '../utils/regex';
+import * as workspaceService from './workspaceService';
+import * as taskService from './taskService';
+import * as socketService from './socketService';
+
+export interface LabelData {
+  name: string;
+  color: string;
+  // Unset for a personal label
+  workspaceId?: string;
+}
+
+export interface UpdateLabelData {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Query matching the labels that tasks of a workspace, or personal tasks of a
+ * user, can use
+ */
+function labelScope(
+  workspaceId: mongoose.Types.ObjectId | string | null | undefined,
+  userId: string
+): Record<string, unknown> {
+  return workspaceId
+    ? { workspaceId: new mongoose.Types.ObjectId(workspaceId.toString()) }
+    : { workspaceId: null, createdBy: new mongoose.Types.ObjectId(userId) };
+}
+
+function normalizeName(name: string): string {
+  const trimmed = (name || '').trim();
+  if (trimmed.length === 0) {
+    throw new ValidationError('Label name is required');
+  }
+  return trimmed;
+}
+
+/**
+ * Check that no other label of the same scope has the name, ignoring case
+ */
+async function assertNameAvailable(scope: Record<string, unknown>, name: string, labelId?: string): Promise<void> {
+  const existing = await Label.findOne({
+    ...scope,
+    name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' },
+    ...(labelId ? { _id: { $ne: labelId } } : {}),
+  });
+
+  if (existing) {
+    throw new ValidationError(`A label named "${existing.name}" already exists`);
+  }
+}
+
+/**
+ * Load a label and check that the user may change it
+ * Workspace labels are managed by members who can edit tasks, personal
+ * labels by their owner
+ */
+async function getLabelForUpdate(labelId: string, userId: string): Promise<ILabel> {
+  const label = mongoose.Types.ObjectId.isValid(labelId) ? await Label.findById(labelId) : null;
+
+  if (!label) {
+    throw new NotFoundError('Label not found');
+  }
+
+  if (label.workspaceId) {
+    await workspaceService.requireMembership(label.workspaceId.toString(), userId, workspaceService.WRITE_ROLES);
+  } else if (label.createdBy.toString() !== userId) {
+    // Personal labels of other users are not revealed
+    throw new NotFoundError('Label not found');
+  }
+
+  return label;
+}
+
+/**
+ * Get the labels of a workspace, or the personal labels of a user
+ * @param userId User ID
+ * @param workspaceId Workspace ID, the personal labels of the user when omitted
+ * @returns Labels sorted by name
+ */
+export async function getLabels(userId: string, workspaceId?: string): Promise<ILabel[]> {
+  if (workspaceId) {
+    await workspaceService.requireMembership(workspaceId, userId);
+  }
+
+  return Label.find(labelScope(workspaceId, userId)).collation({ locale: 'en' }).sort({ name: 1 });
+}
+
+export async function createLabel(userId: string, data: LabelData): Promise<ILabel> {
+  const name = normalizeName(data.name);
+
+  if (data.workspaceId) {
+    await workspaceService.requireMembership(data.workspaceId, userId, workspaceService.WRITE_ROLES);
+  }
+
+  const scope = labelScope(data.workspaceId, userId);
+  await assertNameAvailable(scope, name);
+
+  return Label.create({
+    name,
+    color: data.color,
+    createdBy: new mongoose.Types.ObjectId(userId),
+    ...(data.workspaceId ? { workspaceId: new mongoose.Types.ObjectId(data.workspaceId) } : {}),
+  });
+}
+
+/**
+ * Rename or recolor a label
+ * Tasks carrying the label are sent to clients so their chips refresh
+ */
+export async function updateLabel(labelId: string, userId: string, data: UpdateLabelData): Promise<ILabel> {
+  const label = await getLabelForUpdate(labelId, userId);
+
+  if (data.name !== undefined) {
+    const name = normalizeName(data.name);
+    await assertNameAvailable(labelScope(label.workspaceId, label.createdBy.toString()), name, labelId);
+    label.name = name;
+  }
+  if (data.color !== undefined) label.color = data.color;
+
+  await label.save();
+  await emitLabelledTasks(label._id as mongoose.Types.ObjectId);
+
+  return label;
+}
+
+/**
+ * Delete a label and remove it from its tasks
+ */
+export async function deleteLabel(labelId: string, userId: string): Promise<{ message: string }> {
+  const label = await getLabelForUpdate(labelId, userId);
+  const labelObjectId = label._id as mongoose.Types.ObjectId;
+
+  const taskIds = await Task.find({ labels: labelObjectId, ...taskService.NOT_DELETED }).distinct('_id');
+
+  await Label.findByIdAndDelete(labelObjectId);
+  // Trashed tasks lose the label too, so restoring one never brings it back.
+  // Labels are edited in the task form, so the version of the tasks changes
+  await Task.updateMany({ labels: labelObjectId }, { $pull: { labels: labelObjectId }, $inc: { __v: 1 } });
+
+  const tasks = await Task.find({ _id: { $in: taskIds }, ...taskService.NOT_DELETED }).populate(
+    taskService.TASK_POPULATE
+  );
+  tasks.forEach((task) => socketService.emitTaskUpdated(task));
+
+  return {
+    message: 'Label deleted successfully',
+  };
+}
+
+async function emitLabelledTasks(labelId: mongoose.Types.ObjectId): Promise<void> {
+  const tasks = await Task.find({ labels: labelId, ...taskService.NOT_DELETED }).populate(
+    taskService.TASK_POPULATE
+  );
+  tasks.forEach((task) => socketService.emitTaskUpdated(task));
+}
+
+/**
+ * Check the labels put on a task
+ * Workspace tasks take labels of their workspace, personal tasks the personal
+ * labels of the user setting them. Labels already on the task are kept as is
+ * @param labelIds Label IDs
+ * @param workspaceId Workspace of the task, unset for personal tasks
+ * @param userId User setting the labels
+ * @param current Labels currently on the task
+ * @returns The label IDs, without duplicates
+ */
+export async function resolveLabels(
+  labelIds: string[],
+  workspaceId: mongoose.Types.ObjectId | string | null | undefined,
+  userId: string,
+  current: mongoose.Types.ObjectId[] = []
+): Promise<mongoose.Types.ObjectId[]> {
+  const unique = [...new Set(labelIds)];
+
+  if (unique.length > MAX_TASK_LABELS) {
+    throw new ValidationError(`A task cannot have more than ${MAX_TASK_LABELS} labels`);
+  }
+
+  const kept = new Set(current.map((labelId) => labelId.toString()));
+  const added = unique.filter((labelId) => !kept.has(labelId));
+
+  if (added.length > 0) {
+    const found = await Label.countDocuments({
+      _id: { $in: added.map((labelId) => new mongoose.Types.ObjectId(labelId)) },
+      ...labelScope(workspaceId, userId),
+    });
+    if (found !== added.length) {
+      throw new ValidationError(
+        workspaceId
+          ? 'Tasks can only use labels of their workspace'
+          : 'Personal tasks can only use your personal labels'
+      );
+    }
+  }
+
+  return unique.map((labelId) => new mongoose.Types.ObjectId(labelId));
+}
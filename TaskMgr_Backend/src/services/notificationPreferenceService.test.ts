@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import {
+  getPreferences,
+  updatePreferences,
+  getDeliveryChannels,
+  DEFAULT_NOTIFICATION_SETTINGS,
+} from './notificationPreferenceService';
+import { createNotification } from './notificationService';
+import { createTask, updateTask, bulkUpdateTasks, setTaskSubscription } from './taskService';
+import { createWorkspace, addMember, removeMember } from './workspaceService';
+import { Notification } from '../models/Notification';
+import { Task } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { Workspace } from '../models/Workspace';
+import { hashPassword } from '../utils/password';
+import { ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+  await Workspace.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Notification Preference Service', () => {
+  describe('preferences', () => {
+    it('should start from the defaults and keep the channels left out', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+
+      expect((await getPreferences(userId)).notifications).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+
+      await updatePreferences(userId, { notifications: { TASK_UPDATED: { inApp: false } } });
+      const preferences = await updatePreferences(userId, { notifications: { TASK_UPDATED: { digest: true } } });
+
+      expect(preferences.notifications.TASK_UPDATED).toEqual({ inApp: false, email: false, digest: true });
+      expect(preferences.notifications.TASK_ASSIGNED).toEqual(DEFAULT_NOTIFICATION_SETTINGS.TASK_ASSIGNED);
+    });
+
+    it('should reject unknown notification types and channels', async () => {
+      const user = await createTestUser();
+
+      await expect(
+        updatePreferences(user._id.toString(), { notifications: { UNKNOWN: { inApp: false } } as any })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        updatePreferences(user._id.toString(), { notifications: { MENTION: { sms: true } } as any })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('createNotification', () => {
+    it('should skip the notification types turned off in the app', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      await updatePreferences(userId, { notifications: { TASK_UPDATED: { inApp: false } } });
+
+      const skipped = await createNotification({ userId, type: 'TASK_UPDATED', title: 'Updated', message: 'Skipped' });
+      const created = await createNotification({ userId, type: 'MENTION', title: 'Mentioned', message: 'Kept' });
+
+      expect(skipped).toBeNull();
+      expect(created).not.toBeNull();
+      expect(await Notification.countDocuments({ userId: user._id })).toBe(1);
+    });
+
+    it('should skip the notifications about muted tasks', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const creatorId = creator._id.toString();
+      const assigneeId = assignee._id.toString();
+      const task = await createTask(creatorId, { title: 'Noisy', assignedToId: assigneeId });
+      const taskId = task._id.toString();
+      await Notification.deleteMany({});
+
+      await setTaskSubscription(taskId, assigneeId, 'MUTE');
+      expect(await getDeliveryChannels(assigneeId, 'TASK_UPDATED', taskId)).toEqual({
+        inApp: false,
+        email: false,
+        digest: false,
+      });
+
+      await updateTask(taskId, creatorId, { priority: 'HIGH' });
+      await bulkUpdateTasks(creatorId, { taskIds: [taskId], operation: 'SET_PRIORITY', value: 'LOW' });
+
+      expect(await Notification.countDocuments({ userId: assignee._id })).toBe(0);
+    });
+  });
+
+  describe('watched tasks', () => {
+    it('should tell watchers about every change while they read the task', async () => {
+      const owner = await createTestUser();
+      const watcher = await createTestUser();
+      const outsider = await createTestUser();
+      const ownerId = owner._id.toString();
+      const watcherId = watcher._id.toString();
+      const workspace = await createWorkspace(ownerId, { name: 'Team' });
+      const workspaceId = workspace._id.toString();
+      await addMember(workspaceId, ownerId, { email: watcher.email });
+      const task = await createTask(ownerId, { title: 'Followed', workspaceId });
+      const taskId = task._id.toString();
+
+      await expect(setTaskSubscription(taskId, outsider._id.toString(), 'WATCH')).rejects.toThrow();
+      const preferences = await setTaskSubscription(taskId, watcherId, 'WATCH');
+      expect(preferences.watchedTaskIds).toEqual([taskId]);
+
+      await updateTask(taskId, ownerId, { priority: 'HIGH' });
+      const notifications = await Notification.find({ userId: watcher._id });
+      expect(notifications.map((notification) => notification.type)).toEqual(['TASK_UPDATED']);
+
+      // Watchers who left the workspace hear no more about it
+      await removeMember(workspaceId, ownerId, watcherId);
+      await updateTask(taskId, ownerId, { priority: 'LOW' });
+      expect(await Notification.countDocuments({ userId: watcher._id })).toBe(1);
+    });
+  });
+});
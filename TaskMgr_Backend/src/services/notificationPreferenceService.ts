@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import {
+  User,
+  IUser,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  ChannelPreferences,
+} from '../models/User';
+import { NOTIFICATION_TYPES, NotificationType } from '../models/Notification';
+import { NotFoundError, ValidationError } from '../middleware/errors';
+
+/**
+ * Notification preferences
+ * Users choose the channels of each notification type, and mute or watch
+ * single tasks
+ */
+
+export type ChannelSettings = Record<NotificationChannel, boolean>;
+
+export type NotificationSettings = Record<NotificationType, ChannelSettings>;
+
+export interface NotificationPreferences {
+  notifications: NotificationSettings;
+  mutedTaskIds: string[];
+  watchedTaskIds: string[];
+}
+
+export interface UpdateNotificationPreferencesData {
+  notifications?: Partial<Record<NotificationType, ChannelPreferences>>;
+}
+
+/**
+ * How a user follows a task
+ * - WATCH: notified of every change
+ * - MUTE: never notified about it
+ * - DEFAULT: notified as creator or assignee
+ */
+export const TASK_SUBSCRIPTIONS = ['WATCH', 'MUTE', 'DEFAULT'] as const;
+export type TaskSubscription = (typeof TASK_SUBSCRIPTIONS)[number];
+
+/**
+ * Channels of users who changed nothing: everything in the app, and by email
+ * what asks for their attention
+ */
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  TASK_ASSIGNED: { inApp: true, email: true, digest: false },
+  TASK_UPDATED: { inApp: true, email: false, digest: false },
+  DEADLINE_APPROACHING: { inApp: true, email: true, digest: false },
+  MENTION: { inApp: true, email: true, digest: false },
+  TASK_UNBLOCKED: { inApp: true, email: false, digest: false },
+};
+
+const NO_CHANNELS: ChannelSettings = { inApp: false, email: false, digest: false };
+
+async function findUser(userId: string): Promise<IUser> {
+  const user = mongoose.Types.ObjectId.isValid(userId) ? await User.findById(userId) : null;
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+}
+
+/**
+ * Channels of every notification type, the defaults completed by the user's choices
+ */
+function resolveSettings(user: IUser): NotificationSettings {
+  const stored = user.preferences?.notifications;
+
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => {
+      const channels = stored?.get(type);
+      return [
+        type,
+        Object.fromEntries(
+          NOTIFICATION_CHANNELS.map((channel) => [
+            channel,
+            channels?.[channel] ?? DEFAULT_NOTIFICATION_SETTINGS[type][channel],
+          ])
+        ),
+      ];
+    })
+  ) as NotificationSettings;
+}
+
+function toPreferences(user: IUser): NotificationPreferences {
+  return {
+    notifications: resolveSettings(user),
+    mutedTaskIds: (user.preferences?.mutedTaskIds ?? []).map((id) => id.toString()),
+    watchedTaskIds: (user.preferences?.watchedTaskIds ?? []).map((id) => id.toString()),
+  };
+}
+
+/**
+ * Get the notification preferences of a user
+ * @param userId User ID
+ * @returns Channels of every notification type, and the muted and watched tasks
+ */
+export async function getPreferences(userId: string): Promise<NotificationPreferences> {
+  return toPreferences(await findUser(userId));
+}
+
+/**
+ * Change the channels of some notification types
+ * Channels left out keep their current setting
+ * @param userId User ID
+ * @param data Channels to change, by notification type
+ * @returns Updated preferences
+ */
+export async function updatePreferences(
+  userId: string,
+  data: UpdateNotificationPreferencesData
+): Promise<NotificationPreferences> {
+  const user = await findUser(userId);
+
+  for (const [type, channels] of Object.entries(data.notifications ?? {})) {
+    if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+      throw new ValidationError(`Unknown notification type: ${type}`);
+    }
+
+    const changed: ChannelPreferences = { ...user.preferences.notifications.get(type) };
+    for (const [channel, enabled] of Object.entries(channels ?? {})) {
+      if (!NOTIFICATION_CHANNELS.includes(channel as NotificationChannel) || typeof enabled !== 'boolean') {
+        throw new ValidationError(`Invalid notification channel: ${channel}`);
+      }
+      changed[channel as NotificationChannel] = enabled;
+    }
+    user.preferences.notifications.set(type, changed);
+  }
+
+  await user.save();
+
+  return toPreferences(user);
+}
+
+/**
+ * Watch, mute or stop following a task
+ * Watching a task unmutes it and the other way around. Callers check that
+ * the user may read the task
+ * @param userId User ID
+ * @param taskId Task ID
+ * @param subscription How the user follows the task from now on
+ * @returns Updated preferences
+ */
+export async function setTaskSubscription(
+  userId: string,
+  taskId: string,
+  subscription: TaskSubscription
+): Promise<NotificationPreferences> {
+  const taskObjectId = new mongoose.Types.ObjectId(taskId);
+  await User.updateOne(
+    { _id: userId },
+    { $pull: { 'preferences.mutedTaskIds': taskObjectId, 'preferences.watchedTaskIds': taskObjectId } }
+  );
+
+  if (subscription !== 'DEFAULT') {
+    const field = subscription === 'WATCH' ? 'preferences.watchedTaskIds' : 'preferences.mutedTaskIds';
+    await User.updateOne({ _id: userId }, { $addToSet: { [field]: taskObjectId } });
+  }
+
+  return getPreferences(userId);
+}
+
+/**
+ * Get the IDs of the tasks a user muted
+ * @param userId User ID
+ */
+export async function getMutedTaskIds(userId: string): Promise<string[]> {
+  const user = await User.findById(userId).select('preferences.mutedTaskIds');
+  return (user?.preferences?.mutedTaskIds ?? []).map((id) => id.toString());
+}
+
+/**
+ * Get the IDs of the users watching a task
+ * @param taskId Task ID
+ */
+export async function getTaskWatcherIds(taskId: string | mongoose.Types.ObjectId): Promise<string[]> {
+  const watchers = await User.find({ 'preferences.watchedTaskIds': taskId, isActive: true }).select('_id');
+  return watchers.map((watcher) => watcher._id.toString());
+}
+
+/**
+ * Channels a notification reaches a user through
+ * Users who muted the task get none
+ * @param userId Recipient ID
+ * @param type Notification type
+ * @param taskId Task the notification is about, if any
+ */
+export async function getDeliveryChannels(
+  userId: string,
+  type: NotificationType,
+  taskId?: string
+): Promise<ChannelSettings> {
+  const user = await User.findById(userId).select('preferences');
+
+  if (!user) {
+    return DEFAULT_NOTIFICATION_SETTINGS[type];
+  }
+
+  if (taskId && (user.preferences?.mutedTaskIds ?? []).some((id) => id.toString() === taskId)) {
+    return NO_CHANNELS;
+  }
+
+  return resolveSettings(user)[type];
+}
@@ -70,14 +70,14 @@ describe('Notification Service Property Tests', () => {
             });
 
             // Manually create notification (simulating what would happen in the controller)
-            const notification = await createNotification({
+            const notification = (await createNotification({
               userId: assigneeId,
               type: 'TASK_ASSIGNED',
               title: 'New Task Assigned',
               message: `You have been assigned to task: ${task.title}`,
               resourceId: task._id.toString(),
               resourceType: 'TASK',
-            });
+            }))!;
 
             expect(notification).toBeDefined();
             expect(notification.userId.toString()).toBe(assigneeId);
@@ -116,14 +116,14 @@ describe('Notification Service Property Tests', () => {
             });
 
             // Manually create notification (simulating what would happen in the controller)
-            const notification = await createNotification({
+            const notification = (await createNotification({
               userId: assigneeId,
               type: 'TASK_UPDATED',
               title: 'Task Updated',
               message: `Task "${task.title}" has been updated`,
               resourceId: task._id.toString(),
               resourceType: 'TASK',
-            });
+            }))!;
 
             expect(notification).toBeDefined();
             expect(notification.userId.toString()).toBe(assigneeId);
@@ -149,12 +149,12 @@ describe('Notification Service Property Tests', () => {
             // Create multiple notifications with slight delays to ensure different timestamps
             const createdNotifications = [];
             for (let i = 0; i < notificationCount; i++) {
-              const notification = await createNotification({
+              const notification = (await createNotification({
                 userId,
                 type: 'TASK_ASSIGNED',
                 title: `Notification ${i}`,
                 message: `Message ${i}`,
-              });
+              }))!;
               createdNotifications.push(notification);
               // Small delay to ensure different timestamps
               await new Promise(resolve => setTimeout(resolve, 10));
@@ -191,12 +191,12 @@ describe('Notification Service Property Tests', () => {
             const userId = user._id.toString();
 
             // Create a notification
-            const notification = await createNotification({
+            const notification = (await createNotification({
               userId,
               type,
               title,
               message,
-            });
+            }))!;
 
             expect(notification.read).toBe(false);
 
@@ -265,12 +265,12 @@ describe('Notification Service Property Tests', () => {
             const otherUserId = otherUser._id.toString();
 
             // Create a notification for owner
-            const notification = await createNotification({
+            const notification = (await createNotification({
               userId: ownerId,
               type,
               title,
               message,
-            });
+            }))!;
 
             // Try to mark as read by other user
             await expect(
@@ -287,3 +287,31 @@ describe('Notification Service Property Tests', () => {
     }, 120000);
   });
 });
+
+describe('Notification cursor pagination', () => {
+  it('should page through notifications newest first', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    for (let i = 0; i < 5; i++) {
+      await createNotification({ userId, type: 'TASK_ASSIGNED', title: `Notification ${i}`, message: `Message ${i}` });
+    }
+
+    const first = await getNotifications(userId, { after: '', limit: 3 });
+    if (Array.isArray(first)) throw new Error('Expected a cursor page');
+    expect(first.items.map((n) => n.title)).toEqual(['Notification 4', 'Notification 3', 'Notification 2']);
+
+    // Newer notifications do not shift the next page
+    await createNotification({ userId, type: 'TASK_ASSIGNED', title: 'Notification 5', message: 'Message 5' });
+
+    const second = await getNotifications(userId, { after: first.nextCursor!, limit: 3 });
+    if (Array.isArray(second)) throw new Error('Expected a cursor page');
+    expect(second.items.map((n) => n.title)).toEqual(['Notification 1', 'Notification 0']);
+    expect(second.nextCursor).toBeNull();
+
+    const back = await getNotifications(userId, { before: second.prevCursor!, limit: 3 });
+    if (Array.isArray(back)) throw new Error('Expected a cursor page');
+    expect(back.items.map((n) => n.title)).toEqual(['Notification 4', 'Notification 3', 'Notification 2']);
+    // The newer notification is now before the page
+    expect(back.prevCursor).not.toBeNull();
+  });
+});
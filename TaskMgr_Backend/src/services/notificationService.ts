@@ -1,14 +1,18 @@
-import { Notification, INotification } from '../models/Notification';
-import { AuthorizationError, NotFoundError } from '../middleware/errors';
+import { Notification, INotification, NotificationType } from '../models/Notification';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
 import mongoose from 'mongoose';
+import { CursorPage, CursorParams, cursorQuery, encodeCursor, toCursorPage, SortOrder } from '../utils/cursor';
 import * as socketService from './socketService';
+import * as notificationPreferenceService from './notificationPreferenceService';
+import * as emailService from './emailService';
+import * as digestService from './digestService';
 
 /**
  * Notification creation data interface
  */
 export interface CreateNotificationData {
   userId: string;
-  type: 'TASK_ASSIGNED' | 'TASK_UPDATED' | 'DEADLINE_APPROACHING' | 'MENTION';
+  type: NotificationType;
   title: string;
   message: string;
   resourceId?: string;
@@ -17,12 +21,44 @@ export interface CreateNotificationData {
 
 /**
  * Create a new notification
+ * The notification is stored and pushed to the app when the user keeps the
+ * in-app channel of its type on, an email is queued when the email channel
+ * is on, and it is kept for the next digest when the digest channel is on.
+ * Users who muted the task the notification is about get none of these
  * @param data Notification creation data
- * @returns Created notification
+ * @returns Created notification, null when the user's preferences skip the app
  */
-export async function createNotification(data: CreateNotificationData): Promise<INotification> {
+export async function createNotification(data: CreateNotificationData): Promise<INotification | null> {
   const { userId, type, title, message, resourceId, resourceType } = data;
 
+  const channels = await notificationPreferenceService.getDeliveryChannels(
+    userId,
+    type,
+    resourceType === 'TASK' ? resourceId : undefined
+  );
+
+  if (channels.email) {
+    try {
+      await emailService.queueNotificationEmail(data);
+    } catch (error) {
+      // The notification still reaches the app
+      console.error('Failed to queue notification email:', error);
+    }
+  }
+
+  if (channels.digest) {
+    try {
+      await digestService.queueDigestItem(data);
+    } catch (error) {
+      // The notification still reaches the app
+      console.error('Failed to keep notification for the digest:', error);
+    }
+  }
+
+  if (!channels.inApp) {
+    return null;
+  }
+
   // Create notification data
   const notificationData: any = {
     userId: new mongoose.Types.ObjectId(userId),
@@ -49,19 +85,45 @@ export async function createNotification(data: CreateNotificationData): Promise<
   return notification;
 }
 
+// Order of notification lists, newest first
+const NOTIFICATION_ORDER: SortOrder = { createdAt: -1, _id: -1 };
+
 /**
  * Get notifications for a user
  * @param userId User ID
+ * @param cursor Page to return, every notification when omitted
  * @returns Notifications ordered by creation date (newest first)
  */
-export async function getNotifications(userId: string): Promise<INotification[]> {
+export async function getNotifications(userId: string): Promise<INotification[]>;
+export async function getNotifications(
+  userId: string,
+  cursor?: CursorParams
+): Promise<INotification[] | CursorPage<INotification>>;
+export async function getNotifications(
+  userId: string,
+  cursor?: CursorParams
+): Promise<INotification[] | CursorPage<INotification>> {
   const userObjectId = new mongoose.Types.ObjectId(userId);
 
-  // Find notifications for user, ordered by createdAt descending
-  const notifications = await Notification.find({ userId: userObjectId })
-    .sort({ createdAt: -1 });
+  if (!cursor) {
+    // Find notifications for user, ordered by createdAt descending
+    return Notification.find({ userId: userObjectId }).sort(NOTIFICATION_ORDER);
+  }
 
-  return notifications;
+  let position: ReturnType<typeof cursorQuery>;
+  try {
+    position = cursorQuery(cursor, 'notifications', NOTIFICATION_ORDER);
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+
+  const notifications = await Notification.find({ userId: userObjectId, ...position.query })
+    .sort(position.sort)
+    .limit(cursor.limit + 1);
+
+  return toCursorPage(notifications, cursor, (notification) =>
+    encodeCursor('notifications', NOTIFICATION_ORDER, notification)
+  );
 }
 
 /**
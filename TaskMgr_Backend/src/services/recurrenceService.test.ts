@@ -0,0 +1,181 @@
+import mongoose from 'mongoose';
+import { generateNextInstance, generateDueInstances } from './recurrenceService';
+import { createTask, updateTask, deleteTask, restoreTask, purgeTask } from './taskService';
+import { Task } from '../models/Task';
+import { TaskSeries } from '../models/TaskSeries';
+import { TaskHistory } from '../models/TaskHistory';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+  await Task.init();
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await TaskSeries.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+// Due dates far enough ahead that the scheduler never considers them due
+const MONDAY = new Date('2099-01-05T09:00:00Z');
+
+describe('Recurrence Service', () => {
+  it('should generate the next instance when the latest one is completed', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const report = await createTask(userId, {
+      title: 'Weekly report',
+      dueDate: MONDAY,
+      recurrence: 'RRULE:FREQ=WEEKLY;BYDAY=MO,FR',
+    });
+
+    expect(report.occurrence).toBe(1);
+    expect((report.seriesId as any).rule).toBe('FREQ=WEEKLY;BYDAY=MO,FR');
+
+    await updateTask(report._id.toString(), userId, { status: 'COMPLETED' });
+
+    const next = await Task.findOne({ seriesId: (report.seriesId as any)._id, occurrence: 2 });
+    expect(next?.title).toBe('Weekly report');
+    expect(next?.status).toBe('TODO');
+    expect(next?.dueDate).toEqual(new Date('2099-01-09T09:00:00Z'));
+
+    // Completing an instance again does not generate another one
+    await updateTask(report._id.toString(), userId, { status: 'TODO' });
+    await updateTask(report._id.toString(), userId, { status: 'COMPLETED' });
+    expect(await Task.countDocuments({ seriesId: (report.seriesId as any)._id })).toBe(2);
+  });
+
+  it('should generate each occurrence once under concurrent triggers', async () => {
+    const user = await createTestUser();
+    const task = await createTask(user._id.toString(), {
+      title: 'Invoice',
+      dueDate: MONDAY,
+      recurrence: 'FREQ=MONTHLY;BYMONTHDAY=-1',
+    });
+    const seriesId = (task.seriesId as any)._id;
+
+    const results = await Promise.all([generateNextInstance(seriesId), generateNextInstance(seriesId)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await Task.countDocuments({ seriesId })).toBe(2);
+  });
+
+  it('should generate instances once the latest one is due and stop after COUNT', async () => {
+    const user = await createTestUser();
+    const start = new Date('2026-01-05T09:00:00Z');
+    const task = await createTask(user._id.toString(), {
+      title: 'Standup notes',
+      dueDate: start,
+      recurrence: 'FREQ=DAILY;INTERVAL=2;COUNT=2',
+    });
+    const seriesId = (task.seriesId as any)._id;
+
+    expect(await generateDueInstances(new Date('2026-01-04T00:00:00Z'))).toBe(0);
+    expect(await generateDueInstances(new Date('2026-01-05T10:00:00Z'))).toBe(1);
+
+    const second = await Task.findOne({ seriesId, occurrence: 2 });
+    expect(second?.dueDate).toEqual(new Date('2026-01-07T09:00:00Z'));
+
+    expect(await generateDueInstances(new Date('2026-01-08T00:00:00Z'))).toBe(0);
+    expect((await TaskSeries.findById(seriesId))?.endedAt).toBeDefined();
+  });
+
+  it('should skip occurrences missed while the series was left alone', async () => {
+    const user = await createTestUser();
+    const task = await createTask(user._id.toString(), {
+      title: 'Water plants',
+      dueDate: new Date('2026-01-05T09:00:00Z'),
+      recurrence: 'FREQ=DAILY',
+    });
+
+    const next = await generateNextInstance((task.seriesId as any)._id, new Date('2026-01-20T12:00:00Z'));
+
+    expect(next?.dueDate).toEqual(new Date('2026-01-21T09:00:00Z'));
+  });
+
+  it('should pause a series while its latest instance is in the trash and end it once purged', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, {
+      title: 'Backup',
+      dueDate: new Date('2026-01-05T09:00:00Z'),
+      recurrence: 'FREQ=DAILY',
+    });
+    const taskId = task._id.toString();
+    const seriesId = (task.seriesId as any)._id;
+    const due = new Date('2026-01-05T10:00:00Z');
+
+    await deleteTask(taskId, userId);
+    expect(await generateDueInstances(due)).toBe(0);
+    expect(await generateNextInstance(seriesId, due)).toBeNull();
+
+    await restoreTask(taskId, userId);
+    expect(await generateDueInstances(due)).toBe(1);
+
+    const second = await Task.findOne({ seriesId, occurrence: 2 });
+    await deleteTask(second!._id.toString(), userId);
+    await purgeTask(second!._id.toString(), userId);
+
+    expect((await TaskSeries.findById(seriesId))?.endedAt).toBeDefined();
+    expect(await generateDueInstances(new Date('2026-01-10T00:00:00Z'))).toBe(0);
+  });
+
+  it('should apply "this" edits to one instance and "future" edits to the series', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Report', dueDate: MONDAY, recurrence: 'FREQ=WEEKLY' });
+    const taskId = task._id.toString();
+    const seriesId = (task.seriesId as any)._id;
+
+    await updateTask(taskId, userId, { title: 'Report (holiday edition)' });
+    expect((await TaskSeries.findById(seriesId))?.title).toBe('Report');
+
+    await updateTask(taskId, userId, { priority: 'HIGH', scope: 'future' });
+    await expect(updateTask(taskId, userId, { recurrence: 'FREQ=DAILY' })).rejects.toThrow(ValidationError);
+    await updateTask(taskId, userId, { recurrence: 'FREQ=DAILY;INTERVAL=3', scope: 'future' });
+
+    const next = await generateNextInstance(seriesId, new Date('2099-01-01T00:00:00Z'));
+    expect(next?.title).toBe('Report');
+    expect(next?.priority).toBe('HIGH');
+    expect(next?.dueDate).toEqual(new Date('2099-01-08T09:00:00Z'));
+
+    await updateTask(next!._id.toString(), userId, { recurrence: null, scope: 'future' });
+    expect(await generateNextInstance(seriesId)).toBeNull();
+  });
+
+  it('should require a due date and a valid rule', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+
+    await expect(createTask(userId, { title: 'No date', recurrence: 'FREQ=DAILY' })).rejects.toThrow(
+      'Recurring tasks need a due date'
+    );
+    await expect(
+      createTask(userId, { title: 'Bad rule', dueDate: MONDAY, recurrence: 'FREQ=HOURLY' })
+    ).rejects.toThrow(ValidationError);
+    expect(await Task.countDocuments({})).toBe(0);
+  });
+});
@@ -0,0 +1,403 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { TaskSeries, ITaskSeries } from '../models/TaskSeries';
+import { ValidationError } from '../middleware/errors';
+import { config } from '../config/env';
+import { parseRecurrenceRule, formatRecurrenceRule, nextOccurrence } from '../utils/recurrence';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import { isDuplicateKeyError } from '../utils/mongoError';
+import * as taskService from './taskService';
+import * as taskHistoryService from './taskHistoryService';
+import * as notificationService from './notificationService';
+import * as socketService from './socketService';
+import * as workflowService from './workflowService';
+
+/**
+ * Recurring tasks
+ * A series generates its instances one at a time: the next instance is
+ * created when the latest one is completed, or by the scheduler once the
+ * due date of the latest one has passed. Instances are numbered by their
+ * occurrence and the series counter is advanced with a conditional update,
+ * so concurrent triggers never create the same instance twice
+ */
+
+export interface RecurrenceSchedulerOptions {
+  /** Delay between two checks in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+/**
+ * Changes applied to the series when editing "all future" instances
+ */
+export interface SeriesChanges {
+  title?: string;
+  description?: string;
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  assignedToId?: string | null;
+  /** New due date of the edited instance, the schedule continues from it */
+  dueDate?: Date;
+  /** New rule, null stops the series */
+  recurrence?: string | null;
+}
+
+let job: PeriodicJob | null = null;
+
+function refId(value: any): mongoose.Types.ObjectId {
+  return value._id ?? value;
+}
+
+/**
+ * Validate a recurrence rule for a task
+ * @param rule Rule from the client
+ * @param dueDate Due date of the task, occurrences are computed from it
+ * @returns The rule in canonical form
+ * @throws ValidationError if the rule is invalid or the task has no due date
+ */
+export function normalizeRule(rule: string, dueDate?: Date): string {
+  let normalized: string;
+
+  try {
+    normalized = formatRecurrenceRule(parseRecurrenceRule(rule));
+  } catch (error) {
+    throw new ValidationError(`Invalid recurrence rule: ${(error as Error).message}`);
+  }
+
+  if (!dueDate) {
+    throw new ValidationError('Recurring tasks need a due date');
+  }
+
+  return normalized;
+}
+
+/**
+ * Make a task the first instance of a new series
+ * The caller saves the task
+ * @param task Task with a due date
+ * @param rule Recurrence rule
+ */
+export async function startSeries(task: ITask, rule: string): Promise<ITaskSeries> {
+  const normalized = normalizeRule(rule, task.dueDate);
+
+  const series = await TaskSeries.create({
+    rule: normalized,
+    startDate: task.dueDate,
+    creatorId: task.creatorId,
+    workspaceId: task.workspaceId,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    assignedToId: task.assignedToId,
+    occurrenceCount: 1,
+    lastDueDate: task.dueDate,
+  });
+
+  task.seriesId = series._id;
+  task.occurrence = 1;
+
+  return series;
+}
+
+/**
+ * Assignee of a new instance, dropped if they can no longer work on the task
+ */
+async function instanceAssignee(series: ITaskSeries, instance: ITask): Promise<mongoose.Types.ObjectId | undefined> {
+  if (!series.assignedToId) {
+    return undefined;
+  }
+
+  try {
+    await taskService.assertValidAssignee(instance, series.assignedToId.toString());
+    return series.assignedToId;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate the next instance of a series
+ * The next due date is the first occurrence after the due date of the
+ * latest instance, or after now when that one is already past, so a series
+ * left alone does not pile up overdue instances
+ * @param seriesId Series ID
+ * @param now Current time
+ * @returns The new instance, or null if the series is over or the instance
+ * was generated concurrently
+ */
+export async function generateNextInstance(
+  seriesId: mongoose.Types.ObjectId | string,
+  now: Date = new Date()
+): Promise<ITask | null> {
+  const series = await TaskSeries.findById(seriesId);
+
+  if (!series || series.endedAt || series.pausedAt) {
+    return null;
+  }
+
+  const rule = parseRecurrenceRule(series.rule);
+  const occurrence = series.occurrenceCount + 1;
+  const after = series.lastDueDate > now ? series.lastDueDate : now;
+  const dueDate = rule.count && occurrence > rule.count ? null : nextOccurrence(rule, series.startDate, after);
+
+  if (!dueDate) {
+    await TaskSeries.updateOne({ _id: series._id, endedAt: null }, { endedAt: now });
+    return null;
+  }
+
+  // Claim the occurrence, only one concurrent trigger gets past this
+  const claimed = await TaskSeries.findOneAndUpdate(
+    { _id: series._id, occurrenceCount: series.occurrenceCount, endedAt: null, pausedAt: null },
+    { occurrenceCount: occurrence, lastDueDate: dueDate },
+    { new: true }
+  );
+
+  if (!claimed) {
+    return null;
+  }
+
+  // Instances start in the first status of the workflow, as new tasks do
+  const workflow = await workflowService.getWorkflowForWorkspace(series.workspaceId);
+  const task = new Task({
+    title: series.title,
+    status: workflow.statuses[0].key,
+    statusCategory: workflow.statuses[0].category,
+    description: series.description,
+    priority: series.priority,
+    dueDate,
+    creatorId: series.creatorId,
+    workspaceId: series.workspaceId,
+    seriesId: series._id,
+    occurrence,
+  });
+  task.assignedToId = await instanceAssignee(series, task);
+
+  try {
+    await task.save();
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return null;
+    }
+    throw error;
+  }
+
+  await taskHistoryService.recordTaskCreated(task, series.creatorId.toString());
+  await task.populate(taskService.TASK_POPULATE);
+
+  const assigneeId = task.assignedToId?._id.toString();
+  if (assigneeId && assigneeId !== series.creatorId.toString()) {
+    await notificationService.createNotification({
+      userId: assigneeId,
+      type: 'TASK_ASSIGNED',
+      title: 'Recurring Task Assigned',
+      message: `The next "${task.title}" task is due ${dueDate.toDateString()}`,
+      resourceId: task._id.toString(),
+      resourceType: 'TASK',
+    });
+  }
+
+  socketService.emitTaskCreated(task);
+
+  return task;
+}
+
+/**
+ * Generate the next instance when the latest instance of a series is completed
+ * Completing an older instance does nothing, its successor already exists
+ * @param task Completed task
+ * @param now Current time
+ */
+export async function handleInstanceCompleted(task: ITask, now: Date = new Date()): Promise<ITask | null> {
+  if (!task.seriesId) {
+    return null;
+  }
+
+  const series = await TaskSeries.findById(refId(task.seriesId));
+
+  if (!series || series.endedAt || series.occurrenceCount !== task.occurrence) {
+    return null;
+  }
+
+  return generateNextInstance(series._id, now);
+}
+
+/**
+ * Pause the series of a task moved to the trash when it is the latest instance,
+ * as the series would otherwise go on behind the back of whoever trashed it
+ * @param task Trashed task
+ */
+export async function handleInstanceTrashed(task: ITask): Promise<void> {
+  if (!task.seriesId) {
+    return;
+  }
+
+  await TaskSeries.updateOne(
+    { _id: refId(task.seriesId), occurrenceCount: task.occurrence, pausedAt: null },
+    { pausedAt: new Date() }
+  );
+}
+
+/**
+ * Resume the series of a task restored from the trash when it is the latest instance
+ * @param task Restored task
+ */
+export async function handleInstanceRestored(task: ITask): Promise<void> {
+  if (!task.seriesId) {
+    return;
+  }
+
+  await TaskSeries.updateOne(
+    { _id: refId(task.seriesId), occurrenceCount: task.occurrence },
+    { $unset: { pausedAt: 1 } }
+  );
+}
+
+/**
+ * End the series of a task deleted for good when it is the latest instance
+ * @param task Purged task
+ */
+export async function handleInstancePurged(task: ITask): Promise<void> {
+  if (!task.seriesId) {
+    return;
+  }
+
+  await TaskSeries.updateOne(
+    { _id: refId(task.seriesId), occurrenceCount: task.occurrence, endedAt: null },
+    { endedAt: new Date() }
+  );
+}
+
+/**
+ * Apply an "all future instances" edit to the series of a task
+ * The task itself was already updated. The series template changes so the
+ * next instances inherit the edit, and open instances after this one are
+ * updated as well. A new rule restarts the schedule from this task
+ * @param task Updated task
+ * @param userId User making the change
+ * @param changes Changed fields
+ * @param options Access options of the original update
+ */
+export async function updateFutureInstances(
+  task: ITask,
+  userId: string,
+  changes: SeriesChanges,
+  options: taskService.TaskAccessOptions = {}
+): Promise<void> {
+  if (!task.seriesId) {
+    if (changes.recurrence) {
+      await startSeries(task, changes.recurrence);
+      await task.save();
+    }
+    return;
+  }
+
+  const series = await TaskSeries.findById(refId(task.seriesId));
+
+  if (!series) {
+    return;
+  }
+
+  const template: Omit<SeriesChanges, 'recurrence' | 'dueDate'> = {};
+  if (changes.title !== undefined) template.title = changes.title.trim();
+  if (changes.description !== undefined) template.description = changes.description;
+  if (changes.priority !== undefined) template.priority = changes.priority;
+  if (changes.assignedToId !== undefined) template.assignedToId = changes.assignedToId;
+
+  if (template.title !== undefined) series.title = template.title;
+  if (template.description !== undefined) series.description = template.description;
+  if (template.priority !== undefined) series.priority = template.priority;
+  if (template.assignedToId !== undefined) {
+    series.assignedToId = template.assignedToId
+      ? new mongoose.Types.ObjectId(template.assignedToId)
+      : undefined;
+  }
+
+  if (changes.recurrence === null) {
+    series.endedAt = series.endedAt ?? new Date();
+  } else if (changes.recurrence !== undefined || changes.dueDate !== undefined) {
+    // Re-anchor the schedule on this instance, COUNT keeps counting from the first one
+    if (changes.recurrence !== undefined) {
+      series.rule = normalizeRule(changes.recurrence, task.dueDate);
+      series.endedAt = undefined;
+    } else if (!task.dueDate) {
+      throw new ValidationError('Recurring tasks need a due date');
+    }
+    series.startDate = task.dueDate!;
+    if (series.occurrenceCount === task.occurrence) {
+      series.lastDueDate = task.dueDate!;
+    }
+  }
+
+  await series.save();
+
+  if (Object.keys(template).length === 0) {
+    return;
+  }
+
+  const later = await Task.find({
+    seriesId: series._id,
+    occurrence: { $gt: task.occurrence },
+    statusCategory: { $ne: 'DONE' },
+    ...taskService.NOT_DELETED,
+  }).select('_id');
+
+  for (const instance of later) {
+    await taskService.updateTask(instance._id.toString(), userId, template, options);
+  }
+}
+
+/**
+ * Generate the instances that are due at the given time
+ * @param now Current time
+ * @returns Number of instances generated
+ */
+export async function generateDueInstances(now: Date): Promise<number> {
+  const series = await TaskSeries.find({ endedAt: null, pausedAt: null, lastDueDate: { $lte: now } }).select('_id');
+
+  let generated = 0;
+
+  for (const { _id } of series) {
+    if (await generateNextInstance(_id, now)) {
+      generated++;
+    }
+  }
+
+  return generated;
+}
+
+/**
+ * Start the recurring task scheduler
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startRecurrenceScheduler(options: RecurrenceSchedulerOptions = {}): void {
+  if (job) {
+    return;
+  }
+
+  const { intervalMs = config.recurrenceIntervalMs, clock } = options;
+
+  job = createPeriodicJob({
+    name: 'Recurring task scheduler',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const generated = await generateDueInstances(now);
+      if (generated > 0) {
+        console.log(`Generated ${generated} recurring task instance(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the recurring task scheduler
+ * Waits for a check in progress to finish so shutdown does not cut it off
+ */
+export async function stopRecurrenceScheduler(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import { getViews, getViewById, createView, updateView, deleteView } from './savedViewService';
+import { createWorkspace, addMember, removeMember, deleteWorkspace } from './workspaceService';
+import { SavedView } from '../models/SavedView';
+import { Workspace } from '../models/Workspace';
+import { Label } from '../models/Label';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await SavedView.deleteMany({});
+  await Label.deleteMany({});
+  await Workspace.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Saved View Service', () => {
+  it('should save a view with normalized filters and defaults', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+
+    const view = await createView(userId, {
+      name: '  Urgent  ',
+      query: ' priority:URGENT assignee:me ',
+      sort: 'dueDate, -priority',
+    });
+
+    expect(view.name).toBe('Urgent');
+    expect(view.query).toBe('priority:URGENT assignee:me');
+    expect(view.sort).toBe('dueDate,-priority');
+    expect(view.layout).toBe('LIST');
+    expect(view.pinned).toBe(false);
+
+    const plain = await createView(userId, { name: 'Everything' });
+    expect(plain.query).toBe('');
+    expect(plain.sort).toBe('-createdAt');
+  });
+
+  it('should reject invalid filters and names already used by the owner', async () => {
+    const user = await createTestUser();
+    const other = await createTestUser();
+    const userId = user._id.toString();
+    await createView(userId, { name: 'Mine' });
+
+    await expect(createView(userId, { name: 'mine' })).rejects.toThrow(ValidationError);
+    await expect(createView(userId, { name: 'Bad', query: 'priority:CRITICAL' })).rejects.toThrow(ValidationError);
+    await expect(createView(userId, { name: 'Bad', sort: 'color' })).rejects.toThrow(ValidationError);
+    // Names are per owner
+    await expect(createView(other._id.toString(), { name: 'Mine' })).resolves.toBeDefined();
+  });
+
+  it('should share views read-only', async () => {
+    const owner = await createTestUser();
+    const reader = await createTestUser();
+    const stranger = await createTestUser();
+    const ownerId = owner._id.toString();
+    const readerId = reader._id.toString();
+
+    const view = await createView(ownerId, { name: 'Team bugs', sharedWith: [readerId, ownerId] });
+    const viewId = view._id.toString();
+
+    expect(view.sharedWith.map((user: any) => user._id.toString())).toEqual([readerId]);
+    expect((await getViews(readerId)).map((shared) => shared.name)).toEqual(['Team bugs']);
+    expect((await getViewById(viewId, readerId)).name).toBe('Team bugs');
+
+    await expect(updateView(viewId, readerId, { pinned: true })).rejects.toThrow(AuthorizationError);
+    await expect(deleteView(viewId, readerId)).rejects.toThrow(AuthorizationError);
+    await expect(getViewById(viewId, stranger._id.toString())).rejects.toThrow(NotFoundError);
+    await expect(updateView(viewId, stranger._id.toString(), { name: 'Mine' })).rejects.toThrow(NotFoundError);
+
+    await updateView(viewId, ownerId, { sharedWith: [] });
+    await expect(getViewById(viewId, readerId)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should list the own views of the user before the shared ones', async () => {
+    const owner = await createTestUser();
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await createView(owner._id.toString(), { name: 'Alpha', sharedWith: [userId] });
+    await createView(userId, { name: 'zeta' });
+    await createView(userId, { name: 'Beta', pinned: true });
+
+    const views = await getViews(userId);
+
+    expect(views.map((view) => view.name)).toEqual(['Beta', 'zeta', 'Alpha']);
+  });
+
+  it('should only share workspace views with members and unshare removed members', async () => {
+    const owner = await createTestUser();
+    const member = await createTestUser();
+    const outsider = await createTestUser();
+    const ownerId = owner._id.toString();
+    const memberId = member._id.toString();
+    const workspace = await createWorkspace(ownerId, { name: 'Team' });
+    const workspaceId = workspace._id.toString();
+    await addMember(workspaceId, ownerId, { email: member.email, role: 'VIEWER' });
+
+    await expect(
+      createView(outsider._id.toString(), { name: 'Peek', workspaceId })
+    ).rejects.toThrow(AuthorizationError);
+    await expect(
+      createView(ownerId, { name: 'Board', workspaceId, sharedWith: [outsider._id.toString()] })
+    ).rejects.toThrow(ValidationError);
+
+    const view = await createView(ownerId, { name: 'Board', workspaceId, layout: 'BOARD', sharedWith: [memberId] });
+
+    await removeMember(workspaceId, ownerId, memberId);
+    expect((await SavedView.findById(view._id))!.sharedWith).toHaveLength(0);
+
+    await deleteWorkspace(workspaceId, ownerId);
+    expect(await SavedView.findById(view._id)).toBeNull();
+  });
+});
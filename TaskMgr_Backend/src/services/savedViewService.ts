@@ -0,0 +1,217 @@
+import mongoose from 'mongoose';
+import { SavedView, ISavedView, ViewLayout, MAX_VIEW_SHARES } from '../models/SavedView';
+import { User } from '../models/User';
+import { Workspace } from '../models/Workspace';
+import { ValidationError, AuthorizationError, NotFoundError } from '../middleware/errors';
+import { escapeRegex } from '../utils/regex';
+import { parseTaskQuery } from '../utils/taskQuery';
+import { DEFAULT_TASK_SORT, formatTaskSort, parseTaskSort } from '../utils/taskSort';
+import * as workspaceService from './workspaceService';
+
+export interface SavedViewData {
+  name: string;
+  // Unset for a view of personal tasks
+  workspaceId?: string;
+  query?: string;
+  sort?: string;
+  layout?: ViewLayout;
+  pinned?: boolean;
+  sharedWith?: string[];
+}
+
+export type UpdateSavedViewData = Partial<Omit<SavedViewData, 'workspaceId'>>;
+
+const VIEW_POPULATE = [
+  { path: 'ownerId', select: 'firstName lastName email' },
+  { path: 'sharedWith', select: 'firstName lastName email' },
+];
+
+function normalizeName(name: string): string {
+  const trimmed = (name || '').trim();
+  if (trimmed.length === 0) {
+    throw new ValidationError('View name is required');
+  }
+  return trimmed;
+}
+
+/**
+ * Check that the owner has no other view with the name, ignoring case
+ */
+async function assertNameAvailable(ownerId: string, name: string, viewId?: string): Promise<void> {
+  const existing = await SavedView.findOne({
+    ownerId: new mongoose.Types.ObjectId(ownerId),
+    name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' },
+    ...(viewId ? { _id: { $ne: viewId } } : {}),
+  });
+
+  if (existing) {
+    throw new ValidationError(`A view named "${existing.name}" already exists`);
+  }
+}
+
+/**
+ * Check a task query and return it trimmed
+ * "me" is kept as is, so a shared view shows the tasks of whoever opens it
+ */
+function normalizeQuery(query: string, userId: string): string {
+  const trimmed = query.trim();
+  try {
+    parseTaskQuery(trimmed, { userId });
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+  return trimmed;
+}
+
+function normalizeSort(sort: string): string {
+  try {
+    return formatTaskSort(parseTaskSort(sort));
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+}
+
+/**
+ * Check the users a view is shared with
+ * Views of a workspace can only be shared with its members, who can read its tasks
+ * @returns The user IDs, without duplicates or the owner
+ */
+async function resolveShares(
+  userIds: string[],
+  ownerId: string,
+  workspaceId: mongoose.Types.ObjectId | undefined
+): Promise<mongoose.Types.ObjectId[]> {
+  const unique = [...new Set(userIds)].filter((userId) => userId !== ownerId);
+
+  if (unique.length > MAX_VIEW_SHARES) {
+    throw new ValidationError(`A view cannot be shared with more than ${MAX_VIEW_SHARES} users`);
+  }
+
+  const found = await User.countDocuments({
+    _id: { $in: unique.map((userId) => new mongoose.Types.ObjectId(userId)) },
+    isActive: { $ne: false },
+  });
+  if (found !== unique.length) {
+    throw new ValidationError('Views can only be shared with active users');
+  }
+
+  if (workspaceId && unique.length > 0) {
+    const workspace = await Workspace.findById(workspaceId);
+    if (!workspace || unique.some((userId) => !workspaceService.getMemberRole(workspace, userId))) {
+      throw new ValidationError('Workspace views can only be shared with members of the workspace');
+    }
+  }
+
+  return unique.map((userId) => new mongoose.Types.ObjectId(userId));
+}
+
+/**
+ * Load a view the user owns or that is shared with them
+ * Views of other users are not revealed
+ */
+async function findReadableView(viewId: string, userId: string): Promise<ISavedView> {
+  const view = mongoose.Types.ObjectId.isValid(viewId) ? await SavedView.findById(viewId) : null;
+
+  if (
+    !view ||
+    (view.ownerId.toString() !== userId && !view.sharedWith.some((sharedId) => sharedId.toString() === userId))
+  ) {
+    throw new NotFoundError('View not found');
+  }
+
+  return view;
+}
+
+/**
+ * Load a view and check that the user owns it
+ * Users a view is shared with can open it but not change it
+ */
+async function getViewForUpdate(viewId: string, userId: string): Promise<ISavedView> {
+  const view = await findReadableView(viewId, userId);
+
+  if (view.ownerId.toString() !== userId) {
+    throw new AuthorizationError('Views shared with you are read-only');
+  }
+
+  return view;
+}
+
+/**
+ * Get the views of a user and the views shared with them
+ * @param userId User ID
+ * @returns Views sorted by name, the user's own first
+ */
+export async function getViews(userId: string): Promise<ISavedView[]> {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const views = await SavedView.find({ $or: [{ ownerId: userObjectId }, { sharedWith: userObjectId }] })
+    .collation({ locale: 'en' })
+    .sort({ name: 1 })
+    .populate(VIEW_POPULATE);
+
+  const isOwn = (view: ISavedView) => ((view.ownerId as any)._id ?? view.ownerId).toString() === userId;
+  return [...views.filter(isOwn), ...views.filter((view) => !isOwn(view))];
+}
+
+export async function getViewById(viewId: string, userId: string): Promise<ISavedView> {
+  const view = await findReadableView(viewId, userId);
+  return view.populate(VIEW_POPULATE);
+}
+
+export async function createView(userId: string, data: SavedViewData): Promise<ISavedView> {
+  const name = normalizeName(data.name);
+
+  if (data.workspaceId) {
+    await workspaceService.requireMembership(data.workspaceId, userId);
+  }
+  const workspaceId = data.workspaceId ? new mongoose.Types.ObjectId(data.workspaceId) : undefined;
+
+  await assertNameAvailable(userId, name);
+
+  const view = await SavedView.create({
+    name,
+    ownerId: new mongoose.Types.ObjectId(userId),
+    workspaceId,
+    query: normalizeQuery(data.query || '', userId),
+    sort: data.sort !== undefined ? normalizeSort(data.sort) : formatTaskSort(DEFAULT_TASK_SORT),
+    layout: data.layout,
+    pinned: data.pinned,
+    sharedWith: await resolveShares(data.sharedWith || [], userId, workspaceId),
+  });
+
+  return view.populate(VIEW_POPULATE);
+}
+
+/**
+ * Rename a view, change what it shows, pin it or change who it is shared with
+ * Only the owner of a view can change it
+ */
+export async function updateView(viewId: string, userId: string, data: UpdateSavedViewData): Promise<ISavedView> {
+  const view = await getViewForUpdate(viewId, userId);
+
+  if (data.name !== undefined) {
+    const name = normalizeName(data.name);
+    await assertNameAvailable(userId, name, viewId);
+    view.name = name;
+  }
+  if (data.query !== undefined) view.query = normalizeQuery(data.query, userId);
+  if (data.sort !== undefined) view.sort = normalizeSort(data.sort);
+  if (data.layout !== undefined) view.layout = data.layout;
+  if (data.pinned !== undefined) view.pinned = data.pinned;
+  if (data.sharedWith !== undefined) {
+    view.sharedWith = await resolveShares(data.sharedWith, userId, view.workspaceId);
+  }
+
+  await view.save();
+
+  return view.populate(VIEW_POPULATE);
+}
+
+export async function deleteView(viewId: string, userId: string): Promise<{ message: string }> {
+  const view = await getViewForUpdate(viewId, userId);
+
+  await SavedView.findByIdAndDelete(view._id);
+
+  return {
+    message: 'View deleted successfully',
+  };
+}
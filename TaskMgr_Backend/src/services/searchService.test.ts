@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import { search } from './searchService';
+import { createTask } from './taskService';
+import { createComment } from './commentService';
+import { createNotification } from './notificationService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Task } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { TaskHistory } from '../models/TaskHistory';
+import { Workspace } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+  // Text queries fail until the text indexes exist
+  await Promise.all([Task.init(), Comment.init(), Notification.init()]);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await Comment.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Workspace.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(firstName = 'Test', lastName = 'User'): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName,
+    lastName,
+  });
+  return user;
+}
+
+const textOf = (snippet: { text: string; highlights: Array<[number, number]> }) =>
+  snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+
+describe('Search Service', () => {
+  it('should rank title matches above description matches and highlight them', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await createTask(userId, { title: 'Write release notes', description: 'Mention the deploy changes' });
+    await createTask(userId, { title: 'Deploy the backend', description: 'Run the deploy script' });
+
+    const { tasks } = await search(userId, 'deploy');
+
+    expect(tasks.map((hit) => hit.title.text)).toEqual(['Deploy the backend', 'Write release notes']);
+    expect(tasks[0].score).toBeGreaterThan(tasks[1].score);
+    expect(textOf(tasks[0].title)).toEqual(['Deploy']);
+    expect(textOf(tasks[1].snippet!)).toEqual(['deploy']);
+  });
+
+  it('should only return tasks and comments the user can read', async () => {
+    const owner = await createTestUser();
+    const member = await createTestUser();
+    const stranger = await createTestUser();
+    const ownerId = owner._id.toString();
+    const memberId = member._id.toString();
+    const workspace = await createWorkspace(ownerId, { name: 'Team' });
+    await addMember(workspace._id.toString(), ownerId, { email: member.email, role: 'VIEWER' });
+
+    const teamTask = await createTask(ownerId, { title: 'Invoice export', workspaceId: workspace._id.toString() });
+    const privateTask = await createTask(ownerId, { title: 'Invoice for my rent' });
+    await createComment(teamTask._id.toString(), ownerId, { body: 'The invoice totals are wrong' });
+    await createComment(privateTask._id.toString(), ownerId, { body: 'Pay the invoice' });
+
+    const forMember = await search(memberId, 'invoice');
+    expect(forMember.tasks.map((hit) => hit.title.text)).toEqual(['Invoice export']);
+    expect(forMember.comments.map((hit) => hit.taskId)).toEqual([teamTask._id.toString()]);
+
+    const forStranger = await search(stranger._id.toString(), 'invoice');
+    expect(forStranger.tasks).toHaveLength(0);
+    expect(forStranger.comments).toHaveLength(0);
+  });
+
+  it('should not let comments the user cannot read crowd out readable ones', async () => {
+    const owner = await createTestUser();
+    const reader = await createTestUser();
+    const ownerId = owner._id.toString();
+    const privateTask = await createTask(ownerId, { title: 'Private' });
+    const sharedTask = await createTask(ownerId, { title: 'Shared', assignedToId: reader._id.toString() });
+    for (let i = 0; i < 25; i++) {
+      await createComment(privateTask._id.toString(), ownerId, { body: `Budget budget budget ${i}` });
+    }
+    await createComment(sharedTask._id.toString(), ownerId, { body: 'Budget approved' });
+
+    const { comments } = await search(reader._id.toString(), 'budget', { types: ['comments'] });
+    expect(comments.map((hit) => hit.taskId)).toEqual([sharedTask._id.toString()]);
+  });
+
+  it('should find users by name and only the notifications of the user', async () => {
+    const user = await createTestUser('Grace', 'Hopper');
+    const other = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Compiler' });
+    await createNotification({
+      userId,
+      type: 'TASK_ASSIGNED',
+      title: 'Compiler review',
+      message: 'Review the compiler',
+      resourceId: task._id.toString(),
+      resourceType: 'TASK',
+    });
+    await createNotification({
+      userId: other._id.toString(),
+      type: 'TASK_ASSIGNED',
+      title: 'Compiler review',
+      message: 'Not yours',
+    });
+
+    const results = await search(userId, 'compiler', { types: ['notifications'] });
+    expect(results.notifications).toHaveLength(1);
+    expect(results.notifications[0].taskId).toBe(task._id.toString());
+    expect(results.tasks).toHaveLength(0);
+
+    const { users } = await search(userId, 'grac');
+    expect(users.map((hit) => hit.title.text)).toEqual(['Grace Hopper']);
+    expect(textOf(users[0].title)).toEqual(['Grac']);
+  });
+});
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { Comment, IComment } from '../models/Comment';
+import { Notification, INotification } from '../models/Notification';
+import { User } from '../models/User';
+import { Snippet, buildSnippet, matchesTerms, searchTerms } from '../utils/snippet';
+import * as taskService from './taskService';
+import * as userService from './userService';
+
+export const SEARCH_TYPES = ['tasks', 'comments', 'users', 'notifications'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchOptions {
+  // Groups to search, all of them by default
+  types?: SearchType[];
+  // Most results per group
+  limit?: number;
+}
+
+/**
+ * A search result, whatever its type
+ */
+export interface SearchHit {
+  id: string;
+  // Task title, user name or notification title
+  title: Snippet;
+  // Matching excerpt of the description, comment, email or message
+  snippet?: Snippet;
+  // Relevance, higher first
+  score: number;
+  // Task the result leads to
+  taskId?: string;
+}
+
+export type SearchResults = Record<SearchType, SearchHit[]>;
+
+// Candidates fetched per result shown, for results filtered or ranked after the query
+const CANDIDATES_FACTOR = 4;
+
+// Longest title kept whole
+const TITLE_LENGTH = 200;
+
+const textScore = { score: { $meta: 'textScore' } } as const;
+
+// Document found by a text search, with the score projected by textScore
+type Scored<T> = T & { score: number };
+
+async function searchTasks(userId: string, query: string, terms: string[], limit: number): Promise<SearchHit[]> {
+  const tasks = await Task.find({
+    $text: { $search: query },
+    ...(await taskService.readableTasksQuery(userId)),
+    ...taskService.NOT_DELETED,
+  })
+    .select({ title: 1, description: 1, ...textScore })
+    .sort(textScore)
+    .limit(limit)
+    .lean<Scored<Pick<ITask, '_id' | 'title' | 'description'>>[]>();
+
+  return tasks.map((task) => ({
+    id: task._id.toString(),
+    title: buildSnippet(task.title, terms, TITLE_LENGTH),
+    snippet:
+      task.description && matchesTerms(task.description, terms)
+        ? buildSnippet(task.description, terms)
+        : undefined,
+    score: task.score,
+    taskId: task._id.toString(),
+  }));
+}
+
+async function searchComments(userId: string, query: string, terms: string[], limit: number): Promise<SearchHit[]> {
+  // Only comments of tasks the user can read, restricted before ranking so
+  // unreadable matches never take the place of readable ones
+  const readableTaskIds = await Task.distinct('_id', {
+    ...(await taskService.readableTasksQuery(userId)),
+    ...taskService.NOT_DELETED,
+  });
+
+  const comments = await Comment.find({ $text: { $search: query }, taskId: { $in: readableTaskIds } })
+    .select({ taskId: 1, body: 1, ...textScore })
+    .sort(textScore)
+    .limit(limit)
+    .lean<Scored<Pick<IComment, '_id' | 'taskId' | 'body'>>[]>();
+
+  const tasks = await Task.find({ _id: { $in: comments.map((comment) => comment.taskId) } })
+    .select('title')
+    .lean();
+  const titles = new Map(tasks.map((task) => [task._id.toString(), task.title]));
+
+  return comments.map((comment) => ({
+    id: comment._id.toString(),
+    title: buildSnippet(titles.get(comment.taskId.toString()) ?? '', terms, TITLE_LENGTH),
+    snippet: buildSnippet(comment.body, terms),
+    score: comment.score,
+    taskId: comment.taskId.toString(),
+  }));
+}
+
+async function searchUsers(terms: string[], limit: number): Promise<SearchHit[]> {
+  // Names and emails are matched by substring, as in the user directory,
+  // since people look for others by the start of their name
+  const users = await User.find({ isActive: { $ne: false }, ...userService.buildUserSearchQuery(terms.join(' ')) })
+    .select('firstName lastName email')
+    .sort({ firstName: 1, lastName: 1, _id: 1 })
+    .limit(limit * CANDIDATES_FACTOR)
+    .lean();
+
+  return users
+    .map((user) => {
+      const name = `${user.firstName} ${user.lastName}`;
+      // Matches at the start of a name or email rank first
+      const score = terms.filter((term) => matchesTerms(`${name} ${user.email}`, [term])).length + 1;
+      return {
+        id: user._id.toString(),
+        title: buildSnippet(name, terms, TITLE_LENGTH),
+        snippet: buildSnippet(user.email, terms),
+        score,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+async function searchNotifications(
+  userId: string,
+  query: string,
+  terms: string[],
+  limit: number
+): Promise<SearchHit[]> {
+  const notifications = await Notification.find({
+    $text: { $search: query },
+    userId: new mongoose.Types.ObjectId(userId),
+  })
+    .select({ title: 1, message: 1, resourceId: 1, resourceType: 1, ...textScore })
+    .sort(textScore)
+    .limit(limit)
+    .lean<Scored<Pick<INotification, '_id' | 'title' | 'message' | 'resourceId' | 'resourceType'>>[]>();
+
+  // Mentions refer to comments, which lead to their task
+  const commentIds = notifications
+    .filter((notification) => notification.resourceType === 'COMMENT' && notification.resourceId)
+    .map((notification) => notification.resourceId);
+  const comments = await Comment.find({ _id: { $in: commentIds } }).select('taskId').lean();
+  const commentTasks = new Map(comments.map((comment) => [comment._id.toString(), comment.taskId.toString()]));
+
+  return notifications.map((notification) => {
+    const resourceId = notification.resourceId?.toString();
+    return {
+      id: notification._id.toString(),
+      title: buildSnippet(notification.title, terms, TITLE_LENGTH),
+      snippet: buildSnippet(notification.message, terms),
+      score: notification.score,
+      taskId: notification.resourceType === 'TASK' || !resourceId ? resourceId : commentTasks.get(resourceId),
+    };
+  });
+}
+
+/**
+ * Search tasks, comments, users and notifications
+ * Tasks, comments and notifications are ranked by the MongoDB text index,
+ * which matches whole words and their stems; users by substring. Results
+ * are limited to what the user may see: readable tasks and their comments,
+ * active users and the user's own notifications
+ * @param userId ID of the user searching
+ * @param query Search text, in MongoDB $text syntax ("phrases", -excluded words)
+ * @param options Groups to search and results per group
+ * @returns Results grouped by type, most relevant first
+ */
+export async function search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResults> {
+  const { types = [...SEARCH_TYPES], limit = 5 } = options;
+  const terms = searchTerms(query);
+
+  const run = (type: SearchType, find: () => Promise<SearchHit[]>) =>
+    types.includes(type) && terms.length > 0 ? find() : Promise.resolve([]);
+
+  const [tasks, comments, users, notifications] = await Promise.all([
+    run('tasks', () => searchTasks(userId, query, terms, limit)),
+    run('comments', () => searchComments(userId, query, terms, limit)),
+    run('users', () => searchUsers(terms, limit)),
+    run('notifications', () => searchNotifications(userId, query, terms, limit)),
+  ]);
+
+  return { tasks, comments, users, notifications };
+}
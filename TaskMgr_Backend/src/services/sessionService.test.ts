@@ -0,0 +1,161 @@
+import mongoose from 'mongoose';
+import {
+  createSession,
+  refreshSession,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+} from './sessionService';
+import { changePassword, logout } from './authService';
+import { Session } from '../models/Session';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { verifyToken } from '../utils/jwt';
+import { AuthenticationError, NotFoundError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Session.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(password = 'Password123'): Promise<IUser> {
+  const hashedPassword = await hashPassword(password);
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Session Service', () => {
+  describe('createSession', () => {
+    it('should bind the access token to a stored session without storing the raw refresh token', async () => {
+      const user = await createTestUser();
+
+      const tokens = await createSession(user, { userAgent: 'jest', ipAddress: '127.0.0.1' });
+
+      const decoded = verifyToken(tokens.token);
+      const [sessionId, secret] = tokens.refreshToken.split('.');
+      expect(decoded.userId).toBe(user._id.toString());
+      expect(decoded.sessionId).toBe(sessionId);
+
+      const session = await Session.findById(sessionId);
+      expect(session?.userAgent).toBe('jest');
+      expect(session?.tokenHash).not.toContain(secret);
+      expect((session?.toJSON() as any).tokenHash).toBeUndefined();
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate the refresh token on every use', async () => {
+      const user = await createTestUser();
+      const first = await createSession(user);
+
+      const second = await refreshSession(first.refreshToken);
+      const third = await refreshSession(second.refreshToken);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(third.refreshToken).not.toBe(second.refreshToken);
+      expect(verifyToken(third.token).sessionId).toBe(first.refreshToken.split('.')[0]);
+      expect(await Session.countDocuments({})).toBe(1);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      const user = await createTestUser();
+      const first = await createSession(user);
+      const second = await refreshSession(first.refreshToken);
+
+      await expect(refreshSession(first.refreshToken)).rejects.toThrow(AuthenticationError);
+
+      // The legitimate holder is logged out too
+      await expect(refreshSession(second.refreshToken)).rejects.toThrow(AuthenticationError);
+      expect(await Session.countDocuments({})).toBe(0);
+    });
+
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = await createSession(user);
+
+      const results = await Promise.allSettled([refreshSession(refreshToken), refreshSession(refreshToken)]);
+
+      expect(results.filter((r) => r.status === 'fulfilled').length).toBeLessThanOrEqual(1);
+    });
+
+    it('should reject malformed and expired refresh tokens', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = await createSession(user);
+
+      await expect(refreshSession('garbage')).rejects.toThrow(AuthenticationError);
+      await expect(refreshSession(`${refreshToken}.extra`)).rejects.toThrow(AuthenticationError);
+
+      await Session.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+      await expect(refreshSession(refreshToken)).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('session management', () => {
+    it('should list sessions, flag the current one and revoke others', async () => {
+      const user = await createTestUser();
+      const userId = user._id.toString();
+      const current = await createSession(user, { userAgent: 'laptop' });
+      const other = await createSession(user, { userAgent: 'phone' });
+      const currentId = verifyToken(current.token).sessionId!;
+
+      const sessions = await listSessions(userId, currentId);
+      expect(sessions).toHaveLength(2);
+      expect(sessions.find((s) => s.current)?.userAgent).toBe('laptop');
+
+      expect(await revokeOtherSessions(userId, currentId)).toBe(1);
+      await expect(refreshSession(other.refreshToken)).rejects.toThrow(AuthenticationError);
+      await expect(refreshSession(current.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('should not revoke sessions of other users', async () => {
+      const owner = await createTestUser();
+      const intruder = await createTestUser();
+      const tokens = await createSession(owner);
+      const sessionId = verifyToken(tokens.token).sessionId!;
+
+      await expect(revokeSession(intruder._id.toString(), sessionId)).rejects.toThrow(NotFoundError);
+      expect(await Session.countDocuments({})).toBe(1);
+    });
+
+    it('should revoke the current session on logout', async () => {
+      const user = await createTestUser();
+      const tokens = await createSession(user);
+
+      await logout(user._id.toString(), verifyToken(tokens.token).sessionId);
+
+      await expect(refreshSession(tokens.refreshToken)).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should invalidate every session when the password changes', async () => {
+      const user = await createTestUser('Password123');
+      const userId = user._id.toString();
+      const laptop = await createSession(user);
+      const phone = await createSession(user);
+
+      const result = await changePassword(userId, {
+        currentPassword: 'Password123',
+        newPassword: 'NewPassword456',
+      });
+
+      await expect(refreshSession(laptop.refreshToken)).rejects.toThrow(AuthenticationError);
+      await expect(refreshSession(phone.refreshToken)).rejects.toThrow(AuthenticationError);
+      await expect(refreshSession(result.refreshToken)).resolves.toBeDefined();
+      expect(await Session.countDocuments({ userId: user._id })).toBe(1);
+    });
+  });
+});
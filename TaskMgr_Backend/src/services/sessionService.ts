@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Session } from '../models/Session';
+import { User, IUser } from '../models/User';
+import { config } from '../config/env';
+import { generateToken } from '../utils/jwt';
+import { AuthenticationError, NotFoundError } from '../middleware/errors';
+
+/**
+ * Session management
+ * Every login opens a session identified by its document ID. Clients get a
+ * short-lived access token bound to the session and a refresh token of the
+ * form "<sessionId>.<secret>". Only a hash of the latest secret is stored:
+ * each refresh rotates it, and presenting an older secret for a live session
+ * means the token was replayed, so the whole session is revoked
+ */
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  /** Whether this is the session of the requesting client */
+  current: boolean;
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  if (rest.length > 0 || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+function issueTokens(user: IUser, sessionId: string, secret: string): SessionTokens {
+  const token = generateToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId,
+  });
+
+  return {
+    token,
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: config.jwtExpiresIn,
+  };
+}
+
+/**
+ * Open a new session for a user
+ * @param user Authenticated user
+ * @param client Client the session is opened from
+ * @returns Access and refresh tokens
+ */
+export async function createSession(user: IUser, client: ClientInfo = {}): Promise<SessionTokens> {
+  const secret = generateSecret();
+  const now = new Date();
+
+  const session = await Session.create({
+    userId: user._id,
+    tokenHash: hashSecret(secret),
+    userAgent: client.userAgent,
+    ipAddress: client.ipAddress,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + config.refreshTokenTtlMs),
+  });
+
+  return issueTokens(user, session._id.toString(), secret);
+}
+
+/**
+ * Exchange a refresh token for new tokens, rotating the refresh token
+ * The expiry slides forward on every refresh, so only idle sessions expire
+ * @param refreshToken Refresh token from the client
+ * @param client Client performing the refresh
+ * @returns New access and refresh tokens
+ * @throws AuthenticationError if the token is invalid, expired or reused
+ */
+export async function refreshSession(refreshToken: string, client: ClientInfo = {}): Promise<SessionTokens> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const now = new Date();
+  const session = await Session.findById(parsed.sessionId);
+
+  if (!session || session.expiresAt <= now) {
+    throw new AuthenticationError('Session has expired or was revoked');
+  }
+
+  const user = await User.findById(session.userId);
+  if (!user || !user.isActive) {
+    await Session.deleteOne({ _id: session._id });
+    throw new AuthenticationError('Session has expired or was revoked');
+  }
+
+  const secret = generateSecret();
+
+  // Conditional update so two refreshes with the same token cannot both win
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenHash: hashSecret(parsed.secret) },
+    {
+      tokenHash: hashSecret(secret),
+      userAgent: client.userAgent ?? session.userAgent,
+      ipAddress: client.ipAddress ?? session.ipAddress,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + config.refreshTokenTtlMs),
+    },
+    { new: true }
+  );
+
+  if (!rotated) {
+    await Session.deleteOne({ _id: session._id });
+    console.warn(`Refresh token reuse detected, revoked session ${session._id} of user ${session.userId}`);
+    throw new AuthenticationError('Refresh token reuse detected, please log in again');
+  }
+
+  return issueTokens(user, rotated._id.toString(), secret);
+}
+
+/**
+ * List the active sessions of a user, most recently used first
+ * @param userId User ID
+ * @param currentSessionId Session of the request, flagged as current
+ */
+export async function listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const sessions = await Session.find({
+    userId: new mongoose.Types.ObjectId(userId),
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+  return sessions.map((session) => ({
+    id: session._id.toString(),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+    current: session._id.toString() === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke one session of a user
+ * @throws NotFoundError if the session does not exist or belongs to someone else
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    throw new NotFoundError('Session not found');
+  }
+
+  const result = await Session.deleteOne({
+    _id: new mongoose.Types.ObjectId(sessionId),
+    userId: new mongoose.Types.ObjectId(userId),
+  });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Session not found');
+  }
+}
+
+/**
+ * Revoke every session of a user except the current one
+ * @returns Number of revoked sessions
+ */
+export async function revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+  const query: any = { userId: new mongoose.Types.ObjectId(userId) };
+  if (currentSessionId && mongoose.Types.ObjectId.isValid(currentSessionId)) {
+    query._id = { $ne: new mongoose.Types.ObjectId(currentSessionId) };
+  }
+
+  const result = await Session.deleteMany(query);
+  return result.deletedCount;
+}
+
+/**
+ * Revoke every session of a user
+ * @returns Number of revoked sessions
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const result = await Session.deleteMany({ userId: new mongoose.Types.ObjectId(userId) });
+  return result.deletedCount;
+}
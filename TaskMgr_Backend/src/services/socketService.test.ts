@@ -8,10 +8,12 @@ import { createTask } from './taskService';
 import { updateTask } from './taskService';
 import { deleteTask } from './taskService';
 import { createNotification } from './notificationService';
+import { createWorkspace, addMember } from './workspaceService';
 import { connectDatabase, disconnectDatabase } from '../config/database';
 import { User } from '../models/User';
 import { Task } from '../models/Task';
 import { Notification } from '../models/Notification';
+import { Workspace } from '../models/Workspace';
 import { generateToken } from '../utils/jwt';
 import { hashPassword } from '../utils/password';
 import { config } from '../config/env';
@@ -39,6 +41,7 @@ describe('Socket Service Property Tests', () => {
     await User.deleteMany({});
     await Task.deleteMany({});
     await Notification.deleteMany({});
+    await Workspace.deleteMany({});
 
     // Create Express app and HTTP server
     app = express();
@@ -251,7 +254,7 @@ describe('Socket Service Property Tests', () => {
               await deleteTask(taskId, userId);
 
               // Emit the event
-              emitTaskDeleted(taskId);
+              emitTaskDeleted(task);
 
               // Wait for event with timeout
               const receivedData = await Promise.race([
@@ -300,12 +303,12 @@ describe('Socket Service Property Tests', () => {
               });
 
               // Create notification
-              const notification = await createNotification({
+              const notification = (await createNotification({
                 userId,
                 type: notificationData.type,
                 title: notificationData.title,
                 message: notificationData.message,
-              });
+              }))!;
 
               // Emit the event
               emitNotification(notification);
@@ -379,7 +382,7 @@ describe('Socket Service Property Tests', () => {
 
               // Delete task
               await deleteTask(taskId, userId);
-              emitTaskDeleted(taskId);
+              emitTaskDeleted(task);
               await new Promise(resolve => setTimeout(resolve, 100));
 
               // Verify all events were emitted
@@ -395,6 +398,51 @@ describe('Socket Service Property Tests', () => {
       );
     });
 
+    it('should emit task events only to the members of the task workspace', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.string({ minLength: 1, maxLength: 200 }).filter(s => s.trim().length > 0),
+          async (taskTitle) => {
+            const owner = await createTestUser(`owner-${Date.now()}@example.com`);
+            const member = await createTestUser(`member-${Date.now()}@example.com`);
+            const outsider = await createTestUser(`outsider-${Date.now()}@example.com`);
+            const ownerId = owner._id.toString();
+
+            const workspace = await createWorkspace(ownerId, { name: 'Team' });
+            const workspaceId = workspace._id.toString();
+
+            // Member connects before joining, outsider never joins
+            const memberClient = await createAuthenticatedClient(member._id.toString(), member.email);
+            const outsiderClient = await createAuthenticatedClient(outsider._id.toString(), outsider.email);
+
+            try {
+              await addMember(workspaceId, ownerId, { email: member.email });
+
+              let memberReceived = false;
+              let outsiderReceived = false;
+              memberClient.on('task:created', () => {
+                memberReceived = true;
+              });
+              outsiderClient.on('task:created', () => {
+                outsiderReceived = true;
+              });
+
+              const task = await createTask(ownerId, { title: taskTitle, workspaceId });
+              emitTaskCreated(task);
+              await new Promise(resolve => setTimeout(resolve, 300));
+
+              expect(memberReceived).toBe(true);
+              expect(outsiderReceived).toBe(false);
+            } finally {
+              memberClient.close();
+              outsiderClient.close();
+            }
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
     // Feature: taskmgr-backend, Property 47: Notification events to specific user
     // Validates: Requirements 14.3
     it('should emit notification events only to the specific user', async () => {
@@ -429,12 +477,12 @@ describe('Socket Service Property Tests', () => {
               });
 
               // Create notification for user1 only
-              const notification = await createNotification({
+              const notification = (await createNotification({
                 userId: userId1,
                 type: 'TASK_ASSIGNED',
                 title: notificationData.title,
                 message: notificationData.message,
-              });
+              }))!;
 
               // Emit the event
               emitNotification(notification);
@@ -1,4 +1,4 @@
-import { getIO } from '../socket';
+import { getIO, workspaceRoom } from '../socket';
 import { ITask } from '../models/Task';
 import { INotification } from '../models/Notification';
 
@@ -8,7 +8,25 @@ import { INotification } from '../models/Notification';
  */
 
 /**
- * Emit task created event to all connected clients
+ * Get the rooms that should receive the events of a task
+ * Workspace tasks go to the workspace room, personal tasks to the
+ * rooms of their creator and assignee
+ * @param task - The task, with or without populated users
+ */
+function getTaskRooms(task: ITask): string[] {
+  if (task.workspaceId) {
+    return [workspaceRoom(task.workspaceId.toString())];
+  }
+
+  const rooms = [((task.creatorId as any)._id ?? task.creatorId).toString()];
+  if (task.assignedToId) {
+    rooms.push(((task.assignedToId as any)._id ?? task.assignedToId).toString());
+  }
+  return rooms;
+}
+
+/**
+ * Emit task created event to the clients allowed to see the task
  * @param task - The created task
  */
 export function emitTaskCreated(task: ITask): void {
@@ -21,13 +39,12 @@ export function emitTaskCreated(task: ITask): void {
   // Convert task to JSON to ensure proper formatting
   const taskData = task.toJSON();
   
-  // Emit to all connected clients
-  io.emit('task:created', taskData);
+  io.to(getTaskRooms(task)).emit('task:created', taskData);
   console.log(`Emitted task:created event for task ${taskData.id}`);
 }
 
 /**
- * Emit task updated event to all connected clients
+ * Emit task updated event to the clients allowed to see the task
  * @param task - The updated task
  */
 export function emitTaskUpdated(task: ITask): void {
@@ -40,27 +57,68 @@ export function emitTaskUpdated(task: ITask): void {
   // Convert task to JSON to ensure proper formatting
   const taskData = task.toJSON();
   
-  // Emit to all connected clients
-  io.emit('task:updated', taskData);
+  io.to(getTaskRooms(task)).emit('task:updated', taskData);
   console.log(`Emitted task:updated event for task ${taskData.id}`);
 }
 
 /**
- * Emit task deleted event to all connected clients
- * @param taskId - The ID of the deleted task
+ * Emit task deleted event to the clients allowed to see the task
+ * @param task - The deleted task
  */
-export function emitTaskDeleted(taskId: string): void {
+export function emitTaskDeleted(task: ITask): void {
   const io = getIO();
   if (!io) {
     console.warn('Socket.IO not initialized, cannot emit task:deleted event');
     return;
   }
 
-  // Emit to all connected clients with just the task ID
-  io.emit('task:deleted', { taskId });
+  // Emit with just the task ID
+  const taskId = task._id.toString();
+  io.to(getTaskRooms(task)).emit('task:deleted', { taskId });
   console.log(`Emitted task:deleted event for task ${taskId}`);
 }
 
+/**
+ * Emit the tasks changed by a bulk operation or a scheduled job in one
+ * task:bulk event per room, each room receiving the tasks it is allowed to see
+ * @param updated - The updated tasks
+ * @param deleted - The deleted tasks
+ */
+export function emitTasksChanged(updated: ITask[], deleted: ITask[]): void {
+  if (updated.length === 0 && deleted.length === 0) {
+    return;
+  }
+
+  const io = getIO();
+  if (!io) {
+    console.warn('Socket.IO not initialized, cannot emit task:bulk event');
+    return;
+  }
+
+  const events = new Map<string, { updated: unknown[]; deleted: string[] }>();
+  const eventFor = (room: string) => {
+    let event = events.get(room);
+    if (!event) {
+      event = { updated: [], deleted: [] };
+      events.set(room, event);
+    }
+    return event;
+  };
+
+  for (const task of updated) {
+    const taskData = task.toJSON();
+    getTaskRooms(task).forEach((room) => eventFor(room).updated.push(taskData));
+  }
+  for (const task of deleted) {
+    getTaskRooms(task).forEach((room) => eventFor(room).deleted.push(task._id.toString()));
+  }
+
+  for (const [room, event] of events) {
+    io.to(room).emit('task:bulk', event);
+  }
+  console.log(`Emitted task:bulk event for ${updated.length} updated and ${deleted.length} deleted tasks`);
+}
+
 /**
  * Emit notification event to a specific user
  * @param notification - The notification to emit
@@ -83,3 +141,45 @@ export function emitNotification(notification: INotification): void {
   io.to(userId).emit('notification:new', notificationData);
   console.log(`Emitted notification:new event to user ${userId}`);
 }
+
+/**
+ * Add the connected sockets of a user to a workspace room
+ * @param userId - ID of the user who joined the workspace
+ * @param workspaceId - Workspace ID
+ */
+export function joinWorkspaceRoom(userId: string, workspaceId: string): void {
+  const io = getIO();
+  if (!io) {
+    return;
+  }
+
+  io.in(userId).socketsJoin(workspaceRoom(workspaceId));
+}
+
+/**
+ * Remove the connected sockets of a user from a workspace room
+ * @param userId - ID of the user who left the workspace
+ * @param workspaceId - Workspace ID
+ */
+export function leaveWorkspaceRoom(userId: string, workspaceId: string): void {
+  const io = getIO();
+  if (!io) {
+    return;
+  }
+
+  io.in(userId).socketsLeave(workspaceRoom(workspaceId));
+}
+
+/**
+ * Disconnect every socket of a user, e.g. once their account is deactivated
+ * Reconnection attempts are refused by the authentication middleware
+ * @param userId - User ID
+ */
+export function disconnectUser(userId: string): void {
+  const io = getIO();
+  if (!io) {
+    return;
+  }
+
+  io.in(userId).disconnectSockets(true);
+}
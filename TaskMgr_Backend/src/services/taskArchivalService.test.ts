@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import { archiveCompletedTasks, startArchivalScheduler, stopArchivalScheduler } from './taskArchivalService';
+import { Task } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Task Archival Service', () => {
+  const now = new Date('2030-03-01T00:00:00.000Z');
+
+  describe('archiveCompletedTasks', () => {
+    it('should archive only the tasks completed longer than the delay ago', async () => {
+      const user = await createTestUser();
+      const done = { creatorId: user._id, status: 'COMPLETED', statusCategory: 'DONE' };
+      const old = await Task.create({ ...done, title: 'Old', completedAt: new Date(now.getTime() - 40 * DAY) });
+      const recent = await Task.create({ ...done, title: 'Recent', completedAt: new Date(now.getTime() - 5 * DAY) });
+      const unarchived = await Task.create({
+        ...done,
+        title: 'Unarchived',
+        completedAt: new Date(now.getTime() - 40 * DAY),
+        unarchivedAt: new Date(now.getTime() - 2 * DAY),
+      });
+      const trashed = await Task.create({
+        ...done,
+        title: 'Trashed',
+        completedAt: new Date(now.getTime() - 40 * DAY),
+        deletedAt: new Date(now.getTime() - DAY),
+      });
+      const open = await Task.create({ title: 'Open', creatorId: user._id });
+
+      expect(await archiveCompletedTasks(now, 30)).toBe(1);
+      expect(await archiveCompletedTasks(now, 30)).toBe(0);
+
+      expect((await Task.findById(old._id))?.archivedAt).toEqual(now);
+      for (const task of [recent, unarchived, trashed, open]) {
+        expect((await Task.findById(task._id))?.archivedAt).toBeUndefined();
+      }
+    });
+  });
+
+  describe('scheduler', () => {
+    afterEach(async () => {
+      await stopArchivalScheduler();
+    });
+
+    it('should archive with the injected clock and stop cleanly', async () => {
+      const user = await createTestUser();
+      const task = await Task.create({
+        title: 'Done',
+        creatorId: user._id,
+        status: 'COMPLETED',
+        statusCategory: 'DONE',
+        completedAt: new Date(now.getTime() - 8 * DAY),
+      });
+
+      startArchivalScheduler({ archiveAfterDays: 7, intervalMs: 20, clock: () => now });
+
+      for (let i = 0; i < 50; i++) {
+        if (await Task.exists({ _id: task._id, archivedAt: { $ne: null } })) break;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      await stopArchivalScheduler();
+
+      expect((await Task.findById(task._id))?.archivedAt).toEqual(now);
+    });
+
+    it('should not start when automatic archival is turned off', async () => {
+      const user = await createTestUser();
+      const task = await Task.create({
+        title: 'Done',
+        creatorId: user._id,
+        status: 'COMPLETED',
+        statusCategory: 'DONE',
+        completedAt: new Date(now.getTime() - 80 * DAY),
+      });
+
+      startArchivalScheduler({ archiveAfterDays: 0, intervalMs: 20, clock: () => now });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect((await Task.findById(task._id))?.archivedAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Task } from '../models/Task';
+import { config } from '../config/env';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import * as taskService from './taskService';
+import * as socketService from './socketService';
+
+/**
+ * Task archival scheduler
+ * Periodically archives the tasks that have been completed for longer than
+ * the configured delay, so they leave the default listings
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ArchivalSchedulerOptions {
+  /** Days a task stays completed before it is archived */
+  archiveAfterDays?: number;
+  /** Delay between two checks in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+let job: PeriodicJob | null = null;
+
+/**
+ * Archive the tasks completed more than the delay ago
+ * Tasks completed before completion times were kept count from their last
+ * update, and unarchived tasks from the time they were unarchived
+ * @param now Current time
+ * @param archiveAfterDays Days a task stays completed before it is archived
+ * @returns Number of tasks archived
+ */
+export async function archiveCompletedTasks(now: Date, archiveAfterDays: number): Promise<number> {
+  const cutoff = new Date(now.getTime() - archiveAfterDays * DAY_MS);
+
+  const tasks = await Task.find({
+    statusCategory: 'DONE',
+    archivedAt: null,
+    ...taskService.NOT_DELETED,
+    $and: [
+      { $or: [{ completedAt: { $lte: cutoff } }, { completedAt: null, updatedAt: { $lte: cutoff } }] },
+      { $or: [{ unarchivedAt: null }, { unarchivedAt: { $lte: cutoff } }] },
+    ],
+  }).select('_id');
+
+  if (tasks.length === 0) {
+    return 0;
+  }
+
+  const taskIds = tasks.map((task) => task._id);
+  // Archiving is no edit, it leaves the version of the tasks alone
+  await Task.updateMany({ _id: { $in: taskIds } }, { archivedAt: now });
+
+  const archived = await Task.find({ _id: { $in: taskIds } }).populate(taskService.TASK_POPULATE);
+  socketService.emitTasksChanged(archived, []);
+
+  return archived.length;
+}
+
+/**
+ * Start the task archival scheduler
+ * Does nothing when the delay is 0, which turns automatic archival off
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startArchivalScheduler(options: ArchivalSchedulerOptions = {}): void {
+  const {
+    archiveAfterDays = config.archiveAfterDays,
+    intervalMs = config.archiveIntervalMs,
+    clock,
+  } = options;
+
+  if (job || archiveAfterDays <= 0) {
+    return;
+  }
+
+  job = createPeriodicJob({
+    name: 'Task archival scheduler',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const archived = await archiveCompletedTasks(now, archiveAfterDays);
+      if (archived > 0) {
+        console.log(`Archived ${archived} completed task(s)`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the task archival scheduler
+ * Waits for a check in progress to finish so shutdown does not cut it off
+ */
+export async function stopArchivalScheduler(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
@@ -0,0 +1,176 @@
+import fc from 'fast-check';
+import mongoose from 'mongoose';
+import { diffSnapshots, TaskSnapshot, TRACKED_FIELDS } from './taskHistoryService';
+import { createTask, updateTask, deleteTask, getTaskHistory, bulkUpdateTasks } from './taskService';
+import { createLabel } from './labelService';
+import { TaskHistory } from '../models/TaskHistory';
+import { Notification } from '../models/Notification';
+import { Task } from '../models/Task';
+import { Label } from '../models/Label';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await TaskHistory.deleteMany({});
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await Label.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(firstName = 'Test'): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName,
+    lastName: 'User',
+  });
+  return user;
+}
+
+const snapshotArb: fc.Arbitrary<TaskSnapshot> = fc.record({
+  title: fc.string(),
+  description: fc.option(fc.string()),
+  dueDate: fc.option(fc.date().map((d) => d.toISOString())),
+  priority: fc.constantFrom('LOW', 'MEDIUM', 'HIGH', 'URGENT'),
+  status: fc.constantFrom('TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED'),
+  assignedToId: fc.option(fc.hexaString({ minLength: 24, maxLength: 24 })),
+  labels: fc.option(fc.uniqueArray(fc.constantFrom('a1', 'b2', 'c3'), { minLength: 1 }).map((ids) => ids.sort())),
+});
+
+describe('Task History Service', () => {
+  describe('diffSnapshots', () => {
+    it('should report exactly the fields whose values differ', () => {
+      fc.assert(
+        fc.property(snapshotArb, snapshotArb, (before, after) => {
+          const changes = diffSnapshots(before, after);
+          const expected = TRACKED_FIELDS.filter(
+            (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+          );
+
+          expect(changes.map((c) => c.field)).toEqual(expected);
+          changes.forEach((c) => {
+            expect(c.oldValue).toEqual(before[c.field]);
+            expect(c.newValue).toEqual(after[c.field]);
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('task lifecycle', () => {
+    it('should record creation, field updates, assignment and deletion', async () => {
+      const creator = await createTestUser('Creator');
+      const assignee = await createTestUser('Assignee');
+      const creatorId = creator._id.toString();
+      const task = await createTask(creatorId, { title: 'Audit me', priority: 'LOW' });
+      const taskId = task._id.toString();
+
+      await updateTask(taskId, creatorId, {
+        priority: 'HIGH',
+        status: 'IN_PROGRESS',
+        assignedToId: assignee._id.toString(),
+      });
+
+      const history = await getTaskHistory(taskId, creatorId);
+      const byField = new Map(history.map((entry) => [entry.field, entry]));
+
+      expect(history.map((entry) => entry.action).sort()).toEqual(
+        ['ASSIGNED', 'CREATED', 'UPDATED', 'UPDATED'].sort()
+      );
+      expect(byField.get('priority')?.oldValue).toBe('LOW');
+      expect(byField.get('priority')?.newValue).toBe('HIGH');
+      expect(byField.get('status')?.newValue).toBe('IN_PROGRESS');
+      expect((byField.get('assignedToId')?.newValue as any).firstName).toBe('Assignee');
+      history.forEach((entry) => {
+        expect(entry.actorId._id.toString()).toBe(creatorId);
+      });
+
+      await deleteTask(taskId, creatorId);
+      const deleted = await TaskHistory.findOne({ taskId: task._id, action: 'DELETED' });
+      expect(deleted?.actorId.toString()).toBe(creatorId);
+    });
+
+    it('should not record or notify anything for an update that changes nothing', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(creator._id.toString(), {
+        title: 'Same',
+        assignedToId: assignee._id.toString(),
+      });
+      await Notification.deleteMany({});
+
+      await updateTask(task._id.toString(), creator._id.toString(), { title: 'Same' });
+
+      expect(await TaskHistory.countDocuments({ taskId: task._id, action: 'UPDATED' })).toBe(0);
+      expect(await Notification.countDocuments({ type: 'TASK_UPDATED' })).toBe(0);
+    });
+
+    it('should name the changed fields in the TASK_UPDATED notification', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const task = await createTask(creator._id.toString(), {
+        title: 'Notify',
+        assignedToId: assignee._id.toString(),
+      });
+
+      await updateTask(task._id.toString(), creator._id.toString(), {
+        status: 'REVIEW',
+        dueDate: new Date(Date.now() + 86400000),
+      });
+
+      const notification = await Notification.findOne({ userId: assignee._id, type: 'TASK_UPDATED' });
+      expect(notification?.message).toContain('due date, status');
+    });
+
+    it('should record label changes and name them in notifications', async () => {
+      const creator = await createTestUser();
+      const assignee = await createTestUser();
+      const creatorId = creator._id.toString();
+      const bug = await createLabel(creatorId, { name: 'bug', color: '#ef4444' });
+      const urgent = await createLabel(creatorId, { name: 'urgent', color: '#f59e0b' });
+      const task = await createTask(creatorId, {
+        title: 'Labelled',
+        assignedToId: assignee._id.toString(),
+        labels: [bug._id.toString()],
+      });
+      const taskId = task._id.toString();
+
+      // Setting the same labels again is not a change
+      await updateTask(taskId, creatorId, { labels: [bug._id.toString()] });
+      expect(await TaskHistory.countDocuments({ taskId: task._id, field: 'labels' })).toBe(0);
+
+      await bulkUpdateTasks(creatorId, { taskIds: [taskId], operation: 'ADD_LABEL', value: urgent._id.toString() });
+
+      const [entry] = (await getTaskHistory(taskId, creatorId)).filter((e) => e.field === 'labels');
+      expect((entry.oldValue as any[]).map((label) => label.name)).toEqual(['bug']);
+      expect((entry.newValue as any[]).map((label) => label.name).sort()).toEqual(['bug', 'urgent']);
+
+      const notification = await Notification.findOne({ userId: assignee._id, type: 'TASK_UPDATED' });
+      expect(notification?.message).toContain('changed the labels of "Labelled"');
+    });
+
+    it('should deny history access to users without access to the task', async () => {
+      const creator = await createTestUser();
+      const outsider = await createTestUser();
+      const task = await createTask(creator._id.toString(), { title: 'Private' });
+
+      await expect(
+        getTaskHistory(task._id.toString(), outsider._id.toString())
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { TaskHistory, ITaskHistory } from '../models/TaskHistory';
+import { ITask } from '../models/Task';
+import { User } from '../models/User';
+import { Label } from '../models/Label';
+import mongoose from 'mongoose';
+
+/**
+ * Task fields tracked in the audit trail
+ */
+export const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'dueDate',
+  'priority',
+  'status',
+  'assignedToId',
+  'labels',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+/**
+ * Human readable field names, used in notification messages
+ */
+export const FIELD_LABELS: Record<TrackedField, string> = {
+  title: 'title',
+  description: 'description',
+  dueDate: 'due date',
+  priority: 'priority',
+  status: 'status',
+  assignedToId: 'assignee',
+  labels: 'labels',
+};
+
+export type TaskSnapshot = Record<TrackedField, unknown>;
+
+export interface FieldChange {
+  field: TrackedField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Normalize a task field value for storage and comparison
+ * Missing values become null, dates become ISO strings,
+ * (possibly populated) references become ID strings and
+ * lists of references sorted ID lists
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((item) => normalizeValue(item) as string).sort() : null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return value.toString();
+  }
+  if (typeof value === 'object' && '_id' in (value as any)) {
+    return (value as any)._id.toString();
+  }
+  return value;
+}
+
+/**
+ * Capture the tracked fields of a task
+ * @param task Task document
+ * @returns Normalized field values
+ */
+export function snapshotTask(task: ITask): TaskSnapshot {
+  const snapshot = {} as TaskSnapshot;
+  for (const field of TRACKED_FIELDS) {
+    snapshot[field] = normalizeValue(task.get(field));
+  }
+  return snapshot;
+}
+
+/**
+ * Compare two task snapshots field by field
+ * @param before Snapshot taken before the change
+ * @param after Snapshot taken after the change
+ * @returns One entry per changed field
+ */
+export function diffSnapshots(before: TaskSnapshot, after: TaskSnapshot): FieldChange[] {
+  const differs = (field: TrackedField) => JSON.stringify(before[field]) !== JSON.stringify(after[field]);
+
+  return TRACKED_FIELDS.filter(differs).map((field) => ({
+    field,
+    oldValue: before[field],
+    newValue: after[field],
+  }));
+}
+
+/**
+ * Record the creation of a task
+ * @param task Created task
+ * @param actorId ID of the user who created it
+ */
+export async function recordTaskCreated(task: ITask, actorId: string): Promise<void> {
+  await TaskHistory.create({
+    taskId: task._id,
+    actorId: new mongoose.Types.ObjectId(actorId),
+    action: 'CREATED',
+  });
+}
+
+/**
+ * Record field changes made to a task in a single update
+ * Assignee changes are recorded as ASSIGNED, everything else as UPDATED
+ * @param taskId Task ID
+ * @param actorId ID of the user who made the changes
+ * @param changes Changed fields
+ */
+export async function recordTaskChanges(
+  taskId: string,
+  actorId: string,
+  changes: FieldChange[]
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const createdAt = new Date();
+  await TaskHistory.insertMany(
+    changes.map((change) => ({
+      taskId: new mongoose.Types.ObjectId(taskId),
+      actorId: new mongoose.Types.ObjectId(actorId),
+      action: change.field === 'assignedToId' ? 'ASSIGNED' : 'UPDATED',
+      field: change.field,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      createdAt,
+    }))
+  );
+}
+
+/**
+ * Record the deletion of a task
+ * History entries are kept after deletion as an audit trail
+ * @param taskId Task ID
+ * @param actorId ID of the user who deleted it
+ */
+export async function recordTaskDeleted(taskId: string, actorId: string): Promise<void> {
+  await TaskHistory.create({
+    taskId: new mongoose.Types.ObjectId(taskId),
+    actorId: new mongoose.Types.ObjectId(actorId),
+    action: 'DELETED',
+  });
+}
+
+/**
+ * Record the restoration of a task from the trash
+ * @param taskId Task ID
+ * @param actorId ID of the user who restored it
+ */
+export async function recordTaskRestored(taskId: string, actorId: string): Promise<void> {
+  await TaskHistory.create({
+    taskId: new mongoose.Types.ObjectId(taskId),
+    actorId: new mongoose.Types.ObjectId(actorId),
+    action: 'RESTORED',
+  });
+}
+
+/**
+ * Get the history of a task, newest first
+ * Access control is the caller's responsibility
+ * Assignee and label values are resolved to summaries for display
+ * @param taskId Task ID
+ * @returns History entries with populated actors
+ */
+export async function getHistoryForTask(taskId: string): Promise<ITaskHistory[]> {
+  const entries = await TaskHistory.find({ taskId: new mongoose.Types.ObjectId(taskId) })
+    .sort({ createdAt: -1, _id: -1 })
+    .populate('actorId', 'firstName lastName email');
+
+  const assigneeIds = new Set<string>();
+  for (const entry of entries) {
+    if (entry.field === 'assignedToId') {
+      if (typeof entry.oldValue === 'string') assigneeIds.add(entry.oldValue);
+      if (typeof entry.newValue === 'string') assigneeIds.add(entry.newValue);
+    }
+  }
+
+  if (assigneeIds.size > 0) {
+    const users = await User.find({ _id: { $in: [...assigneeIds] } }).select('firstName lastName email');
+    const usersById = new Map(users.map((user) => [user._id.toString(), user.toJSON()]));
+
+    for (const entry of entries) {
+      if (entry.field === 'assignedToId') {
+        entry.oldValue = usersById.get(entry.oldValue as string) ?? entry.oldValue;
+        entry.newValue = usersById.get(entry.newValue as string) ?? entry.newValue;
+      }
+    }
+  }
+
+  const labelIds = new Set<string>();
+  for (const entry of entries) {
+    if (entry.field === 'labels') {
+      for (const value of [entry.oldValue, entry.newValue]) {
+        if (Array.isArray(value)) value.forEach((id) => labelIds.add(id));
+      }
+    }
+  }
+
+  if (labelIds.size > 0) {
+    // Deleted labels are left as bare IDs
+    const labels = await Label.find({ _id: { $in: [...labelIds] } }).select('name color');
+    const labelsById = new Map(labels.map((label) => [label._id.toString(), label.toJSON()]));
+    const resolve = (value: unknown) =>
+      Array.isArray(value) ? value.map((id) => labelsById.get(id) ?? { id }) : value;
+
+    for (const entry of entries) {
+      if (entry.field === 'labels') {
+        entry.oldValue = resolve(entry.oldValue);
+        entry.newValue = resolve(entry.newValue);
+      }
+    }
+  }
+
+  return entries;
+}
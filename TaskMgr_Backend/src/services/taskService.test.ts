@@ -6,17 +6,33 @@ import {
   getTaskById,
   updateTask,
   deleteTask,
+  getTrashedTasks,
+  restoreTask,
+  purgeTask,
+  archiveTask,
+  unarchiveTask,
+  reorderTasks,
+  bulkUpdateTasks,
+  getAssignedTasks,
+  getCreatedTasks,
   CreateTaskData,
   UpdateTaskData,
 } from './taskService';
-import { Task } from '../models/Task';
+import { Task, ITask } from '../models/Task';
+import { Notification } from '../models/Notification';
+import { createLabel } from './labelService';
+import { addChecklistItem, updateChecklistItem } from './checklistService';
 import { User, IUser } from '../models/User';
 import { hashPassword } from '../utils/password';
-import { ValidationError, AuthorizationError, NotFoundError } from '../middleware/errors';
+import { parseTaskSort } from '../utils/taskSort';
+import { parseTaskQuery } from '../utils/taskQuery';
+import { ValidationError, AuthorizationError, NotFoundError, ConflictError } from '../middleware/errors';
 
 beforeAll(async () => {
   const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
   await mongoose.connect(mongoUri);
+  // Search filters need the text index
+  await Task.init();
 }, 30000);
 
 afterAll(async () => {
@@ -195,7 +211,8 @@ describe('Task Service Property Tests', () => {
     it('should return only tasks matching search filter', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.string({ minLength: 3, maxLength: 10 }).filter(s => /^[a-zA-Z]+$/.test(s)),
+          // Prefixed so the term is never a word text search ignores, such as "the"
+          fc.string({ minLength: 3, maxLength: 10 }).filter(s => /^[a-zA-Z]+$/.test(s)).map((s) => `zq${s}`),
           async (searchTerm) => {
             const user = await createTestUser();
             const userId = user._id.toString();
@@ -448,6 +465,26 @@ describe('Task Service Property Tests', () => {
         { numRuns: 50 }
       );
     }, 120000);
+
+    it('should reject assignees that do not refer to an existing user', async () => {
+      await fc.assert(
+        fc.asyncProperty(validTitleArb, async (title) => {
+          const user = await createTestUser();
+          const userId = user._id.toString();
+          const unknownId = new mongoose.Types.ObjectId().toString();
+
+          await expect(
+            createTask(userId, { title, assignedToId: unknownId })
+          ).rejects.toThrow(ValidationError);
+
+          const task = await createTask(userId, { title });
+          await expect(
+            updateTask(task._id.toString(), userId, { assignedToId: unknownId })
+          ).rejects.toThrow(ValidationError);
+        }),
+        { numRuns: 20 }
+      );
+    }, 120000);
   });
 
   // Feature: taskmgr-backend, Property 24: Task deletion removes from database
@@ -519,3 +556,400 @@ describe('Task Service Property Tests', () => {
     }, 120000);
   });
 });
+
+describe('Board ordering', () => {
+  it('should store the index of each task as its position', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const first = await createTask(userId, { title: 'First' });
+    const second = await createTask(userId, { title: 'Second' });
+    const third = await createTask(userId, { title: 'Third' });
+    const taskIds = [third, first, second].map((task) => task._id.toString());
+
+    const reordered = await reorderTasks(userId, taskIds);
+
+    expect(reordered.map((task) => task.id)).toEqual(taskIds);
+    expect(reordered.map((task) => task.position)).toEqual([0, 1, 2]);
+    expect((await Task.findById(second._id))?.position).toBe(2);
+  });
+
+  it('should reject duplicates, unknown tasks and tasks the user cannot update', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const task = await createTask(owner._id.toString(), { title: 'Mine' });
+    const taskId = task._id.toString();
+
+    await expect(reorderTasks(owner._id.toString(), [taskId, taskId])).rejects.toThrow(ValidationError);
+    await expect(
+      reorderTasks(owner._id.toString(), [taskId, new mongoose.Types.ObjectId().toString()])
+    ).rejects.toThrow(NotFoundError);
+    await expect(reorderTasks(other._id.toString(), [taskId])).rejects.toThrow(AuthorizationError);
+  });
+});
+
+describe('Bulk operations', () => {
+  it('should apply the operation to every task the user may change and report the others', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const ownerId = owner._id.toString();
+    const first = await createTask(ownerId, { title: 'First' });
+    const second = await createTask(ownerId, { title: 'Second' });
+    const foreign = await createTask(other._id.toString(), { title: 'Foreign' });
+    const missingId = new mongoose.Types.ObjectId().toString();
+    const taskIds = [first, foreign, second].map((task) => task._id.toString()).concat(missingId);
+
+    const results = await bulkUpdateTasks(ownerId, { taskIds, operation: 'SET_PRIORITY', value: 'URGENT' });
+
+    expect(results.map((result) => result.success)).toEqual([true, false, true, false]);
+    expect(results[1].error).toBe('You do not have access to update this task');
+    expect(results[3].error).toBe('Task not found');
+    expect((await Task.findById(second._id))?.priority).toBe('URGENT');
+    expect((await Task.findById(foreign._id))?.priority).toBe('MEDIUM');
+
+    const deleted = await bulkUpdateTasks(ownerId, { taskIds: taskIds.slice(0, 2), operation: 'DELETE' });
+
+    expect(deleted.map((result) => result.success)).toEqual([true, false]);
+    expect((await Task.findById(first._id))?.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('should send one notification per user for all their tasks', async () => {
+    const owner = await createTestUser();
+    const assignee = await createTestUser();
+    const ownerId = owner._id.toString();
+    const assigneeId = assignee._id.toString();
+    const tasks = await Promise.all(['One', 'Two', 'Three'].map((title) => createTask(ownerId, { title })));
+    const taskIds = tasks.map((task) => task._id.toString());
+
+    await bulkUpdateTasks(ownerId, { taskIds, operation: 'ASSIGN', value: assigneeId });
+    await bulkUpdateTasks(assigneeId, { taskIds, operation: 'SET_STATUS', value: 'IN_PROGRESS' });
+
+    const received = await Notification.find({ userId: assignee._id });
+    expect(received.map((notification) => notification.message)).toEqual(['Test User assigned you 3 tasks']);
+    const updates = await Notification.find({ userId: owner._id });
+    expect(updates.map((notification) => notification.message)).toEqual(['Test User changed the status of 3 tasks']);
+  });
+
+  it('should add and remove a label without touching the other labels', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const bug = await createLabel(userId, { name: 'Bug', color: '#ef4444' });
+    const ui = await createLabel(userId, { name: 'UI', color: '#3b82f6' });
+    const tagged = await createTask(userId, { title: 'Tagged', labels: [bug._id.toString()] });
+    const plain = await createTask(userId, { title: 'Plain' });
+    const taskIds = [tagged._id.toString(), plain._id.toString()];
+
+    await bulkUpdateTasks(userId, { taskIds, operation: 'ADD_LABEL', value: ui._id.toString() });
+    expect((await Task.findById(tagged._id))?.labels.map(String)).toEqual([bug.id, ui.id]);
+    expect((await Task.findById(plain._id))?.labels.map(String)).toEqual([ui.id]);
+
+    await bulkUpdateTasks(userId, { taskIds, operation: 'REMOVE_LABEL', value: bug._id.toString() });
+    expect((await Task.findById(tagged._id))?.labels.map(String)).toEqual([ui.id]);
+  });
+});
+
+describe('Trash', () => {
+  it('should hide a deleted task everywhere until it is restored', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Trashed' });
+    const taskId = task._id.toString();
+
+    await deleteTask(taskId, userId);
+
+    await expect(getTaskById(taskId, userId)).rejects.toThrow(NotFoundError);
+    await expect(updateTask(taskId, userId, { title: 'Edited' })).rejects.toThrow(NotFoundError);
+    expect((await getTasks(userId)).items).toHaveLength(0);
+    expect(await getAssignedTasks(userId)).toHaveLength(0);
+
+    const trash = await getTrashedTasks(userId);
+    expect(trash.items.map((item) => item.title)).toEqual(['Trashed']);
+    expect((trash.items[0].deletedBy as any).firstName).toBe('Test');
+
+    const restored = await restoreTask(taskId, userId);
+    expect(restored.deletedAt).toBeUndefined();
+    expect((await getTasks(userId)).items).toHaveLength(1);
+    expect((await getTrashedTasks(userId)).items).toHaveLength(0);
+  });
+
+  it('should only let the users who may delete a task see, restore and purge it', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const ownerId = owner._id.toString();
+    const otherId = other._id.toString();
+    const task = await createTask(ownerId, { title: 'Shared', assignedToId: otherId });
+    const taskId = task._id.toString();
+    await deleteTask(taskId, ownerId);
+
+    expect((await getTrashedTasks(otherId)).items).toHaveLength(0);
+    await expect(restoreTask(taskId, otherId)).rejects.toThrow(AuthorizationError);
+    await expect(purgeTask(taskId, otherId)).rejects.toThrow(AuthorizationError);
+
+    await purgeTask(taskId, ownerId);
+
+    expect(await Task.exists({ _id: task._id })).toBeNull();
+    await expect(restoreTask(taskId, ownerId)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should not purge a task that is not in the trash', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'In use' });
+
+    await expect(purgeTask(task._id.toString(), userId)).rejects.toThrow(NotFoundError);
+    expect(await Task.exists({ _id: task._id })).not.toBeNull();
+  });
+});
+
+describe('Archival', () => {
+  it('should leave archived tasks out of the default lists until unarchived', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Shipped', assignedToId: userId });
+    const taskId = task._id.toString();
+
+    await expect(archiveTask(taskId, userId)).rejects.toThrow(ValidationError);
+
+    const completed = await updateTask(taskId, userId, { status: 'COMPLETED' });
+    expect(completed.completedAt).toBeInstanceOf(Date);
+    await archiveTask(taskId, userId);
+
+    expect((await getTasks(userId)).items).toHaveLength(0);
+    expect(await getAssignedTasks(userId)).toHaveLength(0);
+    expect(await getCreatedTasks(userId)).toHaveLength(0);
+    expect((await getTasks(userId, { includeArchived: true })).items.map((item) => item.title)).toEqual(['Shipped']);
+    expect((await getTasks(userId, { archived: true })).items.map((item) => item.title)).toEqual(['Shipped']);
+
+    const unarchived = await unarchiveTask(taskId, userId);
+    expect(unarchived.archivedAt).toBeUndefined();
+    expect(unarchived.unarchivedAt).toBeInstanceOf(Date);
+    expect(await getAssignedTasks(userId)).toHaveLength(1);
+    expect((await getTasks(userId, { archived: true })).items).toHaveLength(0);
+  });
+
+  it('should clear the completion time when a task is reopened', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Reopened', status: 'COMPLETED' });
+    expect(task.completedAt).toBeInstanceOf(Date);
+
+    const reopened = await updateTask(task._id.toString(), userId, { status: 'IN_PROGRESS' });
+
+    expect(reopened.completedAt).toBeUndefined();
+  });
+
+  it('should bring an archived task back to the lists when it is reopened', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Reopened', status: 'COMPLETED', assignedToId: userId });
+    const taskId = task._id.toString();
+    await archiveTask(taskId, userId);
+
+    const reopened = await updateTask(taskId, userId, { status: 'IN_PROGRESS' });
+
+    expect(reopened.archivedAt).toBeUndefined();
+    expect(reopened.unarchivedAt).toBeInstanceOf(Date);
+    expect((await getTasks(userId)).items.map((item) => item.title)).toEqual(['Reopened']);
+    expect(await getAssignedTasks(userId)).toHaveLength(1);
+    expect(await getCreatedTasks(userId)).toHaveLength(1);
+    expect((await getTasks(userId, { archived: true })).items).toHaveLength(0);
+  });
+});
+
+describe('Concurrent edits', () => {
+  it('should refuse an edit based on an outdated version and return the current task', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Draft' });
+    const taskId = task._id.toString();
+    expect(task.toJSON().version).toBe(0);
+
+    const saved = await updateTask(taskId, userId, { title: 'First edit', expectedVersion: 0 });
+    expect(saved.toJSON().version).toBe(1);
+
+    const conflict = await updateTask(taskId, userId, { title: 'Second edit', expectedVersion: 0 }).catch((e) => e);
+    expect(conflict).toBeInstanceOf(ConflictError);
+    const current = (conflict as ConflictError).current as ITask;
+    expect(current.title).toBe('First edit');
+    expect(current.__v).toBe(1);
+    expect((await Task.findById(taskId))?.title).toBe('First edit');
+
+    // Edits without a version apply whatever the version
+    await expect(updateTask(taskId, userId, { title: 'Blind edit' })).resolves.toBeDefined();
+  });
+
+  it('should only change the version for edits of the task form', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const task = await createTask(userId, { title: 'Release' });
+    const other = await createTask(userId, { title: 'Changelog' });
+    const taskId = task._id.toString();
+
+    const withItem = await addChecklistItem(taskId, userId, { text: 'Tag the build' });
+    await updateChecklistItem(taskId, withItem.checklist[0]._id.toString(), userId, { done: true });
+    await reorderTasks(userId, [other._id.toString(), taskId]);
+    expect((await Task.findById(taskId))?.__v).toBe(0);
+
+    const saved = await updateTask(taskId, userId, { title: 'Release 2.0', expectedVersion: 0 });
+    expect(saved.toJSON().version).toBe(1);
+  });
+
+  it('should check access before revealing the current task', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const task = await createTask(owner._id.toString(), { title: 'Private' });
+
+    await expect(
+      updateTask(task._id.toString(), other._id.toString(), { title: 'Peek', expectedVersion: 5 })
+    ).rejects.toThrow(AuthorizationError);
+  });
+});
+
+describe('Sorting', () => {
+  it('should rank assigned tasks by urgency, then by due date with undated tasks last', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const create = (title: string, priority: CreateTaskData['priority'], dueDate?: Date) =>
+      createTask(userId, { title, priority, dueDate, assignedToId: userId });
+
+    await create('Low', 'LOW', new Date('2030-01-01'));
+    await create('Urgent undated', 'URGENT');
+    await create('Urgent later', 'URGENT', new Date('2030-02-01'));
+    await create('Urgent soon', 'URGENT', new Date('2030-01-01'));
+    await create('High', 'HIGH');
+
+    const tasks = await getAssignedTasks(userId);
+
+    expect(tasks.map((task) => task.title)).toEqual(['Urgent soon', 'Urgent later', 'Urgent undated', 'High', 'Low']);
+  });
+
+  it('should page through tasks in the requested order', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    for (const title of ['banana', 'Cherry', 'apple', 'Date']) {
+      await createTask(userId, { title });
+    }
+
+    const sort = parseTaskSort('title');
+    const first = await getTasks(userId, {}, { page: 1, limit: 3 }, sort);
+    const second = await getTasks(userId, {}, { page: 2, limit: 3 }, sort);
+
+    expect(first.items.map((task) => task.title)).toEqual(['apple', 'banana', 'Cherry']);
+    expect(second.items.map((task) => task.title)).toEqual(['Date']);
+    // Ranking fields stay on the server
+    expect(JSON.parse(JSON.stringify(first.items[0]))).not.toHaveProperty('_priorityRank');
+  });
+});
+
+describe('Cursor pagination', () => {
+  const titles = (tasks: { title: string }[]) => tasks.map((task) => task.title);
+
+  it('should page forward and back without shifting as tasks are created', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    for (const title of ['a', 'b', 'c', 'd', 'e']) {
+      await createTask(userId, { title });
+    }
+    const sort = parseTaskSort('title');
+
+    const first = await getTasks(userId, {}, { after: '', limit: 2 }, sort);
+    expect(titles(first.items)).toEqual(['a', 'b']);
+    expect(first.prevCursor).toBeNull();
+
+    // A task sorting before the page does not move the next one
+    await createTask(userId, { title: 'aa' });
+
+    const second = await getTasks(userId, {}, { after: first.nextCursor!, limit: 2 }, sort);
+    expect(titles(second.items)).toEqual(['c', 'd']);
+
+    const third = await getTasks(userId, {}, { after: second.nextCursor!, limit: 2 }, sort);
+    expect(titles(third.items)).toEqual(['e']);
+    expect(third.nextCursor).toBeNull();
+
+    const back = await getTasks(userId, {}, { before: second.prevCursor!, limit: 2 }, sort);
+    expect(titles(back.items)).toEqual(['aa', 'b']);
+    expect(back.prevCursor).not.toBeNull();
+  });
+
+  it('should visit every task once with computed sort fields and ties', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    const create = (title: string, priority: CreateTaskData['priority'], dueDate?: Date) =>
+      createTask(userId, { title, priority, dueDate, assignedToId: userId });
+    await create('Urgent soon', 'URGENT', new Date('2030-01-01'));
+    await create('Urgent tie', 'URGENT', new Date('2030-01-01'));
+    await create('Urgent undated', 'URGENT');
+    await create('High undated', 'HIGH');
+    await create('High undated too', 'HIGH');
+    await create('Low', 'LOW', new Date('2030-01-01'));
+
+    const expected = titles(await getAssignedTasks(userId));
+    const visited: string[] = [];
+    let after = '';
+    do {
+      const page = await getAssignedTasks(userId, undefined, { after, limit: 2 });
+      if (Array.isArray(page)) throw new Error('Expected a cursor page');
+      visited.push(...titles(page.items));
+      after = page.nextCursor ?? '';
+    } while (after);
+
+    expect(visited).toEqual(expected);
+  });
+
+  it('should reject cursors of another sort', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await createTask(userId, { title: 'a' });
+    await createTask(userId, { title: 'b' });
+
+    const page = await getTasks(userId, {}, { after: '', limit: 1 }, parseTaskSort('title'));
+
+    await expect(
+      getTasks(userId, {}, { after: page.nextCursor!, limit: 1 }, parseTaskSort('-createdAt'))
+    ).rejects.toThrow(ValidationError);
+    await expect(getTasks(userId, {}, { after: 'garbage', limit: 1 })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('Query filters', () => {
+  const titlesOf = async (userId: string, filters: Parameters<typeof getTasks>[1]) =>
+    (await getTasks(userId, filters, { page: 1, limit: 100 })).items.map((task) => task.title).sort();
+
+  it('should combine multi-value, due date and people filters', async () => {
+    const user = await createTestUser();
+    const other = await createTestUser();
+    const userId = user._id.toString();
+    const otherId = other._id.toString();
+
+    await createTask(userId, { title: 'Urgent soon', priority: 'URGENT', dueDate: new Date('2030-01-03'), assignedToId: userId });
+    await createTask(userId, { title: 'High later', priority: 'HIGH', dueDate: new Date('2030-02-01'), assignedToId: userId });
+    await createTask(userId, { title: 'Low undated', priority: 'LOW', assignedToId: otherId });
+    await createTask(userId, { title: 'Unassigned', priority: 'HIGH', status: 'REVIEW' });
+    await createTask(otherId, { title: 'Delegated', priority: 'MEDIUM', assignedToId: userId });
+
+    const now = new Date('2030-01-01T00:00:00.000Z');
+    const query = (q: string) => parseTaskQuery(q, { userId, now });
+
+    expect(await titlesOf(userId, { priority: ['HIGH', 'URGENT'] })).toEqual(['High later', 'Unassigned', 'Urgent soon']);
+    expect(await titlesOf(userId, { status: ['TODO', 'REVIEW'], priority: 'HIGH' })).toEqual(['High later', 'Unassigned']);
+    expect(await titlesOf(userId, query('priority:>=HIGH due:<7d'))).toEqual(['Urgent soon']);
+    expect(await titlesOf(userId, query('due:none'))).toEqual(['Delegated', 'Low undated', 'Unassigned']);
+    expect(await titlesOf(userId, query('assignee:none'))).toEqual(['Unassigned']);
+    expect(await titlesOf(userId, query('scope:assigned'))).toEqual(['Delegated', 'High later', 'Urgent soon']);
+    expect(await titlesOf(userId, query('scope:created assignee:me'))).toEqual(['High later', 'Urgent soon']);
+    expect(await titlesOf(userId, { creatorId: otherId })).toEqual(['Delegated']);
+  });
+
+  it('should search the words of titles and descriptions with the other filters', async () => {
+    const user = await createTestUser();
+    const userId = user._id.toString();
+    await createTask(userId, { title: 'Write migration', description: 'Move users to the new schema' });
+    await createTask(userId, { title: 'Deploy release', description: 'Once the migrations ran', priority: 'HIGH' });
+    await createTask(userId, { title: 'Fix login' });
+
+    expect(await titlesOf(userId, { search: 'migration' })).toEqual(['Deploy release', 'Write migration']);
+    expect(await titlesOf(userId, { search: 'migration', priority: 'HIGH' })).toEqual(['Deploy release']);
+    expect(await titlesOf(userId, parseTaskQuery('"new schema"'))).toEqual(['Write migration']);
+    // Never run as a pattern
+    expect(await titlesOf(userId, { search: '.*' })).toEqual([]);
+  });
+});
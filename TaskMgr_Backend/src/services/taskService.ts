@@ -1,17 +1,62 @@
 import { Task, ITask } from '../models/Task';
-import { ValidationError, AuthorizationError, NotFoundError } from '../middleware/errors';
-import mongoose from 'mongoose';
+import { Comment } from '../models/Comment';
+import { ITaskHistory } from '../models/TaskHistory';
+import { Workspace, IWorkspace } from '../models/Workspace';
+import { User } from '../models/User';
+import { ApiError, ValidationError, AuthorizationError, NotFoundError, ConflictError } from '../middleware/errors';
+import mongoose, { PipelineStage, PopulateOptions } from 'mongoose';
 import * as socketService from './socketService';
 import * as notificationService from './notificationService';
+import * as notificationPreferenceService from './notificationPreferenceService';
+import * as taskHistoryService from './taskHistoryService';
+import * as workspaceService from './workspaceService';
+import * as recurrenceService from './recurrenceService';
+import * as workflowService from './workflowService';
+import * as labelService from './labelService';
+import * as attachmentService from './attachmentService';
+import { config } from '../config/env';
+import { StatusCategory } from '../utils/workflow';
+import {
+  TaskSort,
+  DEFAULT_TASK_SORT,
+  SORT_COMPUTED_FIELDS,
+  buildSortFields,
+  buildSortStages,
+  formatTaskSort,
+} from '../utils/taskSort';
+import { TaskScope, UNASSIGNED } from '../utils/taskQuery';
+import { CursorPage, CursorParams, cursorQuery, encodeCursor, toCursorPage } from '../utils/cursor';
 
 export interface TaskFilters {
-  status?: string;
-  priority?: string;
+  // Status keys, tasks in any of them
+  status?: string | string[];
+  // Priorities, tasks with any of them
+  priority?: string | string[];
+  // Text searched literally in titles and descriptions
   search?: string;
   creatorId?: string;
+  // User ID, or UNASSIGNED for tasks without an assignee
   assignedToId?: string;
+  // Tasks assigned to, or created by, the user listing tasks
+  scope?: TaskScope;
+  // Due at or after this time
+  dueAfter?: Date;
+  // Due strictly before this time
+  dueBefore?: Date;
+  noDueDate?: boolean;
+  workspaceId?: string;
+  // Label IDs, matched by labelMatch
+  labels?: string[];
+  // 'any' matches tasks with one of the labels, 'all' tasks with every label
+  labelMatch?: LabelMatch;
+  // List archived tasks too, they are left out by default
+  includeArchived?: boolean;
+  // List archived tasks only
+  archived?: boolean;
 }
 
+export type LabelMatch = 'any' | 'all';
+
 export interface PaginationParams {
   page: number;
   limit: number;
@@ -25,13 +70,23 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+export interface TrashPage extends PaginatedResponse<ITask> {
+  // Days tasks stay in the trash before they are purged
+  retentionDays: number;
+}
+
 export interface CreateTaskData {
   title: string;
   description?: string;
   dueDate?: Date;
   priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  status?: 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED';
+  // Status of the workflow of the task, its first status when omitted
+  status?: string;
   assignedToId?: string;
+  workspaceId?: string;
+  // Recurrence rule, makes the task the first instance of a series
+  recurrence?: string;
+  labels?: string[];
 }
 
 export interface UpdateTaskData {
@@ -39,34 +94,552 @@ export interface UpdateTaskData {
   description?: string;
   dueDate?: Date;
   priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  status?: 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED';
-  assignedToId?: string;
+  status?: string;
+  assignedToId?: string | null;
+  // Replaces the labels of the task
+  labels?: string[];
+  // Start or complete the task even though some of its blockers are still open
+  overrideBlockers?: boolean;
+  // Recurrence rule, null stops the series. Changing it requires the 'future' scope
+  recurrence?: string | null;
+  // Whether the edit applies to this instance only or to all future instances of its series
+  scope?: EditScope;
+  // Version the edit is based on, the update is refused when the task was edited since
+  expectedVersion?: number;
+}
+
+export type EditScope = 'this' | 'future';
+
+export interface TaskAccessOptions {
+  // Platform admins bypass the creator, assignee and workspace role checks
+  asAdmin?: boolean;
+}
+
+/**
+ * Notifications and client events of task changes, collected so that a bulk
+ * operation sends them once for all its tasks
+ */
+export interface TaskChangeBatch {
+  updated: ITask[];
+  deleted: ITask[];
+  // Per user to notify, the tasks assigned to them and the other tasks changed for them
+  recipients: Map<string, { assigned: ITask[]; changed: ITask[] }>;
+}
+
+export interface TaskChangeOptions {
+  // Collect the notifications and client events instead of sending them
+  batch?: TaskChangeBatch;
+}
+
+export const BULK_TASK_OPERATIONS = [
+  'SET_STATUS',
+  'SET_PRIORITY',
+  'ASSIGN',
+  'SET_DUE_DATE',
+  'ADD_LABEL',
+  'REMOVE_LABEL',
+  'DELETE',
+] as const;
+
+export type BulkTaskOperation = (typeof BULK_TASK_OPERATIONS)[number];
+
+export interface BulkTaskData {
+  taskIds: string[];
+  operation: BulkTaskOperation;
+  // Status key, priority, assignee ID, due date or label ID. Null unassigns or clears the due date
+  value?: string | Date | null;
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  success: boolean;
+  // Why the operation failed for this task
+  error?: string;
+}
+
+/**
+ * Condition matching the tasks in use, leaving out trashed tasks
+ */
+export const NOT_DELETED = { deletedAt: null } as const;
+
+/**
+ * References populated whenever a task is returned to clients
+ */
+export const TASK_POPULATE: PopulateOptions[] = [
+  { path: 'creatorId', select: 'firstName lastName email' },
+  { path: 'assignedToId', select: 'firstName lastName email' },
+  { path: 'blockedBy', select: 'title status statusCategory', match: NOT_DELETED },
+  { path: 'labels', select: 'name color' },
+  { path: 'blockingCount' },
+  { path: 'seriesId', select: 'rule endedAt' },
+];
+
+// Order of the tasks assigned to a user, most urgent first
+const ASSIGNED_TASK_SORT: TaskSort = [
+  { field: 'priority', direction: -1 },
+  { field: 'dueDate', direction: 1 },
+];
+
+// Order of overdue tasks, longest overdue first
+const OVERDUE_TASK_SORT: TaskSort = [{ field: 'dueDate', direction: 1 }];
+
+// Largest number of tasks reordered at once, the size of a board column page
+export const MAX_REORDER_TASKS = 100;
+
+// Largest number of tasks changed by one bulk operation
+export const MAX_BULK_TASKS = 100;
+
+// Status categories a task cannot move to while one of its blockers is still open
+const BLOCKED_CATEGORIES: StatusCategory[] = ['ACTIVE', 'DONE'];
+
+export interface SortedTaskOptions {
+  skip?: number;
+  limit?: number;
+  // Status keys in workflow order, statuses sort by category without it
+  statusOrder?: string[];
+}
+
+/**
+ * Find tasks in the given order, populated for clients
+ * Priorities and statuses do not sort alphabetically, so the tasks are ranked
+ * by an aggregation. Its query is not cast: IDs must be ObjectIds
+ * @param query - Task query
+ * @param sort - Sort keys
+ * @param options - Page of tasks to return and workflow order of statuses
+ * @returns The tasks of the page
+ */
+export async function findSortedTasks(
+  query: Record<string, unknown>,
+  sort: TaskSort,
+  options: SortedTaskOptions = {}
+): Promise<ITask[]> {
+  const pipeline: PipelineStage[] = [{ $match: query }, ...buildSortStages(sort, options.statusOrder)];
+  if (options.skip) pipeline.push({ $skip: options.skip });
+  if (options.limit) pipeline.push({ $limit: options.limit });
+  pipeline.push({ $unset: SORT_COMPUTED_FIELDS });
+
+  // Titles sort without regard to case
+  const documents = await Task.aggregate(pipeline).collation({ locale: 'en' });
+  const tasks = documents.map((document) => Task.hydrate(document));
+  await Task.populate(tasks, TASK_POPULATE);
+
+  return tasks;
+}
+
+/**
+ * Find a page of tasks in the given order, from a cursor
+ * Unlike skip and limit, pages do not shift as tasks are created or deleted,
+ * and no count is needed. See findSortedTasks for the query
+ * @param query - Task query
+ * @param sort - Sort keys, cursors only apply to lists with the same sort
+ * @param cursor - Requested page
+ * @param statusOrder - Status keys in workflow order
+ * @returns The tasks of the page and the cursors of its neighbours
+ */
+export async function findTaskPage(
+  query: Record<string, unknown>,
+  sort: TaskSort,
+  cursor: CursorParams,
+  statusOrder?: string[]
+): Promise<CursorPage<ITask>> {
+  const { computed, order } = buildSortFields(sort, statusOrder);
+  const scope = formatTaskSort(sort);
+
+  let position: ReturnType<typeof cursorQuery>;
+  try {
+    position = cursorQuery(cursor, scope, order);
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+
+  const pipeline: PipelineStage[] = [{ $match: query }];
+  if (Object.keys(computed).length > 0) pipeline.push({ $addFields: computed });
+  pipeline.push({ $match: position.query }, { $sort: position.sort }, { $limit: cursor.limit + 1 });
+
+  const documents = await Task.aggregate(pipeline).collation({ locale: 'en' });
+  // Cursors hold the computed fields, which are removed afterwards
+  const page = toCursorPage(documents, cursor, (document) => encodeCursor(scope, order, document));
+  const tasks = page.items.map((document) => {
+    SORT_COMPUTED_FIELDS.forEach((field) => delete document[field]);
+    return Task.hydrate(document);
+  });
+  await Task.populate(tasks, TASK_POPULATE);
+
+  return { ...page, items: tasks };
+}
+
+/**
+ * Status keys of a workspace in workflow order, when a sort needs them
+ */
+async function statusOrderFor(sort: TaskSort, workspaceId?: string): Promise<string[] | undefined> {
+  if (!workspaceId || !sort.some((key) => key.field === 'status')) {
+    return undefined;
+  }
+  const workflow = await workflowService.getWorkflowForWorkspace(workspaceId);
+  return workflow.statuses.map((status) => status.key);
+}
+
+const toList = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Query conditions matching task filters, other than the workspace
+ * @param filters - Task filters
+ * @param userId - ID of the user listing tasks, the reference of the scope
+ * @returns Conditions every task must match
+ */
+export function filterConditions(filters: TaskFilters, userId?: string): Record<string, unknown>[] {
+  const {
+    status,
+    priority,
+    search,
+    creatorId,
+    assignedToId,
+    scope,
+    dueAfter,
+    dueBefore,
+    noDueDate,
+    labels,
+    labelMatch = 'any',
+  } = filters;
+  const conditions: Record<string, unknown>[] = [];
+
+  if (status !== undefined) conditions.push({ status: { $in: toList(status) } });
+  if (priority !== undefined) conditions.push({ priority: { $in: toList(priority) } });
+
+  if (creatorId) conditions.push({ creatorId: new mongoose.Types.ObjectId(creatorId) });
+  if (assignedToId) {
+    conditions.push({
+      assignedToId: assignedToId === UNASSIGNED ? null : new mongoose.Types.ObjectId(assignedToId),
+    });
+  }
+  if (scope && userId) {
+    const field = scope === 'assigned' ? 'assignedToId' : 'creatorId';
+    conditions.push({ [field]: new mongoose.Types.ObjectId(userId) });
+  }
+
+  if (noDueDate) conditions.push({ dueDate: null });
+  if (dueAfter || dueBefore) {
+    conditions.push({
+      dueDate: { ...(dueAfter && { $gte: dueAfter }), ...(dueBefore && { $lt: dueBefore }) },
+    });
+  }
+
+  if (labels && labels.length > 0) {
+    const labelIds = labels.map((labelId) => new mongoose.Types.ObjectId(labelId));
+    conditions.push({ labels: labelMatch === 'all' ? { $all: labelIds } : { $in: labelIds } });
+  }
+
+  if (search) {
+    // Served by the text index of titles and descriptions, unlike a pattern
+    // which would scan every task. Aggregations accept it in their first $match
+    conditions.push({ $text: { $search: search } });
+  }
+
+  return conditions;
+}
+
+/**
+ * Query restricting tasks to personal tasks and tasks of workspaces the user
+ * still belongs to. Creators and assignees lose access to the tasks of a
+ * workspace they left
+ */
+async function workspaceScope(userId: string): Promise<Record<string, unknown>> {
+  const workspaceIds = await workspaceService.getUserWorkspaceIds(userId);
+  return { workspaceId: { $in: [null, ...workspaceIds] } };
+}
+
+/**
+ * Query matching every task a user may read: the personal tasks they created
+ * or are assigned to, and the tasks of their workspaces
+ */
+export async function readableTasksQuery(userId: string): Promise<Record<string, unknown>> {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const workspaceIds = await workspaceService.getUserWorkspaceIds(userId);
+
+  return {
+    $or: [
+      { workspaceId: { $in: workspaceIds } },
+      { workspaceId: null, $or: [{ creatorId: userObjectId }, { assignedToId: userObjectId }] },
+    ],
+  };
+}
+
+function refersTo(value: any, userObjectId: mongoose.Types.ObjectId): boolean {
+  return !!value && (value._id ?? value).equals(userObjectId);
+}
+
+/**
+ * Check that a user may read a task
+ * Workspace tasks are readable by every workspace member, personal tasks
+ * only by their creator and assignee
+ */
+async function assertCanRead(task: ITask, userId: string): Promise<void> {
+  if (task.workspaceId) {
+    await workspaceService.requireMembership(task.workspaceId.toString(), userId);
+    return;
+  }
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  if (!refersTo(task.creatorId, userObjectId) && !refersTo(task.assignedToId, userObjectId)) {
+    throw new AuthorizationError('You do not have access to this task');
+  }
+}
+
+/**
+ * Keep the users who may read a task
+ * @param userIds Candidate user IDs
+ * @returns The IDs among them with read access, in the same order
+ */
+export async function filterReaders(task: ITask, userIds: string[]): Promise<string[]> {
+  const readable: string[] = [];
+
+  for (const userId of userIds) {
+    try {
+      await assertCanRead(task, userId);
+      readable.push(userId);
+    } catch (error) {
+      // Users who left the workspace are not told about its tasks
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+    }
+  }
+
+  return readable;
+}
+
+/**
+ * IDs of the users watching a task who may still read it
+ */
+async function readableWatcherIds(task: ITask): Promise<string[]> {
+  return filterReaders(task, await notificationPreferenceService.getTaskWatcherIds(task._id));
+}
+
+/**
+ * Check that a user may update a task
+ * Workspace admins may update any task of the workspace, members the tasks
+ * they created or are assigned to, viewers none
+ */
+async function assertCanUpdate(task: ITask, userId: string): Promise<void> {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const isCreator = refersTo(task.creatorId, userObjectId);
+  const isAssignee = refersTo(task.assignedToId, userObjectId);
+
+  if (task.workspaceId) {
+    const { role } = await workspaceService.requireMembership(
+      task.workspaceId.toString(),
+      userId,
+      workspaceService.WRITE_ROLES
+    );
+    if (workspaceService.MANAGE_ROLES.includes(role) || isCreator || isAssignee) {
+      return;
+    }
+  } else if (isCreator || isAssignee) {
+    return;
+  }
+
+  throw new AuthorizationError('You do not have access to update this task');
+}
+
+/**
+ * Check that a user may delete a task
+ * Workspace admins may delete any task of the workspace, other members only
+ * the tasks they created
+ */
+async function assertCanDelete(task: ITask, userId: string): Promise<void> {
+  const isCreator = refersTo(task.creatorId, new mongoose.Types.ObjectId(userId));
+
+  if (task.workspaceId) {
+    const { role } = await workspaceService.requireMembership(
+      task.workspaceId.toString(),
+      userId,
+      workspaceService.WRITE_ROLES
+    );
+    if (workspaceService.MANAGE_ROLES.includes(role) || isCreator) {
+      return;
+    }
+  } else if (isCreator) {
+    return;
+  }
+
+  throw new AuthorizationError('Only the task creator can delete this task');
+}
+
+/**
+ * Check that an assignee refers to an existing, active user
+ */
+async function assertAssigneeExists(assignedToId: string): Promise<void> {
+  const assignee = mongoose.Types.ObjectId.isValid(assignedToId)
+    ? await User.findById(assignedToId).select('isActive')
+    : null;
+
+  if (!assignee) {
+    throw new ValidationError('Assigned user does not exist');
+  }
+
+  if (!assignee.isActive) {
+    throw new ValidationError('Tasks cannot be assigned to a deactivated user');
+  }
+}
+
+/**
+ * Check that the assignee of a workspace task can work on it
+ */
+function assertAssignableMember(workspace: IWorkspace, assignedToId: string): void {
+  const role = workspaceService.getMemberRole(workspace, assignedToId);
+  if (!role || !workspaceService.WRITE_ROLES.includes(role)) {
+    throw new ValidationError('Tasks can only be assigned to workspace members who can edit tasks');
+  }
+}
+
+/**
+ * Check that a user can be given work on a task: an active user, and a
+ * member who can edit tasks for workspace tasks
+ * @param task Task the work belongs to
+ * @param assigneeId ID of the user to assign
+ */
+export async function assertValidAssignee(task: ITask, assigneeId: string): Promise<void> {
+  await assertAssigneeExists(assigneeId);
+
+  if (task.workspaceId) {
+    const workspace = await Workspace.findById(task.workspaceId);
+    if (!workspace) {
+      throw new NotFoundError('Workspace not found');
+    }
+    assertAssignableMember(workspace, assigneeId);
+  }
+}
+
+/**
+ * Load a task and check that the user may update it
+ * @param taskId Task ID
+ * @param userId User ID
+ * @returns The task, with unpopulated references
+ */
+export async function getTaskForUpdate(taskId: string, userId: string): Promise<ITask> {
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    throw new NotFoundError('Task not found');
+  }
+
+  const task = await Task.findOne({ _id: taskId, ...NOT_DELETED });
+
+  if (!task) {
+    throw new NotFoundError('Task not found');
+  }
+
+  await assertCanUpdate(task, userId);
+
+  return task;
+}
+
+function countOpenBlockers(task: ITask): Promise<number> {
+  if (task.blockedBy.length === 0) {
+    return Promise.resolve(0);
+  }
+  return Task.countDocuments({
+    _id: { $in: task.blockedBy.map((blocker: any) => blocker._id ?? blocker) },
+    statusCategory: { $ne: 'DONE' },
+    ...NOT_DELETED,
+  });
+}
+
+/**
+ * Tell the assignees of the open tasks a completed task was blocking, and
+ * refresh those tasks for clients since their blocked badge changed
+ */
+async function notifyUnblockedTasks(blocker: ITask, userId: string, updaterName: string): Promise<void> {
+  const dependents = await Task.find({
+    blockedBy: blocker._id,
+    statusCategory: { $ne: 'DONE' },
+    ...NOT_DELETED,
+  }).populate(TASK_POPULATE);
+
+  for (const dependent of dependents) {
+    socketService.emitTaskUpdated(dependent);
+
+    const assigneeId = dependent.assignedToId?._id.toString();
+    if (!assigneeId || assigneeId === userId) {
+      continue;
+    }
+
+    const openBlockers = await countOpenBlockers(dependent);
+    const status =
+      openBlockers === 0
+        ? 'it is no longer blocked'
+        : `it is still blocked by ${openBlockers} task${openBlockers === 1 ? '' : 's'}`;
+
+    await notificationService.createNotification({
+      userId: assigneeId,
+      type: 'TASK_UNBLOCKED',
+      title: openBlockers === 0 ? 'Task Unblocked' : 'Blocker Completed',
+      message: `${updaterName} completed "${blocker.title}", which was blocking "${dependent.title}": ${status}`,
+      resourceId: dependent._id.toString(),
+      resourceType: 'TASK',
+    });
+  }
 }
 
 export async function createTask(userId: string, data: CreateTaskData): Promise<ITask> {
-  const { title, description, dueDate, priority, status, assignedToId } = data;
+  const { title, description, dueDate, priority, status, assignedToId, workspaceId, recurrence, labels } = data;
 
   if (!title || title.trim().length === 0) {
     throw new ValidationError('Title is required');
   }
 
+  if (recurrence) {
+    recurrenceService.normalizeRule(recurrence, dueDate);
+  }
+
+  if (assignedToId) {
+    await assertAssigneeExists(assignedToId);
+  }
+
+  if (workspaceId) {
+    const { workspace } = await workspaceService.requireMembership(
+      workspaceId,
+      userId,
+      workspaceService.WRITE_ROLES
+    );
+    if (assignedToId) {
+      assertAssignableMember(workspace, assignedToId);
+    }
+  }
+
+  const workflow = await workflowService.getWorkflowForWorkspace(workspaceId);
+  const initialStatus =
+    status !== undefined ? workflowService.resolveStatus(workflow, status) : workflow.statuses[0];
+
   const taskData: any = {
     title: title.trim(),
+    status: initialStatus.key,
+    statusCategory: initialStatus.category,
     creatorId: new mongoose.Types.ObjectId(userId),
   };
+  if (initialStatus.category === 'DONE') taskData.completedAt = new Date();
 
     if (description !== undefined) taskData.description = description;
   if (dueDate !== undefined) taskData.dueDate = dueDate;
   if (priority !== undefined) taskData.priority = priority;
-  if (status !== undefined) taskData.status = status;
-  if (assignedToId !== undefined) {
+  if (assignedToId) {
     taskData.assignedToId = new mongoose.Types.ObjectId(assignedToId);
   }
+  if (workspaceId) {
+    taskData.workspaceId = new mongoose.Types.ObjectId(workspaceId);
+  }
+  if (labels) {
+    taskData.labels = await labelService.resolveLabels(labels, workspaceId, userId);
+  }
 
     const task = await Task.create(taskData);
 
-  await task.populate('creatorId', 'firstName lastName email');
-  await task.populate('assignedToId', 'firstName lastName email');
+  if (recurrence) {
+    await recurrenceService.startSeries(task, recurrence);
+    await task.save();
+  }
+
+  await taskHistoryService.recordTaskCreated(task, userId);
+
+  await task.populate(TASK_POPULATE);
 
   if (assignedToId && assignedToId !== userId) {
     const creator = task.creatorId as any;
@@ -87,43 +660,76 @@ export async function createTask(userId: string, data: CreateTaskData): Promise<
   return task;
 }
 
+/**
+ * Get the tasks of a workspace, or the tasks a user created or is assigned to
+ * Archived tasks are left out unless the filters ask for them.
+ * Pages are requested by number, with a total count, or by cursor
+ */
+export async function getTasks(
+  userId: string,
+  filters?: TaskFilters,
+  pagination?: PaginationParams,
+  sort?: TaskSort
+): Promise<PaginatedResponse<ITask>>;
+export async function getTasks(
+  userId: string,
+  filters: TaskFilters,
+  pagination: CursorParams,
+  sort?: TaskSort
+): Promise<CursorPage<ITask>>;
+export async function getTasks(
+  userId: string,
+  filters: TaskFilters,
+  pagination: PaginationParams | CursorParams,
+  sort?: TaskSort
+): Promise<PaginatedResponse<ITask> | CursorPage<ITask>>;
 export async function getTasks(
   userId: string,
   filters: TaskFilters = {},
-  pagination: PaginationParams = { page: 1, limit: 10 }
-): Promise<PaginatedResponse<ITask>> {
-  const { status, priority, search } = filters;
-  const { page, limit } = pagination;
+  pagination: PaginationParams | CursorParams = { page: 1, limit: 10 },
+  sort: TaskSort = DEFAULT_TASK_SORT
+): Promise<PaginatedResponse<ITask> | CursorPage<ITask>> {
+  const { workspaceId } = filters;
 
-  const query: any = {
-    $or: [
-      { creatorId: new mongoose.Types.ObjectId(userId) },
-      { assignedToId: new mongoose.Types.ObjectId(userId) },
-    ],
-  };
-
-  if (status) query.status = status;
-  if (priority) query.priority = priority;
+  let query: any;
 
-  if (search) {
-    query.$and = query.$and || [];
-    query.$and.push({
+  if (workspaceId) {
+    // Every member sees all the tasks of the workspace
+    await workspaceService.requireMembership(workspaceId, userId);
+    query = { workspaceId: new mongoose.Types.ObjectId(workspaceId), ...NOT_DELETED };
+  } else {
+    query = {
       $or: [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
+        { creatorId: new mongoose.Types.ObjectId(userId) },
+        { assignedToId: new mongoose.Types.ObjectId(userId) },
       ],
-    });
+      ...(await workspaceScope(userId)),
+      ...NOT_DELETED,
+    };
+  }
+
+  if (filters.archived) {
+    query.archivedAt = { $ne: null };
+  } else if (!filters.includeArchived) {
+    query.archivedAt = null;
+  }
+
+  const conditions = filterConditions(filters, userId);
+  if (conditions.length > 0) {
+    query.$and = conditions;
+  }
+
+  const statusOrder = await statusOrderFor(sort, workspaceId);
+
+  if (!('page' in pagination)) {
+    return findTaskPage(query, sort, pagination, statusOrder);
   }
 
+  const { page, limit } = pagination;
   const skip = (page - 1) * limit;
 
   const [items, total] = await Promise.all([
-    Task.find(query)
-      .skip(skip)
-      .limit(limit)
-      .populate('creatorId', 'firstName lastName email')
-      .populate('assignedToId', 'firstName lastName email')
-      .sort({ createdAt: -1 }),
+    findSortedTasks(query, sort, { skip, limit, statusOrder }),
     Task.countDocuments(query),
   ]);
 
@@ -136,60 +742,70 @@ export async function getTasks(
   };
 }
 
-export async function getTaskById(taskId: string, userId: string): Promise<ITask> {
+export async function getTaskById(
+  taskId: string,
+  userId: string,
+  options: TaskAccessOptions = {}
+): Promise<ITask> {
   if (!mongoose.Types.ObjectId.isValid(taskId)) {
     throw new NotFoundError('Task not found');
   }
 
-  const task = await Task.findById(taskId)
-    .populate('creatorId', 'firstName lastName email')
-    .populate('assignedToId', 'firstName lastName email');
+  const task = await Task.findOne({ _id: taskId, ...NOT_DELETED })
+    .populate(TASK_POPULATE);
 
   if (!task) {
     throw new NotFoundError('Task not found');
   }
 
-  const userObjectId = new mongoose.Types.ObjectId(userId);
-  const isCreator = task.creatorId._id.equals(userObjectId);
-  const isAssignee = task.assignedToId && task.assignedToId._id.equals(userObjectId);
-
-  if (!isCreator && !isAssignee) {
-    throw new AuthorizationError('You do not have access to this task');
+  if (!options.asAdmin) {
+    await assertCanRead(task, userId);
   }
 
   return task;
 }
 
+export async function getTaskHistory(taskId: string, userId: string): Promise<ITaskHistory[]> {
+  await getTaskById(taskId, userId);
+
+  return taskHistoryService.getHistoryForTask(taskId);
+}
+
+/**
+ * Error refusing an edit based on an outdated version of a task
+ * @returns A ConflictError carrying the current task
+ */
+async function conflictWith(taskId: string): Promise<ConflictError> {
+  const current = await Task.findById(taskId).populate(TASK_POPULATE);
+  return new ConflictError('This task was changed by someone else since you opened it', current);
+}
+
 export async function updateTask(
   taskId: string,
   userId: string,
-  data: UpdateTaskData
+  data: UpdateTaskData,
+  options: TaskAccessOptions & TaskChangeOptions = {}
 ): Promise<ITask> {
   if (!mongoose.Types.ObjectId.isValid(taskId)) {
     throw new NotFoundError('Task not found');
   }
 
-  const task = await Task.findById(taskId);
+  const task = await Task.findOne({ _id: taskId, ...NOT_DELETED });
 
   if (!task) {
     throw new NotFoundError('Task not found');
   }
 
-  const userObjectId = new mongoose.Types.ObjectId(userId);
-  const isCreator = task.creatorId.equals(userObjectId);
-  const isAssignee = task.assignedToId && task.assignedToId.equals(userObjectId);
+  if (!options.asAdmin) {
+    await assertCanUpdate(task, userId);
+  }
 
-  if (!isCreator && !isAssignee) {
-    throw new AuthorizationError('You do not have access to update this task');
+  if (data.expectedVersion !== undefined && task.__v !== data.expectedVersion) {
+    throw await conflictWith(taskId);
   }
 
-  const validStatuses = ['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED'];
   const validPriorities = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
 
-  if (data.status && !validStatuses.includes(data.status)) {
-    throw new ValidationError('Invalid status value');
-  }
-
   if (data.priority && !validPriorities.includes(data.priority)) {
     throw new ValidationError('Invalid priority value');
   }
@@ -198,133 +814,683 @@ export async function updateTask(
   const newAssignedToId = data.assignedToId;
   const assignmentChanged = data.assignedToId !== undefined && oldAssignedToId !== newAssignedToId;
 
+  // Access was checked above, the updater need not be a member when acting as admin
+  if (assignmentChanged && newAssignedToId) {
+    await assertValidAssignee(task, newAssignedToId);
+  }
+
+  if (data.recurrence !== undefined && task.seriesId && data.scope !== 'future') {
+    throw new ValidationError('The recurrence can only be changed for all future tasks of the series');
+  }
+
+  if (data.recurrence) {
+    recurrenceService.normalizeRule(data.recurrence, data.dueDate ?? task.dueDate);
+  }
+
+  const workflow = await workflowService.getWorkflowForWorkspace(task.workspaceId);
+  const newStatus = data.status !== undefined ? workflowService.resolveStatus(workflow, data.status) : undefined;
+  const statusChanged = newStatus !== undefined && newStatus.key !== task.status;
+
+  if (statusChanged && !options.asAdmin) {
+    await workflowService.assertTransition(task, workflow, newStatus.key, userId);
+  }
+
+  if (statusChanged && BLOCKED_CATEGORIES.includes(newStatus.category) && !data.overrideBlockers) {
+    const openBlockers = await countOpenBlockers(task);
+    if (openBlockers > 0) {
+      throw new ValidationError(
+        `This task is blocked by ${openBlockers} open task${openBlockers === 1 ? '' : 's'}`
+      );
+    }
+  }
+
+  const labels =
+    data.labels !== undefined
+      ? await labelService.resolveLabels(data.labels, task.workspaceId, userId, task.labels)
+      : undefined;
+
+  const before = taskHistoryService.snapshotTask(task);
+  const wasDone = task.statusCategory === 'DONE';
+
   if (data.title !== undefined) task.title = data.title.trim();
   if (data.description !== undefined) task.description = data.description;
   if (data.dueDate !== undefined) task.dueDate = data.dueDate;
   if (data.priority !== undefined) task.priority = data.priority;
-  if (data.status !== undefined) task.status = data.status;
+  if (newStatus) {
+    task.status = newStatus.key;
+    task.statusCategory = newStatus.category;
+    if (newStatus.category !== 'DONE') {
+      task.completedAt = undefined;
+      // Only completed tasks stay archived, a reopened one is back in the lists
+      if (task.archivedAt) {
+        task.archivedAt = undefined;
+        task.unarchivedAt = new Date();
+      }
+    } else if (!wasDone) {
+      task.completedAt = new Date();
+    }
+  }
   if (data.assignedToId !== undefined) {
     task.assignedToId = data.assignedToId
       ? new mongoose.Types.ObjectId(data.assignedToId)
       : undefined;
   }
+  if (labels) task.labels = labels;
+  // The save fails when another edit changed the version since the task was loaded
+  task.increment();
 
-  await task.save();
+  try {
+    await task.save();
+  } catch (error) {
+    // Saved by another request since it was loaded
+    if (error instanceof mongoose.Error.VersionError) {
+      throw await conflictWith(taskId);
+    }
+    throw error;
+  }
 
-  await task.populate('creatorId', 'firstName lastName email');
-  await task.populate('assignedToId', 'firstName lastName email');
+  const completed = !wasDone && task.statusCategory === 'DONE';
+  const changes = taskHistoryService.diffSnapshots(before, taskHistoryService.snapshotTask(task));
+  await taskHistoryService.recordTaskChanges(taskId, userId, changes);
 
-  const updater = await mongoose.model('User').findById(userId).select('firstName lastName');
-  const updaterName = updater ? `${updater.firstName} ${updater.lastName}` : 'Someone';
+  if (data.scope === 'future' || (data.recurrence && !task.seriesId)) {
+    const { title, description, priority, assignedToId, dueDate, recurrence } = data;
+    await recurrenceService.updateFutureInstances(task, userId, {
+      title,
+      description,
+      priority,
+      assignedToId,
+      dueDate,
+      recurrence,
+    }, options);
+  }
 
-  if (assignmentChanged && newAssignedToId && newAssignedToId !== userId) {
-    await notificationService.createNotification({
-      userId: newAssignedToId,
-      type: 'TASK_ASSIGNED',
-      title: 'Task Assigned to You',
-      message: `${updaterName} assigned you a task: "${task.title}"`,
-      resourceId: task._id.toString(),
-      resourceType: 'TASK',
-    });
+  if (completed) {
+    await recurrenceService.handleInstanceCompleted(task);
   }
 
+  await task.populate(TASK_POPULATE);
+
+  const updater = await mongoose.model('User').findById(userId).select('firstName lastName');
+  const updaterName = updater ? `${updater.firstName} ${updater.lastName}` : 'Someone';
+
+  const notifyAssignee = assignmentChanged && newAssignedToId && newAssignedToId !== userId;
   const notifyUserIds = new Set<string>();
-  
+  const changedFields = changes.map((change) => taskHistoryService.FIELD_LABELS[change.field]);
+
   const creatorId = task.creatorId._id.toString();
-  if (creatorId !== userId) {
+  // Nothing to report when the update did not change any field
+  if (changedFields.length > 0 && creatorId !== userId) {
     notifyUserIds.add(creatorId);
   }
 
-  if (task.assignedToId && task.assignedToId._id.toString() !== userId) {
+  if (changedFields.length > 0 && task.assignedToId && task.assignedToId._id.toString() !== userId) {
     notifyUserIds.add(task.assignedToId._id.toString());
   }
 
-  for (const notifyUserId of notifyUserIds) {
-    await notificationService.createNotification({
-      userId: notifyUserId,
-      type: 'TASK_UPDATED',
-      title: 'Task Updated',
-      message: `${updaterName} updated the task: "${task.title}"`,
-      resourceId: task._id.toString(),
-      resourceType: 'TASK',
-    });
+  if (changedFields.length > 0) {
+    for (const watcherId of await readableWatcherIds(task)) {
+      if (watcherId !== userId) {
+        notifyUserIds.add(watcherId);
+      }
+    }
   }
 
-  socketService.emitTaskUpdated(task);
+  if (options.batch) {
+    const { batch } = options;
+    batch.updated.push(task);
+    if (notifyAssignee) {
+      batchRecipient(batch, newAssignedToId).assigned.push(task);
+      notifyUserIds.delete(newAssignedToId);
+    }
+    notifyUserIds.forEach((notifyUserId) => batchRecipient(batch, notifyUserId).changed.push(task));
+  } else {
+    if (notifyAssignee) {
+      await notificationService.createNotification({
+        userId: newAssignedToId,
+        type: 'TASK_ASSIGNED',
+        title: 'Task Assigned to You',
+        message: `${updaterName} assigned you a task: "${task.title}"`,
+        resourceId: task._id.toString(),
+        resourceType: 'TASK',
+      });
+    }
+
+    for (const notifyUserId of notifyUserIds) {
+      await notificationService.createNotification({
+        userId: notifyUserId,
+        type: 'TASK_UPDATED',
+        title: 'Task Updated',
+        message: `${updaterName} changed the ${changedFields.join(', ')} of "${task.title}"`,
+        resourceId: task._id.toString(),
+        resourceType: 'TASK',
+      });
+    }
+
+    socketService.emitTaskUpdated(task);
+  }
+
+  if (completed) {
+    await notifyUnblockedTasks(task, userId, updaterName);
+  }
 
   return task;
 }
 
+/**
+ * Move a task to the trash
+ * Trashed tasks keep their comments, attachments and dependencies until they
+ * are purged, so restoring one brings it back as it was
+ */
 export async function deleteTask(
   taskId: string,
-  userId: string
+  userId: string,
+  options: TaskChangeOptions = {}
 ): Promise<{ message: string }> {
   if (!mongoose.Types.ObjectId.isValid(taskId)) {
     throw new NotFoundError('Task not found');
   }
 
-  const task = await Task.findById(taskId);
+  const task = await Task.findOne({ _id: taskId, ...NOT_DELETED });
 
   if (!task) {
     throw new NotFoundError('Task not found');
   }
 
+  await assertCanDelete(task, userId);
+
+  task.deletedAt = new Date();
+  task.deletedBy = new mongoose.Types.ObjectId(userId);
+  await task.save();
+  await taskHistoryService.recordTaskDeleted(taskId, userId);
+  await recurrenceService.handleInstanceTrashed(task);
+
+  if (options.batch) {
+    options.batch.deleted.push(task);
+  } else {
+    socketService.emitTaskDeleted(task);
+  }
+
+  return {
+    message: 'Task moved to the trash',
+  };
+}
+
+/**
+ * Query matching the tasks a user may delete, and so restore or purge: the
+ * personal tasks they created, every task of the workspaces they manage and
+ * the tasks they created in the other workspaces they can edit
+ */
+async function deletableTasksQuery(userId: string, workspaceId?: string): Promise<Record<string, unknown>> {
   const userObjectId = new mongoose.Types.ObjectId(userId);
-  const isCreator = task.creatorId.equals(userObjectId);
 
-  if (!isCreator) {
-    throw new AuthorizationError('Only the task creator can delete this task');
+  if (workspaceId) {
+    const { role } = await workspaceService.requireMembership(workspaceId, userId, workspaceService.WRITE_ROLES);
+    return {
+      workspaceId: new mongoose.Types.ObjectId(workspaceId),
+      ...(!workspaceService.MANAGE_ROLES.includes(role) && { creatorId: userObjectId }),
+    };
   }
 
-  await Task.findByIdAndDelete(taskId);
+  const [managedIds, writableIds] = await Promise.all([
+    workspaceService.getUserWorkspaceIds(userId, workspaceService.MANAGE_ROLES),
+    workspaceService.getUserWorkspaceIds(userId, workspaceService.WRITE_ROLES),
+  ]);
 
-  socketService.emitTaskDeleted(taskId);
+  return {
+    $or: [
+      { workspaceId: { $in: managedIds } },
+      { workspaceId: { $in: [null, ...writableIds] }, creatorId: userObjectId },
+    ],
+  };
+}
+
+/**
+ * Get the trashed tasks a user may restore, most recently trashed first
+ * @param userId User ID
+ * @param workspaceId Only the tasks of this workspace, every task otherwise
+ * @param pagination Page of tasks
+ */
+export async function getTrashedTasks(
+  userId: string,
+  workspaceId?: string,
+  pagination: PaginationParams = { page: 1, limit: 20 }
+): Promise<TrashPage> {
+  const query = { ...(await deletableTasksQuery(userId, workspaceId)), deletedAt: { $ne: null } };
+  const { page, limit } = pagination;
+
+  const [items, total] = await Promise.all([
+    Task.find(query)
+      .sort({ deletedAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate([...TASK_POPULATE, { path: 'deletedBy', select: 'firstName lastName email' }]),
+    Task.countDocuments(query),
+  ]);
 
   return {
-    message: 'Task deleted successfully',
+    items,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+    retentionDays: config.trashRetentionDays,
   };
 }
 
-export async function getAssignedTasks(userId: string): Promise<ITask[]> {
-  const userObjectId = new mongoose.Types.ObjectId(userId);
+/**
+ * Load a trashed task and check that the user may delete it
+ */
+async function getTrashedTask(taskId: string, userId: string): Promise<ITask> {
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    throw new NotFoundError('Task not found in the trash');
+  }
+
+  const task = await Task.findOne({ _id: taskId, deletedAt: { $ne: null } });
+
+  if (!task) {
+    throw new NotFoundError('Task not found in the trash');
+  }
+
+  await assertCanDelete(task, userId);
+
+  return task;
+}
+
+/**
+ * Restore a task from the trash
+ * Requires the same access as deleting it
+ * @param taskId Task ID
+ * @param userId User ID
+ * @returns The restored task, populated for clients
+ */
+export async function restoreTask(taskId: string, userId: string): Promise<ITask> {
+  const task = await getTrashedTask(taskId, userId);
+
+  task.deletedAt = undefined;
+  task.deletedBy = undefined;
+  await task.save();
+  await taskHistoryService.recordTaskRestored(taskId, userId);
+  await recurrenceService.handleInstanceRestored(task);
+
+  await task.populate(TASK_POPULATE);
+  socketService.emitTaskCreated(task);
+
+  return task;
+}
+
+/**
+ * Delete a task for good, with its comments and attachment files
+ * Its history is kept as an audit trail
+ * @param task Task to delete
+ */
+export async function destroyTask(task: ITask): Promise<void> {
+  await Task.deleteOne({ _id: task._id });
+  await Comment.deleteMany({ taskId: task._id });
+  // A purged task no longer blocks anything
+  await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } });
+  await User.updateMany(
+    { $or: [{ 'preferences.mutedTaskIds': task._id }, { 'preferences.watchedTaskIds': task._id }] },
+    { $pull: { 'preferences.mutedTaskIds': task._id, 'preferences.watchedTaskIds': task._id } }
+  );
+  await attachmentService.removeTaskFiles(task);
+  await recurrenceService.handleInstancePurged(task);
+}
+
+/**
+ * Delete a trashed task for good
+ * Requires the same access as deleting it
+ * @param taskId Task ID
+ * @param userId User ID
+ */
+export async function purgeTask(taskId: string, userId: string): Promise<{ message: string }> {
+  const task = await getTrashedTask(taskId, userId);
 
-  const tasks = await Task.find({ assignedToId: userObjectId })
-    .populate('creatorId', 'firstName lastName email')
-    .populate('assignedToId', 'firstName lastName email')
-    .sort({
-      priority: -1, 
-      dueDate: 1,   
+  await destroyTask(task);
+
+  return {
+    message: 'Task deleted permanently',
+  };
+}
+
+/**
+ * Archive a completed task, leaving it out of the default listings
+ * Requires update access to the task
+ * @param taskId Task ID
+ * @param userId User ID
+ * @returns The archived task, populated for clients
+ */
+export async function archiveTask(taskId: string, userId: string): Promise<ITask> {
+  const task = await getTaskForUpdate(taskId, userId);
+
+  if (task.statusCategory !== 'DONE') {
+    throw new ValidationError('Only completed tasks can be archived');
+  }
+
+  if (task.archivedAt) {
+    throw new ValidationError('This task is already archived');
+  }
+
+  task.archivedAt = new Date();
+  await task.save();
+
+  await task.populate(TASK_POPULATE);
+  socketService.emitTaskUpdated(task);
+
+  return task;
+}
+
+/**
+ * Bring an archived task back to the default listings
+ * It is not archived again automatically before the archival delay is over
+ * @param taskId Task ID
+ * @param userId User ID
+ * @returns The unarchived task, populated for clients
+ */
+export async function unarchiveTask(taskId: string, userId: string): Promise<ITask> {
+  const task = await getTaskForUpdate(taskId, userId);
+
+  if (!task.archivedAt) {
+    throw new ValidationError('This task is not archived');
+  }
+
+  task.archivedAt = undefined;
+  task.unarchivedAt = new Date();
+  await task.save();
+
+  await task.populate(TASK_POPULATE);
+  socketService.emitTaskUpdated(task);
+
+  return task;
+}
+
+/**
+ * Watch, mute or stop following a task
+ * Requires read access to the task
+ * @param taskId Task ID
+ * @param userId User ID
+ * @param subscription How the user follows the task from now on
+ * @returns Updated notification preferences of the user
+ */
+export async function setTaskSubscription(
+  taskId: string,
+  userId: string,
+  subscription: notificationPreferenceService.TaskSubscription
+): Promise<notificationPreferenceService.NotificationPreferences> {
+  await getTaskById(taskId, userId);
+
+  return notificationPreferenceService.setTaskSubscription(userId, taskId, subscription);
+}
+
+/**
+ * Reorder tasks within a board column
+ * Each task gets its index in the list as position. Only tasks whose
+ * position changed are saved and sent to clients
+ * @param userId User ID
+ * @param taskIds Task IDs in the new order
+ * @returns The tasks in the new order
+ */
+export async function reorderTasks(userId: string, taskIds: string[]): Promise<ITask[]> {
+  if (taskIds.length > MAX_REORDER_TASKS) {
+    throw new ValidationError(`Cannot reorder more than ${MAX_REORDER_TASKS} tasks at once`);
+  }
+
+  if (new Set(taskIds).size !== taskIds.length) {
+    throw new ValidationError('Task IDs must not contain duplicates');
+  }
+
+  const tasks = await Task.find({ _id: { $in: taskIds }, ...NOT_DELETED });
+
+  if (tasks.length !== taskIds.length) {
+    throw new NotFoundError('Task not found');
+  }
+
+  for (const task of tasks) {
+    await assertCanUpdate(task, userId);
+  }
+
+  const byId = new Map(tasks.map((task) => [task._id.toString(), task]));
+  const ordered = taskIds.map((id) => byId.get(id)!);
+  const moved = ordered.filter((task, index) => task.position !== index);
+
+  if (moved.length > 0) {
+    await Task.bulkWrite(
+      moved.map((task) => ({
+        updateOne: {
+          filter: { _id: task._id },
+          update: { $set: { position: taskIds.indexOf(task._id.toString()) } },
+        },
+      }))
+    );
+  }
+
+  ordered.forEach((task, index) => {
+    task.position = index;
+  });
+
+  await Task.populate(ordered, TASK_POPULATE);
+
+  for (const task of moved) {
+    socketService.emitTaskUpdated(task);
+  }
+
+  return ordered;
+}
+
+function batchRecipient(batch: TaskChangeBatch, userId: string) {
+  let recipient = batch.recipients.get(userId);
+  if (!recipient) {
+    recipient = { assigned: [], changed: [] };
+    batch.recipients.set(userId, recipient);
+  }
+  return recipient;
+}
+
+// Field each bulk update changes, to describe it in notifications
+const BULK_FIELDS: Partial<Record<BulkTaskOperation, taskHistoryService.TrackedField>> = {
+  SET_STATUS: 'status',
+  SET_PRIORITY: 'priority',
+  ASSIGN: 'assignedToId',
+  SET_DUE_DATE: 'dueDate',
+  ADD_LABEL: 'labels',
+  REMOVE_LABEL: 'labels',
+};
+
+function describeTasks(tasks: ITask[]): string {
+  return tasks.length === 1 ? `"${tasks[0].title}"` : `${tasks.length} tasks`;
+}
+
+/**
+ * Notify each user once about the tasks a bulk operation changed for them,
+ * then send every change to clients in one event
+ */
+async function sendBatch(batch: TaskChangeBatch, userId: string, operation: BulkTaskOperation): Promise<void> {
+  if (batch.recipients.size > 0) {
+    const updater = await User.findById(userId).select('firstName lastName');
+    const updaterName = updater ? `${updater.firstName} ${updater.lastName}` : 'Someone';
+    const field = taskHistoryService.FIELD_LABELS[BULK_FIELDS[operation]!];
+
+    for (const [recipientId, recipient] of batch.recipients) {
+      // Tasks the recipient muted are left out of the notification
+      const mutedTaskIds = await notificationPreferenceService.getMutedTaskIds(recipientId);
+      const unmuted = (tasks: ITask[]) => tasks.filter((task) => !mutedTaskIds.includes(task._id.toString()));
+      const assigned = unmuted(recipient.assigned);
+      const changed = unmuted(recipient.changed);
+      const tasks = assigned.length > 0 ? assigned : changed;
+      if (tasks.length === 0) {
+        continue;
+      }
+
+      const title = assigned.length > 0 ? 'Assigned to You' : 'Updated';
+      await notificationService.createNotification({
+        userId: recipientId,
+        type: assigned.length > 0 ? 'TASK_ASSIGNED' : 'TASK_UPDATED',
+        title: `${tasks.length === 1 ? 'Task' : 'Tasks'} ${title}`,
+        message:
+          assigned.length > 0
+            ? `${updaterName} assigned you ${describeTasks(assigned)}`
+            : `${updaterName} changed the ${field} of ${describeTasks(changed)}`,
+        ...(tasks.length === 1 && { resourceId: tasks[0]._id.toString(), resourceType: 'TASK' as const }),
+      });
+    }
+  }
+
+  socketService.emitTasksChanged(batch.updated, batch.deleted);
+}
+
+/**
+ * Changes a bulk update makes to a task
+ * @param labels - Current label IDs of the task, for label operations
+ */
+function bulkChanges(operation: BulkTaskOperation, value: BulkTaskData['value'], labels: string[]): UpdateTaskData {
+  switch (operation) {
+    case 'SET_STATUS':
+      return { status: value as string };
+    case 'SET_PRIORITY':
+      return { priority: value as UpdateTaskData['priority'] };
+    case 'ASSIGN':
+      return { assignedToId: (value as string | null) ?? null };
+    case 'SET_DUE_DATE':
+      return { dueDate: (value ? new Date(value) : null) as Date };
+    case 'ADD_LABEL':
+      return { labels: labels.includes(value as string) ? labels : [...labels, value as string] };
+    case 'REMOVE_LABEL':
+      return { labels: labels.filter((label) => label !== value) };
+    default:
+      throw new ValidationError('Invalid bulk operation');
+  }
+}
+
+/**
+ * Apply one operation to many tasks
+ * Each task goes through the same checks as updateTask or deleteTask, and a
+ * task that fails them does not stop the others. Every notified user gets one
+ * notification for all their tasks, and clients one task:bulk event
+ * @param userId User ID
+ * @param data Task IDs, operation and its value
+ * @returns The outcome for each task, in the order of the task IDs
+ */
+export async function bulkUpdateTasks(userId: string, data: BulkTaskData): Promise<BulkTaskResult[]> {
+  const { taskIds, operation, value } = data;
+
+  if (taskIds.length > MAX_BULK_TASKS) {
+    throw new ValidationError(`Cannot change more than ${MAX_BULK_TASKS} tasks at once`);
+  }
+
+  if (new Set(taskIds).size !== taskIds.length) {
+    throw new ValidationError('Task IDs must not contain duplicates');
+  }
+
+  // Label operations add to or remove from the labels each task already has
+  const labelsByTask = new Map<string, string[]>();
+  if (operation === 'ADD_LABEL' || operation === 'REMOVE_LABEL') {
+    const tasks = await Task.find({
+      _id: { $in: taskIds.filter((id) => mongoose.Types.ObjectId.isValid(id)) },
+      ...NOT_DELETED,
+    }).select('labels');
+    tasks.forEach((task) => {
+      labelsByTask.set(task._id.toString(), task.labels.map((label) => label.toString()));
     });
+  }
 
-  return tasks;
+  const batch: TaskChangeBatch = { updated: [], deleted: [], recipients: new Map() };
+  const results: BulkTaskResult[] = [];
+
+  for (const taskId of taskIds) {
+    try {
+      if (operation === 'DELETE') {
+        await deleteTask(taskId, userId, { batch });
+      } else {
+        await updateTask(taskId, userId, bulkChanges(operation, value, labelsByTask.get(taskId) ?? []), { batch });
+      }
+      results.push({ taskId, success: true });
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+      results.push({ taskId, success: false, error: error.message });
+    }
+  }
+
+  await sendBatch(batch, userId, operation);
+
+  return results;
+}
+
+/**
+ * Every task of a query, or a page of them when a cursor is given
+ */
+function findTaskList(
+  query: Record<string, unknown>,
+  sort: TaskSort,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>> {
+  return cursor ? findTaskPage(query, sort, cursor) : findSortedTasks(query, sort);
 }
 
-export async function getCreatedTasks(userId: string): Promise<ITask[]> {
+export async function getAssignedTasks(userId: string, sort?: TaskSort): Promise<ITask[]>;
+export async function getAssignedTasks(
+  userId: string,
+  sort: TaskSort | undefined,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>>;
+export async function getAssignedTasks(
+  userId: string,
+  sort: TaskSort = ASSIGNED_TASK_SORT,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>> {
   const userObjectId = new mongoose.Types.ObjectId(userId);
 
-  const tasks = await Task.find({ creatorId: userObjectId })
-    .populate('creatorId', 'firstName lastName email')
-    .populate('assignedToId', 'firstName lastName email')
-    .sort({ createdAt: -1 });
+  return findTaskList(
+    { assignedToId: userObjectId, archivedAt: null, ...(await workspaceScope(userId)), ...NOT_DELETED },
+    sort,
+    cursor
+  );
+}
 
-  return tasks;
+export async function getCreatedTasks(userId: string, sort?: TaskSort): Promise<ITask[]>;
+export async function getCreatedTasks(
+  userId: string,
+  sort: TaskSort | undefined,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>>;
+export async function getCreatedTasks(
+  userId: string,
+  sort: TaskSort = DEFAULT_TASK_SORT,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>> {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  return findTaskList(
+    { creatorId: userObjectId, archivedAt: null, ...(await workspaceScope(userId)), ...NOT_DELETED },
+    sort,
+    cursor
+  );
 }
 
-export async function getOverdueTasks(userId: string): Promise<ITask[]> {
+export async function getOverdueTasks(userId: string, sort?: TaskSort): Promise<ITask[]>;
+export async function getOverdueTasks(
+  userId: string,
+  sort: TaskSort | undefined,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>>;
+export async function getOverdueTasks(
+  userId: string,
+  sort: TaskSort = OVERDUE_TASK_SORT,
+  cursor?: CursorParams
+): Promise<ITask[] | CursorPage<ITask>> {
   const userObjectId = new mongoose.Types.ObjectId(userId);
   const now = new Date();
 
-  const tasks = await Task.find({
-    $or: [
-      { creatorId: userObjectId },
-      { assignedToId: userObjectId },
-    ],
-    dueDate: { $lt: now },
-    status: { $ne: 'COMPLETED' },
-  })
-    .populate('creatorId', 'firstName lastName email')
-    .populate('assignedToId', 'firstName lastName email')
-    .sort({ dueDate: 1 });
-
-  return tasks;
+  return findTaskList(
+    {
+      $or: [{ creatorId: userObjectId }, { assignedToId: userObjectId }],
+      dueDate: { $lt: now },
+      statusCategory: { $ne: 'DONE' },
+      ...(await workspaceScope(userId)),
+      ...NOT_DELETED,
+    },
+    sort,
+    cursor
+  );
 }
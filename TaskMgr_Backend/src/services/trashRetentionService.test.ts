@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import {
+  purgeExpiredTasks,
+  startTrashRetentionScheduler,
+  stopTrashRetentionScheduler,
+} from './trashRetentionService';
+import { Comment } from '../models/Comment';
+import { Task } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Comment.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+describe('Trash Retention Service', () => {
+  const now = new Date('2030-01-31T00:00:00.000Z');
+
+  describe('purgeExpiredTasks', () => {
+    it('should purge only the tasks trashed longer than the retention ago', async () => {
+      const user = await createTestUser();
+      const expired = await Task.create({
+        title: 'Expired',
+        creatorId: user._id,
+        deletedAt: new Date(now.getTime() - 31 * DAY),
+        deletedBy: user._id,
+      });
+      const recent = await Task.create({
+        title: 'Recent',
+        creatorId: user._id,
+        deletedAt: new Date(now.getTime() - 2 * DAY),
+        deletedBy: user._id,
+      });
+      const active = await Task.create({ title: 'Active', creatorId: user._id, blockedBy: [expired._id] });
+      await Comment.create({ taskId: expired._id, authorId: user._id, body: 'Gone with the task' });
+
+      expect(await purgeExpiredTasks(now, 30)).toBe(1);
+
+      expect(await Task.exists({ _id: expired._id })).toBeNull();
+      expect(await Task.exists({ _id: recent._id })).not.toBeNull();
+      expect(await Comment.countDocuments({ taskId: expired._id })).toBe(0);
+      expect((await Task.findById(active._id))?.blockedBy).toHaveLength(0);
+    });
+  });
+
+  describe('scheduler', () => {
+    afterEach(async () => {
+      await stopTrashRetentionScheduler();
+    });
+
+    it('should purge with the injected clock and stop cleanly', async () => {
+      const user = await createTestUser();
+      await Task.create({
+        title: 'Expired',
+        creatorId: user._id,
+        deletedAt: new Date(now.getTime() - 8 * DAY),
+        deletedBy: user._id,
+      });
+
+      startTrashRetentionScheduler({ retentionDays: 7, intervalMs: 20, clock: () => now });
+
+      for (let i = 0; i < 50; i++) {
+        if ((await Task.countDocuments({})) === 0) break;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      await stopTrashRetentionScheduler();
+
+      expect(await Task.countDocuments({})).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { Task } from '../models/Task';
+import { config } from '../config/env';
+import { createPeriodicJob, Clock, PeriodicJob } from '../utils/periodicJob';
+import * as taskService from './taskService';
+
+/**
+ * Trash retention scheduler
+ * Periodically deletes for good the tasks that stayed in the trash longer
+ * than the configured retention
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashRetentionSchedulerOptions {
+  /** Days a task stays in the trash */
+  retentionDays?: number;
+  /** Delay between two checks in milliseconds */
+  intervalMs?: number;
+  /** Source of the current time */
+  clock?: Clock;
+}
+
+let job: PeriodicJob | null = null;
+
+/**
+ * Purge the tasks trashed more than the retention ago
+ * @param now Current time
+ * @param retentionDays Days a task stays in the trash
+ * @returns Number of tasks purged
+ */
+export async function purgeExpiredTasks(now: Date, retentionDays: number): Promise<number> {
+  const expired = await Task.find({ deletedAt: { $lte: new Date(now.getTime() - retentionDays * DAY_MS) } });
+
+  for (const task of expired) {
+    await taskService.destroyTask(task);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Start the trash retention scheduler
+ * @param options Scheduler options, defaults come from the environment config
+ */
+export function startTrashRetentionScheduler(options: TrashRetentionSchedulerOptions = {}): void {
+  if (job) {
+    return;
+  }
+
+  const {
+    retentionDays = config.trashRetentionDays,
+    intervalMs = config.trashPurgeIntervalMs,
+    clock,
+  } = options;
+
+  job = createPeriodicJob({
+    name: 'Trash retention scheduler',
+    intervalMs,
+    clock,
+    run: async (now) => {
+      const purged = await purgeExpiredTasks(now, retentionDays);
+      if (purged > 0) {
+        console.log(`Purged ${purged} task(s) from the trash`);
+      }
+    },
+  });
+}
+
+/**
+ * Stop the trash retention scheduler
+ * Waits for a check in progress to finish so shutdown does not cut it off
+ */
+export async function stopTrashRetentionScheduler(): Promise<void> {
+  const stopping = job;
+  job = null;
+  await stopping?.stop();
+}
@@ -339,3 +339,82 @@ describe('User Service Property Tests', () => {
     }, 120000);
   });
 });
+
+describe('User Directory', () => {
+  async function createNamedUser(firstName: string, lastName: string, email: string) {
+    return User.create({
+      email,
+      password: 'hashedpassword',
+      firstName,
+      lastName,
+      role: 'USER'
+    });
+  }
+
+  describe('searchUsers', () => {
+    it('should match every search term against name or email', async () => {
+      const jane = await createNamedUser('Jane', 'Doe', 'jane@example.com');
+      await createNamedUser('John', 'Doe', 'john@example.com');
+      await createNamedUser('Janet', 'Smith', 'janet@corp.io');
+
+      const byFullName = await userService.searchUsers(jane._id.toString(), { search: 'jane doe' });
+      expect(byFullName.items.map((u) => u.email)).toEqual(['jane@example.com']);
+
+      const byEmail = await userService.searchUsers(jane._id.toString(), { search: 'CORP.IO' });
+      expect(byEmail.items.map((u) => u.email)).toEqual(['janet@corp.io']);
+      expect((byEmail.items[0] as any).password).toBeUndefined();
+    });
+
+    it('should treat regex characters in the search literally', async () => {
+      const user = await createNamedUser('Regex', 'User', 'regex@example.com');
+
+      const result = await userService.searchUsers(user._id.toString(), { search: '(a+)+$ .*' });
+
+      expect(result.total).toBe(0);
+    });
+
+    it('should paginate results for any page size', async () => {
+      const users = [];
+      for (let i = 0; i < 7; i++) {
+        users.push(await createNamedUser(`User${i}`, 'Paged', `paged${i}@example.com`));
+      }
+      const requesterId = users[0]._id.toString();
+
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 1, max: 10 }), async (limit) => {
+          const seen: string[] = [];
+          const totalPages = Math.ceil(7 / limit);
+          for (let page = 1; page <= totalPages; page++) {
+            const result = await userService.searchUsers(requesterId, { search: 'paged' }, { page, limit });
+            expect(result.total).toBe(7);
+            expect(result.totalPages).toBe(totalPages);
+            seen.push(...result.items.map((u) => u.id));
+          }
+          expect(new Set(seen).size).toBe(7);
+        }),
+        { numRuns: 10 }
+      );
+    });
+  });
+
+  describe('getPublicProfile', () => {
+    it('should return public fields only', async () => {
+      const user = await createNamedUser('Public', 'Person', 'public@example.com');
+      user.phoneNumber = '555-0100';
+      await user.save();
+
+      const profile = await userService.getPublicProfile(user._id.toString());
+
+      expect(profile.firstName).toBe('Public');
+      expect((profile as any).phoneNumber).toBeUndefined();
+      expect((profile as any).role).toBeUndefined();
+    });
+
+    it('should throw NotFoundError for unknown or malformed IDs', async () => {
+      await expect(
+        userService.getPublicProfile(new mongoose.Types.ObjectId().toString())
+      ).rejects.toThrow(NotFoundError);
+      await expect(userService.getPublicProfile('not-an-id')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -1,5 +1,9 @@
+import mongoose from 'mongoose';
 import { User, IUser } from '../models/User';
 import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errors';
+import { escapeRegex } from '../utils/regex';
+import { PaginationParams, PaginatedResponse } from './taskService';
+import * as workspaceService from './workspaceService';
 
 export interface UpdateProfileData {
   firstName?: string;
@@ -9,6 +13,94 @@ export interface UpdateProfileData {
   avatarUrl?: string;
 }
 
+export interface UserSearchFilters {
+  search?: string;
+  workspaceId?: string;
+}
+
+/**
+ * Fields visible to other users
+ */
+const PUBLIC_PROFILE_FIELDS = 'firstName lastName email avatarUrl bio createdAt';
+
+export type PublicProfile = Pick<IUser, 'firstName' | 'lastName' | 'email' | 'avatarUrl' | 'bio' | 'createdAt'> & {
+  id: string;
+};
+
+/**
+ * Query matching users by name or email
+ * Every whitespace separated term must match the first name, last name or
+ * email, so "jane doe" finds Jane Doe
+ * @param search Search text, matches every user when empty
+ */
+export function buildUserSearchQuery(search?: string): Record<string, unknown> {
+  const terms = (search || '').trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return {};
+  }
+
+  return {
+    $and: terms.map((term) => {
+      const pattern = { $regex: escapeRegex(term), $options: 'i' };
+      return { $or: [{ firstName: pattern }, { lastName: pattern }, { email: pattern }] };
+    }),
+  };
+}
+
+/**
+ * Search the user directory by name or email
+ * Deactivated users are not listed. With a workspace, only its members are
+ * listed and the requester must belong to it
+ */
+export async function searchUsers(
+  userId: string,
+  filters: UserSearchFilters = {},
+  pagination: PaginationParams = { page: 1, limit: 20 }
+): Promise<PaginatedResponse<PublicProfile>> {
+  const { search, workspaceId } = filters;
+  const { page, limit } = pagination;
+
+  const query: any = { isActive: { $ne: false }, ...buildUserSearchQuery(search) };
+
+  if (workspaceId) {
+    const { workspace } = await workspaceService.requireMembership(workspaceId, userId);
+    query._id = { $in: workspace.members.map((member) => member.userId) };
+  }
+
+  const skip = (page - 1) * limit;
+
+  const [users, total] = await Promise.all([
+    User.find(query)
+      .select(PUBLIC_PROFILE_FIELDS)
+      .sort({ firstName: 1, lastName: 1, _id: 1 })
+      .skip(skip)
+      .limit(limit),
+    User.countDocuments(query),
+  ]);
+
+  return {
+    items: users.map((user) => user.toJSON() as unknown as PublicProfile),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+export async function getPublicProfile(profileUserId: string): Promise<PublicProfile> {
+  if (!mongoose.Types.ObjectId.isValid(profileUserId)) {
+    throw new NotFoundError('User not found');
+  }
+
+  const user = await User.findById(profileUserId).select(PUBLIC_PROFILE_FIELDS);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user.toJSON() as unknown as PublicProfile;
+}
+
 export async function getUserProfile(userId: string): Promise<Omit<IUser, 'password'>> {
   const user = await User.findById(userId);
   
@@ -0,0 +1,126 @@
+import mongoose from 'mongoose';
+import { getWorkflow, updateWorkflow } from './workflowService';
+import { createTask, updateTask } from './taskService';
+import { createWorkspace, addMember } from './workspaceService';
+import { Task } from '../models/Task';
+import { TaskHistory } from '../models/TaskHistory';
+import { Workspace } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { DEFAULT_WORKFLOW, WorkflowDefinition } from '../utils/workflow';
+import { AuthorizationError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Notification.deleteMany({});
+  await TaskHistory.deleteMany({});
+  await Workspace.deleteMany({});
+  await Task.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+// Only the creator of a task can accept it
+const REVIEWED: WorkflowDefinition = {
+  statuses: [
+    { key: 'BACKLOG', name: 'Backlog', category: 'TODO', color: 'gray' },
+    { key: 'REVIEW', name: 'Review', category: 'ACTIVE', color: 'amber' },
+    { key: 'ACCEPTED', name: 'Accepted', category: 'DONE', color: 'green' },
+  ],
+  transitions: [
+    { from: 'BACKLOG', to: 'REVIEW', actors: [] },
+    { from: 'REVIEW', to: 'BACKLOG', actors: [] },
+    { from: 'REVIEW', to: 'ACCEPTED', actors: ['CREATOR'] },
+  ],
+};
+
+describe('Workflow Service', () => {
+  it('should serve the default workflow until a workspace defines its own', async () => {
+    const owner = await createTestUser();
+    const ownerId = owner._id.toString();
+    const workspace = await createWorkspace(ownerId, { name: 'Team' });
+    const workspaceId = workspace._id.toString();
+
+    expect(await getWorkflow(ownerId)).toEqual(DEFAULT_WORKFLOW);
+    expect(await getWorkflow(ownerId, workspaceId)).toEqual(DEFAULT_WORKFLOW);
+
+    await updateWorkflow(workspaceId, ownerId, REVIEWED);
+
+    expect(await getWorkflow(ownerId, workspaceId)).toEqual(REVIEWED);
+    const task = await createTask(ownerId, { title: 'Spec', workspaceId });
+    expect(task.status).toBe('BACKLOG');
+    expect(task.statusCategory).toBe('TODO');
+    await expect(createTask(ownerId, { title: 'Old', workspaceId, status: 'TODO' })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should enforce transitions and their actors', async () => {
+    const owner = await createTestUser();
+    const member = await createTestUser();
+    const ownerId = owner._id.toString();
+    const memberId = member._id.toString();
+    const workspace = await createWorkspace(ownerId, { name: 'Team' });
+    const workspaceId = workspace._id.toString();
+    await addMember(workspaceId, ownerId, { email: member.email });
+    await updateWorkflow(workspaceId, ownerId, REVIEWED);
+
+    const task = await createTask(memberId, { title: 'Spec', workspaceId, assignedToId: ownerId });
+    const taskId = task._id.toString();
+
+    await expect(updateTask(taskId, ownerId, { status: 'ACCEPTED' })).rejects.toThrow(
+      'Tasks cannot move from BACKLOG to ACCEPTED'
+    );
+    await updateTask(taskId, ownerId, { status: 'REVIEW' });
+    await expect(updateTask(taskId, ownerId, { status: 'ACCEPTED' })).rejects.toThrow(AuthorizationError);
+
+    const accepted = await updateTask(taskId, memberId, { status: 'ACCEPTED' });
+    expect(accepted.statusCategory).toBe('DONE');
+  });
+
+  it('should keep statuses in use and follow category changes', async () => {
+    const owner = await createTestUser();
+    const ownerId = owner._id.toString();
+    const workspace = await createWorkspace(ownerId, { name: 'Team' });
+    const workspaceId = workspace._id.toString();
+    const task = await createTask(ownerId, { title: 'Spec', workspaceId, status: 'REVIEW' });
+
+    const withoutReview = {
+      statuses: DEFAULT_WORKFLOW.statuses.filter((status) => status.key !== 'REVIEW'),
+      transitions: [],
+    };
+    await expect(updateWorkflow(workspaceId, ownerId, withoutReview)).rejects.toThrow(
+      'Move the 1 task in the Review status before removing it'
+    );
+
+    const reviewIsDone = {
+      statuses: DEFAULT_WORKFLOW.statuses.map((status) =>
+        status.key === 'REVIEW' ? { ...status, category: 'DONE' as const } : status
+      ),
+      transitions: [],
+    };
+    await updateWorkflow(workspaceId, ownerId, reviewIsDone);
+
+    expect((await Task.findById(task._id))?.statusCategory).toBe('DONE');
+  });
+});
@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import { Workspace } from '../models/Workspace';
+import { Task, ITask } from '../models/Task';
+import { ValidationError, AuthorizationError } from '../middleware/errors';
+import {
+  WorkflowDefinition,
+  WorkflowStatus,
+  TransitionActor,
+  DEFAULT_WORKFLOW,
+  assertValidWorkflow,
+  findStatus,
+  transitionError,
+} from '../utils/workflow';
+import * as workspaceService from './workspaceService';
+
+/**
+ * Copy a stored workflow into a plain definition, the default workflow when unset
+ */
+function toDefinition(workflow?: WorkflowDefinition): WorkflowDefinition {
+  if (!workflow || workflow.statuses.length === 0) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  return {
+    statuses: workflow.statuses.map(({ key, name, category, color }) => ({ key, name, category, color })),
+    transitions: workflow.transitions.map(({ from, to, actors }) => ({ from, to, actors: [...actors] })),
+  };
+}
+
+/**
+ * Get the workflow tasks of a workspace follow
+ * @param workspaceId Workspace ID, unset for personal tasks
+ * @returns The workflow of the workspace, or the default workflow
+ */
+export async function getWorkflowForWorkspace(
+  workspaceId?: mongoose.Types.ObjectId | string | null
+): Promise<WorkflowDefinition> {
+  if (!workspaceId) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  const workspace = await Workspace.findById(workspaceId).select('workflow');
+
+  return toDefinition(workspace?.workflow);
+}
+
+/**
+ * Get a workflow for a user
+ * @param userId User ID
+ * @param workspaceId Workspace ID, the workflow of personal tasks when omitted
+ */
+export async function getWorkflow(userId: string, workspaceId?: string): Promise<WorkflowDefinition> {
+  if (!workspaceId) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  const { workspace } = await workspaceService.requireMembership(workspaceId, userId);
+
+  return toDefinition(workspace.workflow);
+}
+
+/**
+ * Find a status of a workflow
+ * @param workflow Workflow definition
+ * @param key Status key
+ * @throws ValidationError if the workflow does not have the status
+ */
+export function resolveStatus(workflow: WorkflowDefinition, key: string): WorkflowStatus {
+  const status = findStatus(workflow, key);
+
+  if (!status) {
+    const keys = workflow.statuses.map((candidate) => candidate.key).join(', ');
+    throw new ValidationError(`Invalid status value, expected one of: ${keys}`);
+  }
+
+  return status;
+}
+
+/**
+ * Check that a user may move a task to a status
+ * @param task Task, with unpopulated or populated references
+ * @param workflow Workflow of the task
+ * @param to New status
+ * @param userId User making the change
+ * @throws ValidationError if the workflow has no such transition
+ * @throws AuthorizationError if the transition is restricted to other users
+ */
+export async function assertTransition(
+  task: ITask,
+  workflow: WorkflowDefinition,
+  to: string,
+  userId: string
+): Promise<void> {
+  if (workflow.transitions.length === 0) {
+    return;
+  }
+
+  const actors: TransitionActor[] = [];
+  const refersToUser = (value: any) => !!value && (value._id ?? value).toString() === userId;
+
+  if (refersToUser(task.creatorId)) actors.push('CREATOR');
+  if (refersToUser(task.assignedToId)) actors.push('ASSIGNEE');
+
+  if (task.workspaceId) {
+    const workspace = await Workspace.findById(task.workspaceId).select('members');
+    const role = workspace ? workspaceService.getMemberRole(workspace, userId) : null;
+    if (role && workspaceService.MANAGE_ROLES.includes(role)) actors.push('ADMIN');
+  }
+
+  const error = transitionError(workflow, task.status, to, actors);
+
+  if (error) {
+    throw error.restricted ? new AuthorizationError(error.message) : new ValidationError(error.message);
+  }
+}
+
+/**
+ * Replace the workflow of a workspace
+ * Statuses still used by tasks cannot be removed. Tasks follow the new
+ * category of their status
+ * @param workspaceId Workspace ID
+ * @param userId User making the change, a workspace owner or admin
+ * @param workflow New workflow
+ * @returns The saved workflow
+ */
+export async function updateWorkflow(
+  workspaceId: string,
+  userId: string,
+  workflow: WorkflowDefinition
+): Promise<WorkflowDefinition> {
+  const { workspace } = await workspaceService.requireMembership(
+    workspaceId,
+    userId,
+    workspaceService.MANAGE_ROLES
+  );
+
+  const definition: WorkflowDefinition = {
+    statuses: workflow.statuses.map(({ key, name, category, color }) => ({
+      key,
+      name: name.trim(),
+      category,
+      color: color || 'gray',
+    })),
+    transitions: (workflow.transitions || []).map(({ from, to, actors }) => ({ from, to, actors: actors || [] })),
+  };
+
+  try {
+    assertValidWorkflow(definition);
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+
+  const previous = toDefinition(workspace.workflow);
+  const removed = previous.statuses.filter((status) => !findStatus(definition, status.key));
+
+  for (const status of removed) {
+    const inUse = await Task.countDocuments({ workspaceId: workspace._id, status: status.key });
+    if (inUse > 0) {
+      throw new ValidationError(
+        `Move the ${inUse} task${inUse === 1 ? '' : 's'} in the ${status.name} status before removing it`
+      );
+    }
+  }
+
+  workspace.workflow = definition;
+  await workspace.save();
+
+  for (const status of definition.statuses) {
+    await Task.updateMany(
+      { workspaceId: workspace._id, status: status.key, statusCategory: { $ne: status.category } },
+      status.category === 'DONE'
+        ? { statusCategory: status.category, completedAt: new Date() }
+        : { statusCategory: status.category, $unset: { completedAt: 1, archivedAt: 1 } }
+    );
+  }
+
+  return definition;
+}
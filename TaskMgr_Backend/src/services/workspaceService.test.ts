@@ -0,0 +1,242 @@
+import fc from 'fast-check';
+import mongoose from 'mongoose';
+import {
+  createWorkspace,
+  addMember,
+  updateMemberRole,
+  removeMember,
+  deleteWorkspace,
+  getWorkspaces,
+} from './workspaceService';
+import {
+  createTask,
+  getTasks,
+  getTaskById,
+  updateTask,
+  deleteTask,
+  purgeTask,
+  getAssignedTasks,
+} from './taskService';
+import { Workspace, WorkspaceRole } from '../models/Workspace';
+import { Notification } from '../models/Notification';
+import { Task } from '../models/Task';
+import { TaskSeries } from '../models/TaskSeries';
+import { User, IUser } from '../models/User';
+import { hashPassword } from '../utils/password';
+import { AuthorizationError, ValidationError } from '../middleware/errors';
+
+beforeAll(async () => {
+  const mongoUri = process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/taskmgr-test';
+  await mongoose.connect(mongoUri);
+}, 30000);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Workspace.deleteMany({});
+  await Notification.deleteMany({});
+  await Task.deleteMany({});
+  await TaskSeries.deleteMany({});
+  await User.deleteMany({});
+});
+
+// Helper function to create a test user
+async function createTestUser(): Promise<IUser> {
+  const hashedPassword = await hashPassword('testpassword123');
+  const user = await User.create({
+    email: `user-${Date.now()}-${Math.random()}@example.com`,
+    password: hashedPassword,
+    firstName: 'Test',
+    lastName: 'User',
+  });
+  return user;
+}
+
+// Helper function to create a workspace with one extra member of the given role
+async function createTeam(role: WorkspaceRole) {
+  const owner = await createTestUser();
+  const member = await createTestUser();
+  const workspace = await createWorkspace(owner._id.toString(), { name: 'Team' });
+  const workspaceId = workspace._id.toString();
+  await addMember(workspaceId, owner._id.toString(), { email: member.email, role });
+  return { owner, member, workspaceId };
+}
+
+describe('Workspace Service', () => {
+  describe('membership management', () => {
+    it('should make the creator the owner', async () => {
+      const owner = await createTestUser();
+      const workspace = await createWorkspace(owner._id.toString(), { name: '  Team  ' });
+
+      expect(workspace.name).toBe('Team');
+      expect(workspace.members).toHaveLength(1);
+      expect(workspace.members[0].role).toBe('OWNER');
+
+      const workspaces = await getWorkspaces(owner._id.toString());
+      expect(workspaces.map((w) => w._id.toString())).toEqual([workspace._id.toString()]);
+    });
+
+    it('should reject duplicate members', async () => {
+      const { owner, member, workspaceId } = await createTeam('MEMBER');
+
+      await expect(
+        addMember(workspaceId, owner._id.toString(), { email: member.email })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should only let the owner manage admins', async () => {
+      const { owner, member: admin, workspaceId } = await createTeam('ADMIN');
+      const other = await createTestUser();
+
+      await expect(
+        addMember(workspaceId, admin._id.toString(), { email: other.email, role: 'ADMIN' })
+      ).rejects.toThrow(AuthorizationError);
+
+      await addMember(workspaceId, admin._id.toString(), { email: other.email, role: 'VIEWER' });
+      const workspace = await updateMemberRole(workspaceId, owner._id.toString(), other._id.toString(), 'ADMIN');
+      expect(workspace.members.find((m) => (m.userId as any)._id.equals(other._id))?.role).toBe('ADMIN');
+
+      await expect(
+        removeMember(workspaceId, admin._id.toString(), other._id.toString())
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should never let the owner role be granted or removed', async () => {
+      const { owner, member, workspaceId } = await createTeam('ADMIN');
+
+      await expect(
+        updateMemberRole(workspaceId, owner._id.toString(), member._id.toString(), 'OWNER')
+      ).rejects.toThrow(AuthorizationError);
+      await expect(
+        removeMember(workspaceId, member._id.toString(), owner._id.toString())
+      ).rejects.toThrow(AuthorizationError);
+      await expect(
+        removeMember(workspaceId, owner._id.toString(), owner._id.toString())
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should let members leave', async () => {
+      const { member, workspaceId } = await createTeam('VIEWER');
+
+      const workspace = await removeMember(workspaceId, member._id.toString(), member._id.toString());
+
+      expect(workspace.members).toHaveLength(1);
+    });
+
+    it('should refuse to delete a workspace that still has tasks', async () => {
+      const { owner, member, workspaceId } = await createTeam('ADMIN');
+      const task = await createTask(owner._id.toString(), {
+        title: 'Left over',
+        workspaceId,
+        dueDate: new Date('2099-01-05T09:00:00Z'),
+        recurrence: 'FREQ=WEEKLY',
+      });
+
+      await expect(deleteWorkspace(workspaceId, member._id.toString())).rejects.toThrow(AuthorizationError);
+      await expect(deleteWorkspace(workspaceId, owner._id.toString())).rejects.toThrow(ValidationError);
+
+      // Trashed tasks can still be restored, so they keep the workspace too
+      await deleteTask(task._id.toString(), owner._id.toString());
+      await expect(deleteWorkspace(workspaceId, owner._id.toString())).rejects.toThrow(ValidationError);
+
+      await purgeTask(task._id.toString(), owner._id.toString());
+      await deleteWorkspace(workspaceId, owner._id.toString());
+      expect(await Workspace.countDocuments({})).toBe(0);
+      expect(await TaskSeries.countDocuments({})).toBe(0);
+    });
+  });
+
+  describe('task access', () => {
+    it('should give every member read access to workspace tasks and deny outsiders', async () => {
+      const { owner, member, workspaceId } = await createTeam('VIEWER');
+      const outsider = await createTestUser();
+      const task = await createTask(owner._id.toString(), { title: 'Shared', workspaceId });
+      const taskId = task._id.toString();
+
+      const fetched = await getTaskById(taskId, member._id.toString());
+      expect(fetched.workspaceId?.toString()).toBe(workspaceId);
+
+      const list = await getTasks(member._id.toString(), { workspaceId });
+      expect(list.items.map((t) => t._id.toString())).toEqual([taskId]);
+
+      await expect(getTaskById(taskId, outsider._id.toString())).rejects.toThrow(AuthorizationError);
+      await expect(getTasks(outsider._id.toString(), { workspaceId })).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should enforce roles for task writes', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom<WorkspaceRole>('ADMIN', 'MEMBER', 'VIEWER'),
+          async (role) => {
+            const { owner, member, workspaceId } = await createTeam(role);
+            const memberId = member._id.toString();
+            const task = await createTask(owner._id.toString(), { title: 'Owned', workspaceId });
+            const taskId = task._id.toString();
+
+            // Only admins may edit or delete tasks they neither created nor are assigned to
+            const update = updateTask(taskId, memberId, { status: 'IN_PROGRESS' });
+            const create = createTask(memberId, { title: 'Mine', workspaceId });
+            if (role === 'ADMIN') {
+              await expect(update).resolves.toBeDefined();
+            } else {
+              await expect(update).rejects.toThrow(AuthorizationError);
+            }
+            if (role === 'VIEWER') {
+              await expect(create).rejects.toThrow(AuthorizationError);
+            } else {
+              await expect(create).resolves.toBeDefined();
+            }
+
+            const deletion = deleteTask(taskId, memberId);
+            if (role === 'ADMIN') {
+              await expect(deletion).resolves.toBeDefined();
+            } else {
+              await expect(deletion).rejects.toThrow(AuthorizationError);
+            }
+          }
+        ),
+        { numRuns: 6 }
+      );
+    });
+
+    it('should only assign workspace tasks to members who can edit them', async () => {
+      const { owner, member: viewer, workspaceId } = await createTeam('VIEWER');
+      const outsider = await createTestUser();
+
+      await expect(
+        createTask(owner._id.toString(), {
+          title: 'Outside',
+          workspaceId,
+          assignedToId: outsider._id.toString(),
+        })
+      ).rejects.toThrow(ValidationError);
+
+      const task = await createTask(owner._id.toString(), { title: 'Inside', workspaceId });
+      await expect(
+        updateTask(task._id.toString(), owner._id.toString(), { assignedToId: viewer._id.toString() })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should hide workspace tasks from assignees who left the workspace', async () => {
+      const { owner, member, workspaceId } = await createTeam('MEMBER');
+      const memberId = member._id.toString();
+      const task = await createTask(owner._id.toString(), {
+        title: 'Assigned',
+        workspaceId,
+        assignedToId: memberId,
+      });
+      const personal = await createTask(memberId, { title: 'Personal' });
+
+      expect(await getAssignedTasks(memberId)).toHaveLength(1);
+
+      await removeMember(workspaceId, owner._id.toString(), memberId);
+
+      expect(await getAssignedTasks(memberId)).toHaveLength(0);
+      const list = await getTasks(memberId);
+      expect(list.items.map((t) => t._id.toString())).toEqual([personal._id.toString()]);
+      await expect(getTaskById(task._id.toString(), memberId)).rejects.toThrow(AuthorizationError);
+    });
+  });
+});
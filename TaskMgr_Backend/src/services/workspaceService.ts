@@ -0,0 +1,300 @@
+import mongoose from 'mongoose';
+import { Workspace, IWorkspace, WorkspaceRole } from '../models/Workspace';
+import { Task } from '../models/Task';
+import { Label } from '../models/Label';
+import { SavedView } from '../models/SavedView';
+import { TaskSeries } from '../models/TaskSeries';
+import { User } from '../models/User';
+import { ValidationError, AuthorizationError, NotFoundError } from '../middleware/errors';
+import * as socketService from './socketService';
+
+export interface WorkspaceData {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateWorkspaceData {
+  name?: string;
+  description?: string;
+}
+
+export interface AddMemberData {
+  email: string;
+  role?: WorkspaceRole;
+}
+
+/**
+ * Roles allowed to create and edit tasks
+ */
+export const WRITE_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN', 'MEMBER'];
+
+/**
+ * Roles allowed to manage members and every task of the workspace
+ */
+export const MANAGE_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN'];
+
+/**
+ * Get the role of a user in a workspace
+ * @param workspace Workspace document
+ * @param userId User ID
+ * @returns The role, or null if the user is not a member
+ */
+export function getMemberRole(workspace: IWorkspace, userId: string): WorkspaceRole | null {
+  const member = workspace.members.find((m) => {
+    const memberId = (m.userId as any)._id ?? m.userId;
+    return memberId.toString() === userId;
+  });
+  return member ? member.role : null;
+}
+
+/**
+ * Load a workspace and check that the user is a member with one of the given roles
+ * @param workspaceId Workspace ID
+ * @param userId User ID
+ * @param roles Allowed roles, any role when omitted
+ * @returns The workspace and the role of the user
+ */
+export async function requireMembership(
+  workspaceId: string,
+  userId: string,
+  roles?: WorkspaceRole[]
+): Promise<{ workspace: IWorkspace; role: WorkspaceRole }> {
+  if (!mongoose.Types.ObjectId.isValid(workspaceId)) {
+    throw new NotFoundError('Workspace not found');
+  }
+
+  const workspace = await Workspace.findById(workspaceId);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace not found');
+  }
+
+  const role = getMemberRole(workspace, userId);
+
+  if (!role) {
+    throw new AuthorizationError('You are not a member of this workspace');
+  }
+
+  if (roles && !roles.includes(role)) {
+    throw new AuthorizationError('Your role in this workspace does not allow this action');
+  }
+
+  return { workspace, role };
+}
+
+/**
+ * Get the IDs of the workspaces a user belongs to
+ * @param userId User ID
+ * @param roles Only the workspaces where the user has one of these roles
+ */
+export async function getUserWorkspaceIds(
+  userId: string,
+  roles?: WorkspaceRole[]
+): Promise<mongoose.Types.ObjectId[]> {
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+  const query = roles
+    ? { members: { $elemMatch: { userId: userObjectId, role: { $in: roles } } } }
+    : { 'members.userId': userObjectId };
+  const workspaces = await Workspace.find(query).select('_id');
+
+  return workspaces.map((workspace) => workspace._id as mongoose.Types.ObjectId);
+}
+
+async function populateMembers(workspace: IWorkspace): Promise<IWorkspace> {
+  await workspace.populate('members.userId', 'firstName lastName email');
+  return workspace;
+}
+
+export async function createWorkspace(userId: string, data: WorkspaceData): Promise<IWorkspace> {
+  if (!data.name || data.name.trim().length === 0) {
+    throw new ValidationError('Workspace name is required');
+  }
+
+  const workspace = await Workspace.create({
+    name: data.name.trim(),
+    description: data.description,
+    members: [{ userId: new mongoose.Types.ObjectId(userId), role: 'OWNER' }],
+  });
+
+  socketService.joinWorkspaceRoom(userId, workspace._id.toString());
+
+  return populateMembers(workspace);
+}
+
+export async function getWorkspaces(userId: string): Promise<IWorkspace[]> {
+  return Workspace.find({ 'members.userId': new mongoose.Types.ObjectId(userId) })
+    .populate('members.userId', 'firstName lastName email')
+    .sort({ name: 1 });
+}
+
+export async function getWorkspaceById(workspaceId: string, userId: string): Promise<IWorkspace> {
+  const { workspace } = await requireMembership(workspaceId, userId);
+
+  return populateMembers(workspace);
+}
+
+export async function updateWorkspace(
+  workspaceId: string,
+  userId: string,
+  data: UpdateWorkspaceData
+): Promise<IWorkspace> {
+  const { workspace } = await requireMembership(workspaceId, userId, MANAGE_ROLES);
+
+  if (data.name !== undefined) {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Workspace name cannot be empty');
+    }
+    workspace.name = data.name.trim();
+  }
+
+  if (data.description !== undefined) {
+    workspace.description = data.description || undefined;
+  }
+
+  await workspace.save();
+
+  return populateMembers(workspace);
+}
+
+/**
+ * Delete a workspace
+ * Only the owner can delete a workspace, and only once its tasks are gone,
+ * so tasks are never removed as a side effect. Its recurring series go with
+ * it, so none keeps generating tasks for a workspace that no longer exists
+ */
+export async function deleteWorkspace(
+  workspaceId: string,
+  userId: string
+): Promise<{ message: string }> {
+  const { workspace } = await requireMembership(workspaceId, userId, ['OWNER']);
+
+  const taskCount = await Task.countDocuments({ workspaceId: workspace._id });
+  if (taskCount > 0) {
+    throw new ValidationError('Delete the tasks of this workspace and empty its trash before deleting it');
+  }
+
+  await Workspace.findByIdAndDelete(workspaceId);
+  await Label.deleteMany({ workspaceId: workspace._id });
+  await SavedView.deleteMany({ workspaceId: workspace._id });
+  await TaskSeries.deleteMany({ workspaceId: workspace._id });
+
+  for (const member of workspace.members) {
+    socketService.leaveWorkspaceRoom(member.userId.toString(), workspaceId);
+  }
+
+  return {
+    message: 'Workspace deleted successfully',
+  };
+}
+
+/**
+ * Check that a role can be granted, changed or revoked by the acting user
+ * Nobody can hand out the owner role, and only the owner manages admins
+ */
+function assertCanManageRole(actorRole: WorkspaceRole, role: WorkspaceRole): void {
+  if (role === 'OWNER') {
+    throw new AuthorizationError('The workspace owner role cannot be assigned or changed');
+  }
+
+  if (role === 'ADMIN' && actorRole !== 'OWNER') {
+    throw new AuthorizationError('Only the workspace owner can manage admins');
+  }
+}
+
+export async function addMember(
+  workspaceId: string,
+  userId: string,
+  data: AddMemberData
+): Promise<IWorkspace> {
+  const { workspace, role: actorRole } = await requireMembership(workspaceId, userId, MANAGE_ROLES);
+  const role = data.role || 'MEMBER';
+
+  assertCanManageRole(actorRole, role);
+
+  const user = await User.findOne({ email: data.email.toLowerCase().trim() });
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const memberId = user._id.toString();
+
+  if (getMemberRole(workspace, memberId)) {
+    throw new ValidationError('User is already a member of this workspace');
+  }
+
+  workspace.members.push({
+    userId: user._id as mongoose.Types.ObjectId,
+    role,
+    joinedAt: new Date(),
+  });
+  await workspace.save();
+
+  socketService.joinWorkspaceRoom(memberId, workspaceId);
+
+  return populateMembers(workspace);
+}
+
+export async function updateMemberRole(
+  workspaceId: string,
+  userId: string,
+  memberId: string,
+  role: WorkspaceRole
+): Promise<IWorkspace> {
+  const { workspace, role: actorRole } = await requireMembership(workspaceId, userId, MANAGE_ROLES);
+
+  const member = workspace.members.find((m) => m.userId.toString() === memberId);
+
+  if (!member) {
+    throw new NotFoundError('Member not found');
+  }
+
+  assertCanManageRole(actorRole, member.role);
+  assertCanManageRole(actorRole, role);
+
+  member.role = role;
+  await workspace.save();
+
+  return populateMembers(workspace);
+}
+
+/**
+ * Remove a member from a workspace
+ * Admins remove other members, any member but the owner can leave
+ */
+export async function removeMember(
+  workspaceId: string,
+  userId: string,
+  memberId: string
+): Promise<IWorkspace> {
+  const { workspace, role: actorRole } = await requireMembership(workspaceId, userId);
+
+  const member = workspace.members.find((m) => m.userId.toString() === memberId);
+
+  if (!member) {
+    throw new NotFoundError('Member not found');
+  }
+
+  if (member.role === 'OWNER') {
+    throw new AuthorizationError('The workspace owner cannot be removed');
+  }
+
+  if (memberId !== userId) {
+    if (!MANAGE_ROLES.includes(actorRole)) {
+      throw new AuthorizationError('Your role in this workspace does not allow this action');
+    }
+    assertCanManageRole(actorRole, member.role);
+  }
+
+  workspace.members = workspace.members.filter((m) => m.userId.toString() !== memberId);
+  await workspace.save();
+  // Views of the workspace shared with the member no longer show them anything
+  await SavedView.updateMany(
+    { workspaceId: workspace._id },
+    { $pull: { sharedWith: new mongoose.Types.ObjectId(memberId) } }
+  );
+
+  socketService.leaveWorkspaceRoom(memberId, workspaceId);
+
+  return populateMembers(workspace);
+}
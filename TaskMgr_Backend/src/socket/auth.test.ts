@@ -1,10 +1,19 @@
 import { socketAuthMiddleware, AuthenticatedSocket } from './index';
 import { generateToken } from '../utils/jwt';
+import { IUser } from '../models/User';
+import { AuthenticationError } from '../middleware/errors';
+import * as authService from '../services/authService';
 import fc from 'fast-check';
 
 describe('Socket Authentication Middleware', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('Unit Tests', () => {
     it('should authenticate socket with valid token in auth', (done) => {
+      jest.spyOn(authService, 'getActiveAccount').mockResolvedValue({ role: 'USER' } as IUser);
+
       // Create a valid token
       const token = generateToken({
         userId: 'user123',
@@ -32,6 +41,8 @@ describe('Socket Authentication Middleware', () => {
     });
 
     it('should authenticate socket with valid token in query', (done) => {
+      jest.spyOn(authService, 'getActiveAccount').mockResolvedValue({ role: 'ADMIN' } as IUser);
+
       // Create a valid token
       const token = generateToken({
         userId: 'user456',
@@ -58,6 +69,30 @@ describe('Socket Authentication Middleware', () => {
       });
     });
 
+    it('should reject connection for a deactivated account', (done) => {
+      jest
+        .spyOn(authService, 'getActiveAccount')
+        .mockRejectedValue(new AuthenticationError('This account has been deactivated'));
+      const token = generateToken({
+        userId: 'user123',
+        email: 'test@example.com',
+        role: 'USER',
+      });
+
+      const mockSocket = {
+        handshake: {
+          auth: { token },
+          query: {},
+        },
+      } as unknown as AuthenticatedSocket;
+
+      socketAuthMiddleware(mockSocket, (err) => {
+        expect(err?.message).toBe('Authentication error: This account has been deactivated');
+        expect(mockSocket.user).toBeUndefined();
+        done();
+      });
+    });
+
     it('should reject connection with no token', (done) => {
       // Mock socket without token
       const mockSocket = {
@@ -146,6 +181,10 @@ describe('Socket Authentication Middleware', () => {
             role: fc.constantFrom('USER', 'ADMIN'),
           }),
           async (userData) => {
+            jest
+              .spyOn(authService, 'getActiveAccount')
+              .mockResolvedValue({ role: userData.role } as IUser);
+
             // Generate a valid token for the user data
             const token = generateToken(userData);
 
@@ -2,12 +2,23 @@ import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { config } from '../config/env';
 import { verifyToken, AuthTokenPayload } from '../utils/jwt';
+import { Workspace } from '../models/Workspace';
+import * as authService from '../services/authService';
 
 /**
  * Extended Socket interface with user data
  */
 export interface AuthenticatedSocket extends Socket {
   user?: AuthTokenPayload;
+  workspaceIds?: string[];
+}
+
+/**
+ * Name of the room shared by the connected members of a workspace
+ * @param workspaceId - Workspace ID
+ */
+export function workspaceRoom(workspaceId: string): string {
+  return `workspace:${workspaceId}`;
 }
 
 /**
@@ -17,11 +28,15 @@ let io: SocketIOServer | null = null;
 
 /**
  * Socket.IO authentication middleware
- * Verifies JWT token from socket handshake and attaches user data to socket
+ * Verifies JWT token from socket handshake, refuses deactivated accounts and
+ * attaches user data to socket
  * @param socket - Socket.IO socket instance
  * @param next - Callback to continue or reject connection
  */
-export function socketAuthMiddleware(socket: AuthenticatedSocket, next: (err?: Error) => void): void {
+export async function socketAuthMiddleware(
+  socket: AuthenticatedSocket,
+  next: (err?: Error) => void
+): Promise<void> {
   try {
     // Extract token from handshake auth or query
     const token = socket.handshake.auth?.token || socket.handshake.query?.token;
@@ -33,11 +48,14 @@ export function socketAuthMiddleware(socket: AuthenticatedSocket, next: (err?: E
     // Verify the JWT token
     const decoded = verifyToken(token);
 
+    const account = await authService.getActiveAccount(decoded.userId);
+
     // Attach user data to socket
     socket.user = {
       userId: decoded.userId,
       email: decoded.email,
-      role: decoded.role,
+      role: account.role,
+      sessionId: decoded.sessionId,
     };
 
     // Continue with connection
@@ -49,6 +67,27 @@ export function socketAuthMiddleware(socket: AuthenticatedSocket, next: (err?: E
   }
 }
 
+/**
+ * Socket.IO workspace middleware
+ * Loads the workspaces of the authenticated user so the socket can join
+ * their rooms as soon as it connects
+ * @param socket - Authenticated Socket.IO socket instance
+ * @param next - Callback to continue or reject connection
+ */
+export async function socketWorkspaceMiddleware(
+  socket: AuthenticatedSocket,
+  next: (err?: Error) => void
+): Promise<void> {
+  try {
+    const workspaces = await Workspace.find({ 'members.userId': socket.user?.userId }).select('_id');
+    socket.workspaceIds = workspaces.map((workspace) => workspace._id.toString());
+    next();
+  } catch (error) {
+    console.error('Failed to load workspaces for socket:', error);
+    next(new Error('Could not load workspaces'));
+  }
+}
+
 /**
  * Initialize Socket.IO server with Express HTTP server
  * @param httpServer - HTTP server instance from Express
@@ -69,6 +108,7 @@ export function initializeSocketIO(httpServer: HTTPServer): SocketIOServer {
 
   // Apply authentication middleware
   io.use(socketAuthMiddleware);
+  io.use(socketWorkspaceMiddleware);
 
   // Set up connection event handler
   io.on('connection', (socket: AuthenticatedSocket) => {
@@ -80,6 +120,11 @@ export function initializeSocketIO(httpServer: HTTPServer): SocketIOServer {
       console.log(`User ${socket.user.userId} joined their room`);
     }
 
+    // Join the rooms of the user's workspaces for task events
+    for (const workspaceId of socket.workspaceIds || []) {
+      socket.join(workspaceRoom(workspaceId));
+    }
+
     // Handle disconnection
     socket.on('disconnect', (reason) => {
       console.log(`Socket disconnected: ${socket.id}, reason: ${reason}`);
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createDiskStorage } from './diskStorage';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('Disk Storage', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'taskmgr-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should save, read and remove files under nested keys', async () => {
+    const storage = createDiskStorage(rootDir);
+
+    await storage.save('tasks/abc/file-1', Buffer.from('hello'));
+    expect(await readAll(await storage.read('tasks/abc/file-1'))).toBe('hello');
+
+    await storage.remove('tasks/abc/file-1');
+    await expect(storage.read('tasks/abc/file-1')).rejects.toThrow();
+  });
+
+  it('should ignore removing a missing file', async () => {
+    const storage = createDiskStorage(rootDir);
+
+    await expect(storage.remove('tasks/missing')).resolves.toBeUndefined();
+  });
+
+  it('should reject keys leaving the root directory', async () => {
+    const storage = createDiskStorage(rootDir);
+
+    await expect(storage.save('../outside', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(storage.read('/etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
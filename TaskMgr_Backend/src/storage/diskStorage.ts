@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { FileStorage } from './types';
+
+/**
+ * Create a storage keeping files under a directory of the local disk
+ * @param rootDir Directory holding the files, created when missing
+ */
+export function createDiskStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+
+  // Keys never leave the root directory
+  const resolve = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, content) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, content);
+    },
+
+    async read(key) {
+      const filePath = resolve(key);
+      // Fail before streaming so a missing file is not a broken response
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      return fs.createReadStream(filePath) as Readable;
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+}
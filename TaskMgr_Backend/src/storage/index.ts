@@ -0,0 +1,37 @@
+/**
+ * Attachment storage
+ * The backend is chosen with ATTACHMENT_STORAGE, new backends implement
+ * FileStorage and are added to getStorage
+ */
+import { config } from '../config';
+import { FileStorage } from './types';
+import { createDiskStorage } from './diskStorage';
+
+export type { FileStorage } from './types';
+export { createDiskStorage } from './diskStorage';
+
+let storage: FileStorage | null = null;
+
+/**
+ * Get the configured attachment storage
+ * @throws Error if ATTACHMENT_STORAGE names an unknown backend
+ */
+export function getStorage(): FileStorage {
+  if (!storage) {
+    switch (config.attachmentStorage) {
+      case 'local':
+        storage = createDiskStorage(config.attachmentStorageDir);
+        break;
+      default:
+        throw new Error(`Unknown attachment storage "${config.attachmentStorage}"`);
+    }
+  }
+  return storage;
+}
+
+/**
+ * Replace the attachment storage, used by tests
+ */
+export function setStorage(replacement: FileStorage | null): void {
+  storage = replacement;
+}
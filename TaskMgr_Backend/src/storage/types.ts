@@ -0,0 +1,15 @@
+import { Readable } from 'stream';
+
+/**
+ * Backend keeping the content of attachments
+ * Keys are generated by the attachment service and only contain letters,
+ * digits, dashes and slashes
+ */
+export interface FileStorage {
+  /** Store content under a key, replacing any previous content */
+  save(key: string, content: Buffer): Promise<void>;
+  /** Stream the content of a key, rejects if it does not exist */
+  read(key: string): Promise<Readable>;
+  /** Delete the content of a key, does nothing if it does not exist */
+  remove(key: string): Promise<void>;
+}
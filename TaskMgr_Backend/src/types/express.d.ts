@@ -1,9 +1,12 @@
 import { AuthTokenPayload } from '../utils/jwt';
+import { TaskQuery } from '../utils/taskQuery';
 
 declare global {
   namespace Express {
     interface Request {
       user?: AuthTokenPayload;
+      // Filters of the q parameter, set by the task list validation
+      taskQuery?: TaskQuery;
     }
   }
 }
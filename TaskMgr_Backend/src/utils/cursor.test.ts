@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import {
+  SortOrder,
+  cursorQuery,
+  decodeCursor,
+  encodeCursor,
+  keysetQuery,
+  reverseOrder,
+  toCursorPage,
+} from './cursor';
+
+const ORDER: SortOrder = { dueDate: 1, _id: 1 };
+
+describe('Cursor Utilities', () => {
+  describe('encodeCursor and decodeCursor', () => {
+    it('should round-trip dates, ObjectIds and missing values', () => {
+      const id = new mongoose.Types.ObjectId();
+      const dueDate = new Date('2026-03-01T10:00:00Z');
+
+      const values = decodeCursor(encodeCursor('dueDate', ORDER, { _id: id, dueDate }), 'dueDate', ORDER);
+      expect(values[0]).toEqual(dueDate);
+      expect((values[1] as mongoose.Types.ObjectId).equals(id)).toBe(true);
+
+      const undated = decodeCursor(encodeCursor('dueDate', ORDER, { _id: id }), 'dueDate', ORDER);
+      expect(undated[0]).toBeNull();
+    });
+
+    it('should produce URL-safe cursors', () => {
+      const cursor = encodeCursor('dueDate', ORDER, { _id: new mongoose.Types.ObjectId(), dueDate: new Date() });
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject malformed cursors and cursors of another order', () => {
+      const cursor = encodeCursor('dueDate', ORDER, { _id: new mongoose.Types.ObjectId() });
+
+      expect(() => decodeCursor('not a cursor', 'dueDate', ORDER)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(cursor, 'dueDate', { _id: 1 })).toThrow('Invalid cursor');
+      expect(() => decodeCursor(cursor, '-createdAt', ORDER)).toThrow('another sort');
+    });
+
+    it('should reject cursors carrying query operators', () => {
+      const forge = (values: unknown[]) => Buffer.from(JSON.stringify({ s: 'dueDate', v: values })).toString('base64url');
+
+      expect(() => decodeCursor(forge([{ $ne: null }, 'a']), 'dueDate', ORDER)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(forge([null, ['a']]), 'dueDate', ORDER)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(forge([true, 1]), 'dueDate', ORDER)).toThrow('Invalid cursor');
+      expect(decodeCursor(forge([null, 'a']), 'dueDate', ORDER)).toEqual([null, 'a']);
+    });
+  });
+
+  describe('keysetQuery', () => {
+    it('should match the items past the position, field by field', () => {
+      const dueDate = new Date('2026-03-01T10:00:00Z');
+
+      expect(keysetQuery({ dueDate: 1, _id: -1 }, [dueDate, 'id'], 'after')).toEqual({
+        $or: [{ dueDate: { $gt: dueDate } }, { dueDate, _id: { $lt: 'id' } }],
+      });
+      expect(keysetQuery({ dueDate: 1, _id: -1 }, [dueDate, 'id'], 'before')).toEqual({
+        $or: [{ dueDate: { $lt: dueDate } }, { dueDate, _id: { $gt: 'id' } }],
+      });
+    });
+  });
+
+  describe('cursorQuery', () => {
+    it('should read the first page after an empty cursor and the last one before it', () => {
+      expect(cursorQuery({ after: '', limit: 10 }, 'dueDate', ORDER)).toEqual({ query: {}, sort: ORDER });
+      expect(cursorQuery({ before: '', limit: 10 }, 'dueDate', ORDER)).toEqual({
+        query: {},
+        sort: reverseOrder(ORDER),
+      });
+    });
+  });
+
+  describe('toCursorPage', () => {
+    const cursorOf = (item: number) => `c${item}`;
+
+    it('should point to the next page when more items follow', () => {
+      expect(toCursorPage([1, 2, 3], { after: '', limit: 2 }, cursorOf)).toEqual({
+        items: [1, 2],
+        limit: 2,
+        nextCursor: 'c2',
+        prevCursor: null,
+      });
+      expect(toCursorPage([3, 4], { after: 'c2', limit: 2 }, cursorOf)).toEqual({
+        items: [3, 4],
+        limit: 2,
+        nextCursor: null,
+        prevCursor: 'c3',
+      });
+    });
+
+    it('should restore the list order of pages read before a cursor', () => {
+      // Read in reverse, nearest to the cursor first
+      expect(toCursorPage([4, 3, 2], { before: 'c5', limit: 2 }, cursorOf)).toEqual({
+        items: [3, 4],
+        limit: 2,
+        nextCursor: 'c4',
+        prevCursor: 'c3',
+      });
+      expect(toCursorPage([2, 1], { before: 'c3', limit: 2 }, cursorOf)).toEqual({
+        items: [1, 2],
+        limit: 2,
+        nextCursor: 'c2',
+        prevCursor: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+
+/**
+ * Cursor pagination utilities
+ * A cursor holds the sort values of an item, so the next page starts right
+ * after it whatever was created or deleted meanwhile. Cursors are opaque to
+ * clients: base64url encoded EJSON, which keeps dates and ObjectIds typed
+ */
+
+// Fields of a $sort stage in order, ending with _id so every item has its own position.
+// A field that can be null must follow one that sets nulls apart, as _noDueDate does for dueDate
+export type SortOrder = Record<string, 1 | -1>;
+
+/**
+ * Page requested by cursor
+ * An empty after reads the first page, an empty before the last one
+ */
+export interface CursorParams {
+  after?: string;
+  before?: string;
+  limit: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  limit: number;
+  // Cursor of the last item when more items follow, for after
+  nextCursor: string | null;
+  // Cursor of the first item when items precede it, for before
+  prevCursor: string | null;
+}
+
+const { EJSON, ObjectId } = mongoose.mongo.BSON;
+
+// Values a sort field can hold. Anything else, such as { $ne: null }, would be
+// run as a query operator by keysetQuery
+function isSortValue(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    value instanceof Date ||
+    value instanceof ObjectId
+  );
+}
+
+/**
+ * Encode the position of an item in a list
+ * @param scope - Identifies the list order, such as the sort it was requested with
+ * @param order - Sort of the list
+ * @param item - Item, with every field of the sort
+ * @returns Cursor pointing at the item
+ */
+export function encodeCursor(scope: string, order: SortOrder, item: object): string {
+  const values = Object.keys(order).map((field) => (item as Record<string, unknown>)[field] ?? null);
+  return Buffer.from(EJSON.stringify({ s: scope, v: values })).toString('base64url');
+}
+
+/**
+ * Decode a cursor of the same list
+ * @param cursor - Cursor returned with a previous page
+ * @param scope - Identifies the list order, must match the one of the cursor
+ * @param order - Sort of the list
+ * @returns Sort values of the item the cursor points at
+ * @throws Error when the cursor is malformed, holds other values than sort
+ * values, or belongs to another order
+ */
+export function decodeCursor(cursor: string, scope: string, order: SortOrder): unknown[] {
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = EJSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (
+    !decoded ||
+    !Array.isArray(decoded.v) ||
+    decoded.v.length !== Object.keys(order).length ||
+    !decoded.v.every(isSortValue)
+  ) {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.s !== scope) {
+    throw new Error('The cursor belongs to a list with another sort');
+  }
+
+  return decoded.v;
+}
+
+/**
+ * Query matching the items after, or before, a position in a list
+ * For fields f1..fn it matches f1 past v1, or f1 = v1 and f2 past v2, and so on
+ * @param order - Sort of the list
+ * @param values - Sort values of the position, from decodeCursor
+ * @param direction - 'after' for the items that follow the position, 'before' for those preceding it
+ */
+export function keysetQuery(
+  order: SortOrder,
+  values: unknown[],
+  direction: 'after' | 'before'
+): Record<string, unknown> {
+  const fields = Object.keys(order);
+
+  const branches = fields.map((field, index) => {
+    const ascending = (order[field] === 1) === (direction === 'after');
+    const branch: Record<string, unknown> = {};
+    fields.slice(0, index).forEach((previous, i) => {
+      branch[previous] = values[i];
+    });
+    branch[field] = { [ascending ? '$gt' : '$lt']: values[index] };
+    return branch;
+  });
+
+  return { $or: branches };
+}
+
+/**
+ * The same sort in the opposite direction, to read the items before a position
+ */
+export function reverseOrder(order: SortOrder): SortOrder {
+  return Object.fromEntries(Object.entries(order).map(([field, direction]) => [field, -direction])) as SortOrder;
+}
+
+/**
+ * Query and sort reading the page of a cursor
+ * The sort is reversed for pages read before a cursor, see toCursorPage
+ * @param params - Requested page
+ * @param scope - Identifies the list order
+ * @param order - Sort of the list
+ * @throws Error when the cursor is invalid
+ */
+export function cursorQuery(
+  params: CursorParams,
+  scope: string,
+  order: SortOrder
+): { query: Record<string, unknown>; sort: SortOrder } {
+  if (params.before !== undefined) {
+    return {
+      query: params.before ? keysetQuery(order, decodeCursor(params.before, scope, order), 'before') : {},
+      sort: reverseOrder(order),
+    };
+  }
+
+  return {
+    query: params.after ? keysetQuery(order, decodeCursor(params.after, scope, order), 'after') : {},
+    sort: order,
+  };
+}
+
+/**
+ * Build a page from the items read with cursorQuery, limited to limit + 1
+ * @param rows - Items in reading order
+ * @param params - Requested page
+ * @param cursorOf - Cursor of an item, from encodeCursor
+ * @returns The items in list order and the cursors of the neighbouring pages
+ */
+export function toCursorPage<T>(rows: T[], params: CursorParams, cursorOf: (row: T) => string): CursorPage<T> {
+  const hasMore = rows.length > params.limit;
+  const items = rows.slice(0, params.limit);
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  if (params.before !== undefined) {
+    items.reverse();
+    return {
+      items,
+      limit: params.limit,
+      nextCursor: params.before && first ? cursorOf(first) : null,
+      prevCursor: hasMore ? cursorOf(last) : null,
+    };
+  }
+
+  return {
+    items,
+    limit: params.limit,
+    nextCursor: hasMore ? cursorOf(last) : null,
+    prevCursor: params.after && first ? cursorOf(first) : null,
+  };
+}
@@ -0,0 +1,83 @@
+import fc from 'fast-check';
+import { dependsOn, wouldCreateCycle, BlockerLoader } from './dependencyGraph';
+
+// In-memory loader over an adjacency list of task -> blockers
+function loaderFor(graph: Record<string, string[]>): BlockerLoader {
+  return async (taskIds) => new Map(taskIds.map((id) => [id, graph[id] || []]));
+}
+
+// Reference reachability by depth-first search
+function reachable(graph: Record<string, string[]>, from: string, to: string): boolean {
+  const seen = new Set<string>();
+  const stack = [from];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === to) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(graph[id] || []));
+  }
+  return false;
+}
+
+const nodeArb = fc.integer({ min: 0, max: 7 }).map((n) => `t${n}`);
+const graphArb = fc
+  .array(fc.tuple(nodeArb, nodeArb), { maxLength: 20 })
+  .map((edges) => {
+    const graph: Record<string, string[]> = {};
+    for (const [task, blocker] of edges) {
+      (graph[task] = graph[task] || []).push(blocker);
+    }
+    return graph;
+  });
+
+describe('Dependency Graph', () => {
+  describe('dependsOn', () => {
+    it('should match reachability over blockedBy relations for any graph', async () => {
+      await fc.assert(
+        fc.asyncProperty(graphArb, nodeArb, nodeArb, async (graph, from, to) => {
+          expect(await dependsOn(from, to, loaderFor(graph))).toBe(reachable(graph, from, to));
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should terminate on graphs that already contain cycles', async () => {
+      const graph = { a: ['b'], b: ['c'], c: ['a'] };
+
+      expect(await dependsOn('a', 'c', loaderFor(graph))).toBe(true);
+      expect(await dependsOn('a', 'd', loaderFor(graph))).toBe(false);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should reject self dependencies and direct or transitive back edges', async () => {
+      const loader = loaderFor({ deploy: ['migrate'], migrate: ['design'] });
+
+      expect(await wouldCreateCycle('deploy', 'deploy', loader)).toBe(true);
+      expect(await wouldCreateCycle('migrate', 'deploy', loader)).toBe(true);
+      expect(await wouldCreateCycle('design', 'deploy', loader)).toBe(true);
+      expect(await wouldCreateCycle('deploy', 'design', loader)).toBe(false);
+    });
+
+    it('should never let accepted edges form a cycle', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.array(fc.tuple(nodeArb, nodeArb), { maxLength: 30 }), async (edges) => {
+          const graph: Record<string, string[]> = {};
+          for (const [task, blocker] of edges) {
+            if (!(await wouldCreateCycle(task, blocker, loaderFor(graph)))) {
+              (graph[task] = graph[task] || []).push(blocker);
+            }
+          }
+
+          for (const task of Object.keys(graph)) {
+            for (const blocker of graph[task]) {
+              expect(reachable(graph, blocker, task)).toBe(false);
+            }
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
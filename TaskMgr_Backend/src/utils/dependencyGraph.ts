@@ -0,0 +1,62 @@
+/**
+ * Load the blockers of a set of tasks
+ * @param taskIds - IDs of the tasks to expand
+ * @returns Map from task ID to the IDs of the tasks blocking it
+ */
+export type BlockerLoader = (taskIds: string[]) => Promise<Map<string, string[]>>;
+
+/**
+ * Check whether a task depends on another one, directly or transitively
+ * Walks the blockedBy relations breadth first, loading one level at a time
+ * @param taskId - Task to start from
+ * @param targetId - Task to look for among the blockers
+ * @param loadBlockers - Loads the blockers of a level of the graph
+ * @returns true if targetId blocks taskId, or both are the same task
+ */
+export async function dependsOn(
+  taskId: string,
+  targetId: string,
+  loadBlockers: BlockerLoader
+): Promise<boolean> {
+  if (taskId === targetId) {
+    return true;
+  }
+
+  const visited = new Set<string>([taskId]);
+  let frontier = [taskId];
+
+  while (frontier.length > 0) {
+    const blockers = await loadBlockers(frontier);
+    const next: string[] = [];
+
+    for (const id of frontier) {
+      for (const blockerId of blockers.get(id) || []) {
+        if (blockerId === targetId) {
+          return true;
+        }
+        if (!visited.has(blockerId)) {
+          visited.add(blockerId);
+          next.push(blockerId);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return false;
+}
+
+/**
+ * Check whether making a task blocked by another one would create a cycle
+ * @param taskId - Task that would be blocked
+ * @param blockerId - Task that would block it
+ * @param loadBlockers - Loads the blockers of a level of the graph
+ */
+export function wouldCreateCycle(
+  taskId: string,
+  blockerId: string,
+  loadBlockers: BlockerLoader
+): Promise<boolean> {
+  return dependsOn(blockerId, taskId, loadBlockers);
+}
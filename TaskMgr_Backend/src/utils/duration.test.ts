@@ -0,0 +1,46 @@
+import fc from 'fast-check';
+import { parseDuration, parseDurationList, formatDuration } from './duration';
+
+describe('Duration Utilities', () => {
+  describe('parseDuration', () => {
+    it('should parse each supported unit', () => {
+      expect(parseDuration('90s')).toBe(90 * 1000);
+      expect(parseDuration('15m')).toBe(15 * 60 * 1000);
+      expect(parseDuration('24h')).toBe(24 * 60 * 60 * 1000);
+      expect(parseDuration(' 7D ')).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject malformed and zero durations', () => {
+      expect(() => parseDuration('')).toThrow();
+      expect(() => parseDuration('10')).toThrow();
+      expect(() => parseDuration('1w')).toThrow();
+      expect(() => parseDuration('-1h')).toThrow();
+      expect(() => parseDuration('0m')).toThrow();
+    });
+  });
+
+  describe('parseDurationList', () => {
+    it('should return unique durations sorted largest first', () => {
+      expect(parseDurationList('1h, 24h,,60m')).toEqual([24 * 60 * 60 * 1000, 60 * 60 * 1000]);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format durations with their largest whole unit', () => {
+      expect(formatDuration(parseDuration('24h'))).toBe('1 day');
+      expect(formatDuration(parseDuration('1h'))).toBe('1 hour');
+      expect(formatDuration(parseDuration('90m'))).toBe('90 minutes');
+    });
+
+    it('should round-trip through parseDuration for any whole number of hours', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 1000 }), (hours) => {
+          const ms = parseDuration(`${hours}h`);
+          const [count, unit] = formatDuration(ms).split(' ');
+          expect(parseDuration(`${count}${unit.charAt(0)}`)).toBe(ms);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,62 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const UNIT_NAMES: Array<[number, string]> = [
+  [UNIT_MS.d, 'day'],
+  [UNIT_MS.h, 'hour'],
+  [UNIT_MS.m, 'minute'],
+  [UNIT_MS.s, 'second'],
+];
+
+/**
+ * Parse a duration such as "90s", "15m", "24h" or "7d" into milliseconds
+ * @param value - Duration string, a number followed by one of s, m, h, d
+ * @returns Duration in milliseconds
+ * @throws Error if the duration is malformed or not positive
+ */
+export function parseDuration(value: string): number {
+  const match = /^\s*(\d+)\s*([smhd])\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Expected a number followed by s, m, h or d`);
+  }
+
+  const ms = parseInt(match[1], 10) * UNIT_MS[match[2].toLowerCase()];
+  if (ms <= 0) {
+    throw new Error(`Invalid duration "${value}". Duration must be positive`);
+  }
+
+  return ms;
+}
+
+/**
+ * Parse a comma-separated list of durations
+ * @param value - List such as "24h,1h"
+ * @returns Unique durations in milliseconds, largest first
+ */
+export function parseDurationList(value: string): number[] {
+  const durations = value
+    .split(',')
+    .filter((part) => part.trim().length > 0)
+    .map(parseDuration);
+
+  return [...new Set(durations)].sort((a, b) => b - a);
+}
+
+/**
+ * Format a duration in milliseconds for humans, using its largest whole unit
+ * @param ms - Duration in milliseconds
+ * @returns Text such as "1 hour" or "30 minutes"
+ */
+export function formatDuration(ms: number): string {
+  for (const [unitMs, name] of UNIT_NAMES) {
+    if (ms >= unitMs && ms % unitMs === 0) {
+      const count = ms / unitMs;
+      return `${count} ${name}${count === 1 ? '' : 's'}`;
+    }
+  }
+  return `${ms} ms`;
+}
@@ -8,6 +8,8 @@ export interface AuthTokenPayload {
   userId: string;
   email: string;
   role: string;
+  /** ID of the session the token was issued for */
+  sessionId?: string;
 }
 
 /**
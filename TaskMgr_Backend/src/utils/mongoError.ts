@@ -0,0 +1,12 @@
+/**
+ * MongoDB error utilities
+ */
+
+/**
+ * Whether an error is a write refused by a unique index
+ * Claims rely on it: the first insert wins, the others get this error
+ * @param error - Error thrown by a write
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as any).code === 11000;
+}
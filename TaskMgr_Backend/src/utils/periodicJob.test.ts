@@ -0,0 +1,67 @@
+import { createPeriodicJob, PeriodicJob } from './periodicJob';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Periodic Job', () => {
+  let job: PeriodicJob;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await job.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should run immediately with the time of the clock, then once per interval', async () => {
+    const now = new Date('2030-01-01T00:00:00.000Z');
+    const run = jest.fn(async () => undefined);
+
+    job = createPeriodicJob({ name: 'Test job', intervalMs: 10, clock: () => now, run });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith(now);
+    await wait(50);
+    expect(run.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it('should never overlap runs and wait for the current one when stopped', async () => {
+    let active = 0;
+    let overlapped = false;
+    let finished = 0;
+
+    job = createPeriodicJob({
+      name: 'Slow job',
+      intervalMs: 1,
+      run: async () => {
+        active++;
+        overlapped = overlapped || active > 1;
+        await wait(20);
+        active--;
+        finished++;
+      },
+    });
+
+    await wait(5);
+    await job.stop();
+
+    expect(overlapped).toBe(false);
+    expect(finished).toBe(1);
+    await wait(30);
+    expect(finished).toBe(1);
+  });
+
+  it('should log failed runs and keep running', async () => {
+    const run = jest.fn(async () => {
+      throw new Error('Database unavailable');
+    });
+
+    job = createPeriodicJob({ name: 'Failing job', intervalMs: 5, run });
+    await wait(30);
+
+    expect(run.mock.calls.length).toBeGreaterThan(1);
+    expect(console.error).toHaveBeenCalledWith('Failing job run failed:', expect.any(Error));
+  });
+});
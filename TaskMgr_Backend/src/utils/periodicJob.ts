@@ -0,0 +1,81 @@
+/**
+ * Periodic jobs
+ * Background work such as deadline reminders or the email queue, run once
+ * on start and then once per interval until stopped
+ */
+
+/**
+ * Source of the current time, injectable for tests
+ */
+export type Clock = () => Date;
+
+export interface PeriodicJobOptions {
+  /** Name of the job in the logs, such as "Deadline reminder scheduler" */
+  name: string;
+  /** Delay between the end of a run and the start of the next, in milliseconds */
+  intervalMs: number;
+  /** Source of the current time, the system clock by default */
+  clock?: Clock;
+  /** One run of the job. Failures are logged and the next run happens as planned */
+  run: (now: Date) => Promise<void>;
+}
+
+export interface PeriodicJob {
+  /**
+   * Stop the job
+   * Waits for a run in progress to finish so shutdown does not cut it off
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a periodic job
+ * Runs a first time immediately, then once per interval.
+ * Runs never overlap: the next one is scheduled when the previous ends
+ * @param options - Job name, interval and run function
+ * @returns Handle stopping the job
+ */
+export function createPeriodicJob(options: PeriodicJobOptions): PeriodicJob {
+  const { name, intervalMs, clock = () => new Date(), run } = options;
+  let timer: NodeJS.Timeout | null = null;
+  let currentRun: Promise<void> | null = null;
+  let isRunning = true;
+
+  const tick = (): void => {
+    timer = null;
+    currentRun = run(clock())
+      .catch((error) => {
+        console.error(`${name} run failed:`, error);
+      })
+      .finally(() => {
+        currentRun = null;
+        if (isRunning) {
+          timer = setTimeout(tick, intervalMs);
+        }
+      });
+  };
+
+  tick();
+  console.log(`✓ ${name} started`);
+
+  return {
+    async stop() {
+      if (!isRunning) {
+        return;
+      }
+
+      isRunning = false;
+
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      if (currentRun) {
+        await currentRun;
+      }
+
+      console.log(`✓ ${name} stopped`);
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import fc from 'fast-check';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  nextOccurrence,
+  RecurrenceRule,
+  WEEKDAYS,
+} from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateArb = fc
+  .integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2030, 0, 1) })
+  .map((ms) => new Date(Math.floor(ms / 1000) * 1000));
+
+const ruleArb: fc.Arbitrary<RecurrenceRule> = fc.oneof(
+  fc.record({ freq: fc.constant('DAILY' as const), interval: fc.integer({ min: 1, max: 30 }) }),
+  fc.record({
+    freq: fc.constant('WEEKLY' as const),
+    interval: fc.integer({ min: 1, max: 4 }),
+    byDay: fc.subarray([...WEEKDAYS], { minLength: 1 }),
+  }),
+  fc.record({
+    freq: fc.constant('MONTHLY' as const),
+    interval: fc.integer({ min: 1, max: 12 }),
+    byMonthDay: fc.oneof(fc.integer({ min: 1, max: 31 }), fc.integer({ min: -31, max: -1 })),
+  })
+);
+
+// Reference definition of an occurrence, checked date by date
+function matches(rule: RecurrenceRule, first: Date, date: Date): boolean {
+  const days = Math.round((date.getTime() - first.getTime()) / DAY_MS);
+  if ((date.getTime() - first.getTime()) % DAY_MS !== 0) return false;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return days % rule.interval === 0;
+    case 'WEEKLY': {
+      const mondayOffset = (first.getUTCDay() + 6) % 7;
+      const weeks = Math.floor((days + mondayOffset) / 7);
+      return weeks % rule.interval === 0 && rule.byDay!.includes(WEEKDAYS[date.getUTCDay()]);
+    }
+    case 'MONTHLY': {
+      const months =
+        (date.getUTCFullYear() - first.getUTCFullYear()) * 12 + date.getUTCMonth() - first.getUTCMonth();
+      const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      const day = rule.byMonthDay! > 0 ? rule.byMonthDay! : daysInMonth + rule.byMonthDay! + 1;
+      return months % rule.interval === 0 && date.getUTCDate() === day;
+    }
+  }
+}
+
+describe('Recurrence Utilities', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should parse the supported subset', () => {
+      expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=we,MO')).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        byDay: ['MO', 'WE'],
+      });
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=12')).toEqual({
+        freq: 'MONTHLY',
+        interval: 1,
+        byMonthDay: -1,
+        count: 12,
+      });
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261231').until).toEqual(
+        new Date('2026-12-31T23:59:59Z')
+      );
+    });
+
+    it('should reject rules outside the subset', () => {
+      expect(() => parseRecurrenceRule('')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;BYDAY=MO')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=0')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=2;UNTIL=20260101')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;UNTIL=20260230')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;FREQ=WEEKLY')).toThrow();
+      expect(() => parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).toThrow();
+    });
+
+    it('should round-trip through formatRecurrenceRule', () => {
+      fc.assert(
+        fc.property(ruleArb, fc.option(dateArb, { nil: undefined }), (rule, until) => {
+          const withEnd = until ? { ...rule, until } : rule;
+          expect(parseRecurrenceRule(formatRecurrenceRule(withEnd))).toEqual(withEnd);
+        })
+      );
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    const start = new Date('2026-01-07T09:00:00Z'); // Wednesday
+
+    it('should step daily rules by their interval', () => {
+      const rule = parseRecurrenceRule('FREQ=DAILY;INTERVAL=3');
+      expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-01-10T09:00:00Z'));
+      expect(nextOccurrence(rule, start, new Date('2026-01-10T10:00:00Z'))).toEqual(
+        new Date('2026-01-13T09:00:00Z')
+      );
+    });
+
+    it('should follow the chosen weekdays of active weeks', () => {
+      const weekly = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE');
+      expect(nextOccurrence(weekly, start, start)).toEqual(new Date('2026-01-12T09:00:00Z'));
+
+      const biweekly = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+      expect(nextOccurrence(biweekly, start, start)).toEqual(new Date('2026-01-19T09:00:00Z'));
+      expect(nextOccurrence(biweekly, start, new Date('2026-01-19T09:00:00Z'))).toEqual(
+        new Date('2026-01-21T09:00:00Z')
+      );
+    });
+
+    it('should skip months without the chosen day and count negative days from the end', () => {
+      const monthEnd = new Date('2026-01-31T09:00:00Z');
+      const on31st = parseRecurrenceRule('FREQ=MONTHLY');
+      expect(nextOccurrence(on31st, monthEnd, monthEnd)).toEqual(new Date('2026-03-31T09:00:00Z'));
+
+      const lastDay = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+      expect(nextOccurrence(lastDay, monthEnd, monthEnd)).toEqual(new Date('2026-02-28T09:00:00Z'));
+    });
+
+    it('should end the series after UNTIL', () => {
+      const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20260108');
+      expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-01-08T09:00:00Z'));
+      expect(nextOccurrence(rule, start, new Date('2026-01-08T09:00:00Z'))).toBeNull();
+    });
+
+    it('should return the earliest matching date strictly after the given one', () => {
+      fc.assert(
+        fc.property(ruleArb, dateArb, fc.integer({ min: -40, max: 400 }), (rule, first, offsetDays) => {
+          const after = new Date(first.getTime() + offsetDays * DAY_MS);
+          const next = nextOccurrence(rule, first, after);
+
+          // Only monthly rules on a day their month never has can run out
+          if (!next) {
+            expect(rule.freq).toBe('MONTHLY');
+            return;
+          }
+
+          expect(next > after).toBe(true);
+          expect(next >= first).toBe(true);
+          expect(matches(rule, first, next)).toBe(true);
+
+          for (let day = next.getTime() - DAY_MS; day > after.getTime() && day >= first.getTime(); day -= DAY_MS) {
+            expect(matches(rule, first, new Date(day))).toBe(false);
+          }
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Recurrence rules
+ * Supports the subset of RFC 5545 RRULE used by recurring tasks:
+ * FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (weekly, plain weekdays),
+ * BYMONTHDAY (monthly, a single day, negative counts from the end of the
+ * month), and either UNTIL or COUNT. Dates are computed in UTC and keep the
+ * time of day of the first occurrence
+ */
+
+export const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  /** Weekdays of weekly rules, defaults to the weekday of the first occurrence */
+  byDay?: Weekday[];
+  /** Day of monthly rules, defaults to the day of the first occurrence */
+  byMonthDay?: number;
+  /** Last possible occurrence, inclusive */
+  until?: Date;
+  /** Total number of occurrences, including the first one */
+  count?: number;
+}
+
+export const MAX_INTERVAL = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Months scanned for a valid day before giving up, covers BYMONTHDAY=29 in February
+const MAX_MONTH_SCAN = 12 * 8;
+
+function parsePositiveInt(name: string, value: string, max?: number): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1 || (max && parseInt(value, 10) > max)) {
+    throw new Error(`Invalid ${name} "${value}"${max ? `, expected 1 to ${max}` : ''}`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL "${value}", expected YYYYMMDD or YYYYMMDDTHHMMSSZ`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  // A date without time includes the whole day
+  const date = hours
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+
+  if (date.getUTCDate() !== +day || date.getUTCMonth() !== +month - 1) {
+    throw new Error(`Invalid UNTIL "${value}"`);
+  }
+
+  return date;
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a recurrence rule
+ * @param value - Rule such as "FREQ=WEEKLY;BYDAY=MO,WE", with or without the "RRULE:" prefix
+ * @returns Parsed rule
+ * @throws Error if the rule is malformed or outside the supported subset
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter((part) => part.length > 0);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, fieldValue, ...rest] = part.split('=');
+    const name = key.toUpperCase();
+    if (rest.length > 0 || !fieldValue) {
+      throw new Error(`Invalid recurrence part "${part}"`);
+    }
+    if (fields.has(name)) {
+      throw new Error(`Duplicate recurrence part ${name}`);
+    }
+    fields.set(name, fieldValue.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (!freq || !(FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq: freq as Frequency, interval: 1 };
+
+  for (const [name, fieldValue] of fields) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt('INTERVAL', fieldValue, MAX_INTERVAL);
+        break;
+      case 'BYDAY': {
+        if (rule.freq !== 'WEEKLY') {
+          throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+        }
+        const days = fieldValue.split(',');
+        if (days.some((day) => !(WEEKDAYS as readonly string[]).includes(day))) {
+          throw new Error(`Invalid BYDAY "${fieldValue}"`);
+        }
+        // Stored in week order without duplicates
+        rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+        break;
+      }
+      case 'BYMONTHDAY': {
+        if (rule.freq !== 'MONTHLY') {
+          throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        }
+        const day = /^-?\d+$/.test(fieldValue) ? parseInt(fieldValue, 10) : NaN;
+        if (!(Math.abs(day) >= 1 && Math.abs(day) <= 31)) {
+          throw new Error(`Invalid BYMONTHDAY "${fieldValue}", expected 1 to 31 or -31 to -1`);
+        }
+        rule.byMonthDay = day;
+        break;
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(fieldValue);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt('COUNT', fieldValue);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence part ${name}`);
+    }
+  }
+
+  if (rule.until && rule.count) {
+    throw new Error('UNTIL and COUNT cannot be combined');
+  }
+
+  return rule;
+}
+
+/**
+ * Format a recurrence rule, the inverse of parseRecurrenceRule
+ * @param rule - Recurrence rule
+ * @returns Rule without the "RRULE:" prefix
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+}
+
+function dayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+function weekdayOf(day: number): number {
+  // Day 0, 1970-01-01, was a Thursday
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+// Weeks start on Monday, the RFC 5545 default
+function weekStart(day: number): number {
+  return day - ((weekdayOf(day) + 6) % 7);
+}
+
+function nextDaily(rule: RecurrenceRule, start: Date, after: Date): Date {
+  const step = rule.interval * DAY_MS;
+  const elapsed = after.getTime() - start.getTime();
+  const steps = elapsed < 0 ? 0 : Math.floor(elapsed / step) + 1;
+  return new Date(start.getTime() + steps * step);
+}
+
+function nextWeekly(rule: RecurrenceRule, start: Date, after: Date): Date {
+  const startDay = dayNumber(start);
+  const timeOfDay = start.getTime() - startDay * DAY_MS;
+  const weekdays = (rule.byDay && rule.byDay.length > 0 ? rule.byDay : [WEEKDAYS[weekdayOf(startDay)]]).map(
+    (day) => WEEKDAYS.indexOf(day)
+  );
+  const firstWeek = weekStart(startDay);
+
+  // Every active week has one of the weekdays, so one cycle of weeks is enough
+  const from = Math.max(startDay, dayNumber(after));
+  for (let day = from; day <= from + 7 * (rule.interval + 1); day++) {
+    const weeks = (weekStart(day) - firstWeek) / 7;
+    const candidate = new Date(day * DAY_MS + timeOfDay);
+    if (weeks % rule.interval === 0 && weekdays.includes(weekdayOf(day)) && candidate > after) {
+      return candidate;
+    }
+  }
+
+  throw new Error('No weekly occurrence found');
+}
+
+function nextMonthly(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  const timeOfDay = start.getTime() - dayNumber(start) * DAY_MS;
+  const monthDay = rule.byMonthDay ?? start.getUTCDate();
+  const firstMonth = start.getUTCFullYear() * 12 + start.getUTCMonth();
+  const afterMonth = after.getUTCFullYear() * 12 + after.getUTCMonth();
+  const firstStep = Math.max(0, Math.floor((afterMonth - firstMonth) / rule.interval));
+
+  for (let step = firstStep; step <= firstStep + MAX_MONTH_SCAN; step++) {
+    const month = firstMonth + step * rule.interval;
+    const year = Math.floor(month / 12);
+    const daysInMonth = new Date(Date.UTC(year, (month % 12) + 1, 0)).getUTCDate();
+    const day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+
+    // Months without that day are skipped, as in RFC 5545
+    if (day < 1 || day > daysInMonth) {
+      continue;
+    }
+
+    const candidate = new Date(Date.UTC(year, month % 12, day) + timeOfDay);
+    if (candidate >= start && candidate > after) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the next occurrence of a recurring series
+ * COUNT is not applied here since it depends on how many occurrences the
+ * caller has already produced
+ * @param rule - Recurrence rule
+ * @param start - First occurrence of the series
+ * @param after - Returned occurrence is strictly after this date
+ * @returns Next occurrence, or null once the series is over
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  let next: Date | null;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      next = nextDaily(rule, start, after);
+      break;
+    case 'WEEKLY':
+      next = nextWeekly(rule, start, after);
+      break;
+    case 'MONTHLY':
+      next = nextMonthly(rule, start, after);
+      break;
+  }
+
+  if (next && rule.until && next > rule.until) {
+    return null;
+  }
+
+  return next;
+}
@@ -0,0 +1,13 @@
+/**
+ * Regular expression utilities
+ */
+
+/**
+ * Escape the characters that have a special meaning in a regular expression
+ * so user input can be matched literally
+ * @param value - Raw user input
+ * @returns Pattern matching the input literally
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,62 @@
+import { buildSnippet, matchesTerms, searchTerms } from './snippet';
+
+const highlighted = ({ text, highlights }: { text: string; highlights: Array<[number, number]> }) =>
+  highlights.map(([start, end]) => text.slice(start, end));
+
+describe('Snippet Utilities', () => {
+  describe('searchTerms', () => {
+    it('should return unique lower-case words without quotes or excluded words', () => {
+      expect(searchTerms('Login "sign up" -draft login')).toEqual(['login', 'sign', 'up']);
+      expect(searchTerms('   ')).toEqual([]);
+    });
+  });
+
+  describe('matchesTerms', () => {
+    it('should match terms at the start of words only', () => {
+      expect(matchesTerms('Running late', ['run'])).toBe(true);
+      expect(matchesTerms('Rerun the job', ['run'])).toBe(false);
+      expect(matchesTerms('Anything', [])).toBe(false);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should keep short texts whole and locate every match', () => {
+      const snippet = buildSnippet('Fix the login page, login fails on Safari', ['login', 'safari']);
+
+      expect(snippet.text).toBe('Fix the login page, login fails on Safari');
+      expect(snippet.highlights).toEqual([
+        [8, 13],
+        [20, 25],
+        [35, 41],
+      ]);
+    });
+
+    it('should collapse whitespace', () => {
+      expect(buildSnippet('First line\n\n  second line', []).text).toBe('First line second line');
+    });
+
+    it('should cut long texts around the first match', () => {
+      const text = `${'lorem ipsum '.repeat(20)}the deploy failed ${'dolor sit '.repeat(20)}`;
+
+      const snippet = buildSnippet(text, ['deploy'], 60);
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      expect(snippet.text.length).toBeLessThanOrEqual(62);
+      expect(highlighted(snippet)).toEqual(['deploy']);
+    });
+
+    it('should start at the beginning when the match is near it', () => {
+      const snippet = buildSnippet(`Deploy ${'word '.repeat(50)}`, ['deploy'], 40);
+
+      expect(snippet.text.startsWith('Deploy')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      expect(highlighted(snippet)).toEqual(['Deploy']);
+    });
+
+    it('should highlight stemmed matches and regular expression characters literally', () => {
+      expect(highlighted(buildSnippet('Tasks and task lists', ['task', 'tasks']))).toEqual(['Tasks', 'task']);
+      expect(highlighted(buildSnippet('Use a+b or ab', ['a+b']))).toEqual(['a+b']);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { escapeRegex } from './regex';
+
+/**
+ * Search snippets
+ * Excerpts of matching text with the position of the search terms, so
+ * clients can highlight them without rendering server-provided markup
+ */
+
+export interface Snippet {
+  text: string;
+  /** [start, end) offsets of the matches within text */
+  highlights: Array<[number, number]>;
+}
+
+const ELLIPSIS = '…';
+
+/**
+ * Words of a search query, as matched by highlights
+ * Quotes and the "-" of excluded words are dropped, excluded words are not highlighted
+ * @param query - Search query
+ * @returns Unique lower-case terms
+ */
+export function searchTerms(query: string): string[] {
+  const terms = query
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0 && !word.startsWith('-'))
+    .map((word) => word.toLowerCase());
+
+  return [...new Set(terms)];
+}
+
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) {
+    return null;
+  }
+  // Longest first so "tasks" is preferred over "task" at the same position
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegex);
+  // Terms match at the start of words, stemmed matches such as "running" for "run" included
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+/**
+ * Whether a text contains one of the terms at the start of a word
+ */
+export function matchesTerms(text: string, terms: string[]): boolean {
+  const pattern = termPattern(terms);
+  return !!pattern && pattern.test(text);
+}
+
+/**
+ * Cut an excerpt of a text around its first match and locate the matches in it
+ * @param text - Full text
+ * @param terms - Search terms, from searchTerms
+ * @param maxLength - Longest excerpt, ellipses excluded
+ * @returns The excerpt, with ellipses where the text was cut, and the matches in it
+ */
+export function buildSnippet(text: string, terms: string[], maxLength = 160): Snippet {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const pattern = termPattern(terms);
+
+  const first = pattern ? normalized.search(pattern) : -1;
+  let start = 0;
+  if (normalized.length > maxLength && first > maxLength / 3) {
+    // Keep some context before the first match, starting at a word
+    start = Math.min(first - Math.floor(maxLength / 3), normalized.length - maxLength);
+    const space = normalized.indexOf(' ', start);
+    if (space !== -1 && space < first) {
+      start = space + 1;
+    }
+  }
+  const end = Math.min(start + maxLength, normalized.length);
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const excerpt = prefix + normalized.slice(start, end) + (end < normalized.length ? ELLIPSIS : '');
+
+  const highlights: Array<[number, number]> = [];
+  if (pattern) {
+    pattern.lastIndex = 0;
+    for (const match of normalized.slice(start, end).matchAll(pattern)) {
+      const from = match.index! + prefix.length;
+      highlights.push([from, from + match[0].length]);
+    }
+  }
+
+  return { text: excerpt, highlights };
+}
@@ -0,0 +1,157 @@
+import { parseTaskQuery } from './taskQuery';
+
+const NOW = new Date('2025-03-10T12:00:00.000Z');
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OTHER_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+const parse = (input: string) => parseTaskQuery(input, { userId: USER_ID, now: NOW });
+const at = (iso: string) => new Date(iso);
+const HOUR = 60 * 60 * 1000;
+
+describe('Task Query Parser', () => {
+  it('should parse the filters of a combined query', () => {
+    expect(parse('status:TODO,REVIEW priority:>=HIGH due:<7d assignee:me')).toEqual({
+      status: ['TODO', 'REVIEW'],
+      priority: ['HIGH', 'URGENT'],
+      dueBefore: at('2025-03-17T12:00:00.000Z'),
+      assignedToId: USER_ID,
+    });
+  });
+
+  it('should return an empty query for empty input', () => {
+    expect(parse('')).toEqual({});
+    expect(parse('   ')).toEqual({});
+  });
+
+  describe('text', () => {
+    it('should search the words and phrases that are not filters', () => {
+      expect(parse('login "sign up"  bug')).toEqual({ search: 'login "sign up" bug' });
+      expect(parse('status:TODO fix  crash')).toEqual({ status: ['TODO'], search: 'fix crash' });
+    });
+
+    it('should keep unknown keys as text', () => {
+      expect(parse('re:meeting https://example.com')).toEqual({ search: 're:meeting https://example.com' });
+    });
+
+    it('should keep regular expression characters as typed', () => {
+      expect(parse('(a+)+$ .*')).toEqual({ search: '(a+)+$ .*' });
+    });
+
+    it('should ignore empty phrases', () => {
+      expect(parse('"" report')).toEqual({ search: 'report' });
+    });
+  });
+
+  describe('status', () => {
+    it('should upper-case status keys and accept quoted values', () => {
+      expect(parse('status:todo,in_progress')).toEqual({ status: ['TODO', 'IN_PROGRESS'] });
+      expect(parse('Status:"TODO, REVIEW"')).toEqual({ status: ['TODO', 'REVIEW'] });
+    });
+
+    it('should reject malformed statuses', () => {
+      expect(() => parse('status:TO-DO')).toThrow('Invalid status "TO-DO"');
+      expect(() => parse('status:,')).toThrow('at least one status');
+    });
+  });
+
+  describe('priority', () => {
+    it('should parse lists of priorities without duplicates', () => {
+      expect(parse('priority:low,URGENT,low')).toEqual({ priority: ['LOW', 'URGENT'] });
+    });
+
+    it('should expand comparisons by urgency', () => {
+      expect(parse('priority:>=HIGH').priority).toEqual(['HIGH', 'URGENT']);
+      expect(parse('priority:>MEDIUM').priority).toEqual(['HIGH', 'URGENT']);
+      expect(parse('priority:<=MEDIUM').priority).toEqual(['LOW', 'MEDIUM']);
+      expect(parse('priority:<LOW').priority).toEqual([]);
+    });
+
+    it('should reject unknown priorities', () => {
+      expect(() => parse('priority:CRITICAL')).toThrow('Invalid priority "CRITICAL"');
+      expect(() => parse('priority:>=')).toThrow('Invalid priority ""');
+    });
+  });
+
+  describe('due', () => {
+    it('should match tasks without a due date', () => {
+      expect(parse('due:none')).toEqual({ noDueDate: true });
+    });
+
+    it('should compare with durations from now', () => {
+      expect(parse('due:<7d')).toEqual({ dueBefore: at('2025-03-17T12:00:00.000Z') });
+      expect(parse('due:>=-2d')).toEqual({ dueAfter: at('2025-03-08T12:00:00.000Z') });
+      expect(parse('due:<now')).toEqual({ dueBefore: NOW });
+      expect(parse('due:<=12h').dueBefore).toEqual(new Date(NOW.getTime() + 12 * HOUR + 1));
+      expect(parse('due:>+1h').dueAfter).toEqual(new Date(NOW.getTime() + HOUR + 1));
+    });
+
+    it('should treat a bare duration as the time between now and then', () => {
+      expect(parse('due:3d')).toEqual({
+        dueAfter: NOW,
+        dueBefore: new Date(at('2025-03-13T12:00:00.000Z').getTime() + 1),
+      });
+      expect(parse('due:-1d')).toEqual({ dueAfter: at('2025-03-09T12:00:00.000Z'), dueBefore: NOW });
+    });
+
+    it('should compare with whole UTC days', () => {
+      expect(parse('due:2025-03-01')).toEqual({
+        dueAfter: at('2025-03-01T00:00:00.000Z'),
+        dueBefore: at('2025-03-02T00:00:00.000Z'),
+      });
+      expect(parse('due:<2025-03-01').dueBefore).toEqual(at('2025-03-01T00:00:00.000Z'));
+      expect(parse('due:<=2025-03-01').dueBefore).toEqual(at('2025-03-02T00:00:00.000Z'));
+      expect(parse('due:>2025-03-01').dueAfter).toEqual(at('2025-03-02T00:00:00.000Z'));
+      expect(parse('due:>=2025-03-01').dueAfter).toEqual(at('2025-03-01T00:00:00.000Z'));
+    });
+
+    it('should include both ends of a range', () => {
+      expect(parse('due:2025-03-01..2025-03-31')).toEqual({
+        dueAfter: at('2025-03-01T00:00:00.000Z'),
+        dueBefore: at('2025-04-01T00:00:00.000Z'),
+      });
+      expect(parse('due:now..7d')).toEqual({
+        dueAfter: NOW,
+        dueBefore: new Date(at('2025-03-17T12:00:00.000Z').getTime() + 1),
+      });
+    });
+
+    it('should keep the tightest bounds of several due filters', () => {
+      expect(parse('due:>=2025-03-01 due:<2025-04-01 due:>=2025-03-05 due:<2025-05-01')).toEqual({
+        dueAfter: at('2025-03-05T00:00:00.000Z'),
+        dueBefore: at('2025-04-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should reject malformed times', () => {
+      expect(() => parse('due:soon')).toThrow('Invalid due date "soon"');
+      expect(() => parse('due:<0d')).toThrow('Invalid due date "0d"');
+      expect(() => parse('due:2025-02-30')).toThrow('Invalid date "2025-02-30"');
+      expect(() => parse('due:2025-03-01..')).toThrow('Invalid due date ""');
+    });
+  });
+
+  describe('people', () => {
+    it('should resolve me to the user', () => {
+      expect(parse('assignee:me creator:ME')).toEqual({ assignedToId: USER_ID, creatorId: USER_ID });
+    });
+
+    it('should accept user IDs and unassigned tasks', () => {
+      expect(parse(`assignee:${OTHER_ID}`)).toEqual({ assignedToId: OTHER_ID });
+      expect(parse('assignee:none')).toEqual({ assignedToId: 'none' });
+    });
+
+    it('should reject anything else', () => {
+      expect(() => parse('assignee:bob')).toThrow('Invalid assignee "bob". Expected me, none or a user ID');
+      expect(() => parse('creator:none')).toThrow('Invalid creator "none". Expected me or a user ID');
+      expect(() => parseTaskQuery('assignee:me')).toThrow('assignee:me needs a signed-in user');
+    });
+  });
+
+  describe('scope', () => {
+    it('should restrict tasks to those assigned to or created by the user', () => {
+      expect(parse('scope:assigned')).toEqual({ scope: 'assigned' });
+      expect(parse('scope:Created')).toEqual({ scope: 'created' });
+      expect(() => parse('scope:mine')).toThrow('Invalid scope "mine"');
+    });
+  });
+});
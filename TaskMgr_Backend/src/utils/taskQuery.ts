@@ -0,0 +1,282 @@
+import { parseDuration } from './duration';
+import { STATUS_KEY_PATTERN } from './workflow';
+import { PRIORITY_ORDER } from './taskSort';
+
+/**
+ * Task query language
+ * A compact syntax for task filters, such as
+ * `status:TODO,REVIEW priority:>=HIGH due:<7d assignee:me login bug`
+ *
+ * - status:KEY[,KEY...]        tasks in any of the statuses
+ * - priority:P[,P...]          tasks with any of the priorities
+ * - priority:>=P, >P, <=P, <P  tasks at least (or at most) as urgent as P
+ * - due:none                   tasks without a due date
+ * - due:<when, <=, >, >=       due before or after a point in time
+ * - due:when                   due within a day, or between now and a relative time
+ * - due:when..when             due within a range, both ends included
+ * - assignee:me|none|ID        assigned to the user, to nobody, or to a user ID
+ * - creator:me|ID              created by the user or a user ID
+ * - scope:assigned|created     tasks assigned to, or created by, the user
+ *
+ * A point in time is `now`, a date such as 2025-03-01 (a UTC day), or a
+ * duration from now such as 7d, 12h or -3d. Other words, and "quoted phrases",
+ * are searched in titles and descriptions
+ */
+
+export type Priority = (typeof PRIORITY_ORDER)[number];
+
+export const TASK_SCOPES = ['assigned', 'created'] as const;
+export type TaskScope = (typeof TASK_SCOPES)[number];
+
+// Assignee filter matching unassigned tasks
+export const UNASSIGNED = 'none';
+
+export interface TaskQuery {
+  status?: string[];
+  priority?: Priority[];
+  /** Due at or after this time */
+  dueAfter?: Date;
+  /** Due strictly before this time */
+  dueBefore?: Date;
+  noDueDate?: boolean;
+  /** User ID, or UNASSIGNED */
+  assignedToId?: string;
+  creatorId?: string;
+  scope?: TaskScope;
+  search?: string;
+}
+
+export interface TaskQueryOptions {
+  /** ID of the user "me" refers to */
+  userId?: string;
+  /** Reference for relative times, the current time by default */
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMPARISON_PATTERN = /^(<=|>=|<|>)?([\s\S]*)$/;
+
+// key:value, key:"quoted value", "quoted phrase" or a bare word
+const TOKEN_PATTERN = /([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+type Comparison = '<' | '<=' | '>' | '>=' | '';
+
+/** A point in time, with the day it falls in when given as a date */
+interface TimePoint {
+  start: Date;
+  /** Start of the next day for dates, the point itself otherwise */
+  end: Date;
+  relative: boolean;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+function parseStatuses(value: string): string[] {
+  const statuses = splitList(value).map((status) => status.toUpperCase());
+  if (statuses.length === 0) {
+    throw new Error('status: needs at least one status');
+  }
+  for (const status of statuses) {
+    if (!STATUS_KEY_PATTERN.test(status)) {
+      throw new Error(`Invalid status "${status}"`);
+    }
+  }
+  return statuses;
+}
+
+function toPriority(value: string): Priority {
+  const priority = value.toUpperCase();
+  if (!(PRIORITY_ORDER as readonly string[]).includes(priority)) {
+    throw new Error(`Invalid priority "${value}". Expected one of: ${PRIORITY_ORDER.join(', ')}`);
+  }
+  return priority as Priority;
+}
+
+function parsePriorities(value: string): Priority[] {
+  const [, comparison, rest] = COMPARISON_PATTERN.exec(value)!;
+
+  if (!comparison) {
+    const priorities = splitList(value).map(toPriority);
+    if (priorities.length === 0) {
+      throw new Error('priority: needs at least one priority');
+    }
+    return [...new Set(priorities)];
+  }
+
+  const rank = PRIORITY_ORDER.indexOf(toPriority(rest));
+  return PRIORITY_ORDER.filter((_, index) => {
+    switch (comparison) {
+      case '>=':
+        return index >= rank;
+      case '>':
+        return index > rank;
+      case '<=':
+        return index <= rank;
+      default:
+        return index < rank;
+    }
+  });
+}
+
+function parseTimePoint(value: string, now: Date): TimePoint {
+  if (value.toLowerCase() === 'now') {
+    return { start: now, end: now, relative: true };
+  }
+
+  if (DATE_PATTERN.test(value)) {
+    const start = new Date(`${value}T00:00:00.000Z`);
+    if (isNaN(start.getTime()) || start.toISOString().slice(0, 10) !== value) {
+      throw new Error(`Invalid date "${value}"`);
+    }
+    return { start, end: new Date(start.getTime() + DAY_MS), relative: false };
+  }
+
+  const past = value.startsWith('-');
+  let duration: number;
+  try {
+    duration = parseDuration(past || value.startsWith('+') ? value.slice(1) : value);
+  } catch {
+    throw new Error(`Invalid due date "${value}". Expected now, a date such as 2025-03-01 or a duration such as 7d`);
+  }
+  const point = new Date(now.getTime() + (past ? -duration : duration));
+  return { start: point, end: point, relative: true };
+}
+
+/**
+ * Narrow the due date bounds of a query, keeping the tightest ones
+ */
+function narrowDue(query: TaskQuery, after?: Date, before?: Date): void {
+  if (after && (!query.dueAfter || after > query.dueAfter)) {
+    query.dueAfter = after;
+  }
+  if (before && (!query.dueBefore || before < query.dueBefore)) {
+    query.dueBefore = before;
+  }
+}
+
+function applyDue(query: TaskQuery, value: string, now: Date): void {
+  if (value.toLowerCase() === 'none') {
+    query.noDueDate = true;
+    return;
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = parseTimePoint(range[0], now);
+    const to = parseTimePoint(range[1], now);
+    narrowDue(query, from.start, to.relative ? new Date(to.end.getTime() + 1) : to.end);
+    return;
+  }
+
+  const [, comparison, rest] = COMPARISON_PATTERN.exec(value)!;
+  const point = parseTimePoint(rest, now);
+
+  switch (comparison as Comparison) {
+    case '<':
+      narrowDue(query, undefined, point.start);
+      break;
+    case '<=':
+      narrowDue(query, undefined, point.relative ? new Date(point.end.getTime() + 1) : point.end);
+      break;
+    case '>':
+      narrowDue(query, point.relative ? new Date(point.end.getTime() + 1) : point.end);
+      break;
+    case '>=':
+      narrowDue(query, point.start);
+      break;
+    default:
+      if (!point.relative) {
+        narrowDue(query, point.start, point.end);
+      } else if (point.start >= now) {
+        // Between now and a time to come, e.g. due:7d
+        narrowDue(query, now, new Date(point.start.getTime() + 1));
+      } else {
+        narrowDue(query, point.start, now);
+      }
+  }
+}
+
+function parseUser(key: string, value: string, userId: string | undefined, allowNone: boolean): string {
+  const lower = value.toLowerCase();
+  if (lower === 'me') {
+    if (!userId) {
+      throw new Error(`${key}:me needs a signed-in user`);
+    }
+    return userId;
+  }
+  if (allowNone && lower === UNASSIGNED) {
+    return UNASSIGNED;
+  }
+  if (!OBJECT_ID_PATTERN.test(value)) {
+    throw new Error(`Invalid ${key} "${value}". Expected me${allowNone ? ', none' : ''} or a user ID`);
+  }
+  return value;
+}
+
+/**
+ * Parse a task query such as `status:TODO,REVIEW priority:>=HIGH due:<7d assignee:me`
+ * @param input - Query text
+ * @param options - User "me" refers to and current time
+ * @returns Filters set by the query, search text included
+ * @throws Error if a filter is malformed
+ */
+export function parseTaskQuery(input: string, options: TaskQueryOptions = {}): TaskQuery {
+  const now = options.now ?? new Date();
+  const query: TaskQuery = {};
+  const words: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, rawKey, quotedValue, plainValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      // Kept quoted, text search then requires the whole phrase
+      if (phrase.trim()) words.push(`"${phrase.trim()}"`);
+      continue;
+    }
+    if (word !== undefined) {
+      words.push(word);
+      continue;
+    }
+
+    const value = quotedValue ?? plainValue;
+    switch (rawKey.toLowerCase()) {
+      case 'status':
+        query.status = parseStatuses(value);
+        break;
+      case 'priority':
+        query.priority = parsePriorities(value);
+        break;
+      case 'due':
+        applyDue(query, value, now);
+        break;
+      case 'assignee':
+        query.assignedToId = parseUser('assignee', value, options.userId, true);
+        break;
+      case 'creator':
+        query.creatorId = parseUser('creator', value, options.userId, false);
+        break;
+      case 'scope':
+        if (!(TASK_SCOPES as readonly string[]).includes(value.toLowerCase())) {
+          throw new Error(`Invalid scope "${value}". Expected one of: ${TASK_SCOPES.join(', ')}`);
+        }
+        query.scope = value.toLowerCase() as TaskScope;
+        break;
+      default:
+        // Not a filter, e.g. "re:" in a title
+        words.push(token);
+    }
+  }
+
+  if (words.length > 0) {
+    query.search = words.join(' ');
+  }
+
+  return query;
+}
@@ -0,0 +1,53 @@
+import { buildSortStages, formatTaskSort, parseTaskSort } from './taskSort';
+
+describe('Task Sort Utilities', () => {
+  describe('parseTaskSort', () => {
+    it('should parse fields in order, "-" meaning descending', () => {
+      expect(parseTaskSort('-priority, dueDate')).toEqual([
+        { field: 'priority', direction: -1 },
+        { field: 'dueDate', direction: 1 },
+      ]);
+      expect(formatTaskSort(parseTaskSort('-priority,dueDate,title'))).toBe('-priority,dueDate,title');
+    });
+
+    it('should reject unknown, repeated and too many fields', () => {
+      expect(() => parseTaskSort('')).toThrow('at least one field');
+      expect(() => parseTaskSort('assignee')).toThrow('Cannot sort by "assignee"');
+      expect(() => parseTaskSort('--title')).toThrow('Cannot sort by "-title"');
+      expect(() => parseTaskSort('title,-title')).toThrow('"title" more than once');
+      expect(() => parseTaskSort('title,status,dueDate,priority')).toThrow('more than 3 fields');
+    });
+  });
+
+  describe('buildSortStages', () => {
+    it('should rank priorities by urgency and keep undated tasks last', () => {
+      expect(buildSortStages(parseTaskSort('-priority,dueDate'))).toEqual([
+        {
+          $addFields: {
+            _priorityRank: { $indexOfArray: [['LOW', 'MEDIUM', 'HIGH', 'URGENT'], '$priority'] },
+            _noDueDate: { $cond: [{ $ifNull: ['$dueDate', false] }, 0, 1] },
+          },
+        },
+        { $sort: { _priorityRank: -1, _noDueDate: 1, dueDate: 1, _id: -1 } },
+      ]);
+    });
+
+    it('should rank statuses by workflow order when known, by category otherwise', () => {
+      const [byCategory] = buildSortStages(parseTaskSort('status'));
+      expect(byCategory).toEqual({
+        $addFields: { _statusRank: { $indexOfArray: [['TODO', 'ACTIVE', 'DONE'], '$statusCategory'] } },
+      });
+
+      const [byWorkflow] = buildSortStages(parseTaskSort('status'), ['TODO', 'DOING', 'DONE']);
+      expect(byWorkflow).toEqual({
+        $addFields: { _statusRank: { $indexOfArray: [['TODO', 'DOING', 'DONE'], '$status'] } },
+      });
+    });
+
+    it('should sort plain fields directly', () => {
+      expect(buildSortStages(parseTaskSort('title,-updatedAt'))).toEqual([
+        { $sort: { title: 1, updatedAt: -1, _id: 1 } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { PipelineStage } from 'mongoose';
+import { STATUS_CATEGORIES } from './workflow';
+import { SortOrder } from './cursor';
+
+/**
+ * Task list sorting
+ * A sort is a comma-separated list of fields, each optionally prefixed with
+ * "-" for descending order, such as "-priority,dueDate". Priorities sort by
+ * urgency rather than alphabetically, statuses by their workflow order, and
+ * tasks without a due date come last in both directions
+ */
+
+export const SORT_FIELDS = ['createdAt', 'updatedAt', 'dueDate', 'priority', 'status', 'title'] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export interface SortKey {
+  field: SortField;
+  /** 1 for ascending, -1 for descending */
+  direction: 1 | -1;
+}
+
+export type TaskSort = SortKey[];
+
+// Most keys a sort can have
+export const MAX_SORT_KEYS = 3;
+
+export const PRIORITY_ORDER = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+// Newest first, the order of task lists when no sort is given
+export const DEFAULT_TASK_SORT: TaskSort = [{ field: 'createdAt', direction: -1 }];
+
+// Fields added to tasks while sorting, removed before they are returned
+export const SORT_COMPUTED_FIELDS = ['_priorityRank', '_statusRank', '_noDueDate'];
+
+/**
+ * Parse a sort such as "-priority,dueDate"
+ * @param value - Comma-separated fields, "-" prefixed for descending order
+ * @returns Sort keys, in order of precedence
+ * @throws Error if a field is unknown, repeated, or there are too many keys
+ */
+export function parseTaskSort(value: string): TaskSort {
+  const parts = value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  if (parts.length === 0) {
+    throw new Error('Sort must list at least one field');
+  }
+  if (parts.length > MAX_SORT_KEYS) {
+    throw new Error(`Sort cannot have more than ${MAX_SORT_KEYS} fields`);
+  }
+
+  const sort: TaskSort = [];
+  for (const part of parts) {
+    const descending = part.startsWith('-');
+    const field = descending ? part.slice(1) : part;
+
+    if (!(SORT_FIELDS as readonly string[]).includes(field)) {
+      throw new Error(`Cannot sort by "${field}". Sortable fields are: ${SORT_FIELDS.join(', ')}`);
+    }
+    if (sort.some((key) => key.field === field)) {
+      throw new Error(`Sort lists "${field}" more than once`);
+    }
+
+    sort.push({ field: field as SortField, direction: descending ? -1 : 1 });
+  }
+
+  return sort;
+}
+
+/**
+ * Format sort keys back into their query form
+ * @param sort - Sort keys
+ * @returns Sort such as "-priority,dueDate"
+ */
+export function formatTaskSort(sort: TaskSort): string {
+  return sort.map(({ field, direction }) => (direction === -1 ? `-${field}` : field)).join(',');
+}
+
+/**
+ * Fields ranking tasks in a sort
+ * The computed fields are those listed in SORT_COMPUTED_FIELDS. Ties are
+ * broken by _id so pages are stable
+ * @param sort - Sort keys
+ * @param statusOrder - Status keys in workflow order. Without it, statuses sort
+ *   by category, then by key
+ * @returns Expressions of the computed fields, and the $sort order
+ */
+export function buildSortFields(
+  sort: TaskSort,
+  statusOrder?: string[]
+): { computed: Record<string, unknown>; order: SortOrder } {
+  const computed: Record<string, unknown> = {};
+  const order: SortOrder = {};
+
+  for (const { field, direction } of sort) {
+    switch (field) {
+      case 'priority':
+        computed._priorityRank = { $indexOfArray: [PRIORITY_ORDER, '$priority'] };
+        order._priorityRank = direction;
+        break;
+      case 'status':
+        computed._statusRank = statusOrder
+          ? { $indexOfArray: [statusOrder, '$status'] }
+          : { $indexOfArray: [STATUS_CATEGORIES, '$statusCategory'] };
+        order._statusRank = direction;
+        order.status = direction;
+        break;
+      case 'dueDate':
+        // Tasks without a due date come last whatever the direction
+        computed._noDueDate = { $cond: [{ $ifNull: ['$dueDate', false] }, 0, 1] };
+        order._noDueDate = 1;
+        order.dueDate = direction;
+        break;
+      default:
+        order[field] = direction;
+    }
+  }
+
+  order._id = sort[0]?.direction ?? -1;
+
+  return { computed, order };
+}
+
+/**
+ * Build the aggregation stages sorting tasks
+ * The stages add the fields listed in SORT_COMPUTED_FIELDS, which callers
+ * remove once the tasks are paged
+ * @param sort - Sort keys
+ * @param statusOrder - Status keys in workflow order, see buildSortFields
+ * @returns $addFields and $sort stages
+ */
+export function buildSortStages(sort: TaskSort, statusOrder?: string[]): PipelineStage[] {
+  const { computed, order } = buildSortFields(sort, statusOrder);
+
+  const stages: PipelineStage[] = [];
+  if (Object.keys(computed).length > 0) {
+    stages.push({ $addFields: computed });
+  }
+  stages.push({ $sort: order });
+
+  return stages;
+}
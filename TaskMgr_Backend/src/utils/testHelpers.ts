@@ -4,6 +4,7 @@ import { Task, ITask } from '../models/Task';
 import { Notification, INotification } from '../models/Notification';
 import { hashPassword } from './password';
 import { generateToken } from './jwt';
+import { DEFAULT_WORKFLOW, findStatus } from './workflow';
 
 /**
  * Test Database Connection and Cleanup Functions
@@ -131,6 +132,7 @@ export async function createTestTask(options: CreateTestTaskOptions): Promise<IT
     dueDate: options.dueDate,
     priority: options.priority || 'MEDIUM',
     status: options.status || 'TODO',
+    statusCategory: findStatus(DEFAULT_WORKFLOW, options.status || 'TODO')!.category,
     creatorId: options.creatorId,
     assignedToId: options.assignedToId,
   });
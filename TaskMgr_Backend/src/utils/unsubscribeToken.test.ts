@@ -0,0 +1,26 @@
+import { createUnsubscribeToken, verifyUnsubscribeToken } from './unsubscribeToken';
+
+describe('Unsubscribe Token', () => {
+  const userId = '65a1b2c3d4e5f6a7b8c9d0e1';
+
+  it('should read back the user and type of a token', () => {
+    const token = createUnsubscribeToken(userId, 'TASK_ASSIGNED');
+
+    expect(verifyUnsubscribeToken(token)).toEqual({ userId, type: 'TASK_ASSIGNED' });
+  });
+
+  it('should reject tokens with a changed payload', () => {
+    const [, signature] = createUnsubscribeToken(userId, 'TASK_ASSIGNED').split('.');
+    const otherUser = Buffer.from(`65a1b2c3d4e5f6a7b8c9d0e2:TASK_ASSIGNED`).toString('base64url');
+    const otherType = Buffer.from(`${userId}:MENTION`).toString('base64url');
+
+    expect(verifyUnsubscribeToken(`${otherUser}.${signature}`)).toBeNull();
+    expect(verifyUnsubscribeToken(`${otherType}.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyUnsubscribeToken('')).toBeNull();
+    expect(verifyUnsubscribeToken('abc')).toBeNull();
+    expect(verifyUnsubscribeToken(`${createUnsubscribeToken(userId, 'MENTION')}.extra`)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { NOTIFICATION_TYPES, NotificationType } from '../models/Notification';
+
+/**
+ * Unsubscribe links carry the user and the notification type, signed so
+ * nobody can unsubscribe someone else. They do not expire: an old email
+ * must still unsubscribe
+ */
+
+export interface UnsubscribePayload {
+  userId: string;
+  type: NotificationType;
+}
+
+// The purpose keeps these signatures apart from any other use of the secret
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', `unsubscribe:${config.jwtSecret}`).update(payload).digest('base64url');
+}
+
+/**
+ * Create the token of an unsubscribe link
+ * @param userId Recipient ID
+ * @param type Notification type the link stops emails of
+ */
+export function createUnsubscribeToken(userId: string, type: NotificationType): string {
+  const payload = Buffer.from(`${userId}:${type}`).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check and read the token of an unsubscribe link
+ * @param token Token from the link
+ * @returns The user and notification type, null when the token is malformed or forged
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [userId, type] = Buffer.from(payload, 'base64url').toString('utf8').split(':');
+  if (!/^[0-9a-fA-F]{24}$/.test(userId ?? '') || !NOTIFICATION_TYPES.includes(type as NotificationType)) {
+    return null;
+  }
+
+  return { userId, type: type as NotificationType };
+}
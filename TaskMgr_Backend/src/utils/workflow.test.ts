@@ -0,0 +1,67 @@
+import {
+  DEFAULT_WORKFLOW,
+  WorkflowDefinition,
+  assertValidWorkflow,
+  transitionError,
+} from './workflow';
+
+const REVIEWED: WorkflowDefinition = {
+  statuses: [
+    { key: 'TODO', name: 'To Do', category: 'TODO', color: 'gray' },
+    { key: 'DOING', name: 'Doing', category: 'ACTIVE', color: 'blue' },
+    { key: 'REVIEW', name: 'Review', category: 'ACTIVE', color: 'amber' },
+    { key: 'DONE', name: 'Done', category: 'DONE', color: 'green' },
+  ],
+  transitions: [
+    { from: 'TODO', to: 'DOING', actors: [] },
+    { from: 'DOING', to: 'REVIEW', actors: [] },
+    { from: 'REVIEW', to: 'DOING', actors: [] },
+    { from: 'REVIEW', to: 'DONE', actors: ['CREATOR', 'ADMIN'] },
+  ],
+};
+
+describe('Workflow Utilities', () => {
+  describe('assertValidWorkflow', () => {
+    it('should accept the default workflow and a restricted one', () => {
+      expect(() => assertValidWorkflow(DEFAULT_WORKFLOW)).not.toThrow();
+      expect(() => assertValidWorkflow(REVIEWED)).not.toThrow();
+    });
+
+    it('should reject inconsistent workflows', () => {
+      const withStatuses = (statuses: WorkflowDefinition['statuses']) => ({ statuses, transitions: [] });
+      const done = REVIEWED.statuses[3];
+
+      expect(() => assertValidWorkflow(withStatuses([]))).toThrow('1 to 20 statuses');
+      expect(() => assertValidWorkflow(withStatuses(REVIEWED.statuses.slice(0, 3)))).toThrow('DONE category');
+      expect(() => assertValidWorkflow(withStatuses([done, done]))).toThrow('Duplicate status DONE');
+      expect(() => assertValidWorkflow(withStatuses([{ ...done, key: 'done' }]))).toThrow('Invalid status key');
+      expect(() => assertValidWorkflow(withStatuses([{ ...done, name: ' ' }]))).toThrow('needs a name');
+      expect(() =>
+        assertValidWorkflow({ ...REVIEWED, transitions: [{ from: 'TODO', to: 'SHIPPED', actors: [] }] })
+      ).toThrow('unknown status');
+      expect(() =>
+        assertValidWorkflow({ ...REVIEWED, transitions: [...REVIEWED.transitions, REVIEWED.transitions[0]] })
+      ).toThrow('Duplicate transition TODO -> DOING');
+    });
+  });
+
+  describe('transitionError', () => {
+    it('should allow every move when the workflow has no transitions', () => {
+      expect(transitionError(DEFAULT_WORKFLOW, 'COMPLETED', 'TODO', [])).toBeNull();
+    });
+
+    it('should only allow listed transitions, to their actors', () => {
+      expect(transitionError(REVIEWED, 'TODO', 'DOING', [])).toBeNull();
+      expect(transitionError(REVIEWED, 'DOING', 'DOING', [])).toBeNull();
+      expect(transitionError(REVIEWED, 'TODO', 'DONE', ['CREATOR'])).toEqual({
+        message: 'Tasks cannot move from TODO to DONE',
+        restricted: false,
+      });
+      expect(transitionError(REVIEWED, 'REVIEW', 'DONE', ['ASSIGNEE'])).toEqual({
+        message: 'Only the creator or workspace admins can move this task from REVIEW to DONE',
+        restricted: true,
+      });
+      expect(transitionError(REVIEWED, 'REVIEW', 'DONE', ['ASSIGNEE', 'ADMIN'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Workflows
+ * A workflow lists the statuses a task can take, in board order, and the
+ * transitions allowed between them. Every status belongs to a category so
+ * features such as overdue tasks, blockers and recurring tasks work with any
+ * set of statuses. A workflow without transitions allows every move
+ */
+
+export const STATUS_CATEGORIES = ['TODO', 'ACTIVE', 'DONE'] as const;
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number];
+
+export const STATUS_COLORS = ['gray', 'blue', 'purple', 'amber', 'green', 'red'] as const;
+export type StatusColor = (typeof STATUS_COLORS)[number];
+
+/**
+ * Who may perform a restricted transition
+ * - CREATOR: the creator of the task
+ * - ASSIGNEE: the assignee of the task
+ * - ADMIN: workspace owners and admins
+ */
+export const TRANSITION_ACTORS = ['CREATOR', 'ASSIGNEE', 'ADMIN'] as const;
+export type TransitionActor = (typeof TRANSITION_ACTORS)[number];
+
+export interface WorkflowStatus {
+  /** Stored on tasks, e.g. IN_PROGRESS */
+  key: string;
+  /** Display name */
+  name: string;
+  category: StatusCategory;
+  color: StatusColor;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  /** Restricts the transition to these actors, anyone who can edit the task when empty */
+  actors: TransitionActor[];
+}
+
+export interface WorkflowDefinition {
+  /** New tasks start in the first status */
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+}
+
+const ACTOR_LABELS: Record<TransitionActor, string> = {
+  CREATOR: 'creator',
+  ASSIGNEE: 'assignee',
+  ADMIN: 'workspace admins',
+};
+
+export const MAX_STATUSES = 20;
+export const STATUS_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,31}$/;
+const MAX_STATUS_NAME_LENGTH = 50;
+
+/**
+ * Workflow of personal tasks and of workspaces that did not define their own
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  statuses: [
+    { key: 'TODO', name: 'To Do', category: 'TODO', color: 'gray' },
+    { key: 'IN_PROGRESS', name: 'In Progress', category: 'ACTIVE', color: 'purple' },
+    { key: 'REVIEW', name: 'Review', category: 'ACTIVE', color: 'amber' },
+    { key: 'COMPLETED', name: 'Completed', category: 'DONE', color: 'green' },
+  ],
+  transitions: [],
+};
+
+/**
+ * Check that a workflow definition is consistent
+ * @param workflow - Workflow definition
+ * @throws Error describing the first problem found
+ */
+export function assertValidWorkflow(workflow: WorkflowDefinition): void {
+  const { statuses, transitions } = workflow;
+
+  if (statuses.length === 0 || statuses.length > MAX_STATUSES) {
+    throw new Error(`A workflow needs 1 to ${MAX_STATUSES} statuses`);
+  }
+
+  const keys = new Set<string>();
+  for (const status of statuses) {
+    if (!STATUS_KEY_PATTERN.test(status.key)) {
+      throw new Error(`Invalid status key "${status.key}", use uppercase letters, digits and underscores`);
+    }
+    if (keys.has(status.key)) {
+      throw new Error(`Duplicate status ${status.key}`);
+    }
+    if (!status.name.trim() || status.name.length > MAX_STATUS_NAME_LENGTH) {
+      throw new Error(`Status ${status.key} needs a name of at most ${MAX_STATUS_NAME_LENGTH} characters`);
+    }
+    if (!STATUS_CATEGORIES.includes(status.category)) {
+      throw new Error(`Invalid category for status ${status.key}`);
+    }
+    if (!STATUS_COLORS.includes(status.color)) {
+      throw new Error(`Invalid color for status ${status.key}`);
+    }
+    keys.add(status.key);
+  }
+
+  // Completing tasks drives recurring tasks and unblocks dependent tasks
+  if (!statuses.some((status) => status.category === 'DONE')) {
+    throw new Error('A workflow needs at least one status in the DONE category');
+  }
+
+  const pairs = new Set<string>();
+  for (const { from, to, actors } of transitions) {
+    if (!keys.has(from) || !keys.has(to)) {
+      throw new Error(`Transition ${from} -> ${to} uses an unknown status`);
+    }
+    if (from === to) {
+      throw new Error(`Transition ${from} -> ${to} does not change the status`);
+    }
+    if (pairs.has(`${from}>${to}`)) {
+      throw new Error(`Duplicate transition ${from} -> ${to}`);
+    }
+    if (actors.some((actor) => !TRANSITION_ACTORS.includes(actor))) {
+      throw new Error(`Invalid actor in transition ${from} -> ${to}`);
+    }
+    pairs.add(`${from}>${to}`);
+  }
+}
+
+/**
+ * Find a status of a workflow
+ * @param workflow - Workflow definition
+ * @param key - Status key
+ * @returns The status, or undefined if the workflow does not have it
+ */
+export function findStatus(workflow: WorkflowDefinition, key: string): WorkflowStatus | undefined {
+  return workflow.statuses.find((status) => status.key === key);
+}
+
+export interface TransitionError {
+  message: string;
+  /** The transition exists but the user is not one of its actors */
+  restricted: boolean;
+}
+
+/**
+ * Check whether a status change is allowed
+ * @param workflow - Workflow definition
+ * @param from - Current status
+ * @param to - New status
+ * @param actors - Roles the user holds on the task
+ * @returns null if allowed, otherwise why it is not
+ */
+export function transitionError(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+  actors: TransitionActor[]
+): TransitionError | null {
+  if (from === to || workflow.transitions.length === 0) {
+    return null;
+  }
+
+  const transition = workflow.transitions.find((candidate) => candidate.from === from && candidate.to === to);
+
+  if (!transition) {
+    return { message: `Tasks cannot move from ${from} to ${to}`, restricted: false };
+  }
+
+  if (transition.actors.length > 0 && !transition.actors.some((actor) => actors.includes(actor))) {
+    const allowed = transition.actors.map((actor) => ACTOR_LABELS[actor]).join(' or ');
+    return { message: `Only the ${allowed} can move this task from ${from} to ${to}`, restricted: true };
+  }
+
+  return null;
+}
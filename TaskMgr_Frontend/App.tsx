@@ -4,13 +4,18 @@ import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
 import { SocketProvider } from './contexts/SocketContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { WorkspaceProvider } from './contexts/WorkspaceContext';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Tasks from './pages/Tasks';
+import Board from './pages/Board';
+import Trash from './pages/Trash';
+import Archive from './pages/Archive';
 import Profile from './pages/Profile';
+import Admin from './pages/Admin';
 import { ErrorBoundary } from './components/ui/ErrorBoundary';
 
 // Simple 404 Component
@@ -27,6 +32,7 @@ const App: React.FC = () => {
     <ThemeProvider>
       <AuthProvider>
         <SocketProvider>
+          <WorkspaceProvider>
           <Toaster 
             position="top-right" 
             toastOptions={{
@@ -55,11 +61,33 @@ const App: React.FC = () => {
                     <Tasks />
                   </ErrorBoundary>
                 } />
+                <Route path="/board" element={
+                  <ErrorBoundary>
+                    <Board />
+                  </ErrorBoundary>
+                } />
+                <Route path="/archive" element={
+                  <ErrorBoundary>
+                    <Archive />
+                  </ErrorBoundary>
+                } />
+                <Route path="/trash" element={
+                  <ErrorBoundary>
+                    <Trash />
+                  </ErrorBoundary>
+                } />
                 <Route path="/profile" element={
                   <ErrorBoundary>
                     <Profile />
                   </ErrorBoundary>
                 } />
+                <Route path="/admin" element={
+                  <ProtectedRoute roles={['ADMIN']}>
+                    <ErrorBoundary>
+                      <Admin />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                } />
               </Route>
 
               {/* Root Redirect */}
@@ -69,6 +97,7 @@ const App: React.FC = () => {
               <Route path="*" element={<NotFound />} />
             </Routes>
           </HashRouter>
+          </WorkspaceProvider>
         </SocketProvider>
       </AuthProvider>
     </ThemeProvider>
@@ -4,6 +4,9 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { NotificationBell } from './notifications/NotificationBell';
 import { ThemeToggle } from './ui/ThemeToggle';
+import { WorkspaceSwitcher } from './workspaces/WorkspaceSwitcher';
+import { CommandPalette } from './search/CommandPalette';
+import { useSavedViews } from '../hooks/useSavedViews';
 import { 
   LayoutDashboard, 
   CheckSquare, 
@@ -13,7 +16,13 @@ import {
   X,
   Home,
   ListTodo,
-  UserCircle
+  Kanban,
+  UserCircle,
+  Shield,
+  Search,
+  Bookmark,
+  Trash2,
+  Archive
 } from 'lucide-react';
 
 const Layout: React.FC = () => {
@@ -21,18 +30,69 @@ const Layout: React.FC = () => {
   const { isDark } = useTheme();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
+  const [isSearchOpen, setIsSearchOpen] = React.useState(false);
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: Home, color: 'text-purple-600', bgColor: 'bg-purple-100', hoverBg: 'hover:bg-purple-50' },
     { name: 'Tasks', href: '/tasks', icon: ListTodo, color: 'text-blue-600', bgColor: 'bg-blue-100', hoverBg: 'hover:bg-blue-50' },
+    { name: 'Board', href: '/board', icon: Kanban, color: 'text-amber-600', bgColor: 'bg-amber-100', hoverBg: 'hover:bg-amber-50' },
+    { name: 'Archive', href: '/archive', icon: Archive, color: 'text-gray-600', bgColor: 'bg-gray-100', hoverBg: 'hover:bg-gray-50' },
+    { name: 'Trash', href: '/trash', icon: Trash2, color: 'text-gray-600', bgColor: 'bg-gray-100', hoverBg: 'hover:bg-gray-50' },
     { name: 'Profile & Settings', href: '/profile', icon: User, color: 'text-green-600', bgColor: 'bg-green-100', hoverBg: 'hover:bg-green-50' },
+    ...(user?.role === 'ADMIN'
+      ? [{ name: 'Admin', href: '/admin', icon: Shield, color: 'text-red-600', bgColor: 'bg-red-100', hoverBg: 'hover:bg-red-50' }]
+      : []),
   ];
 
   const isActive = (path: string) => location.pathname.startsWith(path);
 
+  // Pinned views of the user, opened as a list or a board
+  const { views } = useSavedViews();
+  const pinnedViews = views
+    .filter((view) => view.pinned && view.ownerId.id === user?.id)
+    .map((view) => ({
+      id: view.id,
+      name: view.name,
+      href: `${view.layout === 'BOARD' ? '/board' : '/tasks'}?view=${view.id}`,
+    }));
+  const isViewActive = (id: string) => new URLSearchParams(location.search).get('view') === id;
+
+  const renderPinnedViews = () =>
+    pinnedViews.length > 0 && (
+      <div className="pt-4">
+        <p className="px-4 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">Views</p>
+        {pinnedViews.map((view) => (
+          <Link
+            key={view.id}
+            to={view.href}
+            className={`flex items-center px-4 py-2 text-sm rounded-xl transition-all duration-200 ${
+              isViewActive(view.id)
+                ? 'bg-blue-50 text-blue-600 font-semibold'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-gray-100'
+            }`}
+          >
+            <Bookmark className={`w-4 h-4 mr-3 ${isViewActive(view.id) ? 'text-blue-600' : 'text-gray-400'}`} />
+            <span className="truncate">{view.name}</span>
+          </Link>
+        ))}
+      </div>
+    );
+
   React.useEffect(() => {
     setIsMobileMenuOpen(false);
-  }, [location.pathname]);
+  }, [location.pathname, location.search]);
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div className={`min-h-screen ${isDark ? 'dark bg-gray-900' : 'bg-gray-50'} flex flex-col md:flex-row`}>
@@ -46,6 +106,10 @@ const Layout: React.FC = () => {
           </h1>
         </div>
         
+        <div className={`p-4 ${isDark ? 'border-gray-700' : 'border-gray-200'} border-b`}>
+          <WorkspaceSwitcher />
+        </div>
+
         <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
           {navigation.map((item) => (
             <Link
@@ -63,6 +127,7 @@ const Layout: React.FC = () => {
               <span className={isActive(item.href) ? 'font-semibold' : ''}>{item.name}</span>
             </Link>
           ))}
+          {renderPinnedViews()}
         </nav>
 
         <div className={`p-4 ${isDark ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-50'} border-t`}>
@@ -103,10 +168,27 @@ const Layout: React.FC = () => {
               TaskMgr
             </h1>
           </div>
-          <NotificationBell />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 rounded-md hover:bg-gray-100 transition-colors"
+              aria-label="Search"
+            >
+              <Search className="w-5 h-5 text-gray-600" />
+            </button>
+            <NotificationBell />
+          </div>
         </div>
 
-        <div className="hidden md:flex bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-8 py-3 justify-end items-center sticky top-0 z-20 shadow-sm">
+        <div className="hidden md:flex bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-8 py-3 justify-between items-center sticky top-0 z-20 shadow-sm">
+           <button
+             onClick={() => setIsSearchOpen(true)}
+             className="flex items-center gap-2 w-72 px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-600 rounded-lg hover:border-gray-300 dark:hover:border-gray-500 transition-colors"
+           >
+             <Search className="w-4 h-4" />
+             <span className="flex-1 text-left">Search...</span>
+             <kbd className="text-xs font-sans text-gray-400">Ctrl K</kbd>
+           </button>
            <div className="flex items-center gap-4">
              <ThemeToggle />
              <div className="h-6 w-px bg-gray-200 dark:bg-gray-600 mx-1"></div>
@@ -147,6 +229,10 @@ const Layout: React.FC = () => {
                 </button>
              </div>
 
+             <div className="p-4 border-b border-gray-100">
+               <WorkspaceSwitcher />
+             </div>
+
              <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
                 {navigation.map((item) => (
                   <Link
@@ -164,6 +250,7 @@ const Layout: React.FC = () => {
                     <span className={isActive(item.href) ? 'font-semibold' : ''}>{item.name}</span>
                   </Link>
                 ))}
+                {renderPinnedViews()}
                 
                 <div className="h-px bg-gray-200 my-4"></div>
                 
@@ -211,6 +298,8 @@ const Layout: React.FC = () => {
           <Outlet />
         </main>
       </div>
+
+      <CommandPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Search, UserCog } from 'lucide-react';
+import { useAdminTasks } from '../../hooks/useAdmin';
+import { useDebounce } from '../../hooks/useDebounce';
+import { Task } from '../../types/task.types';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { AssigneePicker } from '../tasks/AssigneePicker';
+import { StatusBadge } from '../tasks/StatusBadge';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { PageControls } from './PageControls';
+
+const PAGE_SIZE = 20;
+
+export const AdminTasksTable: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [reassigning, setReassigning] = useState<Task | null>(null);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+  // Admins are not members of every workspace, filters and badges use the default workflow
+  const { statuses } = useWorkflow();
+  const statusOptions = [
+    { label: 'All statuses', value: '' },
+    ...statuses.map((workflowStatus) => ({ label: workflowStatus.name, value: workflowStatus.key })),
+  ];
+
+  const { tasks, total, totalPages, isLoading, reassignTask } = useAdminTasks({
+    search: debouncedSearch || undefined,
+    status: status || undefined,
+    page,
+    limit: PAGE_SIZE,
+  });
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, status]);
+
+  const openReassign = (task: Task) => {
+    setReassigning(task);
+    setAssigneeId(task.assignedToId?.id || '');
+  };
+
+  const handleReassign = async () => {
+    if (!reassigning) return;
+    setIsSaving(true);
+    await reassignTask(reassigning.id, assigneeId || null);
+    setIsSaving(false);
+    setReassigning(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Input
+          placeholder="Search by title or description"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          leftIcon={<Search className="w-4 h-4" />}
+        />
+        <div className="sm:w-48">
+          <Select value={status} onChange={(e) => setStatus(e.target.value)} options={statusOptions} />
+        </div>
+      </div>
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Task</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Creator</th>
+                <th className="py-2 pr-4 font-medium">Assignee</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {tasks.map((task) => (
+                <tr key={task.id}>
+                  <td className="py-3 pr-4 font-medium text-gray-900">{task.title}</td>
+                  <td className="py-3 pr-4">
+                    <StatusBadge status={task.status} category={task.statusCategory} />
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    {task.creatorId.firstName} {task.creatorId.lastName}
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    {task.assignedToId
+                      ? `${task.assignedToId.firstName} ${task.assignedToId.lastName}`
+                      : 'Unassigned'}
+                  </td>
+                  <td className="py-3 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      leftIcon={<UserCog className="w-4 h-4" />}
+                      onClick={() => openReassign(task)}
+                    >
+                      Reassign
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {tasks.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-6 text-center text-gray-500">
+                    No tasks found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <PageControls page={page} totalPages={totalPages} total={total} onChange={setPage} />
+
+      <Modal
+        isOpen={!!reassigning}
+        onClose={() => setReassigning(null)}
+        title="Reassign Task"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setReassigning(null)}>
+              Cancel
+            </Button>
+            <Button isLoading={isSaving} onClick={handleReassign}>
+              Save
+            </Button>
+          </>
+        }
+      >
+        {reassigning && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              <span className="font-semibold">{reassigning.title}</span>
+              {reassigning.workspaceId && ' belongs to a workspace and can only be assigned to its members.'}
+            </p>
+            <AssigneePicker
+              label="Assignee"
+              value={assigneeId}
+              onChange={setAssigneeId}
+              initialUser={reassigning.assignedToId}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAdminUsers } from '../../hooks/useAdmin';
+import { useDebounce } from '../../hooks/useDebounce';
+import { AccountStatus, UserRole } from '../../types/admin.types';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { PageControls } from './PageControls';
+
+const PAGE_SIZE = 20;
+
+const ROLE_OPTIONS = [
+  { label: 'User', value: 'USER' },
+  { label: 'Admin', value: 'ADMIN' },
+];
+
+export const AdminUsersTable: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<AccountStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const { users, total, totalPages, isLoading, setActive, changeRole } = useAdminUsers({
+    search: debouncedSearch || undefined,
+    status: status || undefined,
+    page,
+    limit: PAGE_SIZE,
+  });
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, status]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Input
+          placeholder="Search by name or email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          leftIcon={<Search className="w-4 h-4" />}
+        />
+        <div className="sm:w-48">
+          <Select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as AccountStatus | '')}
+            options={[
+              { label: 'All accounts', value: '' },
+              { label: 'Active', value: 'active' },
+              { label: 'Deactivated', value: 'deactivated' },
+            ]}
+          />
+        </div>
+      </div>
+
+      {isLoading && users.length === 0 ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">User</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {users.map((account) => {
+                const isSelf = account.id === currentUser?.id;
+                return (
+                  <tr key={account.id}>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium text-gray-900">
+                        {account.firstName} {account.lastName}
+                      </p>
+                      <p className="text-xs text-gray-500">{account.email}</p>
+                    </td>
+                    <td className="py-3 pr-4 w-36">
+                      <Select
+                        value={account.role}
+                        disabled={isSelf}
+                        onChange={(e) => changeRole(account.id, e.target.value as UserRole)}
+                        options={ROLE_OPTIONS}
+                      />
+                    </td>
+                    <td className="py-3 pr-4">
+                      {account.isActive ? (
+                        <Badge variant="success">Active</Badge>
+                      ) : (
+                        <Badge variant="neutral">Deactivated</Badge>
+                      )}
+                    </td>
+                    <td className="py-3 text-right">
+                      {!isSelf && (
+                        <Button
+                          size="sm"
+                          variant={account.isActive ? 'danger' : 'outline'}
+                          onClick={() => setActive(account.id, !account.isActive)}
+                        >
+                          {account.isActive ? 'Deactivate' : 'Reactivate'}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {users.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="py-6 text-center text-gray-500">
+                    No users found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <PageControls page={page} totalPages={totalPages} total={total} onChange={setPage} />
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '../ui/Button';
+
+interface PageControlsProps {
+  page: number;
+  totalPages: number;
+  total: number;
+  onChange: (page: number) => void;
+}
+
+export const PageControls: React.FC<PageControlsProps> = ({ page, totalPages, total, onChange }) => (
+  <div className="flex items-center justify-between pt-4 text-sm text-gray-500">
+    <span>{total} result{total === 1 ? '' : 's'}</span>
+    <div className="flex items-center gap-2">
+      <Button size="sm" variant="ghost" disabled={page <= 1} onClick={() => onChange(page - 1)} aria-label="Previous page">
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <span>
+        Page {page} of {Math.max(totalPages, 1)}
+      </span>
+      <Button size="sm" variant="ghost" disabled={page >= totalPages} onClick={() => onChange(page + 1)} aria-label="Next page">
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+    </div>
+  </div>
+);
@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { Task } from '../../types/task.types';
+import { WorkflowStatus } from '../../types/workflow.types';
+import { TaskCard } from '../tasks/TaskCard';
+import { useFlipAnimation } from '../../hooks/useFlipAnimation';
+import { STATUS_ACCENTS } from '../../utils/workflow';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  // Workflow statuses, one column each in order
+  statuses: WorkflowStatus[];
+  canEdit: boolean;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+  onView: (task: Task) => void;
+  // Move a task to a column, taskIds lists the tasks of that column in the new order
+  onMove: (task: Task, status: string, taskIds: string[]) => Promise<void>;
+}
+
+interface DropTarget {
+  status: string;
+  index: number;
+}
+
+// Lowest position first, newest first among tasks that were never reordered
+const byPosition = (a: Task, b: Task) =>
+  (a.position ?? 0) - (b.position ?? 0) || b.createdAt.localeCompare(a.createdAt);
+
+export const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  statuses,
+  canEdit,
+  onEdit,
+  onDelete,
+  onView,
+  onMove,
+}) => {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const registerCard = useFlipAnimation(boardRef);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  // Order shown for a column while its move is saved, the cached positions are stale until then
+  const [pendingOrder, setPendingOrder] = useState<{ status: string; taskIds: string[] } | null>(null);
+
+  const columnTasks = (status: string) => {
+    const column = tasks.filter((task) => task.status === status).sort(byPosition);
+    if (pendingOrder?.status !== status) return column;
+
+    const rank = (task: Task) => {
+      const index = pendingOrder.taskIds.indexOf(task.id);
+      return index === -1 ? pendingOrder.taskIds.length : index;
+    };
+    return column.sort((a, b) => rank(a) - rank(b));
+  };
+
+  // Index of the card the pointer is above, cards are stacked vertically
+  const dropIndex = (event: React.DragEvent<HTMLElement>) => {
+    const cards = Array.from(event.currentTarget.querySelectorAll<HTMLElement>('[data-task-id]')).filter(
+      (card) => card.dataset.taskId !== draggingId
+    );
+    const index = cards.findIndex((card) => {
+      const rect = card.getBoundingClientRect();
+      return event.clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? cards.length : index;
+  };
+
+  const handleDragOver = (status: string) => (event: React.DragEvent<HTMLElement>) => {
+    if (!draggingId) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+
+    const index = dropIndex(event);
+    if (dropTarget?.status !== status || dropTarget.index !== index) {
+      setDropTarget({ status, index });
+    }
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLElement>) => {
+    // Leaving for a child of the column is not leaving the column
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setDropTarget(null);
+    }
+  };
+
+  const handleDrop = (status: string) => async (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    const task = tasks.find((candidate) => candidate.id === draggingId);
+    const index = dropIndex(event);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    const taskIds = columnTasks(status)
+      .map((candidate) => candidate.id)
+      .filter((id) => id !== task.id);
+    taskIds.splice(index, 0, task.id);
+
+    const unchanged =
+      task.status === status &&
+      columnTasks(status).every((candidate, position) => candidate.id === taskIds[position]);
+    if (unchanged) return;
+
+    setPendingOrder({ status, taskIds });
+    try {
+      await onMove(task, status, taskIds);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setPendingOrder(null);
+    }
+  };
+
+  return (
+    <div ref={boardRef} className="flex gap-4 overflow-x-auto pb-4">
+      {statuses.map((column) => {
+        const cards = columnTasks(column.key);
+        const targetIndex = dropTarget?.status === column.key ? dropTarget.index : null;
+        const isTarget = targetIndex !== null;
+        // Drop indexes do not count the dragged card
+        const others = cards.filter((task) => task.id !== draggingId);
+        const showIndicatorBefore = (task: Task) => task.id !== draggingId && others.indexOf(task) === targetIndex;
+
+        return (
+          <section
+            key={column.key}
+            onDragOver={handleDragOver(column.key)}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop(column.key)}
+            className={`flex-shrink-0 w-80 rounded-lg bg-gray-100 border-t-4 ${STATUS_ACCENTS[column.color]} p-3 transition-colors ${
+              isTarget ? 'bg-blue-50 ring-2 ring-primary/40' : ''
+            }`}
+          >
+            <header className="flex items-center justify-between mb-3 px-1">
+              <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">{column.name}</h2>
+              <span className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5">
+                {cards.length}
+              </span>
+            </header>
+
+            <div className="space-y-3 min-h-[6rem]">
+              {cards.map((task) => (
+                <React.Fragment key={task.id}>
+                  {showIndicatorBefore(task) && <DropIndicator />}
+                  <div
+                    ref={registerCard(task.id)}
+                    data-task-id={task.id}
+                    draggable={canEdit}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = 'move';
+                      event.dataTransfer.setData('text/plain', task.id);
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`${canEdit ? 'cursor-grab active:cursor-grabbing' : ''} ${
+                      draggingId === task.id ? 'opacity-40' : ''
+                    }`}
+                  >
+                    <TaskCard task={task} onEdit={onEdit} onDelete={onDelete} onClick={onView} />
+                  </div>
+                </React.Fragment>
+              ))}
+              {isTarget && targetIndex >= others.length && <DropIndicator />}
+              {cards.length === 0 && !isTarget && (
+                <p className="text-sm text-gray-400 text-center py-8">No tasks</p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+const DropIndicator: React.FC = () => <div className="h-1 rounded-full bg-primary" />;
@@ -3,14 +3,13 @@ import { ClipboardList, PlusCircle, AlertOctagon, CheckCircle2 } from 'lucide-re
 import { useAssignedTasks, useCreatedTasks, useOverdueTasks } from '../../hooks/useTasks';
 import { Card } from '../ui/Card';
 import { SkeletonLoader } from '../ui/SkeletonLoader';
-import { Status } from '../../types/task.types';
 
 export const DashboardStats: React.FC = () => {
   const { tasks: assignedTasks, isLoading: loadingAssigned } = useAssignedTasks();
   const { tasks: createdTasks, isLoading: loadingCreated } = useCreatedTasks();
   const { tasks: overdueTasks, isLoading: loadingOverdue } = useOverdueTasks();
 
-  const completedTasksCount = assignedTasks.filter(t => t.status === Status.COMPLETED).length;
+  const completedTasksCount = assignedTasks.filter(t => t.statusCategory === 'DONE').length;
 
   const stats = [
     {
@@ -1,13 +1,26 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Bell, Check } from 'lucide-react';
 import { useNotifications } from '../../hooks/useNotifications';
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
 import { NotificationItem } from './NotificationItem';
 import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
 
 export const NotificationBell: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const { notifications, unreadCount, markAsRead, markAllAsRead, deleteNotification } = useNotifications();
+  const {
+    notifications,
+    unreadCount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotifications();
+  // Older notifications load as the end of the dropdown scrolls into view
+  const loadMoreRef = useInfiniteScroll(loadMore, isOpen && hasMore && !isLoadingMore);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -67,6 +80,11 @@ export const NotificationBell: React.FC = () => {
                 />
               ))
             )}
+            {hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-3">
+                {isLoadingMore && <LoadingSpinner size="sm" />}
+              </div>
+            )}
           </div>
           
           <div className="p-2 border-t border-gray-100 bg-gray-50 text-center">
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor, LogOut } from 'lucide-react';
+import { useSessions } from '../../hooks/useSessions';
+import { Card } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+export const ActiveSessions: React.FC = () => {
+  const { sessions, isLoading, revokeSession, revokeOtherSessions } = useSessions();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const hasOtherSessions = sessions.some((s) => !s.current);
+
+  const handleRevoke = async (id: string) => {
+    setPendingId(id);
+    await revokeSession(id);
+    setPendingId(null);
+  };
+
+  const handleRevokeOthers = async () => {
+    setPendingId('others');
+    await revokeOtherSessions();
+    setPendingId(null);
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-gray-900">Active Sessions</h3>
+        {hasOtherSessions && (
+          <Button
+            size="sm"
+            variant="ghost"
+            isLoading={pendingId === 'others'}
+            onClick={handleRevokeOthers}
+          >
+            Sign out other sessions
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center gap-3 py-3">
+              <Monitor className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 truncate" title={session.userAgent}>
+                  {session.userAgent || 'Unknown device'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ipAddress && `${session.ipAddress} · `}
+                  Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                </p>
+              </div>
+              {session.current ? (
+                <Badge variant="success">This device</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  isLoading={pendingId === session.id}
+                  leftIcon={<LogOut className="w-4 h-4" />}
+                  onClick={() => handleRevoke(session.id)}
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
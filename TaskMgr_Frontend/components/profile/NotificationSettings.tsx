@@ -0,0 +1,72 @@
+import React from 'react';
+import { useNotificationPreferences } from '../../hooks/useNotificationPreferences';
+import { NotificationChannel, NotificationType } from '../../types/notification.types';
+import { Card } from '../ui/Card';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  TASK_ASSIGNED: { label: 'Assignments', description: 'A task is assigned to you' },
+  TASK_UPDATED: { label: 'Task changes', description: 'A task you created, are assigned or watch changes' },
+  DEADLINE_APPROACHING: { label: 'Deadlines', description: 'One of your tasks is due soon' },
+  MENTION: { label: 'Mentions', description: 'Someone mentions you in a comment' },
+  TASK_UNBLOCKED: { label: 'Unblocked tasks', description: 'A task blocking yours is completed' },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: 'In-app',
+  email: 'Email',
+  digest: 'Digest',
+};
+
+export const NotificationSettings: React.FC = () => {
+  const { preferences, isLoading, setChannel } = useNotificationPreferences();
+
+  return (
+    <Card>
+      <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Choose how you hear about each event. Watch or mute single tasks from their details.
+      </p>
+
+      {isLoading || !preferences ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium" />
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                <th key={channel} className="py-2 px-2 font-medium text-center">
+                  {CHANNEL_LABELS[channel]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {(Object.keys(TYPE_LABELS) as NotificationType[]).map((type) => (
+              <tr key={type}>
+                <td className="py-2 pr-4">
+                  <p className="text-gray-900">{TYPE_LABELS[type].label}</p>
+                  <p className="text-xs text-gray-500">{TYPE_LABELS[type].description}</p>
+                </td>
+                {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                  <td key={channel} className="py-2 px-2 text-center">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      aria-label={`${TYPE_LABELS[type].label} by ${CHANNEL_LABELS[channel]}`}
+                      checked={preferences.notifications[type][channel]}
+                      onChange={(event) => setChannel(type, channel, event.target.checked)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+};
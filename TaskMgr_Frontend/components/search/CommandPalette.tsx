@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckSquare, LucideIcon, MessageSquare, Search, User } from 'lucide-react';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useSearch } from '../../hooks/useSearch';
+import { SearchHit, SearchType, Snippet } from '../../types/search.types';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const GROUPS: { type: SearchType; label: string; icon: LucideIcon }[] = [
+  { type: 'tasks', label: 'Tasks', icon: CheckSquare },
+  { type: 'comments', label: 'Comments', icon: MessageSquare },
+  { type: 'users', label: 'People', icon: User },
+  { type: 'notifications', label: 'Notifications', icon: Bell },
+];
+
+interface Item {
+  type: SearchType;
+  hit: SearchHit;
+}
+
+// Renders a snippet with its matches marked
+const Highlighted: React.FC<{ snippet: Snippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > position) parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+  return <>{parts}</>;
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const debouncedQuery = useDebounce(query, 250);
+  const { results, isLoading } = useSearch(isOpen ? debouncedQuery : '');
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const items: Item[] = results
+    ? GROUPS.flatMap(({ type }) => results[type].map((hit) => ({ type, hit })))
+    : [];
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [results]);
+
+  useEffect(() => {
+    if (!isOpen) setQuery('');
+  }, [isOpen]);
+
+  // Keep the highlighted result in view
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  const open = ({ type, hit }: Item) => {
+    if (type === 'users') {
+      navigate(`/tasks?q=${encodeURIComponent(`assignee:${hit.id}`)}`);
+    } else if (hit.taskId) {
+      navigate(`/tasks?task=${hit.taskId}`);
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((i) => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (items[highlighted]) open(items[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh] bg-black bg-opacity-50" onClick={onClose}>
+      <div
+        className="w-full max-w-xl overflow-hidden rounded-lg bg-white shadow-xl"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-100 px-4">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            role="combobox"
+            aria-expanded={items.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={items[highlighted] ? `search-result-${highlighted}` : undefined}
+            className="flex-1 py-4 text-sm focus:outline-none"
+            placeholder="Search tasks, comments, people and notifications"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+          />
+          {isLoading && <LoadingSpinner size="sm" />}
+        </div>
+
+        {debouncedQuery.trim() && results && (
+          <ul id="command-palette-results" role="listbox" ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+            {items.length === 0 && <li className="px-4 py-6 text-center text-sm text-gray-500">No results</li>}
+            {GROUPS.filter(({ type }) => results[type].length > 0).map(({ type, label, icon: Icon }) => (
+              <li key={type} role="presentation">
+                <div className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">{label}</div>
+                <ul role="presentation">
+                  {results[type].map((hit) => {
+                    const index = items.findIndex((item) => item.type === type && item.hit.id === hit.id);
+                    return (
+                      <li
+                        key={hit.id}
+                        id={`search-result-${index}`}
+                        role="option"
+                        aria-selected={index === highlighted}
+                        onMouseEnter={() => setHighlighted(index)}
+                        onClick={() => open({ type, hit })}
+                        className={`flex cursor-pointer items-start gap-3 px-4 py-2 ${
+                          index === highlighted ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <Icon className="mt-0.5 w-4 h-4 flex-shrink-0 text-gray-400" />
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium text-gray-900">
+                            <Highlighted snippet={hit.title} />
+                          </p>
+                          {hit.snippet && (
+                            <p className="line-clamp-2 text-xs text-gray-500">
+                              <Highlighted snippet={hit.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-4 border-t border-gray-100 px-4 py-2 text-xs text-gray-400">
+          <span>↑↓ to navigate</span>
+          <span>Enter to open</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
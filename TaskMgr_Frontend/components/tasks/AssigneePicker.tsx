@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Search, X } from 'lucide-react';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useUser, useUserSearch } from '../../hooks/useUsers';
+import { TaskUser } from '../../types/task.types';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+interface AssigneePickerProps {
+  label?: string;
+  // Selected user ID, empty when unassigned
+  value: string;
+  // Receives the summary of the selected user as well
+  onChange: (userId: string, user?: TaskUser) => void;
+  // Restricts the candidates to the members of a workspace
+  workspaceId?: string;
+  // Summary of the initially selected user, avoids fetching its profile
+  initialUser?: TaskUser;
+  // Shown when no user is selected
+  placeholder?: string;
+  error?: string;
+}
+
+const RESULT_LIMIT = 8;
+
+const fullName = (user: Pick<TaskUser, 'firstName' | 'lastName'>) => `${user.firstName} ${user.lastName}`;
+
+export const AssigneePicker: React.FC<AssigneePickerProps> = ({
+  label,
+  value,
+  onChange,
+  workspaceId,
+  initialUser,
+  placeholder = 'Unassigned',
+  error,
+}) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [selected, setSelected] = useState<TaskUser | undefined>(initialUser);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  const { users, isLoading } = useUserSearch(
+    { search: debouncedQuery || undefined, workspaceId, limit: RESULT_LIMIT },
+    isOpen
+  );
+
+  // Resolve the label of a preselected user that was not passed in
+  const needsProfile = !!value && selected?.id !== value;
+  const { user: fetchedUser } = useUser(needsProfile ? value : undefined);
+  const selectedUser = value ? (selected?.id === value ? selected : fetchedUser) : undefined;
+
+  useEffect(() => {
+    setSelected(initialUser);
+  }, [initialUser]);
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const select = (user: TaskUser | null) => {
+    setSelected(user || undefined);
+    onChange(user ? user.id : '', user || undefined);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((i) => Math.min(i + 1, users.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && isOpen) {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      if (users[highlighted]) select(users[highlighted]);
+    } else if (e.key === 'Escape' && isOpen) {
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="w-full" ref={containerRef}>
+      {label && (
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+      )}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-500">
+          <Search className="w-4 h-4" />
+        </div>
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-autocomplete="list"
+          className={`
+            w-full rounded-md border border-gray-300 py-2 pl-9 pr-9
+            focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent
+            ${error ? 'border-red-500 focus:ring-red-500' : ''}
+          `}
+          placeholder={selectedUser ? fullName(selectedUser) : placeholder}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => select(null)}
+            className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+            aria-label="Unassign"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+
+        {isOpen && (
+          <ul
+            role="listbox"
+            className="absolute z-10 mt-1 w-full max-h-60 overflow-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5"
+          >
+            {isLoading && users.length === 0 ? (
+              <li className="flex justify-center py-3">
+                <LoadingSpinner size="sm" />
+              </li>
+            ) : users.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">No users found</li>
+            ) : (
+              users.map((user, index) => (
+                <li
+                  key={user.id}
+                  role="option"
+                  aria-selected={user.id === value}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(user)}
+                  onMouseEnter={() => setHighlighted(index)}
+                  className={`cursor-pointer px-3 py-2 ${index === highlighted ? 'bg-blue-50' : ''}`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{fullName(user)}</p>
+                  <p className="text-xs text-gray-500">{user.email}</p>
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { useBulkUpdateTasks } from '../../hooks/useTasks';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { useLabels } from '../../hooks/useLabels';
+import { BulkTaskOperation, BulkTaskResult, Priority } from '../../types/task.types';
+import { AssigneePicker } from './AssigneePicker';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { Select } from '../ui/Select';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  // Workspace of the listed tasks, for its statuses, members and labels
+  workspaceId?: string;
+  onClear: () => void;
+  // Receives the outcome for each selected task once an action is applied
+  onApplied: (results: BulkTaskResult[]) => void;
+}
+
+type UpdateOperation = Exclude<BulkTaskOperation, 'DELETE'>;
+
+const OPERATION_OPTIONS: { label: string; value: UpdateOperation }[] = [
+  { label: 'Set status', value: 'SET_STATUS' },
+  { label: 'Set priority', value: 'SET_PRIORITY' },
+  { label: 'Reassign', value: 'ASSIGN' },
+  { label: 'Set due date', value: 'SET_DUE_DATE' },
+  { label: 'Add label', value: 'ADD_LABEL' },
+  { label: 'Remove label', value: 'REMOVE_LABEL' },
+];
+
+const PRIORITY_OPTIONS = Object.values(Priority).map((priority) => ({ label: priority, value: priority }));
+
+// Operations whose empty value is meaningful: unassign, clear the due date
+const CLEARING_OPERATIONS: UpdateOperation[] = ['ASSIGN', 'SET_DUE_DATE'];
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedIds, workspaceId, onClear, onApplied }) => {
+  const { bulkUpdateTasks } = useBulkUpdateTasks();
+  const { statuses } = useWorkflow(workspaceId);
+  const { labels } = useLabels(workspaceId);
+  const [operation, setOperation] = useState<UpdateOperation>('SET_STATUS');
+  const [value, setValue] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // Each operation takes another kind of value
+  useEffect(() => {
+    setValue('');
+  }, [operation]);
+
+  const apply = async (bulkOperation: BulkTaskOperation, bulkValue?: string | null) => {
+    setIsApplying(true);
+    try {
+      onApplied(await bulkUpdateTasks(selectedIds, bulkOperation, bulkValue));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsApplying(false);
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (operation === 'SET_DUE_DATE') {
+      apply(operation, value ? new Date(value).toISOString() : null);
+    } else {
+      apply(operation, value || null);
+    }
+  };
+
+  const renderValueInput = () => {
+    switch (operation) {
+      case 'SET_STATUS':
+        return (
+          <Select
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            options={[{ label: 'Choose a status', value: '' }, ...statuses.map((status) => ({ label: status.name, value: status.key }))]}
+            aria-label="Status"
+          />
+        );
+      case 'SET_PRIORITY':
+        return (
+          <Select
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            options={[{ label: 'Choose a priority', value: '' }, ...PRIORITY_OPTIONS]}
+            aria-label="Priority"
+          />
+        );
+      case 'ASSIGN':
+        return <AssigneePicker value={value} onChange={(userId) => setValue(userId)} workspaceId={workspaceId} />;
+      case 'SET_DUE_DATE':
+        return <Input type="date" value={value} onChange={(e) => setValue(e.target.value)} aria-label="Due date" />;
+      case 'ADD_LABEL':
+      case 'REMOVE_LABEL':
+        return (
+          <Select
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            options={[{ label: 'Choose a label', value: '' }, ...labels.map((label) => ({ label: label.name, value: label.id }))]}
+            aria-label="Label"
+          />
+        );
+    }
+  };
+
+  const count = selectedIds.length;
+
+  return (
+    <div className="sticky bottom-4 z-30 flex flex-wrap items-center gap-3 rounded-lg border border-gray-200 bg-white p-3 shadow-lg">
+      <span className="text-sm font-medium text-gray-700">
+        {count} {count === 1 ? 'task' : 'tasks'} selected
+      </span>
+      <div className="w-40">
+        <Select
+          value={operation}
+          onChange={(e) => setOperation(e.target.value as UpdateOperation)}
+          options={OPERATION_OPTIONS}
+          aria-label="Bulk action"
+        />
+      </div>
+      <div className="min-w-[12rem] flex-1">{renderValueInput()}</div>
+      <Button
+        size="sm"
+        onClick={handleApply}
+        isLoading={isApplying && !isConfirmingDelete}
+        disabled={isApplying || (!value && !CLEARING_OPERATIONS.includes(operation))}
+      >
+        Apply
+      </Button>
+      <Button
+        size="sm"
+        variant="danger"
+        leftIcon={<Trash2 className="w-4 h-4" />}
+        onClick={() => setIsConfirmingDelete(true)}
+        disabled={isApplying}
+      >
+        Delete
+      </Button>
+      <button
+        onClick={onClear}
+        className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+        aria-label="Clear selection"
+        title="Clear selection"
+      >
+        <X className="w-4 h-4" />
+      </button>
+
+      <Modal
+        isOpen={isConfirmingDelete}
+        onClose={() => setIsConfirmingDelete(false)}
+        title="Confirm Delete"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setIsConfirmingDelete(false)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={() => apply('DELETE')} isLoading={isApplying}>
+              Delete
+            </Button>
+          </>
+        }
+      >
+        <p className="text-gray-600">
+          Are you sure you want to delete <span className="font-semibold">{count} {count === 1 ? 'task' : 'tasks'}</span>?
+          They move to the trash, where you can restore them.
+        </p>
+      </Modal>
+    </div>
+  );
+};
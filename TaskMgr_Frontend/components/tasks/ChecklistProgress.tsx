@@ -0,0 +1,36 @@
+import React from 'react';
+import { ChecklistItem } from '../../types/task.types';
+
+interface ChecklistProgressProps {
+  checklist: ChecklistItem[];
+  completion: number | null;
+}
+
+export const ChecklistProgress: React.FC<ChecklistProgressProps> = ({ checklist, completion }) => {
+  if (completion === null) return null;
+
+  const done = checklist.filter((item) => item.done).length;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>
+          {done}/{checklist.length} done
+        </span>
+        <span>{completion}%</span>
+      </div>
+      <div
+        className="h-1.5 w-full rounded-full bg-gray-200 overflow-hidden"
+        role="progressbar"
+        aria-valuenow={completion}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${completion === 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${completion}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { TaskLabel } from '../../types/label.types';
+import { labelTextColor } from '../../utils/labels';
+
+interface LabelChipProps {
+  label: TaskLabel;
+  // Shows a remove button
+  onRemove?: () => void;
+}
+
+export const LabelChip: React.FC<LabelChipProps> = ({ label, onRemove }) => (
+  <span
+    className="inline-flex items-center max-w-[10rem] px-2 py-0.5 rounded-full text-xs font-medium"
+    style={{ backgroundColor: label.color, color: labelTextColor(label.color) }}
+    title={label.name}
+  >
+    <span className="truncate">{label.name}</span>
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-1 -mr-0.5 opacity-75 hover:opacity-100"
+        aria-label={`Remove ${label.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
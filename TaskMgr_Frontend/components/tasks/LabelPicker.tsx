@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Plus, Tag } from 'lucide-react';
+import { useLabels } from '../../hooks/useLabels';
+import { TaskLabel } from '../../types/label.types';
+import { LABEL_COLORS } from '../../utils/labels';
+import { LabelChip } from './LabelChip';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+interface LabelPickerProps {
+  label?: string;
+  // Selected label IDs
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  // Workspace of the task, personal labels when unset
+  workspaceId?: string;
+  // Labels already on the task, which may not be in the list (personal labels of another user)
+  initialLabels?: TaskLabel[];
+}
+
+type Option = { type: 'label'; label: TaskLabel } | { type: 'create'; name: string };
+
+export const LabelPicker: React.FC<LabelPickerProps> = ({
+  label,
+  value,
+  onChange,
+  workspaceId,
+  initialLabels = [],
+}) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { labels, isLoading, createLabel } = useLabels(workspaceId);
+
+  const known = [...labels, ...initialLabels.filter((initial) => !labels.some((l) => l.id === initial.id))];
+  const selected = value
+    .map((id) => known.find((candidate) => candidate.id === id))
+    .filter((candidate): candidate is TaskLabel => !!candidate);
+
+  const term = query.trim();
+  const matches = labels.filter((candidate) => candidate.name.toLowerCase().includes(term.toLowerCase()));
+  const canCreate = !!term && !labels.some((candidate) => candidate.name.toLowerCase() === term.toLowerCase());
+  const options: Option[] = [
+    ...matches.map((candidate) => ({ type: 'label' as const, label: candidate })),
+    ...(canCreate ? [{ type: 'create' as const, name: term }] : []),
+  ];
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [term]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+  };
+
+  const choose = async (option: Option) => {
+    if (option.type === 'label') {
+      toggle(option.label.id);
+    } else {
+      const created = await createLabel(option.name, LABEL_COLORS[labels.length % LABEL_COLORS.length]);
+      if (created) onChange([...value, created.id]);
+    }
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((i) => Math.min(i + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && isOpen) {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      if (options[highlighted]) choose(options[highlighted]);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === 'Escape' && isOpen) {
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="w-full" ref={containerRef}>
+      {label && (
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+      )}
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1 w-full rounded-md border border-gray-300 bg-white py-1.5 pl-9 pr-3 focus-within:ring-2 focus-within:ring-primary focus-within:border-transparent">
+          <div className="absolute left-0 top-2.5 pl-3 pointer-events-none text-gray-500">
+            <Tag className="w-4 h-4" />
+          </div>
+          {selected.map((chip) => (
+            <LabelChip key={chip.id} label={chip} onRemove={() => toggle(chip.id)} />
+          ))}
+          <input
+            type="text"
+            role="combobox"
+            aria-expanded={isOpen}
+            aria-autocomplete="list"
+            className="flex-1 min-w-[6rem] py-0.5 text-sm focus:outline-none"
+            placeholder={selected.length === 0 ? 'Add labels' : ''}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setIsOpen(true);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onKeyDown={handleKeyDown}
+          />
+        </div>
+
+        {isOpen && (
+          <ul
+            role="listbox"
+            aria-multiselectable
+            className="absolute z-10 mt-1 w-full max-h-60 overflow-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5"
+          >
+            {isLoading && labels.length === 0 ? (
+              <li className="flex justify-center py-3">
+                <LoadingSpinner size="sm" />
+              </li>
+            ) : options.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">Type to create a label</li>
+            ) : (
+              options.map((option, index) => (
+                <li
+                  key={option.type === 'label' ? option.label.id : 'create'}
+                  role="option"
+                  aria-selected={option.type === 'label' && value.includes(option.label.id)}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => choose(option)}
+                  onMouseEnter={() => setHighlighted(index)}
+                  className={`flex items-center justify-between cursor-pointer px-3 py-2 ${
+                    index === highlighted ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  {option.type === 'label' ? (
+                    <>
+                      <LabelChip label={option.label} />
+                      {value.includes(option.label.id) && <Check className="w-4 h-4 text-primary" />}
+                    </>
+                  ) : (
+                    <span className="flex items-center text-sm text-gray-700">
+                      <Plus className="w-4 h-4 mr-1" />
+                      Create "{option.name}"
+                    </span>
+                  )}
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
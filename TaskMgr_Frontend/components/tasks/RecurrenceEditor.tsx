@@ -0,0 +1,147 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Select } from '../ui/Select';
+import { Input } from '../ui/Input';
+import {
+  RecurrenceValue,
+  RecurrenceFrequency,
+  RecurrenceEnd,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  Weekday,
+} from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+const UNIT_LABELS: Record<Exclude<RecurrenceFrequency, 'NONE'>, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+};
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, disabled, error }) => {
+  const update = (changes: Partial<RecurrenceValue>) => onChange({ ...value, ...changes });
+
+  const toggleDay = (day: Weekday) =>
+    update({
+      byDay: value.byDay.includes(day) ? value.byDay.filter((d) => d !== day) : [...value.byDay, day],
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          label="Repeat"
+          value={value.frequency}
+          disabled={disabled}
+          onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency })}
+          options={[
+            { label: 'Does not repeat', value: 'NONE' },
+            { label: 'Daily', value: 'DAILY' },
+            { label: 'Weekly', value: 'WEEKLY' },
+            { label: 'Monthly', value: 'MONTHLY' },
+          ]}
+        />
+
+        {value.frequency !== 'NONE' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Every</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={value.interval}
+                disabled={disabled}
+                onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-20 rounded-md border border-gray-300 py-2 px-3 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+              <span className="text-sm text-gray-600">{UNIT_LABELS[value.frequency]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.frequency === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day}
+              type="button"
+              disabled={disabled}
+              onClick={() => toggleDay(day)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                value.byDay.includes(day)
+                  ? 'bg-primary text-white border-primary'
+                  : 'bg-white text-gray-600 border-gray-300 hover:border-primary'
+              }`}
+            >
+              {WEEKDAY_LABELS[day]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.frequency === 'MONTHLY' && (
+        <Select
+          label="On"
+          value={String(value.byMonthDay)}
+          disabled={disabled}
+          onChange={(e) => update({ byMonthDay: Number(e.target.value) })}
+          options={[
+            { label: 'Same day as the due date', value: '0' },
+            ...Array.from({ length: 31 }, (_, i) => ({ label: `Day ${i + 1}`, value: String(i + 1) })),
+            { label: 'Last day of the month', value: '-1' },
+          ]}
+        />
+      )}
+
+      {value.frequency !== 'NONE' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Ends"
+            value={value.end}
+            disabled={disabled}
+            onChange={(e) => update({ end: e.target.value as RecurrenceEnd })}
+            options={[
+              { label: 'Never', value: 'NEVER' },
+              { label: 'On a date', value: 'UNTIL' },
+              { label: 'After a number of tasks', value: 'COUNT' },
+            ]}
+          />
+          {value.end === 'UNTIL' && (
+            <Input
+              type="date"
+              label="End Date"
+              value={value.until}
+              disabled={disabled}
+              onChange={(e) => update({ until: e.target.value })}
+            />
+          )}
+          {value.end === 'COUNT' && (
+            <Input
+              type="number"
+              label="Number of Tasks"
+              min={1}
+              value={value.count}
+              disabled={disabled}
+              onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Badge } from '../ui/Badge';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { StatusCategory } from '../../types/workflow.types';
+import { STATUS_BADGE_VARIANTS } from '../../utils/workflow';
+
+interface StatusBadgeProps {
+  status: string;
+  category?: StatusCategory;
+  // Workspace of the task, its workflow names and colors the status
+  workspaceId?: string;
+}
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, category, workspaceId }) => {
+  const { getStatus } = useWorkflow(workspaceId);
+  const workflowStatus = getStatus(status, category);
+
+  return <Badge variant={STATUS_BADGE_VARIANTS[workflowStatus.color]}>{workflowStatus.name}</Badge>;
+};
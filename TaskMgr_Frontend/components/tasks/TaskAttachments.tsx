@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileText, Paperclip, Trash2, Upload } from 'lucide-react';
+import { useTask } from '../../hooks/useTasks';
+import { useAttachments, useAttachmentUrl } from '../../hooks/useAttachments';
+import { Attachment, Task } from '../../types/task.types';
+import { Button } from '../ui/Button';
+
+interface TaskAttachmentsProps {
+  // Task as initially displayed, kept up to date from the cache
+  task: Task;
+  canEdit?: boolean;
+}
+
+const formatSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isImage = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+const Thumbnail: React.FC<{ taskId: string; attachment: Attachment }> = ({ taskId, attachment }) => {
+  const url = useAttachmentUrl(taskId, attachment.id);
+
+  return url ? (
+    <img src={url} alt={attachment.name} className="h-full w-full object-cover" />
+  ) : (
+    <div className="h-full w-full animate-pulse bg-gray-200" />
+  );
+};
+
+export const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ task: initialTask, canEdit = true }) => {
+  const { task: liveTask } = useTask(initialTask.id);
+  const task = liveTask ?? initialTask;
+  const { upload, remove, download } = useAttachments(task.id);
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const attachments = task.attachments || [];
+  const images = attachments.filter(isImage);
+  const files = attachments.filter((attachment) => !isImage(attachment));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    setIsUploading(true);
+    // One file per request, as the API accepts them
+    for (const file of selected) {
+      await upload(file);
+    }
+    setIsUploading(false);
+  };
+
+  const actions = (attachment: Attachment) => (
+    <>
+      <button
+        type="button"
+        onClick={() => download(attachment)}
+        className="p-1 text-gray-400 hover:text-blue-600"
+        title="Download"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {canEdit && (
+        <button
+          type="button"
+          onClick={() => remove(attachment.id)}
+          className="p-1 text-gray-400 hover:text-red-600"
+          title="Delete"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <Paperclip className="w-4 h-4" />
+          Attachments
+        </h3>
+        {canEdit && (
+          <>
+            <input ref={inputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              isLoading={isUploading}
+              onClick={() => inputRef.current?.click()}
+              leftIcon={<Upload className="w-4 h-4" />}
+            >
+              Upload
+            </Button>
+          </>
+        )}
+      </div>
+
+      {attachments.length === 0 && <p className="text-sm text-gray-400">No attachments</p>}
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {images.map((attachment) => (
+            <div key={attachment.id} className="group relative aspect-square overflow-hidden rounded-md border border-gray-200">
+              <button
+                type="button"
+                onClick={() => download(attachment)}
+                className="h-full w-full"
+                title={`${attachment.name} (${formatSize(attachment.size)})`}
+              >
+                <Thumbnail taskId={task.id} attachment={attachment} />
+              </button>
+              <div className="absolute top-1 right-1 flex rounded bg-white/90 opacity-0 group-hover:opacity-100 transition-opacity">
+                {actions(attachment)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-2 py-1">
+              <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              <span className="flex-1 truncate text-sm text-gray-800" title={attachment.name}>
+                {attachment.name}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{formatSize(attachment.size)}</span>
+              {actions(attachment)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
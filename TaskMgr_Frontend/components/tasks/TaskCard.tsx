@@ -1,17 +1,28 @@
 import React from 'react';
 import { format, isPast } from 'date-fns';
-import { Calendar, User, Edit2, Trash2, Clock } from 'lucide-react';
-import { Task, Priority, Status } from '../../types/task.types';
+import { Calendar, User, Edit2, Trash2, Clock, Lock, GitBranch, Repeat } from 'lucide-react';
+import { Task, Priority } from '../../types/task.types';
 import { Card } from '../ui/Card';
 import { Badge, BadgeVariant } from '../ui/Badge';
+import { ChecklistProgress } from './ChecklistProgress';
+import { StatusBadge } from './StatusBadge';
+import { LabelChip } from './LabelChip';
+import { useChecklist } from '../../hooks/useChecklist';
+import { describeRecurrence } from '../../utils/recurrence';
 
 interface TaskCardProps {
   task: Task;
   onEdit: (task: Task) => void;
   onDelete: (task: Task) => void;
   onClick: (task: Task) => void;
+  // Shows a checkbox to select the task for bulk actions
+  onSelect?: (task: Task) => void;
+  isSelected?: boolean;
 }
 
+// Number of checklist items shown on the card
+const CHECKLIST_PREVIEW_SIZE = 3;
+
 const getPriorityBadgeVariant = (priority: Priority): BadgeVariant => {
   switch (priority) {
     case Priority.URGENT: return 'danger';
@@ -22,19 +33,19 @@ const getPriorityBadgeVariant = (priority: Priority): BadgeVariant => {
   }
 };
 
-const getStatusBadgeVariant = (status: Status): BadgeVariant => {
-  switch (status) {
-    case Status.COMPLETED: return 'success';
-    case Status.IN_PROGRESS: return 'info';
-    case Status.REVIEW: return 'warning';
-    case Status.TODO: return 'neutral';
-    default: return 'neutral';
-  }
-};
+export const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDelete, onClick, onSelect, isSelected }) => {
+  const { toggleItem } = useChecklist(task.id);
+  const checklist = task.checklist || [];
+  // Open items first so the card shows what is left to do
+  const checklistPreview = [...checklist]
+    .sort((a, b) => Number(a.done) - Number(b.done))
+    .slice(0, CHECKLIST_PREVIEW_SIZE);
+
+  const openBlockers = (task.blockedBy || []).filter((blocker) => blocker.statusCategory !== 'DONE');
+  const blockingCount = task.statusCategory !== 'DONE' ? task.blockingCount ?? 0 : 0;
 
-export const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDelete, onClick }) => {
   const isOverdue = task.dueDate 
-    ? isPast(new Date(task.dueDate)) && task.status !== Status.COMPLETED
+    ? isPast(new Date(task.dueDate)) && task.statusCategory !== 'DONE'
     : false;
 
   const handleEdit = (e: React.MouseEvent) => {
@@ -52,11 +63,23 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDelete, onCl
       onClick={() => onClick(task)}
       className="group relative cursor-pointer transition-transform duration-200 hover:-translate-y-1"
     >
-      <Card className="h-full flex flex-col hover:shadow-lg transition-shadow">
+      <Card className={`h-full flex flex-col hover:shadow-lg transition-shadow ${isSelected ? 'ring-2 ring-primary' : ''}`}>
         <div className="flex justify-between items-start mb-2">
-          <Badge variant={getPriorityBadgeVariant(task.priority)}>
-            {task.priority}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {onSelect && (
+              <input
+                type="checkbox"
+                checked={!!isSelected}
+                onChange={() => onSelect(task)}
+                onClick={(e) => e.stopPropagation()}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                aria-label={`Select ${task.title}`}
+              />
+            )}
+            <Badge variant={getPriorityBadgeVariant(task.priority)}>
+              {task.priority}
+            </Badge>
+          </div>
           <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <button 
               onClick={handleEdit}
@@ -79,17 +102,73 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDelete, onCl
           {task.title}
         </h3>
 
+        {task.labels?.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {task.labels.map((label) => (
+              <LabelChip key={label.id} label={label} />
+            ))}
+          </div>
+        )}
+
+        {(openBlockers.length > 0 || blockingCount > 0) && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {openBlockers.length > 0 && (
+              <span title={`Blocked by ${openBlockers.map((blocker) => blocker.title).join(', ')}`}>
+                <Badge variant="danger">
+                  <Lock className="w-3 h-3 mr-1" />
+                  Blocked
+                </Badge>
+              </span>
+            )}
+            {blockingCount > 0 && (
+              <Badge variant="warning">
+                <GitBranch className="w-3 h-3 mr-1" />
+                Blocking {blockingCount}
+              </Badge>
+            )}
+          </div>
+        )}
+
         <p className="text-sm text-gray-500 mb-4 line-clamp-2 flex-grow">
           {task.description}
         </p>
 
+        {checklist.length > 0 && (
+          <div className="mb-4 space-y-2" onClick={(e) => e.stopPropagation()}>
+            <ChecklistProgress checklist={checklist} completion={task.checklistCompletion ?? null} />
+            <ul className="space-y-1">
+              {checklistPreview.map((item) => (
+                <li key={item.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    onChange={() => toggleItem(item)}
+                    className="h-3.5 w-3.5 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <span className={`truncate ${item.done ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+                    {item.text}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {checklist.length > CHECKLIST_PREVIEW_SIZE && (
+              <p className="text-xs text-gray-400">
+                +{checklist.length - CHECKLIST_PREVIEW_SIZE} more
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="mt-auto space-y-3 pt-3 border-t border-gray-100">
           <div className="flex items-center justify-between text-xs">
-             <Badge variant={getStatusBadgeVariant(task.status)}>
-              {task.status.replace('_', ' ')}
-            </Badge>
+             <StatusBadge status={task.status} category={task.statusCategory} workspaceId={task.workspaceId} />
             {task.dueDate && (
               <div className={`flex items-center ${isOverdue ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                {task.seriesId && !task.seriesId.endedAt && (
+                  <span title={describeRecurrence(task.seriesId.rule)}>
+                    <Repeat className="w-3 h-3 mr-1" />
+                  </span>
+                )}
                 <Calendar className="w-3 h-3 mr-1" />
                 {format(new Date(task.dueDate), 'MMM d, yyyy')}
               </div>
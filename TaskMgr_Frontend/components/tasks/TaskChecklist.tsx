@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, ListChecks, Trash2, UserPlus } from 'lucide-react';
+import { useTask } from '../../hooks/useTasks';
+import { useChecklist } from '../../hooks/useChecklist';
+import { useUser } from '../../hooks/useUsers';
+import { ChecklistItem, Task } from '../../types/task.types';
+import { AssigneePicker } from './AssigneePicker';
+import { ChecklistProgress } from './ChecklistProgress';
+import { Button } from '../ui/Button';
+
+interface TaskChecklistProps {
+  // Task as initially displayed, kept up to date from the cache
+  task: Task;
+  canEdit?: boolean;
+}
+
+const ItemAssignee: React.FC<{ userId: string }> = ({ userId }) => {
+  const { user } = useUser(userId);
+  if (!user) return null;
+
+  return (
+    <span className="text-xs text-gray-500 whitespace-nowrap">
+      {user.firstName} {user.lastName}
+    </span>
+  );
+};
+
+export const TaskChecklist: React.FC<TaskChecklistProps> = ({ task: initialTask, canEdit = true }) => {
+  const { task: liveTask } = useTask(initialTask.id);
+  const task = liveTask ?? initialTask;
+  const { addItem, updateItem, toggleItem, moveItem, removeItem } = useChecklist(task.id);
+  const [text, setText] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+
+  const checklist = task.checklist || [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    setIsAdding(true);
+    const updated = await addItem(text.trim());
+    setIsAdding(false);
+    if (updated) setText('');
+  };
+
+  const handleAssign = async (item: ChecklistItem, userId: string) => {
+    setAssigningId(null);
+    await updateItem(item.id, { assigneeId: userId || null });
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+        <ListChecks className="w-4 h-4" />
+        Checklist
+      </h3>
+
+      <ChecklistProgress checklist={checklist} completion={task.checklistCompletion ?? null} />
+
+      <ul className="space-y-1">
+        {checklist.map((item, index) => (
+          <li key={item.id} className="group">
+            <div className="flex items-center gap-2 py-1">
+              <input
+                type="checkbox"
+                checked={item.done}
+                disabled={!canEdit}
+                onChange={() => toggleItem(item)}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <span className={`flex-1 text-sm ${item.done ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                {item.text}
+              </span>
+              {item.assigneeId && <ItemAssignee userId={item.assigneeId} />}
+              {canEdit && (
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => setAssigningId(assigningId === item.id ? null : item.id)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    title="Assign"
+                  >
+                    <UserPlus className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveItem(checklist, index, index - 1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveItem(checklist, index, index + 1)}
+                    disabled={index === checklist.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeItem(item.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {assigningId === item.id && (
+              <div className="pl-6 pb-2">
+                <AssigneePicker
+                  value={item.assigneeId || ''}
+                  onChange={(userId) => handleAssign(item, userId)}
+                  workspaceId={task.workspaceId}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={500}
+            placeholder="Add an item"
+            className="flex-1 rounded-md border border-gray-300 py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <Button type="submit" size="sm" isLoading={isAdding} disabled={!text.trim()}>
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
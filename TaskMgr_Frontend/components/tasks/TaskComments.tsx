@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Edit2, Trash2, Send } from 'lucide-react';
+import { useComments } from '../../hooks/useComments';
+import { useAuth } from '../../contexts/AuthContext';
+import { Comment } from '../../types/comment.types';
+import { Textarea } from '../ui/Textarea';
+import { Button } from '../ui/Button';
+import { SkeletonLoader } from '../ui/SkeletonLoader';
+
+interface TaskCommentsProps {
+  taskId: string;
+  taskCreatorId: string;
+}
+
+// Same token shapes the backend resolves: @email or @<24-char user id>
+const MENTION_SPLIT = /(@[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}|@[0-9a-fA-F]{24})/g;
+
+const renderBody = (body: string) =>
+  body.split(MENTION_SPLIT).map((part, i) =>
+    i % 2 === 1 ? (
+      <span key={i} className="text-blue-600 font-medium">{part}</span>
+    ) : (
+      <React.Fragment key={i}>{part}</React.Fragment>
+    )
+  );
+
+export const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskCreatorId }) => {
+  const { user } = useAuth();
+  const [page, setPage] = useState(1);
+  const { comments, pagination, isLoading, addComment, editComment, removeComment } = useComments(taskId, page);
+
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    setIsPosting(true);
+    try {
+      await addComment(draft.trim());
+      setDraft('');
+      // Jump to the last page so the new comment is visible
+      if (pagination && pagination.total + 1 > pagination.page * pagination.limit) {
+        setPage(Math.ceil((pagination.total + 1) / pagination.limit));
+      }
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft.trim()) return;
+    try {
+      await editComment(editingId, editDraft.trim());
+      setEditingId(null);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="flex items-center text-sm font-semibold text-gray-900">
+        <MessageSquare className="w-4 h-4 mr-2 text-gray-500" />
+        Comments {pagination ? `(${pagination.total})` : ''}
+      </h4>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <SkeletonLoader variant="text" width="60%" />
+          <SkeletonLoader variant="text" width="90%" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => {
+            const isAuthor = comment.authorId?.id === user?.id;
+            const canDelete = isAuthor || taskCreatorId === user?.id;
+
+            return (
+              <li key={comment.id} className="group bg-gray-50 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-6 rounded-full bg-gradient-to-br from-purple-500 to-blue-600 text-white flex items-center justify-center text-xs font-bold">
+                      {comment.authorId?.firstName?.charAt(0) || '?'}
+                    </div>
+                    <span className="text-sm font-medium text-gray-900">
+                      {comment.authorId ? `${comment.authorId.firstName} ${comment.authorId.lastName}` : 'Unknown user'}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                      {comment.editedAt && ' (edited)'}
+                    </span>
+                  </div>
+                  <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {isAuthor && (
+                      <button
+                        onClick={() => startEditing(comment)}
+                        className="p-1 text-gray-400 hover:text-blue-600 rounded-full hover:bg-blue-50"
+                        title="Edit comment"
+                      >
+                        <Edit2 className="w-3 h-3" />
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={() => removeComment(comment.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50"
+                        title="Delete comment"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="space-y-2">
+                    <Textarea rows={2} value={editDraft} onChange={(e) => setEditDraft(e.target.value)} />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleSaveEdit} disabled={!editDraft.trim()}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{renderBody(comment.body)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <Button size="sm" variant="ghost" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Older
+          </Button>
+          <span>Page {pagination.page} of {pagination.totalPages}</span>
+          <Button size="sm" variant="ghost" disabled={page >= pagination.totalPages} onClick={() => setPage(page + 1)}>
+            Newer
+          </Button>
+        </div>
+      )}
+
+      <form onSubmit={handlePost} className="space-y-2">
+        <Textarea
+          rows={2}
+          placeholder="Write a comment... mention teammates with @email"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" isLoading={isPosting} disabled={!draft.trim()} leftIcon={<Send className="w-4 h-4" />}>
+            Comment
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
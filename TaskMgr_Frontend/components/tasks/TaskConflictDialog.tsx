@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Task, UpdateTaskData } from '../../types/task.types';
+import { ConflictField, TaskConflict, findTaskConflicts } from '../../utils/taskConflicts';
+import { useWorkflow } from '../../hooks/useWorkflow';
+import { useUser } from '../../hooks/useUsers';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+
+interface TaskConflictDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The refused edit
+  data: UpdateTaskData;
+  // The task as it was when the edit started, and as saved meanwhile
+  original: Task;
+  current: Task;
+  // Receives the edit with the chosen values, based on the current version
+  onResolve: (data: UpdateTaskData) => void;
+  isSaving?: boolean;
+}
+
+type Choice = 'mine' | 'theirs';
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: 'Title',
+  description: 'Description',
+  dueDate: 'Due date',
+  priority: 'Priority',
+  status: 'Status',
+  assignedToId: 'Assignee',
+  labels: 'Labels',
+};
+
+const UserName: React.FC<{ id: string; known: Task[] }> = ({ id, known }) => {
+  const summary = known.map((task) => task.assignedToId).find((user) => user?.id === id);
+  const { user } = useUser(summary ? undefined : id);
+  const name = summary ?? user;
+  return <>{name ? `${name.firstName} ${name.lastName}` : '...'}</>;
+};
+
+export const TaskConflictDialog: React.FC<TaskConflictDialogProps> = ({
+  isOpen,
+  onClose,
+  data,
+  original,
+  current,
+  onResolve,
+  isSaving,
+}) => {
+  const { getStatus } = useWorkflow(current.workspaceId);
+  const conflicts = findTaskConflicts(data, original, current);
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, Choice>>>({});
+
+  // Keep the edits of the user, and the other changes for the fields they left alone
+  useEffect(() => {
+    if (!isOpen) return;
+    setChoices(
+      Object.fromEntries(conflicts.map((conflict) => [conflict.field, conflict.changedByMe ? 'mine' : 'theirs']))
+    );
+  }, [isOpen, current.version]);
+
+  const labelNames = (ids: string[]) => {
+    const known = [...original.labels, ...current.labels];
+    return ids.map((id) => known.find((label) => label.id === id)?.name ?? 'New label').join(', ');
+  };
+
+  const display = (conflict: TaskConflict, value: unknown): React.ReactNode => {
+    if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return <span className="italic text-gray-400">None</span>;
+    }
+    switch (conflict.field) {
+      case 'dueDate':
+        return format(new Date(value as string), 'MMM d, yyyy HH:mm');
+      case 'status':
+        return getStatus(value as string).name;
+      case 'assignedToId':
+        return <UserName id={value as string} known={[original, current]} />;
+      case 'labels':
+        return labelNames(value as string[]);
+      default:
+        return String(value);
+    }
+  };
+
+  const handleResolve = () => {
+    const resolved: UpdateTaskData = { ...data, expectedVersion: current.version };
+    conflicts.forEach((conflict) => {
+      if (choices[conflict.field] === 'theirs') {
+        (resolved as Record<string, unknown>)[conflict.field] = conflict.theirs;
+      }
+    });
+    onResolve(resolved);
+  };
+
+  const option = (conflict: TaskConflict, choice: Choice) => {
+    const isChosen = choices[conflict.field] === choice;
+    return (
+      <label
+        className={`flex-1 cursor-pointer rounded-md border p-2 text-sm ${
+          isChosen ? 'border-primary bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+        }`}
+      >
+        <input
+          type="radio"
+          name={`conflict-${conflict.field}`}
+          checked={isChosen}
+          onChange={() => setChoices({ ...choices, [conflict.field]: choice })}
+          className="sr-only"
+        />
+        <span className="block text-xs font-medium text-gray-500">
+          {choice === 'mine' ? 'Your version' : 'Saved version'}
+        </span>
+        <span className="block break-words text-gray-900 line-clamp-3">
+          {display(conflict, choice === 'mine' ? conflict.mine : conflict.theirs)}
+        </span>
+      </label>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Task Changed Meanwhile"
+      size="lg"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleResolve} isLoading={isSaving}>
+            Save
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-gray-600">
+          Someone saved this task while you were editing it. Choose which value to keep for each field.
+        </p>
+        {conflicts.map((conflict) => (
+          <div key={conflict.field}>
+            <p className="mb-1 text-sm font-medium text-gray-700">{FIELD_LABELS[conflict.field]}</p>
+            <div className="flex gap-2">
+              {option(conflict, 'mine')}
+              {option(conflict, 'theirs')}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { GitBranch, X } from 'lucide-react';
+import { useDependencies } from '../../hooks/useDependencies';
+import { Task } from '../../types/task.types';
+import { Button } from '../ui/Button';
+import { StatusBadge } from './StatusBadge';
+
+interface TaskDependenciesProps {
+  task: Task;
+  // Tasks that can be picked as blockers
+  candidates: Task[];
+  canEdit?: boolean;
+}
+
+export const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task, candidates, canEdit = true }) => {
+  const { blockedBy, blocking, addBlocker, removeBlocker } = useDependencies(task.id);
+  const [blockerId, setBlockerId] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Only tasks of the same workspace can block each other, the server rejects cycles
+  const options = candidates.filter(
+    (candidate) =>
+      candidate.id !== task.id &&
+      (candidate.workspaceId ?? null) === (task.workspaceId ?? null) &&
+      !blockedBy.some((blocker) => blocker.id === candidate.id)
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!blockerId) return;
+    setIsAdding(true);
+    const updated = await addBlocker(blockerId);
+    setIsAdding(false);
+    if (updated) setBlockerId('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+        <GitBranch className="w-4 h-4" />
+        Dependencies
+      </h3>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-500 mb-1">Blocked by</span>
+        {blockedBy.length === 0 ? (
+          <p className="text-sm text-gray-400">No blockers</p>
+        ) : (
+          <ul className="space-y-1">
+            {blockedBy.map((blocker) => (
+              <li key={blocker.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate text-gray-800">{blocker.title}</span>
+                <StatusBadge status={blocker.status} category={blocker.statusCategory} workspaceId={task.workspaceId} />
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => removeBlocker(blocker.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove dependency"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {blocking.length > 0 && (
+        <div>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Blocking</span>
+          <ul className="space-y-1">
+            {blocking.map((dependent) => (
+              <li key={dependent.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate text-gray-800">{dependent.title}</span>
+                <StatusBadge status={dependent.status} category={dependent.statusCategory} workspaceId={task.workspaceId} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canEdit && options.length > 0 && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <select
+            value={blockerId}
+            onChange={(e) => setBlockerId(e.target.value)}
+            className="flex-1 rounded-md border border-gray-300 bg-white py-1.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="">Add a blocker...</option>
+            {options.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.title}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" isLoading={isAdding} disabled={!blockerId}>
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,32 @@
 import React, { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, Controller } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { CreateTaskData, Priority, Status, Task } from '../../types/task.types';
+import { CreateTaskData, EditScope, Priority, Task, UpdateTaskData } from '../../types/task.types';
 import { Input } from '../ui/Input';
 import { Select } from '../ui/Select';
 import { Textarea } from '../ui/Textarea';
 import { Button } from '../ui/Button';
+import { AssigneePicker } from './AssigneePicker';
+import { LabelPicker } from './LabelPicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { useWorkspace } from '../../contexts/WorkspaceContext';
+import { useWorkflow } from '../../hooks/useWorkflow';
 import { format } from 'date-fns';
+import { NO_RECURRENCE, WEEKDAYS, describeRecurrence, formatRecurrence, parseRecurrence } from '../../utils/recurrence';
+import { reachableStatuses } from '../../utils/workflow';
+
+const recurrenceSchema = z.object({
+  frequency: z.enum(['NONE', 'DAILY', 'WEEKLY', 'MONTHLY']),
+  interval: z.number().int().min(1).max(1000),
+  byDay: z.array(z.enum(WEEKDAYS)),
+  byMonthDay: z.number().int().min(-1).max(31),
+  end: z.enum(['NEVER', 'UNTIL', 'COUNT']),
+  until: z.string(),
+  count: z.number().int().min(1),
+}).refine((value) => value.end !== 'UNTIL' || !!value.until, {
+  message: 'Choose when the series ends',
+});
 
 const taskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(100, 'Title cannot exceed 100 characters'),
@@ -30,31 +49,49 @@ const taskSchema = z.object({
     message: "Due date must be in the future"
   }),
   priority: z.nativeEnum(Priority),
-  status: z.nativeEnum(Status),
+  // Empty for the first status of the workflow
+  status: z.string(),
   assignedToId: z.string().optional(),
+  labels: z.array(z.string()),
+  recurrence: recurrenceSchema,
+  scope: z.enum(['this', 'future']),
+}).refine((data) => data.recurrence.frequency === 'NONE' || !!data.dueDate?.trim(), {
+  message: 'Recurring tasks need a due date',
+  path: ['dueDate'],
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
 
 interface TaskFormProps {
   initialData?: Task;
-  onSubmit: (data: CreateTaskData) => Promise<void>;
+  onSubmit: (data: CreateTaskData & UpdateTaskData) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
-const MOCK_USERS = [
-  { label: 'Unassigned', value: '' },
-  { label: 'John Doe', value: 'user-1' },
-  { label: 'Jane Smith', value: 'user-2' },
-  { label: 'Alex Johnson', value: 'user-3' },
-];
-
 export const TaskForm: React.FC<TaskFormProps> = ({ initialData, onSubmit, onCancel, isLoading }) => {
+  const { currentWorkspace } = useWorkspace();
+  // Workspace tasks can only be assigned to members of their workspace
+  const workspaceId = initialData ? initialData.workspaceId : currentWorkspace?.id;
+
+  const series = initialData?.seriesId;
+
+  const { workflow, getStatus } = useWorkflow(workspaceId);
+  // The current status stays listed while the workflow loads
+  const statusOptions = (
+    workflow
+      ? reachableStatuses(workflow, initialData?.status)
+      : initialData
+        ? [getStatus(initialData.status, initialData.statusCategory)]
+        : []
+  ).map((status) => ({ label: status.name, value: status.key }));
+
   const {
     register,
+    control,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
@@ -63,11 +100,17 @@ export const TaskForm: React.FC<TaskFormProps> = ({ initialData, onSubmit, onCan
       description: '',
       dueDate: '',
       priority: Priority.MEDIUM,
-      status: Status.TODO,
+      status: '',
       assignedToId: '',
+      labels: [],
+      recurrence: NO_RECURRENCE,
+      scope: 'this',
     },
   });
 
+  // The recurrence belongs to the series, so it can only change for future tasks
+  const canEditRecurrence = !series || watch('scope') === 'future';
+
   useEffect(() => {
     if (initialData) {
       const formattedDate = initialData.dueDate 
@@ -80,17 +123,34 @@ export const TaskForm: React.FC<TaskFormProps> = ({ initialData, onSubmit, onCan
         dueDate: formattedDate,
         priority: initialData.priority,
         status: initialData.status,
-        assignedToId: initialData.assignedToId || '',
+        assignedToId: initialData.assignedToId?.id || '',
+        labels: (initialData.labels || []).map((label) => label.id),
+        recurrence: parseRecurrence(series && !series.endedAt ? series.rule : null),
+        scope: 'this',
       });
     }
   }, [initialData, reset]);
 
-  const handleFormSubmit = async (data: TaskFormData) => {
-    const formattedData = {
+  const handleFormSubmit = async ({ recurrence, scope, ...data }: TaskFormData) => {
+    const rule = formatRecurrence(recurrence);
+    const currentRule = series && !series.endedAt ? series.rule : null;
+
+    const formattedData: CreateTaskData & UpdateTaskData = {
       ...data,
       dueDate: data.dueDate && data.dueDate.trim() ? new Date(data.dueDate).toISOString() : undefined,
-      assignedToId: data.assignedToId && data.assignedToId.trim() && !data.assignedToId.startsWith('user-') ? data.assignedToId : undefined
+      status: data.status || undefined,
+      // Editing sends null so clearing the picker unassigns the task
+      assignedToId: data.assignedToId || (initialData ? null : undefined)
     };
+
+    // Only send the rule when it changed, null stops the series
+    if (canEditRecurrence && rule !== currentRule) {
+      formattedData.recurrence = rule;
+    }
+    if (series) {
+      formattedData.scope = scope as EditScope;
+    }
+
     await onSubmit(formattedData);
   };
 
@@ -116,16 +176,18 @@ export const TaskForm: React.FC<TaskFormProps> = ({ initialData, onSubmit, onCan
           {...register('priority')}
         />
 
-        <Select
-          label="Status"
-          options={[
-            { label: 'To Do', value: Status.TODO },
-            { label: 'In Progress', value: Status.IN_PROGRESS },
-            { label: 'Review', value: Status.REVIEW },
-            { label: 'Completed', value: Status.COMPLETED },
-          ]}
-          error={errors.status?.message}
-          {...register('status')}
+        <Controller
+          name="status"
+          control={control}
+          render={({ field }) => (
+            <Select
+              label="Status"
+              options={statusOptions}
+              error={errors.status?.message}
+              {...field}
+              value={field.value || statusOptions[0]?.value || ''}
+            />
+          )}
         />
       </div>
 
@@ -137,14 +199,67 @@ export const TaskForm: React.FC<TaskFormProps> = ({ initialData, onSubmit, onCan
           {...register('dueDate')}
         />
 
-        <Select
-          label="Assigned To"
-          options={MOCK_USERS}
-          error={errors.assignedToId?.message}
-          {...register('assignedToId')}
+        <Controller
+          name="assignedToId"
+          control={control}
+          render={({ field }) => (
+            <AssigneePicker
+              label="Assigned To"
+              value={field.value || ''}
+              onChange={field.onChange}
+              workspaceId={workspaceId}
+              initialUser={initialData?.assignedToId}
+              error={errors.assignedToId?.message}
+            />
+          )}
         />
       </div>
 
+      <Controller
+        name="labels"
+        control={control}
+        render={({ field }) => (
+          <LabelPicker
+            label="Labels"
+            value={field.value}
+            onChange={field.onChange}
+            workspaceId={workspaceId}
+            initialLabels={initialData?.labels}
+          />
+        )}
+      />
+
+      {series && (
+        <div className="rounded-md bg-gray-50 border border-gray-200 p-3 space-y-2">
+          <p className="text-sm text-gray-600">
+            Part of a recurring series: {series.endedAt ? 'no longer repeats' : describeRecurrence(series.rule)}
+          </p>
+          <div className="flex flex-wrap gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" value="this" {...register('scope')} />
+              This task only
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" value="future" {...register('scope')} />
+              This and all future tasks
+            </label>
+          </div>
+        </div>
+      )}
+
+      <Controller
+        name="recurrence"
+        control={control}
+        render={({ field }) => (
+          <RecurrenceEditor
+            value={field.value}
+            onChange={field.onChange}
+            disabled={!canEditRecurrence}
+            error={errors.recurrence?.message}
+          />
+        )}
+      />
+
       <Textarea
         label="Description"
         placeholder="Enter detailed task description..."
@@ -0,0 +1,113 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { History, PlusCircle, Edit2, UserPlus, Trash2, Undo2, LucideIcon } from 'lucide-react';
+import { useTaskHistory } from '../../hooks/useTasks';
+import { TaskHistoryEntry, TaskHistoryAction, TaskUser } from '../../types/task.types';
+import { TaskLabel } from '../../types/label.types';
+import { SkeletonLoader } from '../ui/SkeletonLoader';
+
+interface TaskHistoryTimelineProps {
+  taskId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  dueDate: 'due date',
+  priority: 'priority',
+  status: 'status',
+  assignedToId: 'assignee',
+  labels: 'labels',
+};
+
+const ACTION_ICONS: Record<TaskHistoryAction, LucideIcon> = {
+  CREATED: PlusCircle,
+  UPDATED: Edit2,
+  ASSIGNED: UserPlus,
+  DELETED: Trash2,
+  RESTORED: Undo2,
+};
+
+const formatValue = (field: string | undefined, value: TaskHistoryEntry['oldValue']): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (Array.isArray(value)) {
+    return value.map((label: Partial<TaskLabel>) => label.name ?? 'deleted label').join(', ');
+  }
+  if (typeof value === 'object') {
+    const user = value as TaskUser;
+    return `${user.firstName} ${user.lastName}`;
+  }
+  if (field === 'dueDate') return format(new Date(value), 'PPP p');
+  if (field === 'status' || field === 'priority') return value.replace('_', ' ');
+  return value.length > 60 ? `${value.slice(0, 60)}…` : value;
+};
+
+const describeEntry = (entry: TaskHistoryEntry): React.ReactNode => {
+  switch (entry.action) {
+    case 'CREATED':
+      return 'created the task';
+    case 'DELETED':
+      return 'deleted the task';
+    case 'RESTORED':
+      return 'restored the task from the trash';
+    case 'ASSIGNED':
+      return (
+        <>
+          changed the assignee from <span className="font-medium">{formatValue(entry.field, entry.oldValue)}</span>{' '}
+          to <span className="font-medium">{formatValue(entry.field, entry.newValue)}</span>
+        </>
+      );
+    default:
+      return (
+        <>
+          changed the {FIELD_LABELS[entry.field || ''] || entry.field} from{' '}
+          <span className="font-medium">{formatValue(entry.field, entry.oldValue)}</span> to{' '}
+          <span className="font-medium">{formatValue(entry.field, entry.newValue)}</span>
+        </>
+      );
+  }
+};
+
+export const TaskHistoryTimeline: React.FC<TaskHistoryTimelineProps> = ({ taskId }) => {
+  const { history, isLoading } = useTaskHistory(taskId);
+
+  return (
+    <div className="space-y-4">
+      <h4 className="flex items-center text-sm font-semibold text-gray-900">
+        <History className="w-4 h-4 mr-2 text-gray-500" />
+        Activity
+      </h4>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <SkeletonLoader variant="text" width="70%" />
+          <SkeletonLoader variant="text" width="50%" />
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="border-l border-gray-200 ml-2 space-y-4 max-h-64 overflow-y-auto">
+          {history.map((entry) => {
+            const Icon = ACTION_ICONS[entry.action];
+            return (
+              <li key={entry.id} className="relative pl-5">
+                <span className="absolute -left-2.5 top-0.5 flex items-center justify-center w-5 h-5 rounded-full bg-white ring-2 ring-gray-200">
+                  <Icon className="w-3 h-3 text-gray-500" />
+                </span>
+                <p className="text-sm text-gray-700">
+                  <span className="font-semibold text-gray-900">
+                    {entry.actorId ? `${entry.actorId.firstName} ${entry.actorId.lastName}` : 'Someone'}
+                  </span>{' '}
+                  {describeEntry(entry)}
+                </p>
+                <time className="text-xs text-gray-400" title={format(new Date(entry.createdAt), 'PPP p')}>
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </time>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
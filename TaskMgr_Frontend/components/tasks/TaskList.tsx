@@ -11,9 +11,20 @@ interface TaskListProps {
   onEdit: (task: Task) => void;
   onDelete: (task: Task) => void;
   onView: (task: Task) => void;
+  // Enables selecting tasks for bulk actions
+  selectedIds?: Set<string>;
+  onSelect?: (task: Task) => void;
 }
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, isLoading, onEdit, onDelete, onView }) => {
+export const TaskList: React.FC<TaskListProps> = ({
+  tasks,
+  isLoading,
+  onEdit,
+  onDelete,
+  onView,
+  selectedIds,
+  onSelect,
+}) => {
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -55,6 +66,8 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, isLoading, onEdit, on
           onEdit={onEdit} 
           onDelete={onDelete}
           onClick={onView}
+          onSelect={onSelect}
+          isSelected={selectedIds?.has(task.id)}
         />
       ))}
     </div>
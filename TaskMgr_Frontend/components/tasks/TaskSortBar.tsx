@@ -0,0 +1,93 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { SORT_FIELDS, SortField, SortKey, sortFirstBy } from '../../utils/taskSort';
+import { Select } from '../ui/Select';
+
+interface TaskSortBarProps {
+  value: SortKey[];
+  onChange: (keys: SortKey[]) => void;
+}
+
+const DIRECTION_OPTIONS = [
+  { label: 'Ascending', value: 'asc' },
+  { label: 'Descending', value: 'desc' },
+];
+
+export const TaskSortBar: React.FC<TaskSortBarProps> = ({ value, onChange }) => {
+  const [primary, secondary] = value;
+
+  const thenByOptions = [
+    { label: 'None', value: '' },
+    ...SORT_FIELDS.filter((option) => option.field !== primary?.field).map((option) => ({
+      label: option.label,
+      value: option.field,
+    })),
+  ];
+
+  const setSecondary = (field: string) => {
+    if (!field) {
+      onChange(value.slice(0, 1));
+      return;
+    }
+    const option = SORT_FIELDS.find((candidate) => candidate.field === field)!;
+    onChange([primary, { field: field as SortField, direction: option.defaultDirection }]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-white px-3 py-2">
+      <span className="flex items-center gap-1 text-sm text-gray-500">
+        <ArrowUpDown className="w-4 h-4" />
+        Sort by
+      </span>
+      {SORT_FIELDS.map((option) => {
+        const index = value.findIndex((key) => key.field === option.field);
+        const key = value[index];
+        return (
+          <button
+            key={option.field}
+            type="button"
+            onClick={() => onChange(sortFirstBy(value, option.field))}
+            aria-pressed={index === 0}
+            className={`flex items-center gap-1 rounded-md px-2 py-1 text-sm font-medium transition-colors ${
+              index === 0
+                ? 'bg-blue-50 text-primary'
+                : index > 0
+                  ? 'text-gray-900 hover:bg-gray-100'
+                  : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            {option.label}
+            {key && (key.direction === 'asc' ? <ArrowUp className="w-3.5 h-3.5" /> : <ArrowDown className="w-3.5 h-3.5" />)}
+            {key && value.length > 1 && <span className="text-xs text-gray-400">{index + 1}</span>}
+          </button>
+        );
+      })}
+
+      {primary && (
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-sm text-gray-500 whitespace-nowrap">Then by</span>
+          <div className="w-32">
+            <Select
+              value={secondary?.field ?? ''}
+              onChange={(e) => setSecondary(e.target.value)}
+              options={thenByOptions}
+              className="py-1 text-sm"
+            />
+          </div>
+          {secondary && (
+            <div className="w-32">
+              <Select
+                value={secondary.direction}
+                onChange={(e) =>
+                  onChange([primary, { ...secondary, direction: e.target.value as SortKey['direction'] }])
+                }
+                options={DIRECTION_OPTIONS}
+                className="py-1 text-sm"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
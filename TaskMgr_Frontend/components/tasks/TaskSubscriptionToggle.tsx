@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { BellOff, Eye } from 'lucide-react';
+import { useNotificationPreferences } from '../../hooks/useNotificationPreferences';
+import { TaskSubscription } from '../../types/notification.types';
+import { Button } from '../ui/Button';
+
+interface TaskSubscriptionToggleProps {
+  taskId: string;
+}
+
+// Watch a task to hear about every change, or mute it to hear nothing
+export const TaskSubscriptionToggle: React.FC<TaskSubscriptionToggleProps> = ({ taskId }) => {
+  const { preferences, getTaskSubscription, setTaskSubscription } = useNotificationPreferences();
+  const [pending, setPending] = useState<TaskSubscription | null>(null);
+  const current = getTaskSubscription(taskId);
+
+  const toggle = async (subscription: TaskSubscription) => {
+    setPending(subscription);
+    await setTaskSubscription(taskId, current === subscription ? 'DEFAULT' : subscription);
+    setPending(null);
+  };
+
+  if (!preferences) return null;
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        size="sm"
+        variant={current === 'WATCH' ? 'primary' : 'outline'}
+        leftIcon={<Eye className="w-4 h-4" />}
+        onClick={() => toggle('WATCH')}
+        isLoading={pending === 'WATCH'}
+        title="Get notified of every change to this task"
+      >
+        {current === 'WATCH' ? 'Watching' : 'Watch'}
+      </Button>
+      <Button
+        size="sm"
+        variant={current === 'MUTE' ? 'primary' : 'outline'}
+        leftIcon={<BellOff className="w-4 h-4" />}
+        onClick={() => toggle('MUTE')}
+        isLoading={pending === 'MUTE'}
+        title="Get no notifications about this task"
+      >
+        {current === 'MUTE' ? 'Muted' : 'Mute'}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useSavedViewActions } from '../../hooks/useSavedViews';
+import { SavedView, ViewLayout } from '../../types/view.types';
+import { TaskUser } from '../../types/task.types';
+import { ApiError } from '../../types/api.types';
+import { AssigneePicker } from '../tasks/AssigneePicker';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { Select } from '../ui/Select';
+
+interface SaveViewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // View to edit, a new view is saved when omitted
+  view?: SavedView;
+  // Filters, sort and workspace a new view saves
+  query: string;
+  sort: string;
+  workspaceId?: string;
+  onSaved?: (view: SavedView) => void;
+  onDeleted?: () => void;
+}
+
+const LAYOUT_OPTIONS: { label: string; value: ViewLayout }[] = [
+  { label: 'List', value: 'LIST' },
+  { label: 'Board', value: 'BOARD' },
+];
+
+export const SaveViewModal: React.FC<SaveViewModalProps> = ({
+  isOpen,
+  onClose,
+  view,
+  query,
+  sort,
+  workspaceId,
+  onSaved,
+  onDeleted,
+}) => {
+  const { createView, updateView, deleteView } = useSavedViewActions();
+  const [name, setName] = useState('');
+  const [layout, setLayout] = useState<ViewLayout>('LIST');
+  const [pinned, setPinned] = useState(false);
+  const [sharedWith, setSharedWith] = useState<TaskUser[]>([]);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(view?.name ?? '');
+    setLayout(view?.layout ?? 'LIST');
+    setPinned(view?.pinned ?? false);
+    setSharedWith(view?.sharedWith ?? []);
+    setErrors({});
+  }, [isOpen, view]);
+
+  const addShare = (userId: string, user?: TaskUser) => {
+    if (user && !sharedWith.some((shared) => shared.id === userId)) {
+      setSharedWith([...sharedWith, user]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const data = { name, layout, pinned, sharedWith: sharedWith.map((user) => user.id) };
+    try {
+      const saved = view
+        ? await updateView(view.id, data)
+        : await createView({ ...data, query, sort, workspaceId });
+      onSaved?.(saved);
+      onClose();
+    } catch (error) {
+      setErrors((error as ApiError).errors || {});
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!view) return;
+    try {
+      await deleteView(view.id);
+      onDeleted?.();
+      onClose();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={view ? 'Edit View' : 'Save View'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. My urgent bugs"
+          error={errors.name?.[0]}
+          autoFocus
+        />
+
+        {!view && (
+          <p className="text-sm text-gray-500">
+            Saves the current filters{query ? <> (<code className="text-gray-700">{query}</code>)</> : ''} and sort.
+          </p>
+        )}
+
+        <Select
+          label="Layout"
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as ViewLayout)}
+          options={LAYOUT_OPTIONS}
+        />
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(e) => setPinned(e.target.checked)}
+            className="rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          Pin to the navigation
+        </label>
+
+        <div className="space-y-2">
+          <AssigneePicker
+            label="Share with (read-only)"
+            value=""
+            onChange={addShare}
+            workspaceId={workspaceId ?? view?.workspaceId}
+            placeholder="Add people"
+            error={errors.sharedWith?.[0]}
+          />
+          {sharedWith.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {sharedWith.map((user) => (
+                <li
+                  key={user.id}
+                  className="flex items-center gap-1 rounded-full bg-gray-100 py-1 pl-3 pr-2 text-sm text-gray-700"
+                >
+                  {user.firstName} {user.lastName}
+                  <button
+                    type="button"
+                    onClick={() => setSharedWith(sharedWith.filter((shared) => shared.id !== user.id))}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label={`Stop sharing with ${user.firstName} ${user.lastName}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 pt-2">
+          {view ? (
+            <Button type="button" variant="danger" onClick={handleDelete}>
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSaving}>
+              {view ? 'Save' : 'Save View'}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
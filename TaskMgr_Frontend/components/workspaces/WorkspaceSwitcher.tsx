@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Plus, Users } from 'lucide-react';
+import { useWorkspace } from '../../contexts/WorkspaceContext';
+import { Select } from '../ui/Select';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+
+const PERSONAL_VALUE = '';
+
+export const WorkspaceSwitcher: React.FC = () => {
+  const { workspaces, currentWorkspace, currentRole, selectWorkspace, createWorkspace } = useWorkspace();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const options = [
+    { label: 'Personal', value: PERSONAL_VALUE },
+    ...workspaces.map((w) => ({ label: w.name, value: w.id })),
+  ];
+
+  const closeCreate = () => {
+    setIsCreateOpen(false);
+    setName('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await createWorkspace({ name: name.trim() });
+      closeCreate();
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-1">
+        <span className="flex items-center text-xs font-semibold uppercase tracking-wide text-gray-500">
+          <Users className="w-3.5 h-3.5 mr-1" />
+          Workspace
+        </span>
+        <button
+          type="button"
+          onClick={() => setIsCreateOpen(true)}
+          className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+          aria-label="Create workspace"
+          title="Create workspace"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      <Select
+        aria-label="Current workspace"
+        options={options}
+        value={currentWorkspace?.id ?? PERSONAL_VALUE}
+        onChange={(e) => selectWorkspace(e.target.value || null)}
+        className="text-sm"
+      />
+      {currentWorkspace && currentRole && (
+        <p className="px-1 text-xs text-gray-500">
+          {currentWorkspace.members.length} member{currentWorkspace.members.length === 1 ? '' : 's'} · {currentRole.toLowerCase()}
+        </p>
+      )}
+
+      <Modal isOpen={isCreateOpen} onClose={closeCreate} title="Create Workspace" size="sm">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="e.g. Marketing team"
+            autoFocus
+          />
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={closeCreate}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSubmitting} disabled={!name.trim()}>
+              Create
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, LoginCredentials, RegisterCredentials } from '../types/auth.types';
 import { authService } from '../services/authService';
+import { tokenStorage, SESSION_EXPIRED_EVENT } from '../services/tokenStorage';
 import { UpdateProfileData } from '../types/user.types';
 import { showSuccess, showError } from '../utils/toast';
 
@@ -24,7 +25,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   useEffect(() => {
     const initAuth = async () => {
-      const token = localStorage.getItem('token');
+      const token = tokenStorage.getToken();
       if (!token) {
         setIsLoading(false);
         return;
@@ -35,7 +36,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setUser(currentUser);
       } catch (error) {
         console.error('Failed to fetch user', error);
-        localStorage.removeItem('token');
+        tokenStorage.clear();
       } finally {
         setIsLoading(false);
       }
@@ -44,11 +45,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     initAuth();
   }, []);
 
+  // The API client gave up refreshing the session
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser((current) => {
+        if (current) showError('Your session has expired, please log in again');
+        return null;
+      });
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, []);
+
   const login = async (credentials: LoginCredentials) => {
     setIsLoading(true);
     try {
-      const { user, token } = await authService.login(credentials);
-      localStorage.setItem('token', token);
+      const { user, ...tokens } = await authService.login(credentials);
+      tokenStorage.setTokens(tokens);
       setUser(user);
       showSuccess(`Welcome back, ${user.firstName}!`);
     } catch (error: any) {
@@ -62,8 +76,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const register = async (credentials: RegisterCredentials) => {
     setIsLoading(true);
     try {
-      const { user, token } = await authService.register(credentials);
-      localStorage.setItem('token', token);
+      const { user, ...tokens } = await authService.register(credentials);
+      tokenStorage.setTokens(tokens);
       setUser(user);
       showSuccess('Account created successfully!');
     } catch (error: any) {
@@ -75,8 +89,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const logout = () => {
-    authService.logout().catch(console.error); // Call API but don't block
-    localStorage.removeItem('token');
+    // Revoke the session server-side without blocking, tokens are needed until the call is done
+    authService.logout()
+      .catch(console.error)
+      .finally(() => tokenStorage.clear());
     setUser(null);
     showSuccess('Logged out successfully');
   };
@@ -2,7 +2,10 @@ import React, { createContext, useContext, useEffect, ReactNode } from 'react';
 import { useSWRConfig } from 'swr';
 import { useAuth } from './AuthContext';
 import { socketService } from '../services/socketService';
+import { tokenStorage } from '../services/tokenStorage';
 import { showInfo } from '../utils/toast';
+import { revalidateInfiniteTaskLists } from '../hooks/useTasks';
+import { revalidateNotifications } from '../hooks/useNotifications';
 
 interface SocketContextType {
   socketService: typeof socketService;
@@ -16,7 +19,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
 
   useEffect(() => {
     if (isAuthenticated && user) {
-      const token = localStorage.getItem('token');
+      const token = tokenStorage.getToken();
       if (token) {
         socketService.connect(token);
         socketService.joinRoom(user.id);
@@ -34,12 +37,16 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
     if (!isAuthenticated) return;
 
     const handleTaskUpdate = () => {
-      // Revalidate all task-related queries
-      mutate((key: any) => typeof key === 'string' && key.startsWith('/tasks'));
+      // Revalidate all task-related queries, task lists and the trash use array keys
+      mutate((key: any) =>
+        (typeof key === 'string' && key.startsWith('/tasks')) ||
+        (Array.isArray(key) && (key[0] === '/tasks' || key[0] === '/tasks/trash'))
+      );
+      revalidateInfiniteTaskLists();
     };
 
     const handleNewNotification = (data: any) => {
-      mutate('/notifications');
+      revalidateNotifications(mutate);
       showInfo(data.message || 'You have a new update.');
     };
 
@@ -47,6 +54,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
     socketService.on('task:created', handleTaskUpdate);
     socketService.on('task:updated', handleTaskUpdate);
     socketService.on('task:deleted', handleTaskUpdate);
+    socketService.on('task:bulk', handleTaskUpdate);
     socketService.on('task:assigned', () => {
         handleTaskUpdate();
         showInfo('A new task has been assigned to you!');
@@ -57,6 +65,7 @@ export const SocketProvider = ({ children }: { children: ReactNode }) => {
       socketService.off('task:created', handleTaskUpdate);
       socketService.off('task:updated', handleTaskUpdate);
       socketService.off('task:deleted', handleTaskUpdate);
+      socketService.off('task:bulk', handleTaskUpdate);
       socketService.off('task:assigned', handleTaskUpdate);
       socketService.off('notification:new', handleNewNotification);
     };
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import useSWR from 'swr';
+import { useAuth } from './AuthContext';
+import { workspaceService } from '../services/workspaceService';
+import { Workspace, WorkspaceData, WorkspaceRole } from '../types/workspace.types';
+import { showSuccess, showError } from '../utils/toast';
+
+const WORKSPACES_KEY = '/workspaces';
+const STORAGE_KEY = 'workspaceId';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  // null when working on personal tasks
+  currentWorkspace: Workspace | null;
+  currentRole: WorkspaceRole | null;
+  canEditTasks: boolean;
+  isLoading: boolean;
+  selectWorkspace: (id: string | null) => void;
+  createWorkspace: (data: WorkspaceData) => Promise<Workspace>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+    () => localStorage.getItem(STORAGE_KEY)
+  );
+
+  const { data, isLoading, mutate } = useSWR(
+    isAuthenticated ? WORKSPACES_KEY : null,
+    workspaceService.getWorkspaces
+  );
+  const workspaces = data || [];
+
+  const selectWorkspace = (id: string | null) => {
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setCurrentWorkspaceId(id);
+  };
+
+  // Fall back to personal tasks when the stored workspace is no longer available
+  useEffect(() => {
+    if (data && currentWorkspaceId && !data.some((w) => w.id === currentWorkspaceId)) {
+      selectWorkspace(null);
+    }
+  }, [data, currentWorkspaceId]);
+
+  const currentWorkspace = workspaces.find((w) => w.id === currentWorkspaceId) || null;
+  const currentRole = currentWorkspace
+    ? currentWorkspace.members.find((m) => m.userId.id === user?.id)?.role || null
+    : null;
+
+  const createWorkspace = async (workspaceData: WorkspaceData) => {
+    try {
+      const workspace = await workspaceService.createWorkspace(workspaceData);
+      showSuccess('Workspace created successfully');
+      await mutate();
+      selectWorkspace(workspace.id);
+      return workspace;
+    } catch (error: any) {
+      showError(error.message || 'Failed to create workspace');
+      throw error;
+    }
+  };
+
+  return (
+    <WorkspaceContext.Provider value={{
+      workspaces,
+      currentWorkspace,
+      currentRole,
+      canEditTasks: currentRole !== 'VIEWER',
+      isLoading,
+      selectWorkspace,
+      createWorkspace,
+    }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
@@ -0,0 +1,81 @@
+import useSWR from 'swr';
+import { adminService } from '../services/adminService';
+import { AdminUser, AdminUserParams, AdminTaskParams, UserRole } from '../types/admin.types';
+import { showSuccess, showError } from '../utils/toast';
+
+const ADMIN_USERS_KEY = '/admin/users';
+const ADMIN_TASKS_KEY = '/admin/tasks';
+
+export const useAdminUsers = (params: AdminUserParams) => {
+  const { data, error, isLoading, mutate } = useSWR(
+    [ADMIN_USERS_KEY, params],
+    ([_, p]) => adminService.getUsers(p),
+    { keepPreviousData: true }
+  );
+
+  // Replace the updated account in the current page
+  const applyUpdate = (updated: AdminUser) =>
+    mutate(
+      (page) => page && { ...page, items: page.items.map((u) => (u.id === updated.id ? updated : u)) },
+      { revalidate: false }
+    );
+
+  const setActive = async (id: string, active: boolean) => {
+    try {
+      const updated = active ? await adminService.reactivateUser(id) : await adminService.deactivateUser(id);
+      await applyUpdate(updated);
+      showSuccess(active ? 'User reactivated' : 'User deactivated');
+    } catch (error: any) {
+      showError(error.message || 'Failed to update user');
+    }
+  };
+
+  const changeRole = async (id: string, role: UserRole) => {
+    try {
+      await applyUpdate(await adminService.updateUserRole(id, role));
+      showSuccess('Role updated');
+    } catch (error: any) {
+      showError(error.message || 'Failed to update role');
+    }
+  };
+
+  return {
+    users: data?.items || [],
+    total: data?.total || 0,
+    totalPages: data?.totalPages || 1,
+    isLoading,
+    isError: error,
+    setActive,
+    changeRole,
+  };
+};
+
+export const useAdminTasks = (params: AdminTaskParams) => {
+  const { data, error, isLoading, mutate } = useSWR(
+    [ADMIN_TASKS_KEY, params],
+    ([_, p]) => adminService.getTasks(p),
+    { keepPreviousData: true }
+  );
+
+  const reassignTask = async (id: string, assignedToId: string | null) => {
+    try {
+      const updated = await adminService.reassignTask(id, assignedToId);
+      await mutate(
+        (page) => page && { ...page, items: page.items.map((t) => (t.id === id ? updated : t)) },
+        { revalidate: false }
+      );
+      showSuccess(assignedToId ? 'Task reassigned' : 'Task unassigned');
+    } catch (error: any) {
+      showError(error.message || 'Failed to reassign task');
+    }
+  };
+
+  return {
+    tasks: data?.items || [],
+    total: data?.total || 0,
+    totalPages: data?.totalPages || 1,
+    isLoading,
+    isError: error,
+    reassignTask,
+  };
+};
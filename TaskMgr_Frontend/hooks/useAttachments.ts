@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { useSWRConfig } from 'swr';
+import useSWRImmutable from 'swr/immutable';
+import { attachmentService } from '../services/attachmentService';
+import { Attachment, Task } from '../types/task.types';
+import { showError } from '../utils/toast';
+import { revalidateInfiniteTaskLists } from './useTasks';
+
+const TASKS_KEY = '/tasks';
+// Attachment content never changes, and task refreshes must not fetch it again
+const ATTACHMENTS_KEY = '/attachments';
+
+export const useAttachments = (taskId: string) => {
+  const { mutate } = useSWRConfig();
+  const key = `${TASKS_KEY}/${taskId}`;
+
+  const run = async (request: () => Promise<Task>, fallbackMessage: string) => {
+    try {
+      const task = await request();
+      await mutate(key, task, { revalidate: false });
+      mutate((k: any) => Array.isArray(k) && k[0] === TASKS_KEY);
+      revalidateInfiniteTaskLists();
+      return task;
+    } catch (error: any) {
+      showError(error.message || fallbackMessage);
+    }
+  };
+
+  const upload = (file: File) =>
+    run(() => attachmentService.uploadAttachment(taskId, file), `Failed to upload ${file.name}`);
+
+  const remove = (attachmentId: string) =>
+    run(() => attachmentService.deleteAttachment(taskId, attachmentId), 'Failed to delete attachment');
+
+  const download = async (attachment: Attachment) => {
+    try {
+      const blob = await attachmentService.downloadAttachment(taskId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      showError(`Failed to download ${attachment.name}`);
+    }
+  };
+
+  return { upload, remove, download };
+};
+
+/**
+ * Object URL of an attachment, for showing image thumbnails
+ * @param taskId Task ID
+ * @param attachmentId Attachment ID, nothing is fetched when null
+ */
+export const useAttachmentUrl = (taskId: string, attachmentId: string | null) => {
+  const { data } = useSWRImmutable(attachmentId ? [ATTACHMENTS_KEY, attachmentId] : null, ([_, id]) =>
+    attachmentService.downloadAttachment(taskId, id)
+  );
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    const objectUrl = URL.createObjectURL(data);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data]);
+
+  return url;
+};
@@ -0,0 +1,77 @@
+import { useSWRConfig } from 'swr';
+import { checklistService } from '../services/checklistService';
+import { ChecklistItem, Task, UpdateChecklistItemData } from '../types/task.types';
+import { showError } from '../utils/toast';
+import { revalidateInfiniteTaskLists } from './useTasks';
+
+const TASKS_KEY = '/tasks';
+
+const completionOf = (checklist: ChecklistItem[]) =>
+  checklist.length === 0
+    ? null
+    : Math.round((checklist.filter((item) => item.done).length / checklist.length) * 100);
+
+export const useChecklist = (taskId: string) => {
+  const { mutate } = useSWRConfig();
+  const key = `${TASKS_KEY}/${taskId}`;
+
+  // Apply a change to the cached task before the request completes
+  const applyOptimistic = (update: (checklist: ChecklistItem[]) => ChecklistItem[]) =>
+    mutate(
+      key,
+      (current: Task | undefined) => {
+        if (!current) return current;
+        const checklist = update(current.checklist);
+        return { ...current, checklist, checklistCompletion: completionOf(checklist) };
+      },
+      { revalidate: false }
+    );
+
+  const run = async (request: () => Promise<Task>, fallbackMessage: string) => {
+    try {
+      const task = await request();
+      await mutate(key, task, { revalidate: false });
+      mutate((k: any) => Array.isArray(k) && k[0] === TASKS_KEY);
+      revalidateInfiniteTaskLists();
+      return task;
+    } catch (error: any) {
+      showError(error.message || fallbackMessage);
+      mutate(key); // Revert
+    }
+  };
+
+  const addItem = (text: string, assigneeId?: string) =>
+    run(() => checklistService.addItem(taskId, { text, assigneeId }), 'Failed to add checklist item');
+
+  const updateItem = async (itemId: string, data: UpdateChecklistItemData) => {
+    // Assignee changes are only shown once confirmed
+    await applyOptimistic((checklist) =>
+      checklist.map((item) =>
+        item.id === itemId ? { ...item, done: data.done ?? item.done, text: data.text ?? item.text } : item
+      )
+    );
+    return run(() => checklistService.updateItem(taskId, itemId, data), 'Failed to update checklist item');
+  };
+
+  const toggleItem = (item: ChecklistItem) => updateItem(item.id, { done: !item.done });
+
+  const moveItem = async (checklist: ChecklistItem[], from: number, to: number) => {
+    if (to < 0 || to >= checklist.length) return;
+    const reordered = [...checklist];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+
+    await applyOptimistic(() => reordered.map((item, order) => ({ ...item, order })));
+    return run(
+      () => checklistService.reorder(taskId, reordered.map((item) => item.id)),
+      'Failed to reorder checklist'
+    );
+  };
+
+  const removeItem = async (itemId: string) => {
+    await applyOptimistic((checklist) => checklist.filter((item) => item.id !== itemId));
+    return run(() => checklistService.removeItem(taskId, itemId), 'Failed to remove checklist item');
+  };
+
+  return { addItem, updateItem, toggleItem, moveItem, removeItem };
+};
@@ -0,0 +1,67 @@
+import useSWR from 'swr';
+import { commentService } from '../services/commentService';
+import { showSuccess, showError } from '../utils/toast';
+
+const commentsKey = (taskId: string) => `/tasks/${taskId}/comments`;
+
+export const useComments = (taskId: string | undefined, page = 1) => {
+  const { data, error, isLoading, mutate } = useSWR(
+    taskId ? [commentsKey(taskId), page] : null,
+    ([_, p]) => commentService.getComments(taskId!, p)
+  );
+
+  const addComment = async (body: string) => {
+    if (!taskId) return;
+    try {
+      await commentService.createComment(taskId, { body });
+      mutate();
+    } catch (error: any) {
+      showError(error.message || 'Failed to add comment');
+      throw error;
+    }
+  };
+
+  const editComment = async (commentId: string, body: string) => {
+    if (!taskId) return;
+    try {
+      await commentService.updateComment(taskId, commentId, { body });
+      mutate();
+      showSuccess('Comment updated');
+    } catch (error: any) {
+      showError(error.message || 'Failed to update comment');
+      throw error;
+    }
+  };
+
+  const removeComment = async (commentId: string) => {
+    if (!taskId) return;
+    try {
+      // Optimistic update
+      await mutate(
+        (current) => current && {
+          ...current,
+          items: current.items.filter(c => c.id !== commentId),
+          total: current.total - 1,
+        },
+        { revalidate: false }
+      );
+
+      await commentService.deleteComment(taskId, commentId);
+      mutate();
+      showSuccess('Comment deleted');
+    } catch (error: any) {
+      showError(error.message || 'Failed to delete comment');
+      mutate(); // Revert
+    }
+  };
+
+  return {
+    comments: data?.items || [],
+    pagination: data ? { total: data.total, page: data.page, limit: data.limit, totalPages: data.totalPages } : null,
+    isLoading,
+    isError: error,
+    addComment,
+    editComment,
+    removeComment,
+  };
+};
@@ -0,0 +1,43 @@
+import useSWR, { useSWRConfig } from 'swr';
+import { dependencyService } from '../services/dependencyService';
+import { Task } from '../types/task.types';
+import { showError } from '../utils/toast';
+import { revalidateInfiniteTaskLists } from './useTasks';
+
+const TASKS_KEY = '/tasks';
+
+export const useDependencies = (taskId: string | undefined) => {
+  const { mutate } = useSWRConfig();
+  const key = taskId ? `${TASKS_KEY}/${taskId}/dependencies` : null;
+
+  const { data, error, isLoading } = useSWR(key, () => dependencyService.getDependencies(taskId!));
+
+  const run = async (request: () => Promise<Task>, fallbackMessage: string) => {
+    try {
+      const task = await request();
+      await mutate(`${TASKS_KEY}/${task.id}`, task, { revalidate: false });
+      mutate(key);
+      // Both ends of the dependency show badges in the lists
+      mutate((k: any) => Array.isArray(k) && k[0] === TASKS_KEY);
+      revalidateInfiniteTaskLists();
+      return task;
+    } catch (error: any) {
+      showError(error.message || fallbackMessage);
+    }
+  };
+
+  const addBlocker = (blockerId: string) =>
+    run(() => dependencyService.addDependency(taskId!, blockerId), 'Failed to add dependency');
+
+  const removeBlocker = (blockerId: string) =>
+    run(() => dependencyService.removeDependency(taskId!, blockerId), 'Failed to remove dependency');
+
+  return {
+    blockedBy: data?.blockedBy || [],
+    blocking: data?.blocking || [],
+    isLoading,
+    isError: error,
+    addBlocker,
+    removeBlocker,
+  };
+};
@@ -0,0 +1,70 @@
+import { useCallback, useLayoutEffect, useRef, RefObject } from 'react';
+
+const FLIP_DURATION_MS = 250;
+
+interface Offset {
+  left: number;
+  top: number;
+}
+
+/**
+ * Animate elements from their previous position to their new one after each
+ * render (FLIP), so items moved by a data change slide into place instead of
+ * jumping. Elements are tracked by a stable id, an element that moved to
+ * another parent keeps animating from where it was
+ * @param containerRef Scrolling container, positions are measured relative to it
+ * @returns Ref callback factory registering an element under an id
+ */
+export const useFlipAnimation = (containerRef: RefObject<HTMLElement | null>) => {
+  const elements = useRef(new Map<string, HTMLElement>());
+  const offsets = useRef(new Map<string, Offset>());
+
+  const register = useCallback(
+    (id: string) => (element: HTMLElement | null) => {
+      if (element) {
+        elements.current.set(id, element);
+      } else {
+        elements.current.delete(id);
+      }
+    },
+    []
+  );
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const containerRect = container.getBoundingClientRect();
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    const next = new Map<string, Offset>();
+
+    elements.current.forEach((element, id) => {
+      const rect = element.getBoundingClientRect();
+      // Resting position, without the translation of an animation in progress
+      const { m41, m42 } = new DOMMatrixReadOnly(getComputedStyle(element).transform);
+      // Relative to the scrolled content so scrolling alone does not count as a move
+      const offset = {
+        left: rect.left - m41 - containerRect.left + container.scrollLeft,
+        top: rect.top - m42 - containerRect.top + container.scrollTop,
+      };
+      next.set(id, offset);
+
+      const previous = offsets.current.get(id);
+      if (!previous || reduceMotion) return;
+
+      const dx = previous.left - offset.left;
+      const dy = previous.top - offset.top;
+      if (Math.abs(dx) < 1 && Math.abs(dy) < 1) return;
+
+      element.getAnimations().forEach((animation) => animation.cancel());
+      element.animate(
+        [{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'translate(0, 0)' }],
+        { duration: FLIP_DURATION_MS, easing: 'ease-out' }
+      );
+    });
+
+    offsets.current = next;
+  });
+
+  return register;
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls onLoadMore whenever the element holding the returned ref scrolls into view
+ * Disable it while a page loads: enabling it again reloads as long as the element stays in view
+ */
+export const useInfiniteScroll = <T extends Element = HTMLDivElement,>(onLoadMore: () => void, enabled = true) => {
+  const sentinelRef = useRef<T>(null);
+  // The latest callback, so the observer is not recreated on every render
+  const loadMoreRef = useRef(onLoadMore);
+  loadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMoreRef.current();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+};
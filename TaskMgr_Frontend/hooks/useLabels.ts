@@ -0,0 +1,34 @@
+import useSWR from 'swr';
+import { labelService } from '../services/labelService';
+import { Label } from '../types/label.types';
+import { showError } from '../utils/toast';
+
+const LABELS_KEY = '/labels';
+
+/**
+ * Labels tasks of a workspace can use, or personal labels without workspaceId
+ */
+export const useLabels = (workspaceId?: string) => {
+  const { data, error, isLoading, mutate } = useSWR([LABELS_KEY, workspaceId ?? null], ([_, id]) =>
+    labelService.getLabels(id ?? undefined)
+  );
+
+  const createLabel = async (name: string, color: string): Promise<Label | undefined> => {
+    try {
+      const label = await labelService.createLabel({ name, color, workspaceId });
+      mutate((current) => [...(current || []), label].sort((a, b) => a.name.localeCompare(b.name)), {
+        revalidate: false,
+      });
+      return label;
+    } catch (error: any) {
+      showError(error.message || 'Failed to create label');
+    }
+  };
+
+  return {
+    labels: data || [],
+    isLoading,
+    isError: error,
+    createLabel,
+  };
+};
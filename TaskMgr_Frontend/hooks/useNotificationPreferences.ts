@@ -0,0 +1,63 @@
+import useSWR from 'swr';
+import { userService } from '../services/userService';
+import { taskService } from '../services/taskService';
+import { NotificationChannel, NotificationType, TaskSubscription } from '../types/notification.types';
+import { showSuccess, showError } from '../utils/toast';
+
+const PREFERENCES_KEY = '/users/preferences';
+
+export const useNotificationPreferences = () => {
+  const { data, error, isLoading, mutate } = useSWR(PREFERENCES_KEY, userService.getNotificationPreferences);
+
+  // Switch one channel of a notification type, shown before the server answers
+  const setChannel = async (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    try {
+      await mutate(
+        (preferences) =>
+          preferences && {
+            ...preferences,
+            notifications: {
+              ...preferences.notifications,
+              [type]: { ...preferences.notifications[type], [channel]: enabled },
+            },
+          },
+        { revalidate: false }
+      );
+      await mutate(userService.updateNotificationPreferences({ notifications: { [type]: { [channel]: enabled } } }), {
+        revalidate: false,
+      });
+    } catch (error: any) {
+      showError(error.message || 'Failed to update notification preferences');
+      mutate();
+    }
+  };
+
+  const setTaskSubscription = async (taskId: string, subscription: TaskSubscription) => {
+    try {
+      await mutate(taskService.setTaskSubscription(taskId, subscription), { revalidate: false });
+      showSuccess(
+        subscription === 'WATCH'
+          ? 'You will be notified of every change'
+          : subscription === 'MUTE'
+            ? 'Task muted'
+            : 'Task notifications back to default'
+      );
+    } catch (error: any) {
+      showError(error.message || 'Failed to update task notifications');
+    }
+  };
+
+  // How the user follows a task
+  const getTaskSubscription = (taskId: string): TaskSubscription =>
+    data?.watchedTaskIds.includes(taskId) ? 'WATCH' : data?.mutedTaskIds.includes(taskId) ? 'MUTE' : 'DEFAULT';
+
+  return {
+    preferences: data,
+    isLoading,
+    isError: error,
+    mutate,
+    setChannel,
+    setTaskSubscription,
+    getTaskSubscription,
+  };
+};
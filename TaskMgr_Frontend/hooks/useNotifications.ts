@@ -1,28 +1,38 @@
-import useSWR, { useSWRConfig } from 'swr';
+import { ScopedMutator } from 'swr';
+import useSWRInfinite, { unstable_serialize } from 'swr/infinite';
 import { notificationService } from '../services/notificationService';
+import { Notification } from '../types/notification.types';
+import { CursorPage } from '../types/api.types';
 import { showSuccess, showError } from '../utils/toast';
 
 const NOTIFICATIONS_KEY = '/notifications';
+const NOTIFICATION_PAGE_SIZE = 20;
+
+// Pages of notifications follow each other by cursor, newest first
+const getPageKey = (index: number, previousPage: CursorPage<Notification> | null) => {
+  if (previousPage && !previousPage.nextCursor) return null;
+  return [NOTIFICATIONS_KEY, previousPage?.nextCursor ?? ''] as const;
+};
+
+// Refetch the loaded notifications, from outside the hook
+export const revalidateNotifications = (mutate: ScopedMutator) => mutate(unstable_serialize(getPageKey));
 
 export const useNotifications = () => {
-  const { data, error, isLoading, mutate } = useSWR(
-    NOTIFICATIONS_KEY,
-    notificationService.getNotifications
+  const { data, error, isLoading, size, setSize, mutate } = useSWRInfinite(getPageKey, ([_, after]) =>
+    notificationService.getNotificationPage(after, NOTIFICATION_PAGE_SIZE)
   );
 
-  const { mutate: globalMutate } = useSWRConfig();
+  // Apply a change to the loaded notifications
+  const patch = (apply: (notifications: Notification[]) => Notification[]) =>
+    mutate((pages) => pages?.map((page) => ({ ...page, items: apply(page.items) })), { revalidate: false });
 
   const markAsRead = async (id: string) => {
     try {
       // Optimistic update
-      await mutate(
-        (notifications) => 
-          notifications?.map(n => n.id === id ? { ...n, read: true } : n),
-        { revalidate: false }
-      );
-      
+      await patch((notifications) => notifications.map(n => n.id === id ? { ...n, read: true } : n));
+
       await notificationService.markAsRead(id);
-      globalMutate(NOTIFICATIONS_KEY);
+      mutate();
     } catch (error) {
       console.error('Failed to mark notification as read', error);
       mutate(); // Revert
@@ -31,13 +41,10 @@ export const useNotifications = () => {
 
   const markAllAsRead = async () => {
     try {
-      await mutate(
-        (notifications) => notifications?.map(n => ({ ...n, read: true })),
-        { revalidate: false }
-      );
-      
+      await patch((notifications) => notifications.map(n => ({ ...n, read: true })));
+
       await notificationService.markAllAsRead();
-      globalMutate(NOTIFICATIONS_KEY);
+      mutate();
       showSuccess('All notifications marked as read');
     } catch (error) {
       console.error('Failed to mark all as read', error);
@@ -47,13 +54,10 @@ export const useNotifications = () => {
 
   const deleteNotification = async (id: string) => {
     try {
-      await mutate(
-        (notifications) => notifications?.filter(n => n.id !== id),
-        { revalidate: false }
-      );
-      
+      await patch((notifications) => notifications.filter(n => n.id !== id));
+
       await notificationService.deleteNotification(id);
-      globalMutate(NOTIFICATIONS_KEY);
+      mutate();
       showSuccess('Notification removed');
     } catch (error) {
       console.error('Failed to delete notification', error);
@@ -61,15 +65,23 @@ export const useNotifications = () => {
     }
   };
 
-  const unreadCount = data?.filter(n => !n.read).length || 0;
+  const notifications = data?.flatMap((page) => page.items) || [];
+  const unreadCount = notifications.filter(n => !n.read).length;
+  const hasMore = !!data?.[data.length - 1]?.nextCursor;
+  const isLoadingMore = isLoading || (size > 0 && !!data && data[size - 1] === undefined);
 
   return {
-    notifications: data || [],
+    notifications,
     unreadCount,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore: () => {
+      if (hasMore && !isLoadingMore) setSize(size + 1);
+    },
     isError: error,
     markAsRead,
     markAllAsRead,
     deleteNotification
   };
-};
\ No newline at end of file
+};
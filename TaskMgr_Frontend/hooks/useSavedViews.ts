@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import useSWR, { useSWRConfig } from 'swr';
+import { savedViewService } from '../services/savedViewService';
+import { SavedView, SavedViewData, UpdateSavedViewData } from '../types/view.types';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { showSuccess, showError } from '../utils/toast';
+
+const VIEWS_KEY = '/views';
+
+/**
+ * Views of the user, then the views shared with them
+ */
+export const useSavedViews = () => {
+  const { data, error, isLoading } = useSWR(VIEWS_KEY, savedViewService.getViews);
+
+  return {
+    views: data || [],
+    isLoading,
+    isError: error,
+  };
+};
+
+/**
+ * A view opened from the URL, whose workspace becomes the current one
+ */
+export const useOpenedView = (id: string | undefined) => {
+  const { selectWorkspace } = useWorkspace();
+  const { data, error, isLoading } = useSWR(id ? `${VIEWS_KEY}/${id}` : null, () =>
+    savedViewService.getViewById(id!)
+  );
+
+  useEffect(() => {
+    if (data) selectWorkspace(data.workspaceId ?? null);
+  }, [data?.id]);
+
+  return {
+    view: data,
+    isLoading,
+    isError: error,
+  };
+};
+
+export const useSavedViewActions = () => {
+  const { mutate } = useSWRConfig();
+
+  const refresh = (view: SavedView) => {
+    mutate(VIEWS_KEY);
+    mutate(`${VIEWS_KEY}/${view.id}`, view, { revalidate: false });
+  };
+
+  const createView = async (data: SavedViewData) => {
+    try {
+      const view = await savedViewService.createView(data);
+      showSuccess('View saved');
+      refresh(view);
+      return view;
+    } catch (error: any) {
+      showError(error.message || 'Failed to save view');
+      throw error;
+    }
+  };
+
+  const updateView = async (id: string, data: UpdateSavedViewData) => {
+    try {
+      const view = await savedViewService.updateView(id, data);
+      showSuccess('View updated');
+      refresh(view);
+      return view;
+    } catch (error: any) {
+      showError(error.message || 'Failed to update view');
+      throw error;
+    }
+  };
+
+  const deleteView = async (id: string) => {
+    try {
+      await savedViewService.deleteView(id);
+      showSuccess('View deleted');
+      mutate(VIEWS_KEY);
+    } catch (error: any) {
+      showError(error.message || 'Failed to delete view');
+      throw error;
+    }
+  };
+
+  return { createView, updateView, deleteView };
+};
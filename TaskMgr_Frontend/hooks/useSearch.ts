@@ -0,0 +1,22 @@
+import useSWR from 'swr';
+import { searchService } from '../services/searchService';
+
+const SEARCH_KEY = '/search';
+
+/**
+ * Search results for a query, none for an empty query
+ * Previous results stay while the next ones load so lists do not flicker
+ */
+export const useSearch = (query: string) => {
+  const q = query.trim();
+  const { data, error, isLoading } = useSWR(q ? [SEARCH_KEY, q] : null, ([_, text]) => searchService.search(text), {
+    keepPreviousData: true,
+    revalidateOnFocus: false,
+  });
+
+  return {
+    results: q ? data : undefined,
+    isLoading,
+    isError: error,
+  };
+};
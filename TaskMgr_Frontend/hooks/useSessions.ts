@@ -0,0 +1,38 @@
+import useSWR from 'swr';
+import { authService } from '../services/authService';
+import { showSuccess, showError } from '../utils/toast';
+
+const SESSIONS_KEY = '/auth/sessions';
+
+export const useSessions = () => {
+  const { data, error, isLoading, mutate } = useSWR(SESSIONS_KEY, authService.getSessions);
+
+  const revokeSession = async (id: string) => {
+    try {
+      await authService.revokeSession(id);
+      await mutate((sessions) => sessions?.filter((s) => s.id !== id), { revalidate: false });
+      showSuccess('Session signed out');
+    } catch (error: any) {
+      showError(error.message || 'Failed to sign out session');
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    try {
+      await authService.revokeOtherSessions();
+      await mutate((sessions) => sessions?.filter((s) => s.current), { revalidate: false });
+      showSuccess('Signed out of all other sessions');
+    } catch (error: any) {
+      showError(error.message || 'Failed to sign out other sessions');
+    }
+  };
+
+  return {
+    sessions: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+    revokeSession,
+    revokeOtherSessions,
+  };
+};
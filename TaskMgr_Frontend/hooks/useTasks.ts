@@ -1,14 +1,33 @@
+import { useEffect } from 'react';
 import useSWR, { useSWRConfig } from 'swr';
+import useSWRInfinite, { SWRInfiniteKeyedMutator } from 'swr/infinite';
 import { taskService, TaskFilters } from '../services/taskService';
-import { CreateTaskData, UpdateTaskData, Task } from '../types/task.types';
-import { PaginatedResponse } from '../types/api.types';
-import { showSuccess, showError } from '../utils/toast';
+import { CreateTaskData, UpdateTaskData, Task, BulkTaskOperation } from '../types/task.types';
+import { CursorPage, PaginatedResponse } from '../types/api.types';
+import { showSuccess, showError, showUndo } from '../utils/toast';
 
 // Keys
 const TASKS_KEY = '/tasks';
 const ASSIGNED_TASKS_KEY = '/tasks/assigned';
 const CREATED_TASKS_KEY = '/tasks/created';
 const OVERDUE_TASKS_KEY = '/tasks/overdue';
+const TRASH_KEY = '/tasks/trash';
+
+// Task list caches use array keys starting with TASKS_KEY
+const isTaskListKey = (key: any) => Array.isArray(key) && key[0] === TASKS_KEY;
+const isTrashKey = (key: any) => Array.isArray(key) && key[0] === TRASH_KEY;
+
+// Pages of infinite task lists, cached apart from the paginated lists
+const TASK_PAGES_KEY = '/tasks/pages';
+const TASK_PAGE_SIZE = 24;
+
+// Key filters skip infinite lists, so the mounted ones register their mutate here
+const infiniteTaskLists = new Set<SWRInfiniteKeyedMutator<CursorPage<Task>[]>>();
+
+// Refetch every loaded page of the mounted infinite task lists
+export const revalidateInfiniteTaskLists = () => {
+  infiniteTaskLists.forEach((mutateList) => mutateList());
+};
 
 export const useTasks = (filters?: TaskFilters, sort?: string) => {
   const { data, error, isLoading, mutate } = useSWR(
@@ -25,6 +44,45 @@ export const useTasks = (filters?: TaskFilters, sort?: string) => {
   };
 };
 
+/**
+ * Task list read page by page, for infinite scrolling
+ * Pages follow each other by cursor, so tasks created or deleted meanwhile
+ * neither repeat nor skip tasks
+ */
+export const useInfiniteTasks = (filters?: TaskFilters, sort?: string) => {
+  const { data, error, isLoading, isValidating, size, setSize, mutate } = useSWRInfinite(
+    (index: number, previousPage: CursorPage<Task> | null) => {
+      if (previousPage && !previousPage.nextCursor) return null;
+      return [TASK_PAGES_KEY, filters, sort, previousPage?.nextCursor ?? ''] as const;
+    },
+    ([_, f, s, after]) => taskService.getTaskPage({ ...f, limit: TASK_PAGE_SIZE }, s, after)
+  );
+
+  useEffect(() => {
+    infiniteTaskLists.add(mutate);
+    return () => {
+      infiniteTaskLists.delete(mutate);
+    };
+  }, [mutate]);
+
+  const lastPage = data?.[data.length - 1];
+  const hasMore = !!lastPage?.nextCursor;
+  const isLoadingMore = isLoading || (size > 0 && !!data && data[size - 1] === undefined);
+
+  return {
+    tasks: data?.flatMap((page) => page.items) || [],
+    isLoading,
+    isLoadingMore,
+    isValidating,
+    hasMore,
+    loadMore: () => {
+      if (hasMore && !isLoadingMore) setSize(size + 1);
+    },
+    isError: error,
+    mutate,
+  };
+};
+
 export const useTask = (id: string | undefined) => {
   const { data, error, isLoading, mutate } = useSWR(
     id ? `${TASKS_KEY}/${id}` : null,
@@ -39,6 +97,19 @@ export const useTask = (id: string | undefined) => {
   };
 };
 
+export const useTaskHistory = (id: string | undefined) => {
+  const { data, error, isLoading } = useSWR(
+    id ? `${TASKS_KEY}/${id}/history` : null,
+    () => taskService.getTaskHistory(id!)
+  );
+
+  return {
+    history: data || [],
+    isLoading,
+    isError: error,
+  };
+};
+
 export const useCreateTask = () => {
   const { mutate } = useSWRConfig();
 
@@ -48,7 +119,8 @@ export const useCreateTask = () => {
       showSuccess('Task created successfully');
       
       // Invalidate relevant queries
-      mutate((key: any) => Array.isArray(key) && key[0] === TASKS_KEY);
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
       mutate(CREATED_TASKS_KEY);
       return newTask;
     } catch (error: any) {
@@ -63,21 +135,57 @@ export const useCreateTask = () => {
 export const useUpdateTask = () => {
   const { mutate } = useSWRConfig();
 
+  // Replace a task in every cached list, returns the version it replaced
+  const patchLists = async (id: string, apply: (task: Task) => Task) => {
+    let replaced: Task | undefined;
+    const patchPage = <P extends { items: Task[] }>(page: P | undefined) => {
+      if (!page) return page;
+      return {
+        ...page,
+        items: page.items.map((task) => {
+          if (task.id !== id) return task;
+          replaced = replaced ?? task;
+          return apply(task);
+        }),
+      };
+    };
+    await mutate(isTaskListKey, (page: PaginatedResponse<Task> | undefined) => patchPage(page), {
+      revalidate: false,
+    });
+    await Promise.all(
+      [...infiniteTaskLists].map((mutateList) =>
+        mutateList((pages) => pages?.map((page) => patchPage(page)!), { revalidate: false })
+      )
+    );
+    return replaced;
+  };
+
   const updateTask = async (id: string, data: UpdateTaskData) => {
     const key = `${TASKS_KEY}/${id}`;
+    // Request options are not task fields, and label IDs are not the label summaries tasks carry
+    const {
+      overrideBlockers: _overrideBlockers,
+      scope: _scope,
+      recurrence: _recurrence,
+      labels: _labels,
+      expectedVersion: _expectedVersion,
+      ...changes
+    } = data;
+    let previousTask: Task | undefined;
     
     // Optimistic UI update for single task view
     await mutate(
       key,
       (currentTask: Task | undefined) => {
         if (!currentTask) return undefined;
-        return { ...currentTask, ...data, updatedAt: new Date().toISOString() };
+        previousTask = currentTask;
+        return { ...currentTask, ...changes, updatedAt: new Date().toISOString() };
       },
       { revalidate: false }
     );
 
-    // Optimistic UI update for list view (complex due to pagination/filtering, might just revalidate)
-    // Here we choose to just invalidate list to stay consistent or manually map if critical
+    // Optimistic UI update for list views, so a board card moves to its new column right away
+    const previousListTask = await patchLists(id, (task) => ({ ...task, ...changes }) as Task);
     
     try {
       const updatedTask = await taskService.updateTask(id, data);
@@ -85,16 +193,28 @@ export const useUpdateTask = () => {
       
       // Trigger revalidation to ensure data consistency
       mutate(key);
-      mutate((k: any) => Array.isArray(k) && k[0] === TASKS_KEY);
+      mutate(`${key}/history`);
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
       mutate(ASSIGNED_TASKS_KEY);
       mutate(OVERDUE_TASKS_KEY);
       
       return updatedTask;
     } catch (error: any) {
-      showError(error.message || 'Failed to update task');
-      // Rollback logic handled automatically by SWR if we used the populate cache option, 
-      // but here we just revalidate to get true server state
+      // Conflicts are resolved by the caller, with the current task the error carries
+      if (error.code !== 'CONFLICT') {
+        showError(error.message || 'Failed to update task');
+      }
+      // Roll back the optimistic changes, then revalidate to get true server state
+      if (previousTask) {
+        await mutate(key, previousTask, { revalidate: false });
+      }
+      if (previousListTask) {
+        await patchLists(id, () => previousListTask);
+      }
       mutate(key);
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
       throw error;
     }
   };
@@ -102,18 +222,155 @@ export const useUpdateTask = () => {
   return { updateTask };
 };
 
+export const useReorderTasks = () => {
+  const { mutate } = useSWRConfig();
+
+  // Persist the order of a board column, taskIds lists its tasks in the new order
+  const reorderTasks = async (taskIds: string[]) => {
+    try {
+      const tasks = await taskService.reorderTasks(taskIds);
+      await mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
+      return tasks;
+    } catch (error: any) {
+      showError(error.message || 'Failed to reorder tasks');
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
+      throw error;
+    }
+  };
+
+  return { reorderTasks };
+};
+
+export const useTrash = (workspaceId?: string, page = 1) => {
+  const { data, error, isLoading, mutate } = useSWR(
+    [TRASH_KEY, workspaceId, page],
+    ([_, w, p]) => taskService.getTrash(w, p)
+  );
+
+  return {
+    tasks: data?.items || [],
+    pagination: data ? { total: data.total, page: data.page, limit: data.limit, totalPages: data.totalPages } : null,
+    retentionDays: data?.retentionDays,
+    isLoading,
+    isError: error,
+    mutate
+  };
+};
+
+export const useRestoreTask = () => {
+  const { mutate } = useSWRConfig();
+
+  // Restore trashed tasks, then bring them back in every list
+  const restoreTasks = async (ids: string[]) => {
+    try {
+      await Promise.all(ids.map((id) => taskService.restoreTask(id)));
+      showSuccess(ids.length === 1 ? 'Task restored' : `${ids.length} tasks restored`);
+    } catch (error: any) {
+      showError(error.message || 'Failed to restore task');
+      throw error;
+    } finally {
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
+      mutate(ASSIGNED_TASKS_KEY);
+      mutate(CREATED_TASKS_KEY);
+      mutate(OVERDUE_TASKS_KEY);
+      mutate(isTrashKey);
+      ids.forEach((id) => mutate(`${TASKS_KEY}/${id}`));
+    }
+  };
+
+  return { restoreTask: (id: string) => restoreTasks([id]), restoreTasks };
+};
+
+export const usePurgeTask = () => {
+  const { mutate } = useSWRConfig();
+
+  const purgeTask = async (id: string) => {
+    try {
+      await taskService.purgeTask(id);
+      showSuccess('Task deleted permanently');
+      mutate(isTrashKey);
+    } catch (error: any) {
+      showError(error.message || 'Failed to delete task');
+      mutate(isTrashKey);
+      throw error;
+    }
+  };
+
+  return { purgeTask };
+};
+
+// Archiving moves a task in or out of the default lists
+const useRefreshArchivedTask = () => {
+  const { mutate } = useSWRConfig();
+
+  return (task: Task) => {
+    mutate(isTaskListKey);
+    revalidateInfiniteTaskLists();
+    mutate(ASSIGNED_TASKS_KEY);
+    mutate(CREATED_TASKS_KEY);
+    mutate(`${TASKS_KEY}/${task.id}`, task, { revalidate: false });
+  };
+};
+
+export const useArchiveTask = () => {
+  const refresh = useRefreshArchivedTask();
+
+  const archiveTask = async (id: string) => {
+    try {
+      const task = await taskService.archiveTask(id);
+      showSuccess('Task archived');
+      refresh(task);
+      return task;
+    } catch (error: any) {
+      showError(error.message || 'Failed to archive task');
+      throw error;
+    }
+  };
+
+  return { archiveTask };
+};
+
+export const useUnarchiveTask = () => {
+  const refresh = useRefreshArchivedTask();
+
+  const unarchiveTask = async (id: string) => {
+    try {
+      const task = await taskService.unarchiveTask(id);
+      showSuccess('Task unarchived');
+      refresh(task);
+      return task;
+    } catch (error: any) {
+      showError(error.message || 'Failed to unarchive task');
+      throw error;
+    }
+  };
+
+  return { unarchiveTask };
+};
+
+// Undo restores the tasks, its failure is already shown by restoreTasks
+const offerUndo = (message: string, restore: () => Promise<void>) =>
+  showUndo(message, () => restore().catch((error) => console.error(error)));
+
 export const useDeleteTask = () => {
   const { mutate } = useSWRConfig();
+  const { restoreTask } = useRestoreTask();
 
+  // Deleted tasks go to the trash, the toast offers to restore them
   const deleteTask = async (id: string) => {
     try {
       await taskService.deleteTask(id);
-      showSuccess('Task deleted successfully');
+      offerUndo('Task moved to the trash', () => restoreTask(id));
       
       // Remove from cache
-      mutate((key: any) => Array.isArray(key) && key[0] === TASKS_KEY);
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
       mutate(CREATED_TASKS_KEY);
       mutate(ASSIGNED_TASKS_KEY);
+      mutate(isTrashKey);
       mutate(`${TASKS_KEY}/${id}`, null, { revalidate: false });
     } catch (error: any) {
       showError(error.message || 'Failed to delete task');
@@ -124,6 +381,54 @@ export const useDeleteTask = () => {
   return { deleteTask };
 };
 
+export const useBulkUpdateTasks = () => {
+  const { mutate } = useSWRConfig();
+  const { restoreTasks } = useRestoreTask();
+
+  // Apply one operation to many tasks, returns the outcome for each task
+  const bulkUpdateTasks = async (taskIds: string[], operation: BulkTaskOperation, value?: string | null) => {
+    try {
+      const results = await taskService.bulkUpdateTasks(taskIds, operation, value);
+      const failed = results.filter((result) => !result.success);
+      const done = operation === 'DELETE' ? 'deleted' : 'updated';
+      const count = `${results.length} ${results.length === 1 ? 'task' : 'tasks'}`;
+
+      if (failed.length === 0 && operation === 'DELETE') {
+        const taskIds = results.map((result) => result.taskId);
+        offerUndo(`${count} moved to the trash`, () => restoreTasks(taskIds));
+      } else if (failed.length === 0) {
+        showSuccess(`${count} ${done}`);
+      } else {
+        showError(`${failed.length} of ${results.length} tasks could not be ${done}: ${failed[0].error}`);
+      }
+
+      mutate(isTaskListKey);
+      revalidateInfiniteTaskLists();
+      mutate(ASSIGNED_TASKS_KEY);
+      mutate(CREATED_TASKS_KEY);
+      mutate(OVERDUE_TASKS_KEY);
+      if (operation === 'DELETE') mutate(isTrashKey);
+      results
+        .filter((result) => result.success)
+        .forEach((result) => {
+          const key = `${TASKS_KEY}/${result.taskId}`;
+          if (operation === 'DELETE') {
+            mutate(key, null, { revalidate: false });
+          } else {
+            mutate(key);
+          }
+        });
+
+      return results;
+    } catch (error: any) {
+      showError(error.message || 'Failed to update tasks');
+      throw error;
+    }
+  };
+
+  return { bulkUpdateTasks };
+};
+
 export const useAssignedTasks = () => {
   const { data, error, isLoading } = useSWR(ASSIGNED_TASKS_KEY, taskService.getAssignedTasks);
   return {
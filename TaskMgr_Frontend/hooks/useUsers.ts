@@ -0,0 +1,33 @@
+import useSWR from 'swr';
+import { userService } from '../services/userService';
+import { UserSearchParams } from '../types/user.types';
+
+const USERS_KEY = '/users';
+
+export const useUserSearch = (params: UserSearchParams, enabled = true) => {
+  const { data, error, isLoading } = useSWR(
+    enabled ? [USERS_KEY, params] : null,
+    ([_, p]) => userService.searchUsers(p),
+    { keepPreviousData: true }
+  );
+
+  return {
+    users: data?.items || [],
+    total: data?.total || 0,
+    isLoading,
+    isError: error,
+  };
+};
+
+export const useUser = (id: string | undefined) => {
+  const { data, error, isLoading } = useSWR(
+    id ? `${USERS_KEY}/${id}` : null,
+    () => userService.getUserById(id!)
+  );
+
+  return {
+    user: data,
+    isLoading,
+    isError: error,
+  };
+};
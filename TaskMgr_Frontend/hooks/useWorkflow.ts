@@ -0,0 +1,32 @@
+import useSWR from 'swr';
+import { workflowService } from '../services/workflowService';
+import { StatusCategory, WorkflowStatus } from '../types/workflow.types';
+import { fallbackStatus } from '../utils/workflow';
+
+const WORKFLOW_KEY = '/workflow';
+
+/**
+ * Workflow of a workspace, or of personal tasks without workspaceId
+ */
+export const useWorkflow = (workspaceId?: string) => {
+  const { data, error, isLoading } = useSWR(
+    [WORKFLOW_KEY, workspaceId ?? null],
+    ([_, id]) => workflowService.getWorkflow(id ?? undefined),
+    // Platform admins see tasks of workspaces they cannot read the workflow of
+    { shouldRetryOnError: false }
+  );
+
+  const statuses = data?.statuses || [];
+
+  // The category lets statuses missing from the workflow still show their meaning
+  const getStatus = (key: string, category?: StatusCategory): WorkflowStatus =>
+    statuses.find((status) => status.key === key) || fallbackStatus(key, category);
+
+  return {
+    workflow: data,
+    statuses,
+    getStatus,
+    isLoading,
+    isError: error,
+  };
+};
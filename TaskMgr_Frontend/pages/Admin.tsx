@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { ListTodo, Users } from 'lucide-react';
+import { Card } from '../components/ui/Card';
+import { AdminUsersTable } from '../components/admin/AdminUsersTable';
+import { AdminTasksTable } from '../components/admin/AdminTasksTable';
+
+type AdminTab = 'users' | 'tasks';
+
+const TABS = [
+  { id: 'users' as const, label: 'Users', icon: Users },
+  { id: 'tasks' as const, label: 'Tasks', icon: ListTodo },
+];
+
+const Admin: React.FC = () => {
+  const [tab, setTab] = useState<AdminTab>('users');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Admin Console</h1>
+        <p className="text-sm text-gray-500">Manage accounts and every task on the platform</p>
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200">
+        {TABS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setTab(id)}
+            className={`flex items-center gap-2 px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              tab === id
+                ? 'border-primary text-primary'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <Card>{tab === 'users' ? <AdminUsersTable /> : <AdminTasksTable />}</Card>
+    </div>
+  );
+};
+
+export default Admin;
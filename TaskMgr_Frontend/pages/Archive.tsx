@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Archive as ArchiveIcon, ArchiveRestore } from 'lucide-react';
+import { useTasks, useUnarchiveTask } from '../hooks/useTasks';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { Task } from '../types/task.types';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { EmptyState } from '../components/ui/EmptyState';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { PageControls } from '../components/admin/PageControls';
+
+const Archive: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const [page, setPage] = useState(1);
+  const [unarchivingId, setUnarchivingId] = useState<string | null>(null);
+  const filters = useMemo(
+    () => ({ archived: true, workspaceId: currentWorkspace?.id, page }),
+    [currentWorkspace?.id, page]
+  );
+  const { tasks, pagination, isLoading } = useTasks(filters, '-updatedAt');
+  const { unarchiveTask } = useUnarchiveTask();
+
+  useEffect(() => {
+    setPage(1);
+  }, [currentWorkspace?.id]);
+
+  // The last task of a page was unarchived
+  useEffect(() => {
+    if (pagination && page > 1 && page > pagination.totalPages) {
+      setPage(Math.max(pagination.totalPages, 1));
+    }
+  }, [pagination, page]);
+
+  const handleUnarchive = async (task: Task) => {
+    setUnarchivingId(task.id);
+    try {
+      await unarchiveTask(task.id);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setUnarchivingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Archive</h1>
+        <p className="text-sm text-gray-500">Completed tasks put away from the task lists and dashboards</p>
+      </div>
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : tasks.length === 0 ? (
+        <EmptyState
+          icon={ArchiveIcon}
+          title="Archive is empty"
+          description="Completed tasks are archived here after a while, or when you archive them."
+        />
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Task</th>
+                  <th className="py-2 pr-4 font-medium">Completed</th>
+                  <th className="py-2 pr-4 font-medium">Archived</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {tasks.map((task) => {
+                  const archivedAt = new Date(task.archivedAt!);
+                  return (
+                    <tr key={task.id}>
+                      <td className="py-3 pr-4 font-medium text-gray-900">{task.title}</td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        {task.completedAt && format(new Date(task.completedAt), 'PPP')}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        <span title={format(archivedAt, 'PPP p')}>
+                          {formatDistanceToNow(archivedAt, { addSuffix: true })}
+                        </span>
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          leftIcon={<ArchiveRestore className="w-4 h-4" />}
+                          onClick={() => handleUnarchive(task)}
+                          isLoading={unarchivingId === task.id}
+                        >
+                          Unarchive
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && (
+            <PageControls
+              page={page}
+              totalPages={pagination.totalPages}
+              total={pagination.total}
+              onChange={setPage}
+            />
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Archive;
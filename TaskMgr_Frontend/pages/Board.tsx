@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Bookmark, Plus, X } from 'lucide-react';
+import { useTasks, useCreateTask, useUpdateTask, useDeleteTask, useReorderTasks } from '../hooks/useTasks';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { useOpenedView } from '../hooks/useSavedViews';
+import { Task, CreateTaskData, UpdateTaskData } from '../types/task.types';
+import { TaskBoard } from '../components/board/TaskBoard';
+import { TaskForm } from '../components/tasks/TaskForm';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+
+// Largest page the API returns, and the most tasks a column reorder accepts
+const BOARD_TASK_LIMIT = 100;
+
+interface PendingMove {
+  task: Task;
+  status: string;
+  taskIds: string[];
+}
+
+const Board: React.FC = () => {
+  const { currentWorkspace, canEditTasks } = useWorkspace();
+  // Saved view opened from the URL, whose filters the board shows
+  const [searchParams] = useSearchParams();
+  const { view: savedView } = useOpenedView(searchParams.get('view') || undefined);
+  const { tasks, pagination, isLoading } = useTasks({
+    ...(currentWorkspace ? { workspaceId: currentWorkspace.id } : {}),
+    ...(savedView?.query && { q: savedView.query }),
+    limit: BOARD_TASK_LIMIT,
+  });
+  const { statuses, isLoading: isWorkflowLoading } = useWorkflow(currentWorkspace?.id);
+  const { createTask } = useCreateTask();
+  const { updateTask } = useUpdateTask();
+  const { deleteTask } = useDeleteTask();
+  const { reorderTasks } = useReorderTasks();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [deletingTask, setDeletingTask] = useState<Task | null>(null);
+  // Move refused because the task still has open blockers
+  const [blockedMove, setBlockedMove] = useState<PendingMove | null>(null);
+
+  const moveTask = async ({ task, status, taskIds }: PendingMove, data: UpdateTaskData = {}) => {
+    if (task.status !== status) {
+      await updateTask(task.id, { ...data, status });
+    }
+    await reorderTasks(taskIds);
+  };
+
+  const handleMove = async (task: Task, status: string, taskIds: string[]) => {
+    try {
+      await moveTask({ task, status, taskIds });
+    } catch (error: any) {
+      if (error.message?.startsWith('This task is blocked by')) {
+        setBlockedMove({ task, status, taskIds });
+      }
+      throw error;
+    }
+  };
+
+  const handleOverrideBlockers = async () => {
+    if (!blockedMove) return;
+    try {
+      await moveTask(blockedMove, { overrideBlockers: true });
+      setBlockedMove(null);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleCreate = async (data: CreateTaskData) => {
+    try {
+      await createTask(currentWorkspace ? { ...data, workspaceId: currentWorkspace.id } : data);
+      setIsCreateOpen(false);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleUpdate = async (data: CreateTaskData) => {
+    if (!editingTask) return;
+    try {
+      await updateTask(editingTask.id, data as UpdateTaskData);
+      setEditingTask(null);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTask) return;
+    try {
+      await deleteTask(deletingTask.id);
+      setDeletingTask(null);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {currentWorkspace ? `${currentWorkspace.name} Board` : 'Board'}
+          </h1>
+          <p className="text-sm text-gray-500">
+            {canEditTasks ? 'Drag cards between columns to change their status' : 'Track work by status'}
+          </p>
+        </div>
+        {canEditTasks && (
+          <Button onClick={() => setIsCreateOpen(true)} leftIcon={<Plus className="w-5 h-5" />}>
+            Create Task
+          </Button>
+        )}
+      </div>
+
+      {savedView && (
+        <div className="inline-flex items-center gap-2 rounded-lg bg-blue-50 px-3 py-1.5 text-sm text-blue-700">
+          <Bookmark className="w-4 h-4" />
+          <span className="font-medium">{savedView.name}</span>
+          {savedView.query && <code className="text-blue-500">{savedView.query}</code>}
+          <Link to="/board" className="text-blue-400 hover:text-blue-600" aria-label="Close view">
+            <X className="w-4 h-4" />
+          </Link>
+        </div>
+      )}
+
+      {pagination && pagination.total > tasks.length && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 rounded-md px-3 py-2">
+          Showing the {tasks.length} most recent of {pagination.total} tasks.
+        </p>
+      )}
+
+      {isLoading || isWorkflowLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <TaskBoard
+          tasks={tasks}
+          statuses={statuses}
+          canEdit={canEditTasks}
+          onEdit={setEditingTask}
+          onDelete={setDeletingTask}
+          onView={setEditingTask}
+          onMove={handleMove}
+        />
+      )}
+
+      {/* Create Modal */}
+      <Modal isOpen={isCreateOpen} onClose={() => setIsCreateOpen(false)} title="Create New Task" size="lg">
+        <TaskForm onSubmit={handleCreate} onCancel={() => setIsCreateOpen(false)} />
+      </Modal>
+
+      {/* Edit Modal */}
+      <Modal isOpen={!!editingTask} onClose={() => setEditingTask(null)} title="Edit Task" size="lg">
+        {editingTask && (
+          <TaskForm initialData={editingTask} onSubmit={handleUpdate} onCancel={() => setEditingTask(null)} />
+        )}
+      </Modal>
+
+      {/* Blocked Move Confirmation Modal */}
+      <Modal
+        isOpen={!!blockedMove}
+        onClose={() => setBlockedMove(null)}
+        title="Task Is Blocked"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setBlockedMove(null)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleOverrideBlockers}>
+              Move Anyway
+            </Button>
+          </>
+        }
+      >
+        <p className="text-gray-600">
+          <span className="font-semibold">{blockedMove?.task.title}</span> is waiting on tasks that are not
+          done yet. Do you want to move it anyway?
+        </p>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!deletingTask}
+        onClose={() => setDeletingTask(null)}
+        title="Confirm Delete"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setDeletingTask(null)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleDelete}>
+              Delete
+            </Button>
+          </>
+        }
+      >
+        <p className="text-gray-600">
+          Are you sure you want to delete <span className="font-semibold">{deletingTask?.title}</span>?
+          It moves to the trash, where you can restore it.
+        </p>
+      </Modal>
+    </div>
+  );
+};
+
+export default Board;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
+import { useSWRConfig } from 'swr';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
@@ -8,10 +9,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { useCreatedTasks, useAssignedTasks } from '../hooks/useTasks';
 import { UpdateProfileData } from '../types/user.types';
 import { authService } from '../services/authService';
+import { tokenStorage } from '../services/tokenStorage';
 import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
-import { Status } from '../types/task.types';
+import { ActiveSessions } from '../components/profile/ActiveSessions';
+import { NotificationSettings } from '../components/profile/NotificationSettings';
 import { showSuccess, showError } from '../utils/toast';
 
 // Schema for Profile Update
@@ -39,10 +42,11 @@ type PasswordFormData = z.infer<typeof passwordSchema>;
 
 const Profile: React.FC = () => {
   const { user, updateUser } = useAuth();
+  const { mutate } = useSWRConfig();
   const { tasks: createdTasks } = useCreatedTasks();
   const { tasks: assignedTasks } = useAssignedTasks();
 
-  const completedTasks = assignedTasks.filter(t => t.status === Status.COMPLETED).length;
+  const completedTasks = assignedTasks.filter(t => t.statusCategory === 'DONE').length;
 
   // Profile Form
   const {
@@ -78,10 +82,13 @@ const Profile: React.FC = () => {
 
   const onPasswordChange = async (data: PasswordFormData) => {
     try {
-      await authService.changePassword({
+      // Every other session is signed out, keep this one with the new tokens
+      const tokens = await authService.changePassword({
         currentPassword: data.currentPassword,
         newPassword: data.newPassword
       });
+      tokenStorage.setTokens(tokens);
+      mutate('/auth/sessions');
       showSuccess('Password changed successfully');
       resetPassword();
     } catch (error: any) {
@@ -177,6 +184,7 @@ const Profile: React.FC = () => {
               </div>
             </form>
           </Card>
+          <NotificationSettings />
         </div>
 
         {/* Change Password Section */}
@@ -219,6 +227,7 @@ const Profile: React.FC = () => {
               </div>
             </form>
           </Card>
+          <ActiveSessions />
         </div>
       </div>
     </div>
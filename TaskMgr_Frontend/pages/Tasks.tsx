@@ -1,39 +1,220 @@
-import React, { useState } from 'react';
-import { Plus } from 'lucide-react';
-import { useTasks, useCreateTask, useUpdateTask, useDeleteTask } from '../hooks/useTasks';
-import { Task, CreateTaskData, UpdateTaskData } from '../types/task.types';
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Archive, Bookmark, BookmarkPlus, Filter, Plus, X } from 'lucide-react';
+import { useInfiniteTasks, useTask, useCreateTask, useUpdateTask, useDeleteTask, useArchiveTask } from '../hooks/useTasks';
+import { useOpenedView, useSavedViewActions } from '../hooks/useSavedViews';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { useAuth } from '../contexts/AuthContext';
+import { Task, CreateTaskData, UpdateTaskData, BulkTaskResult } from '../types/task.types';
 import { TaskList } from '../components/tasks/TaskList';
 import { TaskForm } from '../components/tasks/TaskForm';
+import { TaskComments } from '../components/tasks/TaskComments';
+import { TaskHistoryTimeline } from '../components/tasks/TaskHistoryTimeline';
+import { TaskChecklist } from '../components/tasks/TaskChecklist';
+import { TaskDependencies } from '../components/tasks/TaskDependencies';
+import { TaskAttachments } from '../components/tasks/TaskAttachments';
+import { StatusBadge } from '../components/tasks/StatusBadge';
+import { TaskSortBar } from '../components/tasks/TaskSortBar';
+import { BulkActionBar } from '../components/tasks/BulkActionBar';
+import { TaskConflictDialog } from '../components/tasks/TaskConflictDialog';
+import { TaskSubscriptionToggle } from '../components/tasks/TaskSubscriptionToggle';
+import { SaveViewModal } from '../components/views/SaveViewModal';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { Badge } from '../components/ui/Badge';
+import { Input } from '../components/ui/Input';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { useDebounce } from '../hooks/useDebounce';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { ApiError } from '../types/api.types';
 import { format } from 'date-fns';
+import { DEFAULT_SORT, SortKey, formatSort, parseSort } from '../utils/taskSort';
+import { findTaskConflicts } from '../utils/taskConflicts';
 
 const Tasks: React.FC = () => {
-  const { tasks, isLoading } = useTasks();
+  const { currentWorkspace, canEditTasks } = useWorkspace();
+  const { user } = useAuth();
+  // The sort and query are kept in the URL so they survive reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedSort = parseSort(searchParams.get('sort') || '');
+  const sortKeys = requestedSort.length > 0 ? requestedSort : parseSort(DEFAULT_SORT);
+  const sort = formatSort(sortKeys);
+  const query = searchParams.get('q') || '';
+  // Saved view opened from the URL, its filters and sort are copied into the URL once loaded
+  const { view: savedView } = useOpenedView(searchParams.get('view') || undefined);
+  const appliedViewId = useRef<string | null>(null);
+  const { updateView } = useSavedViewActions();
+  const isOwnView = !!savedView && savedView.ownerId.id === user?.id;
+  const isViewModified =
+    !!savedView && (query !== savedView.query || sort !== formatSort(parseSort(savedView.sort)));
+  const [viewModal, setViewModal] = useState<'create' | 'edit' | null>(null);
+  const [queryText, setQueryText] = useState(query);
+  const debouncedQuery = useDebounce(queryText.trim());
+  const { tasks, isLoading, isLoadingMore, hasMore, loadMore, isError } = useInfiniteTasks(
+    {
+      ...(currentWorkspace && { workspaceId: currentWorkspace.id }),
+      ...(query && { q: query }),
+    },
+    sort
+  );
+  const queryError = (isError as ApiError | undefined)?.errors?.q?.[0];
+  // Loads the next page of tasks as the end of the list scrolls into view
+  const loadMoreRef = useInfiniteScroll(loadMore, hasMore && !isLoadingMore);
   const { createTask } = useCreateTask();
   const { updateTask } = useUpdateTask();
   const { deleteTask } = useDeleteTask();
+  const { archiveTask } = useArchiveTask();
+  const [isArchiving, setIsArchiving] = useState(false);
 
   // Modal states
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deletingTask, setDeletingTask] = useState<Task | null>(null);
   const [viewingTask, setViewingTask] = useState<Task | null>(null);
+  // Task opened from a link, such as a search result
+  const linkedTaskId = searchParams.get('task') || undefined;
+  const { task: linkedTask } = useTask(linkedTaskId);
+  // Tasks selected for bulk actions, cleared when the list changes
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const allSelected = tasks.length > 0 && tasks.every((task) => selectedIds.has(task.id));
+  // Update refused because the task still has open blockers
+  const [blockedUpdate, setBlockedUpdate] = useState<{ id: string; data: UpdateTaskData } | null>(null);
+  // An edit refused because the task was saved meanwhile, with the saved copy
+  const [conflict, setConflict] = useState<{ data: UpdateTaskData; current: Task } | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Set a URL parameter, removing it when it has its default value
+  const setParam = (name: string, value: string, defaultValue = '') => {
+    setSearchParams(
+      (params) => {
+        const next = new URLSearchParams(params);
+        if (value && value !== defaultValue) {
+          next.set(name, value);
+        } else {
+          next.delete(name);
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [query, sort, currentWorkspace?.id]);
+
+  const toggleSelected = (task: Task) => {
+    const next = new Set(selectedIds);
+    if (!next.delete(task.id)) next.add(task.id);
+    setSelectedIds(next);
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(tasks.map((task) => task.id)));
+  };
+
+  // Tasks the action failed for stay selected, to retry or act on them otherwise
+  const handleBulkApplied = (results: BulkTaskResult[]) => {
+    setSelectedIds(new Set(results.filter((result) => !result.success).map((result) => result.taskId)));
+  };
+
+  const handleSortChange = (keys: SortKey[]) => setParam('sort', formatSort(keys), DEFAULT_SORT);
+
+  // The typed query reaches the URL, and the API, once typing pauses
+  useEffect(() => {
+    if (debouncedQuery !== query) setParam('q', debouncedQuery);
+  }, [debouncedQuery]);
+
+  // A query set from elsewhere, such as search, replaces the typed one
+  useEffect(() => {
+    if (query !== debouncedQuery) setQueryText(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (linkedTask) setViewingTask(linkedTask);
+  }, [linkedTask]);
+
+  useEffect(() => {
+    if (!savedView || appliedViewId.current === savedView.id) return;
+    appliedViewId.current = savedView.id;
+    setSearchParams(
+      (params) => {
+        const next = new URLSearchParams(params);
+        next.delete('q');
+        next.delete('sort');
+        if (savedView.query) next.set('q', savedView.query);
+        if (savedView.sort !== DEFAULT_SORT) next.set('sort', savedView.sort);
+        return next;
+      },
+      { replace: true }
+    );
+  }, [savedView]);
+
+  const saveViewChanges = async () => {
+    if (!savedView) return;
+    try {
+      await updateView(savedView.id, { query, sort });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const closeView = () => {
+    setViewingTask(null);
+    setParam('task', '');
+  };
 
   const handleCreate = async (data: CreateTaskData) => {
     try {
-      await createTask(data);
+      await createTask(currentWorkspace ? { ...data, workspaceId: currentWorkspace.id } : data);
       setIsCreateOpen(false);
     } catch (error) {
       console.error(error);
     }
   };
 
-  const handleUpdate = async (data: CreateTaskData) => {
+  // Save an edit made on the given version of the editing task
+  const saveEdit = async (data: UpdateTaskData) => {
     if (!editingTask) return;
     try {
-      await updateTask(editingTask.id, data as UpdateTaskData);
+      await updateTask(editingTask.id, data);
+      setConflict(null);
+      setEditingTask(null);
+    } catch (error: any) {
+      if (error.code === 'CONFLICT' && error.data) {
+        const current = error.data as Task;
+        // Nothing the edit sets was changed meanwhile, so it applies as is on the saved version
+        if (findTaskConflicts(data, editingTask, current).length === 0) {
+          await saveEdit({ ...data, expectedVersion: current.version });
+        } else {
+          setConflict({ data, current });
+        }
+        return;
+      }
+      if (error.message?.startsWith('This task is blocked by')) {
+        setBlockedUpdate({ id: editingTask.id, data });
+      }
+      console.error(error);
+    }
+  };
+
+  const handleUpdate = (data: CreateTaskData) =>
+    editingTask && saveEdit({ ...(data as UpdateTaskData), expectedVersion: editingTask.version });
+
+  const handleResolveConflict = async (data: UpdateTaskData) => {
+    setIsResolving(true);
+    try {
+      await saveEdit(data);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleOverrideBlockers = async () => {
+    if (!blockedUpdate) return;
+    try {
+      await updateTask(blockedUpdate.id, { ...blockedUpdate.data, overrideBlockers: true });
+      setBlockedUpdate(null);
       setEditingTask(null);
     } catch (error) {
       console.error(error);
@@ -50,22 +231,103 @@ const Tasks: React.FC = () => {
     }
   };
 
+  // Archived tasks leave the list, so the details close with them
+  const handleArchive = async () => {
+    if (!viewingTask) return;
+    setIsArchiving(true);
+    try {
+      await archiveTask(viewingTask.id);
+      closeView();
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">All Tasks</h1>
-          <p className="text-sm text-gray-500">Manage and track your team's work</p>
+          <h1 className="text-2xl font-bold text-gray-900">{currentWorkspace ? currentWorkspace.name : 'All Tasks'}</h1>
+          <p className="text-sm text-gray-500">
+            {currentWorkspace ? "Manage and track your team's work" : 'Tasks you created or are assigned to'}
+          </p>
         </div>
-        <Button 
-          onClick={() => setIsCreateOpen(true)}
-          leftIcon={<Plus className="w-5 h-5" />}
+        {canEditTasks && (
+          <Button 
+            onClick={() => setIsCreateOpen(true)}
+            leftIcon={<Plus className="w-5 h-5" />}
+          >
+            Create Task
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {savedView && (
+          <div className="flex items-center gap-2 rounded-lg bg-blue-50 px-3 py-1.5 text-sm text-blue-700">
+            <Bookmark className="w-4 h-4" />
+            <span className="font-medium">{savedView.name}</span>
+            {!isOwnView && (
+              <span className="text-blue-500">
+                shared by {savedView.ownerId.firstName} {savedView.ownerId.lastName}
+              </span>
+            )}
+            <button
+              onClick={() => setParam('view', '')}
+              className="text-blue-400 hover:text-blue-600"
+              aria-label="Close view"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {isOwnView && isViewModified && (
+          <Button size="sm" variant="outline" onClick={saveViewChanges}>
+            Save changes
+          </Button>
+        )}
+        {isOwnView && (
+          <Button size="sm" variant="ghost" onClick={() => setViewModal('edit')}>
+            Edit view
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          leftIcon={<BookmarkPlus className="w-4 h-4" />}
+          onClick={() => setViewModal('create')}
         >
-          Create Task
+          Save view
         </Button>
       </div>
 
+      <Input
+        value={queryText}
+        onChange={(e) => setQueryText(e.target.value)}
+        placeholder="Filter tasks, e.g. status:TODO,REVIEW priority:>=HIGH due:<7d assignee:me"
+        leftIcon={<Filter className="w-4 h-4" />}
+        error={queryError}
+        aria-label="Filter tasks"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <TaskSortBar value={sortKeys} onChange={handleSortChange} />
+        {canEditTasks && tasks.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAllSelected}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Select all
+          </label>
+        )}
+      </div>
+
       {/* Task List */}
       <TaskList 
         tasks={tasks} 
@@ -73,6 +335,33 @@ const Tasks: React.FC = () => {
         onEdit={setEditingTask}
         onDelete={setDeletingTask}
         onView={setViewingTask}
+        selectedIds={selectedIds}
+        onSelect={canEditTasks ? toggleSelected : undefined}
+      />
+      {hasMore && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isLoadingMore && !isLoading && <LoadingSpinner size="md" />}
+        </div>
+      )}
+
+      {canEditTasks && selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          workspaceId={currentWorkspace?.id}
+          onClear={() => setSelectedIds(new Set())}
+          onApplied={handleBulkApplied}
+        />
+      )}
+
+      <SaveViewModal
+        isOpen={!!viewModal}
+        onClose={() => setViewModal(null)}
+        view={viewModal === 'edit' ? savedView : undefined}
+        query={query}
+        sort={sort}
+        workspaceId={currentWorkspace?.id}
+        onSaved={(view) => setParam('view', view.id)}
+        onDeleted={() => setParam('view', '')}
       />
 
       {/* Create Modal */}
@@ -107,13 +396,25 @@ const Tasks: React.FC = () => {
       {/* View Details Modal */}
       <Modal
         isOpen={!!viewingTask}
-        onClose={() => setViewingTask(null)}
+        onClose={closeView}
         title="Task Details"
         size="lg"
         footer={
-          <Button onClick={() => setViewingTask(null)} variant="secondary">
-            Close
-          </Button>
+          <>
+            {canEditTasks && viewingTask?.statusCategory === 'DONE' && !viewingTask.archivedAt && (
+              <Button
+                variant="outline"
+                leftIcon={<Archive className="w-4 h-4" />}
+                onClick={handleArchive}
+                isLoading={isArchiving}
+              >
+                Archive
+              </Button>
+            )}
+            <Button onClick={closeView} variant="secondary">
+              Close
+            </Button>
+          </>
         }
       >
         {viewingTask && (
@@ -124,10 +425,16 @@ const Tasks: React.FC = () => {
                 <Badge variant={viewingTask.priority === 'URGENT' ? 'danger' : 'neutral'}>
                   {viewingTask.priority}
                 </Badge>
-                <Badge variant="info">{viewingTask.status.replace('_', ' ')}</Badge>
+                <StatusBadge
+                  status={viewingTask.status}
+                  category={viewingTask.statusCategory}
+                  workspaceId={viewingTask.workspaceId}
+                />
               </div>
             </div>
             
+            <TaskSubscriptionToggle taskId={viewingTask.id} />
+
             <div className="bg-gray-50 p-4 rounded-lg text-gray-700 whitespace-pre-wrap">
               {viewingTask.description}
             </div>
@@ -144,7 +451,9 @@ const Tasks: React.FC = () => {
               <div>
                 <span className="block text-gray-500 font-medium">Assigned To</span>
                 <span className="text-gray-900">
-                  {viewingTask.assignedToId || 'Unassigned'}
+                  {viewingTask.assignedToId
+                    ? `${viewingTask.assignedToId.firstName} ${viewingTask.assignedToId.lastName}`
+                    : 'Unassigned'}
                 </span>
               </div>
               <div>
@@ -154,10 +463,65 @@ const Tasks: React.FC = () => {
                  </span>
               </div>
             </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <TaskChecklist task={viewingTask} canEdit={canEditTasks} />
+            </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <TaskAttachments task={viewingTask} canEdit={canEditTasks} />
+            </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <TaskDependencies task={viewingTask} candidates={tasks} canEdit={canEditTasks} />
+            </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <TaskHistoryTimeline taskId={viewingTask.id} />
+            </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <TaskComments taskId={viewingTask.id} taskCreatorId={viewingTask.creatorId.id} />
+            </div>
           </div>
         )}
       </Modal>
 
+      {/* Edit Conflict Modal */}
+      {editingTask && conflict && (
+        <TaskConflictDialog
+          isOpen
+          onClose={() => setConflict(null)}
+          data={conflict.data}
+          original={editingTask}
+          current={conflict.current}
+          onResolve={handleResolveConflict}
+          isSaving={isResolving}
+        />
+      )}
+
+      {/* Blocked Update Confirmation Modal */}
+      <Modal
+        isOpen={!!blockedUpdate}
+        onClose={() => setBlockedUpdate(null)}
+        title="Task Is Blocked"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setBlockedUpdate(null)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleOverrideBlockers}>
+              Update Anyway
+            </Button>
+          </>
+        }
+      >
+        <p className="text-gray-600">
+          This task is waiting on tasks that are not done yet. Do you want to change its status anyway?
+        </p>
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={!!deletingTask}
@@ -177,7 +541,7 @@ const Tasks: React.FC = () => {
       >
         <p className="text-gray-600">
           Are you sure you want to delete <span className="font-semibold">{deletingTask?.title}</span>? 
-          This action cannot be undone.
+          It moves to the trash, where you can restore it.
         </p>
       </Modal>
     </div>
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useTrash, useRestoreTask, usePurgeTask } from '../hooks/useTasks';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { Task } from '../types/task.types';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { EmptyState } from '../components/ui/EmptyState';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { PageControls } from '../components/admin/PageControls';
+
+const Trash: React.FC = () => {
+  const { currentWorkspace } = useWorkspace();
+  const [page, setPage] = useState(1);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [purgingTask, setPurgingTask] = useState<Task | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+  const { tasks, pagination, retentionDays, isLoading } = useTrash(currentWorkspace?.id, page);
+  const { restoreTask } = useRestoreTask();
+  const { purgeTask } = usePurgeTask();
+
+  useEffect(() => {
+    setPage(1);
+  }, [currentWorkspace?.id]);
+
+  // The last task of a page was restored or purged
+  useEffect(() => {
+    if (pagination && page > 1 && page > pagination.totalPages) {
+      setPage(Math.max(pagination.totalPages, 1));
+    }
+  }, [pagination, page]);
+
+  const handleRestore = async (task: Task) => {
+    setRestoringId(task.id);
+    try {
+      await restoreTask(task.id);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgingTask) return;
+    setIsPurging(true);
+    try {
+      await purgeTask(purgingTask.id);
+      setPurgingTask(null);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="text-sm text-gray-500">
+          Deleted tasks you can restore
+          {retentionDays !== undefined && `, kept for ${retentionDays} days before they are deleted for good`}
+        </p>
+      </div>
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner />
+        </div>
+      ) : tasks.length === 0 ? (
+        <EmptyState icon={Trash2} title="Trash is empty" description="Tasks you delete show up here until they expire." />
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Task</th>
+                  <th className="py-2 pr-4 font-medium">Deleted</th>
+                  <th className="py-2 pr-4 font-medium">Expires</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {tasks.map((task) => {
+                  const deletedAt = new Date(task.deletedAt!);
+                  return (
+                    <tr key={task.id}>
+                      <td className="py-3 pr-4 font-medium text-gray-900">{task.title}</td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        <span title={format(deletedAt, 'PPP p')}>
+                          {formatDistanceToNow(deletedAt, { addSuffix: true })}
+                        </span>
+                        {task.deletedBy && (
+                          <span className="text-gray-500">
+                            {' '}
+                            by {task.deletedBy.firstName} {task.deletedBy.lastName}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        {retentionDays !== undefined && format(addDays(deletedAt, retentionDays), 'PPP')}
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          leftIcon={<RotateCcw className="w-4 h-4" />}
+                          onClick={() => handleRestore(task)}
+                          isLoading={restoringId === task.id}
+                        >
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          leftIcon={<Trash2 className="w-4 h-4" />}
+                          onClick={() => setPurgingTask(task)}
+                        >
+                          Delete Forever
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && (
+            <PageControls
+              page={page}
+              totalPages={pagination.totalPages}
+              total={pagination.total}
+              onChange={setPage}
+            />
+          )}
+        </Card>
+      )}
+
+      <Modal
+        isOpen={!!purgingTask}
+        onClose={() => setPurgingTask(null)}
+        title="Delete Forever"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setPurgingTask(null)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handlePurge} isLoading={isPurging}>
+              Delete Forever
+            </Button>
+          </>
+        }
+      >
+        <p className="text-gray-600">
+          Are you sure you want to permanently delete <span className="font-semibold">{purgingTask?.title}</span>?
+          Its comments and attachments are deleted with it. This action cannot be undone.
+        </p>
+      </Modal>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,37 @@
+import api from './api';
+import { Task } from '../types/task.types';
+import { AdminUser, AdminUserParams, AdminTaskParams, UserRole } from '../types/admin.types';
+import { ApiResponse, PaginatedResponse } from '../types/api.types';
+
+export const adminService = {
+  async getUsers(params: AdminUserParams = {}): Promise<PaginatedResponse<AdminUser>> {
+    const response = await api.get<ApiResponse<PaginatedResponse<AdminUser>>>('/admin/users', { params });
+    return response.data.data;
+  },
+
+  async deactivateUser(id: string): Promise<AdminUser> {
+    const response = await api.post<ApiResponse<AdminUser>>(`/admin/users/${id}/deactivate`);
+    return response.data.data;
+  },
+
+  async reactivateUser(id: string): Promise<AdminUser> {
+    const response = await api.post<ApiResponse<AdminUser>>(`/admin/users/${id}/reactivate`);
+    return response.data.data;
+  },
+
+  async updateUserRole(id: string, role: UserRole): Promise<AdminUser> {
+    const response = await api.put<ApiResponse<AdminUser>>(`/admin/users/${id}/role`, { role });
+    return response.data.data;
+  },
+
+  async getTasks(params: AdminTaskParams = {}): Promise<PaginatedResponse<Task>> {
+    const response = await api.get<ApiResponse<PaginatedResponse<Task>>>('/admin/tasks', { params });
+    return response.data.data;
+  },
+
+  // null unassigns the task
+  async reassignTask(id: string, assignedToId: string | null): Promise<Task> {
+    const response = await api.put<ApiResponse<Task>>(`/admin/tasks/${id}/assignee`, { assignedToId });
+    return response.data.data;
+  }
+};
@@ -1,5 +1,7 @@
 import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
-import { ApiError } from '../types/api.types';
+import { ApiError, ApiResponse } from '../types/api.types';
+import { SessionTokens } from '../types/auth.types';
+import { tokenStorage, SESSION_EXPIRED_EVENT } from './tokenStorage';
 
 // Use environment variable or fallback for development
 const BASE_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3000/api';
@@ -12,10 +14,37 @@ const api: AxiosInstance = axios.create({
   timeout: 10000,
 });
 
+// Requests that must not trigger a token refresh when they fail with 401
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+// Shared by concurrent requests so a rotated refresh token is only used once
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = tokenStorage.getRefreshToken();
+    refreshPromise = (refreshToken
+      ? axios.post<ApiResponse<SessionTokens>>(`${BASE_URL}/auth/refresh`, { refreshToken })
+          .then((response) => {
+            tokenStorage.setTokens(response.data.data);
+            return response.data.data.token;
+          })
+      : Promise.reject(new Error('No refresh token'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Request Interceptor
 api.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    const token = localStorage.getItem('token');
+    const token = tokenStorage.getToken();
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -31,7 +60,27 @@ api.interceptors.response.use(
   (response: AxiosResponse) => {
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
+    const original = error.config as RetriableRequestConfig | undefined;
+
+    // Access tokens are short-lived: refresh once and replay the request
+    if (
+      error.response?.status === 401 &&
+      original &&
+      !original._retried &&
+      !NO_REFRESH_URLS.some((url) => original.url?.startsWith(url))
+    ) {
+      original._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      } catch {
+        tokenStorage.clear();
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      }
+    }
+
     const apiError: ApiError = {
       message: error.message || 'An unexpected error occurred',
       status: error.response?.status || 500,
@@ -42,13 +91,7 @@ api.interceptors.response.use(
       apiError.message = data.message || apiError.message;
       apiError.code = data.code;
       apiError.errors = data.errors;
-    }
-
-    if (error.response?.status === 401) {
-      // Handle unauthorized access (e.g., clear token and redirect)
-      localStorage.removeItem('token');
-      // Ideally emit an event or use a callback to redirect to login
-      // window.location.href = '/login'; // Avoiding direct window manipulation if possible
+      apiError.data = data.data;
     }
 
     return Promise.reject(apiError);
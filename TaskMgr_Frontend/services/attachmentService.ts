@@ -0,0 +1,31 @@
+import api from './api';
+import { Task } from '../types/task.types';
+import { ApiResponse } from '../types/api.types';
+
+// Uploads and deletions respond with the updated task
+export const attachmentService = {
+  async uploadAttachment(taskId: string, file: File): Promise<Task> {
+    const data = new FormData();
+    data.append('file', file);
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${taskId}/attachments`, data, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      // Large files take longer than the default timeout
+      timeout: 0,
+    });
+    return response.data.data;
+  },
+
+  // Downloads need the access token, so files are fetched as blobs
+  async downloadAttachment(taskId: string, attachmentId: string): Promise<Blob> {
+    const response = await api.get<Blob>(`/tasks/${taskId}/attachments/${attachmentId}`, {
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  },
+
+  async deleteAttachment(taskId: string, attachmentId: string): Promise<Task> {
+    const response = await api.delete<ApiResponse<Task>>(`/tasks/${taskId}/attachments/${attachmentId}`);
+    return response.data.data;
+  }
+};
@@ -4,7 +4,9 @@ import {
   RegisterCredentials, 
   AuthResponse, 
   User,
-  ChangePasswordData
+  ChangePasswordData,
+  Session,
+  SessionTokens
 } from '../types/auth.types';
 import { UpdateProfileData, UserProfile } from '../types/user.types';
 import { ApiResponse } from '../types/api.types';
@@ -34,7 +36,22 @@ export const authService = {
     return response.data.data;
   },
 
-  async changePassword(data: ChangePasswordData): Promise<void> {
-    await api.put('/auth/change-password', data);
+  // Every other session is revoked, the returned tokens replace the current ones
+  async changePassword(data: ChangePasswordData): Promise<SessionTokens> {
+    const response = await api.put<ApiResponse<SessionTokens>>('/auth/change-password', data);
+    return response.data.data;
+  },
+
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get<ApiResponse<Session[]>>('/auth/sessions');
+    return response.data.data;
+  },
+
+  async revokeSession(id: string): Promise<void> {
+    await api.delete(`/auth/sessions/${id}`);
+  },
+
+  async revokeOtherSessions(): Promise<void> {
+    await api.delete('/auth/sessions');
   }
 };
\ No newline at end of file
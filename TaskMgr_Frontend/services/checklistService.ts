@@ -0,0 +1,26 @@
+import api from './api';
+import { Task, ChecklistItemData, UpdateChecklistItemData } from '../types/task.types';
+import { ApiResponse } from '../types/api.types';
+
+// Every checklist endpoint responds with the updated task
+export const checklistService = {
+  async addItem(taskId: string, data: ChecklistItemData): Promise<Task> {
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${taskId}/checklist`, data);
+    return response.data.data;
+  },
+
+  async updateItem(taskId: string, itemId: string, data: UpdateChecklistItemData): Promise<Task> {
+    const response = await api.put<ApiResponse<Task>>(`/tasks/${taskId}/checklist/${itemId}`, data);
+    return response.data.data;
+  },
+
+  async reorder(taskId: string, itemIds: string[]): Promise<Task> {
+    const response = await api.put<ApiResponse<Task>>(`/tasks/${taskId}/checklist/order`, { itemIds });
+    return response.data.data;
+  },
+
+  async removeItem(taskId: string, itemId: string): Promise<Task> {
+    const response = await api.delete<ApiResponse<Task>>(`/tasks/${taskId}/checklist/${itemId}`);
+    return response.data.data;
+  }
+};
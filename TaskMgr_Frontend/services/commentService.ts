@@ -0,0 +1,26 @@
+import api from './api';
+import { Comment, CommentData } from '../types/comment.types';
+import { ApiResponse, PaginatedResponse } from '../types/api.types';
+
+export const commentService = {
+  async getComments(taskId: string, page = 1, limit = 20): Promise<PaginatedResponse<Comment>> {
+    const response = await api.get<ApiResponse<PaginatedResponse<Comment>>>(`/tasks/${taskId}/comments`, {
+      params: { page, limit },
+    });
+    return response.data.data;
+  },
+
+  async createComment(taskId: string, data: CommentData): Promise<Comment> {
+    const response = await api.post<ApiResponse<Comment>>(`/tasks/${taskId}/comments`, data);
+    return response.data.data;
+  },
+
+  async updateComment(taskId: string, commentId: string, data: CommentData): Promise<Comment> {
+    const response = await api.put<ApiResponse<Comment>>(`/tasks/${taskId}/comments/${commentId}`, data);
+    return response.data.data;
+  },
+
+  async deleteComment(taskId: string, commentId: string): Promise<void> {
+    await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+  }
+};
@@ -0,0 +1,21 @@
+import api from './api';
+import { Task, TaskDependencies } from '../types/task.types';
+import { ApiResponse } from '../types/api.types';
+
+export const dependencyService = {
+  async getDependencies(taskId: string): Promise<TaskDependencies> {
+    const response = await api.get<ApiResponse<TaskDependencies>>(`/tasks/${taskId}/dependencies`);
+    return response.data.data;
+  },
+
+  // Responds with the updated blocked task
+  async addDependency(taskId: string, blockerId: string): Promise<Task> {
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${taskId}/dependencies`, { blockerId });
+    return response.data.data;
+  },
+
+  async removeDependency(taskId: string, blockerId: string): Promise<Task> {
+    const response = await api.delete<ApiResponse<Task>>(`/tasks/${taskId}/dependencies/${blockerId}`);
+    return response.data.data;
+  }
+};
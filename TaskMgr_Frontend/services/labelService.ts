@@ -0,0 +1,25 @@
+import api from './api';
+import { Label, CreateLabelData, UpdateLabelData } from '../types/label.types';
+import { ApiResponse } from '../types/api.types';
+
+export const labelService = {
+  // Labels of a workspace, or personal labels without workspaceId
+  async getLabels(workspaceId?: string): Promise<Label[]> {
+    const response = await api.get<ApiResponse<Label[]>>('/labels', { params: { workspaceId } });
+    return response.data.data;
+  },
+
+  async createLabel(data: CreateLabelData): Promise<Label> {
+    const response = await api.post<ApiResponse<Label>>('/labels', data);
+    return response.data.data;
+  },
+
+  async updateLabel(id: string, data: UpdateLabelData): Promise<Label> {
+    const response = await api.put<ApiResponse<Label>>(`/labels/${id}`, data);
+    return response.data.data;
+  },
+
+  async deleteLabel(id: string): Promise<void> {
+    await api.delete(`/labels/${id}`);
+  }
+};
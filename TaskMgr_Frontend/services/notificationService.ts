@@ -1,10 +1,13 @@
 import api from './api';
-import { ApiResponse } from '../types/api.types';
+import { ApiResponse, CursorPage } from '../types/api.types';
 import { Notification } from '../types/notification.types';
 
 export const notificationService = {
-  async getNotifications(): Promise<Notification[]> {
-    const response = await api.get<ApiResponse<Notification[]>>('/notifications');
+  // Page of notifications after a cursor, newest first
+  async getNotificationPage(after = '', limit?: number): Promise<CursorPage<Notification>> {
+    const response = await api.get<ApiResponse<CursorPage<Notification>>>('/notifications', {
+      params: { after, limit },
+    });
     return response.data.data;
   },
 
@@ -0,0 +1,30 @@
+import api from './api';
+import { SavedView, SavedViewData, UpdateSavedViewData } from '../types/view.types';
+import { ApiResponse } from '../types/api.types';
+
+export const savedViewService = {
+  // Views of the user, then the views shared with them
+  async getViews(): Promise<SavedView[]> {
+    const response = await api.get<ApiResponse<SavedView[]>>('/views');
+    return response.data.data;
+  },
+
+  async getViewById(id: string): Promise<SavedView> {
+    const response = await api.get<ApiResponse<SavedView>>(`/views/${id}`);
+    return response.data.data;
+  },
+
+  async createView(data: SavedViewData): Promise<SavedView> {
+    const response = await api.post<ApiResponse<SavedView>>('/views', data);
+    return response.data.data;
+  },
+
+  async updateView(id: string, data: UpdateSavedViewData): Promise<SavedView> {
+    const response = await api.put<ApiResponse<SavedView>>(`/views/${id}`, data);
+    return response.data.data;
+  },
+
+  async deleteView(id: string): Promise<void> {
+    await api.delete(`/views/${id}`);
+  }
+};
@@ -0,0 +1,12 @@
+import api from './api';
+import { SearchResults, SearchType } from '../types/search.types';
+import { ApiResponse } from '../types/api.types';
+
+export const searchService = {
+  async search(q: string, types?: SearchType[], limit?: number): Promise<SearchResults> {
+    const response = await api.get<ApiResponse<SearchResults>>('/search', {
+      params: { q, types: types?.join(','), limit },
+    });
+    return response.data.data;
+  },
+};
@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { tokenStorage } from './tokenStorage';
 
 const SOCKET_URL = (import.meta as any).env?.VITE_SOCKET_URL || 'http://localhost:3000';
 
@@ -9,7 +10,8 @@ class SocketService {
     if (this.socket?.connected) return;
 
     this.socket = io(SOCKET_URL, {
-      auth: { token },
+      // Read on every (re)connection so refreshed access tokens are picked up
+      auth: (cb) => cb({ token: tokenStorage.getToken() || token }),
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: 5,
@@ -1,12 +1,40 @@
 import api from './api';
-import { Task, CreateTaskData, UpdateTaskData } from '../types/task.types';
-import { ApiResponse, PaginatedResponse } from '../types/api.types';
+import {
+  Task,
+  CreateTaskData,
+  UpdateTaskData,
+  TaskHistoryEntry,
+  BulkTaskOperation,
+  BulkTaskResult,
+} from '../types/task.types';
+import { ApiResponse, CursorPage, PaginatedResponse, TrashPage } from '../types/api.types';
+import { NotificationPreferences, TaskSubscription } from '../types/notification.types';
 
 // Define a type for filters
 export interface TaskFilters {
+  // Comma-separated status keys
   status?: string;
+  // Comma-separated priorities
   priority?: string;
   search?: string;
+  // Query language such as "status:TODO priority:>=HIGH due:<7d", taking precedence over the other filters
+  q?: string;
+  workspaceId?: string;
+  // User ID or "me", plus "none" for unassigned tasks
+  assignedToId?: string;
+  creatorId?: string;
+  scope?: 'assigned' | 'created';
+  // ISO dates, due at or after dueAfter and before dueBefore
+  dueAfter?: string;
+  dueBefore?: string;
+  noDueDate?: boolean;
+  // Comma-separated label IDs
+  labels?: string;
+  // Whether tasks need any or all of the labels
+  labelMatch?: 'any' | 'all';
+  // Archived tasks are left out unless included, archived lists only them
+  includeArchived?: boolean;
+  archived?: boolean;
   page?: number;
   limit?: number;
 }
@@ -18,11 +46,24 @@ export const taskService = {
     return response.data.data;
   },
 
+  // Page of tasks after a cursor, an empty cursor reads the first page
+  async getTaskPage(filters: TaskFilters = {}, sort?: string, after = ''): Promise<CursorPage<Task>> {
+    const { page: _page, ...rest } = filters;
+    const params = { ...rest, sort, after };
+    const response = await api.get<ApiResponse<CursorPage<Task>>>('/tasks', { params });
+    return response.data.data;
+  },
+
   async getTaskById(id: string): Promise<Task> {
     const response = await api.get<ApiResponse<Task>>(`/tasks/${id}`);
     return response.data.data;
   },
 
+  async getTaskHistory(id: string): Promise<TaskHistoryEntry[]> {
+    const response = await api.get<ApiResponse<TaskHistoryEntry[]>>(`/tasks/${id}/history`);
+    return response.data.data;
+  },
+
   async createTask(data: CreateTaskData): Promise<Task> {
     const response = await api.post<ApiResponse<Task>>('/tasks', data);
     return response.data.data;
@@ -33,10 +74,54 @@ export const taskService = {
     return response.data.data;
   },
 
+  async reorderTasks(taskIds: string[]): Promise<Task[]> {
+    const response = await api.put<ApiResponse<Task[]>>('/tasks/order', { taskIds });
+    return response.data.data;
+  },
+
+  // Status key, priority, user ID, ISO date or label ID depending on the operation, null to unassign or clear the due date
+  async bulkUpdateTasks(
+    taskIds: string[],
+    operation: BulkTaskOperation,
+    value?: string | null
+  ): Promise<BulkTaskResult[]> {
+    const response = await api.post<ApiResponse<BulkTaskResult[]>>('/tasks/bulk', { taskIds, operation, value });
+    return response.data.data;
+  },
+
   async deleteTask(id: string): Promise<void> {
     await api.delete(`/tasks/${id}`);
   },
 
+  async getTrash(workspaceId?: string, page = 1): Promise<TrashPage<Task>> {
+    const response = await api.get<ApiResponse<TrashPage<Task>>>('/tasks/trash', { params: { workspaceId, page } });
+    return response.data.data;
+  },
+
+  async restoreTask(id: string): Promise<Task> {
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${id}/restore`);
+    return response.data.data;
+  },
+
+  async purgeTask(id: string): Promise<void> {
+    await api.delete(`/tasks/${id}/purge`);
+  },
+
+  async archiveTask(id: string): Promise<Task> {
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${id}/archive`);
+    return response.data.data;
+  },
+
+  async unarchiveTask(id: string): Promise<Task> {
+    const response = await api.post<ApiResponse<Task>>(`/tasks/${id}/unarchive`);
+    return response.data.data;
+  },
+
+  async setTaskSubscription(id: string, subscription: TaskSubscription): Promise<NotificationPreferences> {
+    const response = await api.put<ApiResponse<NotificationPreferences>>(`/tasks/${id}/subscription`, { subscription });
+    return response.data.data;
+  },
+
   async getAssignedTasks(): Promise<Task[]> {
     const response = await api.get<ApiResponse<Task[]>>('/tasks/assigned');
     return response.data.data;
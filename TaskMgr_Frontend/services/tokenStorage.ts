@@ -0,0 +1,27 @@
+import { SessionTokens } from '../types/auth.types';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Fired when the session can no longer be refreshed and the user must log in again
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+export const tokenStorage = {
+  getToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY);
+  },
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  },
+
+  setTokens(tokens: Pick<SessionTokens, 'token' | 'refreshToken'>) {
+    localStorage.setItem(TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  },
+
+  clear() {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+};
@@ -0,0 +1,26 @@
+import api from './api';
+import { PublicUser, UserSearchParams } from '../types/user.types';
+import { ApiResponse, PaginatedResponse } from '../types/api.types';
+import { NotificationPreferences, UpdateNotificationPreferencesData } from '../types/notification.types';
+
+export const userService = {
+  async searchUsers(params: UserSearchParams = {}): Promise<PaginatedResponse<PublicUser>> {
+    const response = await api.get<ApiResponse<PaginatedResponse<PublicUser>>>('/users', { params });
+    return response.data.data;
+  },
+
+  async getUserById(id: string): Promise<PublicUser> {
+    const response = await api.get<ApiResponse<PublicUser>>(`/users/${id}`);
+    return response.data.data;
+  },
+
+  async getNotificationPreferences(): Promise<NotificationPreferences> {
+    const response = await api.get<ApiResponse<NotificationPreferences>>('/users/preferences');
+    return response.data.data;
+  },
+
+  async updateNotificationPreferences(data: UpdateNotificationPreferencesData): Promise<NotificationPreferences> {
+    const response = await api.put<ApiResponse<NotificationPreferences>>('/users/preferences', data);
+    return response.data.data;
+  }
+};
@@ -0,0 +1,11 @@
+import api from './api';
+import { Workflow } from '../types/workflow.types';
+import { ApiResponse } from '../types/api.types';
+
+export const workflowService = {
+  // Workflow of a workspace, or of personal tasks without workspaceId
+  async getWorkflow(workspaceId?: string): Promise<Workflow> {
+    const response = await api.get<ApiResponse<Workflow>>('/workflow', { params: { workspaceId } });
+    return response.data.data;
+  }
+};
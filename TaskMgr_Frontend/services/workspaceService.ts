@@ -0,0 +1,44 @@
+import api from './api';
+import { Workspace, WorkspaceData, WorkspaceRole } from '../types/workspace.types';
+import { ApiResponse } from '../types/api.types';
+
+export const workspaceService = {
+  async getWorkspaces(): Promise<Workspace[]> {
+    const response = await api.get<ApiResponse<Workspace[]>>('/workspaces');
+    return response.data.data;
+  },
+
+  async getWorkspaceById(id: string): Promise<Workspace> {
+    const response = await api.get<ApiResponse<Workspace>>(`/workspaces/${id}`);
+    return response.data.data;
+  },
+
+  async createWorkspace(data: WorkspaceData): Promise<Workspace> {
+    const response = await api.post<ApiResponse<Workspace>>('/workspaces', data);
+    return response.data.data;
+  },
+
+  async updateWorkspace(id: string, data: Partial<WorkspaceData>): Promise<Workspace> {
+    const response = await api.put<ApiResponse<Workspace>>(`/workspaces/${id}`, data);
+    return response.data.data;
+  },
+
+  async deleteWorkspace(id: string): Promise<void> {
+    await api.delete(`/workspaces/${id}`);
+  },
+
+  async addMember(id: string, email: string, role?: WorkspaceRole): Promise<Workspace> {
+    const response = await api.post<ApiResponse<Workspace>>(`/workspaces/${id}/members`, { email, role });
+    return response.data.data;
+  },
+
+  async updateMemberRole(id: string, userId: string, role: WorkspaceRole): Promise<Workspace> {
+    const response = await api.put<ApiResponse<Workspace>>(`/workspaces/${id}/members/${userId}`, { role });
+    return response.data.data;
+  },
+
+  async removeMember(id: string, userId: string): Promise<Workspace> {
+    const response = await api.delete<ApiResponse<Workspace>>(`/workspaces/${id}/members/${userId}`);
+    return response.data.data;
+  }
+};
@@ -0,0 +1,30 @@
+import { User } from './auth.types';
+
+export type UserRole = User['role'];
+
+export type AccountStatus = 'active' | 'deactivated';
+
+// Account as seen by admins, including its status
+export interface AdminUser extends User {
+  isActive: boolean;
+  deactivatedAt?: string;
+}
+
+export interface AdminUserParams {
+  search?: string;
+  role?: UserRole;
+  status?: AccountStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminTaskParams {
+  search?: string;
+  status?: string;
+  priority?: string;
+  creatorId?: string;
+  assignedToId?: string;
+  workspaceId?: string;
+  page?: number;
+  limit?: number;
+}
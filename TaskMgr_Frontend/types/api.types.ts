@@ -8,6 +8,8 @@ export interface ApiError {
   message: string;
   code?: string;
   errors?: Record<string, string[]>;
+  // Current server copy of a resource that changed meanwhile, with CONFLICT errors
+  data?: unknown;
   status: number;
 }
 
@@ -17,4 +19,15 @@ export interface PaginatedResponse<T> {
   page: number;
   limit: number;
   totalPages: number;
-}
\ No newline at end of file
+}
+// Page of the trash, tasks are purged retentionDays after they were deleted
+export interface TrashPage<T> extends PaginatedResponse<T> {
+  retentionDays: number;
+}
+// Page of a list read by cursor, pass nextCursor as after to read the following page
+export interface CursorPage<T> {
+  items: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
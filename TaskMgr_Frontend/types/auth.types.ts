@@ -18,10 +18,25 @@ export interface RegisterCredentials extends LoginCredentials {
   lastName: string;
 }
 
-export interface AuthResponse {
-  user: User;
+export interface SessionTokens {
   token: string;
-  expiresIn: number;
+  refreshToken: string;
+  // Access token lifetime, e.g. "15m"
+  expiresIn: string;
+}
+
+export interface AuthResponse extends SessionTokens {
+  user: User;
+}
+
+export interface Session {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
 }
 
 export interface ChangePasswordData {
@@ -0,0 +1,21 @@
+export interface CommentAuthor {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface Comment {
+  id: string;
+  taskId: string;
+  authorId: CommentAuthor;
+  body: string;
+  mentions: string[];
+  editedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentData {
+  body: string;
+}
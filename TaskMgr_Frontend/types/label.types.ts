@@ -0,0 +1,23 @@
+// Summary of a label, populated in Task.labels
+export interface TaskLabel {
+  id: string;
+  name: string;
+  // Hex color, e.g. #3b82f6
+  color: string;
+}
+
+export interface Label extends TaskLabel {
+  // Unset for personal labels
+  workspaceId?: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateLabelData {
+  name: string;
+  color: string;
+  workspaceId?: string;
+}
+
+export type UpdateLabelData = Partial<Omit<CreateLabelData, 'workspaceId'>>;
@@ -1,4 +1,23 @@
-export type NotificationType = 'TASK_ASSIGNED' | 'TASK_UPDATED' | 'DEADLINE_APPROACHING' | 'MENTION';
+export type NotificationType = 'TASK_ASSIGNED' | 'TASK_UPDATED' | 'DEADLINE_APPROACHING' | 'MENTION' | 'TASK_UNBLOCKED';
+
+// inApp: in the app, email: one email each, digest: gathered in a summary email
+export type NotificationChannel = 'inApp' | 'email' | 'digest';
+
+export type ChannelSettings = Record<NotificationChannel, boolean>;
+
+export interface NotificationPreferences {
+  notifications: Record<NotificationType, ChannelSettings>;
+  mutedTaskIds: string[];
+  watchedTaskIds: string[];
+}
+
+// Channels to change by notification type, the others are kept
+export interface UpdateNotificationPreferencesData {
+  notifications: Partial<Record<NotificationType, Partial<ChannelSettings>>>;
+}
+
+// WATCH: every change, MUTE: nothing, DEFAULT: as creator or assignee
+export type TaskSubscription = 'WATCH' | 'MUTE' | 'DEFAULT';
 
 export interface Notification {
   id: string;
@@ -0,0 +1,21 @@
+export type SearchType = 'tasks' | 'comments' | 'users' | 'notifications';
+
+// Excerpt of matching text
+export interface Snippet {
+  text: string;
+  // [start, end) offsets of the matches within text
+  highlights: [number, number][];
+}
+
+export interface SearchHit {
+  id: string;
+  // Task title, user name or notification title
+  title: Snippet;
+  // Matching excerpt of the description, comment, email or message
+  snippet?: Snippet;
+  score: number;
+  // Task the result leads to
+  taskId?: string;
+}
+
+export type SearchResults = Record<SearchType, SearchHit[]>;
@@ -1,3 +1,6 @@
+import { StatusCategory } from './workflow.types';
+import { TaskLabel } from './label.types';
+
 export enum Priority {
   LOW = 'LOW',
   MEDIUM = 'MEDIUM',
@@ -5,11 +8,50 @@ export enum Priority {
   URGENT = 'URGENT'
 }
 
-export enum Status {
-  TODO = 'TODO',
-  IN_PROGRESS = 'IN_PROGRESS',
-  REVIEW = 'REVIEW',
-  COMPLETED = 'COMPLETED'
+// Users are populated on tasks returned by the API
+export interface TaskUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  order: number;
+  // ID of the user responsible for the item
+  assigneeId?: string;
+  completedAt?: string;
+}
+
+// File attached to a task, downloaded through the API
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Size in bytes
+  size: number;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// Series of a recurring task, populated in seriesId
+export interface TaskSeriesSummary {
+  id: string;
+  // RFC 5545 RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO,FR"
+  rule: string;
+  // Set once the series stopped generating tasks
+  endedAt?: string;
+}
+
+// Summary of a blocking task, populated in blockedBy
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory: StatusCategory;
 }
 
 export interface Task {
@@ -18,20 +60,112 @@ export interface Task {
   description?: string;
   dueDate?: string;
   priority: Priority;
-  status: Status;
-  creatorId: string;
-  assignedToId?: string;
+  // Key of a status of the workflow of the task
+  status: string;
+  statusCategory: StatusCategory;
+  creatorId: TaskUser;
+  assignedToId?: TaskUser;
+  // Unset for personal tasks
+  workspaceId?: string;
+  // Sorted by order
+  checklist: ChecklistItem[];
+  // Percentage of checklist items done, null without a checklist
+  checklistCompletion: number | null;
+  // Tasks that must be completed before this one can start
+  blockedBy: TaskBlocker[];
+  labels: TaskLabel[];
+  attachments: Attachment[];
+  // Number of open tasks waiting on this one
+  blockingCount?: number;
+  // Unset for one-off tasks
+  seriesId?: TaskSeriesSummary;
+  // Position of the task in its series, starting at 1
+  occurrence?: number;
+  // Position of the task in its board column, lower first
+  position: number;
+  // Incremented by every save, sent back as expectedVersion to detect concurrent edits
+  version: number;
+  // Set while the task is in a DONE status
+  completedAt?: string;
+  // Set for archived tasks, which the default lists leave out
+  archivedAt?: string;
+  // Set for trashed tasks, deletedBy is populated in the trash
+  deletedAt?: string;
+  deletedBy?: TaskUser;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ChecklistItemData {
+  text: string;
+  assigneeId?: string | null;
+}
+
+export interface UpdateChecklistItemData {
+  text?: string;
+  done?: boolean;
+  // null clears the assignee
+  assigneeId?: string | null;
+}
+
 export interface CreateTaskData {
   title: string;
   description?: string;
   dueDate?: string;
   priority?: Priority;
-  status?: Status;
-  assignedToId?: string;
+  status?: string;
+  // null clears the assignee
+  assignedToId?: string | null;
+  workspaceId?: string;
+  // Recurrence rule, null stops the series of an existing task
+  recurrence?: string | null;
+  // Label IDs, replace the labels of an existing task
+  labels?: string[];
+}
+
+// Whether an edit applies to this task only or to all future tasks of its series
+export type EditScope = 'this' | 'future';
+
+export interface UpdateTaskData extends Partial<CreateTaskData> {
+  // Start or complete the task even though some of its blockers are still open
+  overrideBlockers?: boolean;
+  scope?: EditScope;
+  // Version the edit is based on, refused with a CONFLICT error when the task was saved since
+  expectedVersion?: number;
+}
+
+export type BulkTaskOperation =
+  | 'SET_STATUS'
+  | 'SET_PRIORITY'
+  | 'ASSIGN'
+  | 'SET_DUE_DATE'
+  | 'ADD_LABEL'
+  | 'REMOVE_LABEL'
+  | 'DELETE';
+
+// Outcome of a bulk operation for one task
+export interface BulkTaskResult {
+  taskId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface TaskDependencies {
+  blockedBy: Task[];
+  blocking: Task[];
 }
 
-export interface UpdateTaskData extends Partial<CreateTaskData> {}
\ No newline at end of file
+export type TaskHistoryAction = 'CREATED' | 'UPDATED' | 'ASSIGNED' | 'DELETED' | 'RESTORED';
+
+export interface TaskHistoryEntry {
+  id: string;
+  taskId: string;
+  actorId: TaskUser;
+  action: TaskHistoryAction;
+  field?: string;
+  // Assignee changes carry user summaries, label changes label summaries
+  // (bare IDs for deleted labels), other fields plain values
+  oldValue?: string | TaskUser | Partial<TaskLabel>[] | null;
+  newValue?: string | TaskUser | Partial<TaskLabel>[] | null;
+  createdAt: string;
+}
@@ -1,11 +1,14 @@
 import { User } from './auth.types';
+import { ChannelSettings, NotificationType } from './notification.types';
 
 export interface UserProfile extends User {
   bio?: string;
   phoneNumber?: string;
+  // Channels changed from the defaults, see NotificationPreferences for the resolved ones
   preferences?: {
-    theme: 'light' | 'dark';
-    emailNotifications: boolean;
+    notifications: Partial<Record<NotificationType, Partial<ChannelSettings>>>;
+    mutedTaskIds: string[];
+    watchedTaskIds: string[];
   };
 }
 
@@ -15,4 +18,21 @@ export interface UpdateProfileData {
   avatarUrl?: string;
   bio?: string;
   phoneNumber?: string;
-}
\ No newline at end of file
+}
+// Profile fields visible to other users
+export interface PublicUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  avatarUrl?: string;
+  bio?: string;
+  createdAt: string;
+}
+
+export interface UserSearchParams {
+  search?: string;
+  workspaceId?: string;
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,35 @@
+import { TaskUser } from './task.types';
+
+export type ViewLayout = 'LIST' | 'BOARD';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  ownerId: TaskUser;
+  // Unset for views of personal tasks
+  workspaceId?: string;
+  // Filters in the task query language, e.g. status:TODO assignee:me
+  query: string;
+  // Sort, e.g. -priority,dueDate
+  sort: string;
+  layout: ViewLayout;
+  // Shown in the navigation of the owner
+  pinned: boolean;
+  // Users who can open the view without changing it
+  sharedWith: TaskUser[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViewData {
+  name: string;
+  workspaceId?: string;
+  query?: string;
+  sort?: string;
+  layout?: ViewLayout;
+  pinned?: boolean;
+  // User IDs
+  sharedWith?: string[];
+}
+
+export type UpdateSavedViewData = Partial<Omit<SavedViewData, 'workspaceId'>>;
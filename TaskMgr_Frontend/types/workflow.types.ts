@@ -0,0 +1,29 @@
+// Categories give statuses a meaning whatever their name, DONE tasks count as completed
+export type StatusCategory = 'TODO' | 'ACTIVE' | 'DONE';
+
+export type StatusColor = 'gray' | 'blue' | 'purple' | 'amber' | 'green' | 'red';
+
+// CREATOR and ASSIGNEE of the task, ADMIN for workspace owners and admins
+export type TransitionActor = 'CREATOR' | 'ASSIGNEE' | 'ADMIN';
+
+export interface WorkflowStatus {
+  // Stored in Task.status, e.g. IN_PROGRESS
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color: StatusColor;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  // Anyone who can edit the task when empty
+  actors: TransitionActor[];
+}
+
+export interface Workflow {
+  // In board order, new tasks start in the first one
+  statuses: WorkflowStatus[];
+  // Every move is allowed when empty
+  transitions: WorkflowTransition[];
+}
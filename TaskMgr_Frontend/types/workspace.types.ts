@@ -0,0 +1,23 @@
+import { TaskUser } from './task.types';
+
+export type WorkspaceRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface WorkspaceMember {
+  userId: TaskUser;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string;
+  members: WorkspaceMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceData {
+  name: string;
+  description?: string;
+}
@@ -0,0 +1,12 @@
+// Colors offered for new labels, picked in turn
+export const LABEL_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+/**
+ * Text color readable on a label color, from its perceived brightness
+ * @param color Hex color, e.g. #3b82f6
+ */
+export const labelTextColor = (color: string): string => {
+  const value = parseInt(color.slice(1), 16);
+  const brightness = ((value >> 16) & 255) * 0.299 + ((value >> 8) & 255) * 0.587 + (value & 255) * 0.114;
+  return brightness > 160 ? '#111827' : '#ffffff';
+};
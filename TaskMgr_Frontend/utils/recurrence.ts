@@ -0,0 +1,108 @@
+// Client side of the RRULE subset supported by the API:
+// FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, BYMONTHDAY and UNTIL or COUNT
+
+export type RecurrenceFrequency = 'NONE' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+// Order of BYDAY in canonical rules, weeks start on Sunday there
+const RULE_DAY_ORDER: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type RecurrenceEnd = 'NEVER' | 'UNTIL' | 'COUNT';
+
+// Editable form of a rule
+export interface RecurrenceValue {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+  // 0 uses the day of the due date, -1 is the last day of the month
+  byMonthDay: number;
+  end: RecurrenceEnd;
+  // yyyy-MM-dd
+  until: string;
+  count: number;
+}
+
+export const NO_RECURRENCE: RecurrenceValue = {
+  frequency: 'NONE',
+  interval: 1,
+  byDay: [],
+  byMonthDay: 0,
+  end: 'NEVER',
+  until: '',
+  count: 10,
+};
+
+export const parseRecurrence = (rule?: string | null): RecurrenceValue => {
+  if (!rule) return NO_RECURRENCE;
+
+  const fields = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string])
+  );
+  const until = fields.get('UNTIL');
+
+  return {
+    frequency: (fields.get('FREQ') as RecurrenceFrequency) || 'NONE',
+    interval: Number(fields.get('INTERVAL') || 1),
+    byDay: (fields.get('BYDAY')?.split(',') || []) as Weekday[],
+    byMonthDay: Number(fields.get('BYMONTHDAY') || 0),
+    end: until ? 'UNTIL' : fields.has('COUNT') ? 'COUNT' : 'NEVER',
+    until: until ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : '',
+    count: Number(fields.get('COUNT') || NO_RECURRENCE.count),
+  };
+};
+
+// Same canonical form as the API, so rules can be compared as strings
+export const formatRecurrence = (value: RecurrenceValue): string | null => {
+  if (value.frequency === 'NONE') return null;
+
+  const parts = [`FREQ=${value.frequency}`];
+  if (value.interval > 1) parts.push(`INTERVAL=${value.interval}`);
+  if (value.frequency === 'WEEKLY' && value.byDay.length > 0) {
+    parts.push(`BYDAY=${RULE_DAY_ORDER.filter((day) => value.byDay.includes(day)).join(',')}`);
+  }
+  if (value.frequency === 'MONTHLY' && value.byMonthDay !== 0) parts.push(`BYMONTHDAY=${value.byMonthDay}`);
+  if (value.end === 'UNTIL' && value.until) parts.push(`UNTIL=${value.until.replace(/-/g, '')}T235959Z`);
+  if (value.end === 'COUNT') parts.push(`COUNT=${value.count}`);
+
+  return parts.join(';');
+};
+
+const UNITS: Record<Exclude<RecurrenceFrequency, 'NONE'>, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+export const describeRecurrence = (rule?: string | null): string => {
+  const value = parseRecurrence(rule);
+  if (value.frequency === 'NONE') return 'Does not repeat';
+
+  const unit = UNITS[value.frequency];
+  let text = value.interval > 1 ? `Every ${value.interval} ${unit}s` : `Every ${unit}`;
+
+  if (value.frequency === 'WEEKLY' && value.byDay.length > 0) {
+    text += ` on ${WEEKDAYS.filter((day) => value.byDay.includes(day)).map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (value.frequency === 'MONTHLY' && value.byMonthDay !== 0) {
+    text += value.byMonthDay === -1 ? ' on the last day' : ` on day ${value.byMonthDay}`;
+  }
+  if (value.end === 'UNTIL') text += ` until ${value.until}`;
+  if (value.end === 'COUNT') text += `, ${value.count} times`;
+
+  return text;
+};
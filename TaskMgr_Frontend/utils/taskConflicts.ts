@@ -0,0 +1,57 @@
+import { Task, UpdateTaskData } from '../types/task.types';
+
+// Task fields the edit form saves
+export type ConflictField = 'title' | 'description' | 'dueDate' | 'priority' | 'status' | 'assignedToId' | 'labels';
+
+export interface TaskConflict {
+  field: ConflictField;
+  // Value of the edit, and of the task as saved meanwhile, in the shape of UpdateTaskData
+  mine: unknown;
+  theirs: unknown;
+  // Whether the edit changed the field, otherwise keeping theirs loses nothing
+  changedByMe: boolean;
+}
+
+// Value of a field of a task, in the shape of UpdateTaskData
+const valueOf = (task: Task, field: ConflictField): unknown => {
+  switch (field) {
+    case 'description':
+      return task.description || '';
+    case 'assignedToId':
+      return task.assignedToId?.id ?? null;
+    case 'labels':
+      return (task.labels || []).map((label) => label.id);
+    default:
+      return task[field];
+  }
+};
+
+const isSame = (field: ConflictField, a: unknown, b: unknown): boolean => {
+  if (field === 'dueDate') {
+    return (a ? new Date(a as string).getTime() : null) === (b ? new Date(b as string).getTime() : null);
+  }
+  if (field === 'labels') {
+    const left = [...((a as string[]) || [])].sort();
+    const right = [...((b as string[]) || [])].sort();
+    return left.length === right.length && left.every((id, index) => id === right[index]);
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+const FIELDS: ConflictField[] = ['title', 'description', 'dueDate', 'priority', 'status', 'assignedToId', 'labels'];
+
+/**
+ * Fields an edit would set to another value than the one saved meanwhile
+ * @param data - The refused edit
+ * @param original - The task as it was when the edit started
+ * @param current - The task as saved meanwhile
+ */
+export const findTaskConflicts = (data: UpdateTaskData, original: Task, current: Task): TaskConflict[] =>
+  FIELDS.filter((field) => data[field] !== undefined)
+    .map((field) => ({
+      field,
+      mine: data[field],
+      theirs: valueOf(current, field),
+      changedByMe: !isSame(field, data[field], valueOf(original, field)),
+    }))
+    .filter((conflict) => !isSame(conflict.field, conflict.mine, conflict.theirs));
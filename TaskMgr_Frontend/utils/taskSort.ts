@@ -0,0 +1,52 @@
+// Fields the API sorts task lists by
+export type SortField = 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'status' | 'title';
+
+export interface SortKey {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export const SORT_FIELDS: { field: SortField; label: string; defaultDirection: SortKey['direction'] }[] = [
+  { field: 'title', label: 'Title', defaultDirection: 'asc' },
+  { field: 'priority', label: 'Priority', defaultDirection: 'desc' },
+  { field: 'status', label: 'Status', defaultDirection: 'asc' },
+  { field: 'dueDate', label: 'Due date', defaultDirection: 'asc' },
+  { field: 'updatedAt', label: 'Updated', defaultDirection: 'desc' },
+  { field: 'createdAt', label: 'Created', defaultDirection: 'desc' },
+];
+
+// Most keys the API accepts
+export const MAX_SORT_KEYS = 3;
+
+// Newest first, as the API sorts without a sort
+export const DEFAULT_SORT = '-createdAt';
+
+/**
+ * Parse a sort as sent to the API, e.g. "-priority,dueDate", ignoring unknown fields
+ */
+export const parseSort = (value: string): SortKey[] =>
+  value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part): SortKey => ({
+      field: part.replace(/^-/, '') as SortField,
+      direction: part.startsWith('-') ? 'desc' : 'asc',
+    }))
+    .filter((key) => SORT_FIELDS.some((option) => option.field === key.field))
+    .slice(0, MAX_SORT_KEYS);
+
+export const formatSort = (keys: SortKey[]): string =>
+  keys.map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field)).join(',');
+
+/**
+ * Sort by a field first: reverses it when it already comes first, otherwise
+ * moves it in front of the other keys with its default direction
+ */
+export const sortFirstBy = (keys: SortKey[], field: SortField): SortKey[] => {
+  if (keys[0]?.field === field) {
+    return [{ field, direction: keys[0].direction === 'asc' ? 'desc' : 'asc' }, ...keys.slice(1)];
+  }
+  const direction = SORT_FIELDS.find((option) => option.field === field)!.defaultDirection;
+  return [{ field, direction }, ...keys.filter((key) => key.field !== field)].slice(0, MAX_SORT_KEYS);
+};
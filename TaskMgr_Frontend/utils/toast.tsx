@@ -43,4 +43,29 @@ export const showWarning = (message: string) => {
     style: defaultStyle,
     duration: 4000,
   });
-};
\ No newline at end of file
+};
+
+// Success toast with an Undo button, kept longer so there is time to use it
+export const showUndo = (message: string, onUndo: () => void) => {
+  toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button
+          onClick={() => {
+            toast.dismiss(t.id);
+            onUndo();
+          }}
+          className="font-semibold text-primary hover:underline"
+        >
+          Undo
+        </button>
+      </span>
+    ),
+    {
+      icon: <CheckCircle2 className="w-5 h-5 text-green-500" />,
+      style: defaultStyle,
+      duration: 6000,
+    }
+  );
+};
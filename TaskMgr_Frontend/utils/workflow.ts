@@ -0,0 +1,58 @@
+import { BadgeVariant } from '../components/ui/Badge';
+import { StatusCategory, StatusColor, Workflow, WorkflowStatus } from '../types/workflow.types';
+
+export const STATUS_BADGE_VARIANTS: Record<StatusColor, BadgeVariant> = {
+  gray: 'neutral',
+  blue: 'default',
+  purple: 'info',
+  amber: 'warning',
+  green: 'success',
+  red: 'danger',
+};
+
+const CATEGORY_COLORS: Record<StatusCategory, StatusColor> = {
+  TODO: 'gray',
+  ACTIVE: 'blue',
+  DONE: 'green',
+};
+
+// Border of the board column of each status
+export const STATUS_ACCENTS: Record<StatusColor, string> = {
+  gray: 'border-gray-400',
+  blue: 'border-blue-500',
+  purple: 'border-purple-500',
+  amber: 'border-amber-500',
+  green: 'border-green-500',
+  red: 'border-red-500',
+};
+
+/**
+ * Status shown for a key the workflow does not list, while it loads or when
+ * it cannot be read: the key in words, colored by its category
+ */
+export const fallbackStatus = (key: string, category: StatusCategory = 'TODO'): WorkflowStatus => ({
+  key,
+  name: key
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' '),
+  category,
+  color: CATEGORY_COLORS[category],
+});
+
+/**
+ * Statuses a task can move to from its current status, including the current one
+ * Transitions restricted to some actors are listed, the server checks the user
+ */
+export const reachableStatuses = (workflow: Workflow, from?: string): WorkflowStatus[] => {
+  if (!from || workflow.transitions.length === 0) {
+    return workflow.statuses;
+  }
+
+  return workflow.statuses.filter(
+    (status) =>
+      status.key === from ||
+      workflow.transitions.some((transition) => transition.from === from && transition.to === status.key)
+  );
+};